@@ -0,0 +1,304 @@
+/**
+ * /api/filter-presets/[id] API Route
+ *
+ * Updates or deletes a single filter preset in the "Filter Presets" sheet tab.
+ * - PATCH updates any of the preset's fields (e.g., to overwrite its filters)
+ * - DELETE removes the preset
+ *
+ * @module api/filter-presets/[id]
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type {
+  UpdateFilterPresetRequest,
+  FilterPresetResponse,
+  DeleteFilterPresetResponse,
+  ErrorResponse,
+} from '@/types/api';
+import type { FilterPreset, FilterPresetUpdate } from '@/types/filter-preset';
+import { getAllFilterPresets, updateFilterPreset, deleteFilterPreset } from '@/services/sheets.service';
+import { validateFilterPresetRequest } from '@/lib/filter-preset-validation';
+
+/**
+ * Parses and validates the filter preset ID from the URL params.
+ *
+ * @param idString - Raw ID from the URL
+ * @returns Filter preset ID, or an error response if the ID is invalid
+ */
+function parseFilterPresetId(idString: string): number | NextResponse {
+  const id = parseInt(idString, 10);
+
+  if (isNaN(id) || id < 2) {
+    console.warn(`[API] Invalid filter preset ID: ${idString}`);
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Invalid filter preset ID. Must be an integer of at least 2.',
+      details: `Received ID: ${idString}`,
+      statusCode: 400,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 400,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  return id;
+}
+
+/**
+ * Builds the 404 response for a filter preset that does not exist.
+ *
+ * @param id - Requested filter preset ID
+ * @returns Not found error response
+ */
+function filterPresetNotFoundResponse(id: number): NextResponse {
+  const errorResponse: ErrorResponse = {
+    success: false,
+    error: 'Filter preset not found',
+    details: `No filter preset exists with ID ${id}`,
+    statusCode: 404,
+  };
+
+  return NextResponse.json(errorResponse, {
+    status: 404,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+/**
+ * Handles PATCH requests to update a filter preset.
+ *
+ * @param request - Next.js request object
+ * @param context - Route context with params
+ * @returns JSON response with updated filter preset or error
+ *
+ * @example
+ * // Request body:
+ * {
+ *   "statuses": ["Follow-up"],
+ *   "territory": "South"
+ * }
+ *
+ * @example
+ * // Success response (200):
+ * {
+ *   "success": true,
+ *   "preset": { "id": 2, "name": "My hot leads", "statuses": ["Follow-up"], "territory": "South", ... }
+ * }
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    // Await params (Next.js 15 requirement)
+    const params = await context.params;
+    const id = parseFilterPresetId(params.id);
+    if (id instanceof NextResponse) {
+      return id;
+    }
+
+    // Parse request body
+    let body: UpdateFilterPresetRequest;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      console.error('[API] Failed to parse request body:', parseError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: 'Invalid JSON in request body',
+        details: parseError instanceof Error ? parseError.message : 'Parse error',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    // Validate request body
+    const validationError = validateFilterPresetRequest(body, false);
+    if (validationError) {
+      console.warn(`[API] Validation error for filter preset ${id}:`, validationError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: validationError,
+        details: 'Request validation failed',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    console.log(`[API] PATCH /api/filter-presets/${id}`, body);
+
+    // Cast body to proper type after validation
+    const updates: FilterPresetUpdate = {
+      ...(body.rep !== undefined && { rep: body.rep.trim() }),
+      ...(body.name !== undefined && { name: body.name.trim() }),
+      ...(body.statuses !== undefined && { statuses: body.statuses }),
+      ...(body.followUpFilter !== undefined && {
+        followUpFilter: {
+          preset: body.followUpFilter.preset,
+          customStart: body.followUpFilter.customStart,
+          customEnd: body.followUpFilter.customEnd,
+        },
+      }),
+      ...(body.territory !== undefined && { territory: body.territory.trim() }),
+      ...(body.searchText !== undefined && { searchText: body.searchText.trim() }),
+    };
+
+    // Renames (or moves to another rep) must not collide with another of the rep's presets
+    if (updates.name !== undefined || updates.rep !== undefined) {
+      const existing = await getAllFilterPresets();
+      const current = existing.find((preset) => preset.id === id);
+      if (!current) {
+        return filterPresetNotFoundResponse(id);
+      }
+
+      const rep = (updates.rep ?? current.rep).toLowerCase();
+      const name = updates.name ?? current.name;
+      if (existing.some(
+        (other) =>
+          other.id !== id &&
+          other.rep.toLowerCase() === rep &&
+          other.name.toLowerCase() === name.toLowerCase()
+      )) {
+        const errorResponse: ErrorResponse = {
+          success: false,
+          error: `A filter preset named "${name}" already exists`,
+          details: 'Preset names must be unique for each rep',
+          statusCode: 409,
+        };
+
+        return NextResponse.json(errorResponse, {
+          status: 409,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        });
+      }
+    }
+
+    let preset: FilterPreset;
+    try {
+      preset = await updateFilterPreset(id, updates);
+    } catch (updateError) {
+      if (updateError instanceof Error && updateError.message.includes('not found')) {
+        return filterPresetNotFoundResponse(id);
+      }
+      throw updateError;
+    }
+
+    const response: FilterPresetResponse = {
+      success: true,
+      preset,
+    };
+
+    console.log(`[API] Successfully updated filter preset ${id}`);
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in PATCH /api/filter-presets/[id]:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to update filter preset. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
+
+/**
+ * Handles DELETE requests to remove a filter preset.
+ *
+ * @param _request - Next.js request object (unused)
+ * @param context - Route context with params
+ * @returns JSON response confirming the delete or error
+ *
+ * @example
+ * // Success response (200):
+ * {
+ *   "success": true,
+ *   "id": 2
+ * }
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const params = await context.params;
+    const id = parseFilterPresetId(params.id);
+    if (id instanceof NextResponse) {
+      return id;
+    }
+
+    console.log(`[API] DELETE /api/filter-presets/${id}`);
+
+    try {
+      await deleteFilterPreset(id);
+    } catch (deleteError) {
+      if (deleteError instanceof Error && deleteError.message.includes('not found')) {
+        return filterPresetNotFoundResponse(id);
+      }
+      throw deleteError;
+    }
+
+    const response: DeleteFilterPresetResponse = {
+      success: true,
+      id,
+    };
+
+    console.log(`[API] Successfully deleted filter preset ${id}`);
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in DELETE /api/filter-presets/[id]:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to delete filter preset. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
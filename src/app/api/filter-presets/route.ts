@@ -0,0 +1,222 @@
+/**
+ * /api/filter-presets API Route
+ *
+ * Lists and saves reps' named filter presets stored in the
+ * "Filter Presets" sheet tab.
+ * - GET lists saved presets, optionally filtered by rep
+ * - POST saves a new preset
+ *
+ * @module api/filter-presets
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type {
+  CreateFilterPresetRequest,
+  GetFilterPresetsResponse,
+  FilterPresetResponse,
+  ErrorResponse,
+} from '@/types/api';
+import { getAllFilterPresets, createFilterPreset } from '@/services/sheets.service';
+import { validateFilterPresetRequest } from '@/lib/filter-preset-validation';
+
+/**
+ * Handles GET requests to list filter presets.
+ *
+ * Query parameters (optional):
+ * - rep: only presets of this rep (case-insensitive)
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with presets array or error
+ *
+ * @example
+ * // GET /api/filter-presets?rep=Alex
+ * // Success response (200):
+ * {
+ *   "presets": [
+ *     {
+ *       "id": 2,
+ *       "rep": "Alex",
+ *       "name": "My hot leads",
+ *       "statuses": ["Follow-up", "Revisit"],
+ *       "followUpFilter": { "preset": "this-week", "customStart": "", "customEnd": "" },
+ *       "territory": "North",
+ *       "searchText": ""
+ *     }
+ *   ]
+ * }
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const rep = request.nextUrl.searchParams.get('rep')?.trim().toLowerCase();
+
+    console.log('[API] GET /api/filter-presets', { rep });
+
+    const presets = (await getAllFilterPresets()).filter(
+      (preset) => !rep || preset.rep.toLowerCase() === rep
+    );
+
+    const response: GetFilterPresetsResponse = { presets };
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in GET /api/filter-presets:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to load filter presets. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
+
+/**
+ * Handles POST requests to save a new filter preset.
+ * Preset names must be unique per rep (case-insensitive).
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with the saved preset (201) or error
+ *
+ * @example
+ * // Request body:
+ * {
+ *   "rep": "Alex",
+ *   "name": "Cold revisits",
+ *   "statuses": ["Revisit"],
+ *   "followUpFilter": { "preset": "overdue", "customStart": "", "customEnd": "" },
+ *   "territory": "",
+ *   "searchText": ""
+ * }
+ *
+ * @example
+ * // Success response (201):
+ * {
+ *   "success": true,
+ *   "preset": { "id": 3, "rep": "Alex", "name": "Cold revisits", ... }
+ * }
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Parse request body
+    let body: CreateFilterPresetRequest;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      console.error('[API] Failed to parse request body:', parseError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: 'Invalid JSON in request body',
+        details: parseError instanceof Error ? parseError.message : 'Parse error',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    // Validate request body
+    const validationError = validateFilterPresetRequest(body, true);
+    if (validationError) {
+      console.warn('[API] Validation error for new filter preset:', validationError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: validationError,
+        details: 'Request validation failed',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const rep = body.rep.trim();
+    const name = body.name.trim();
+
+    // Reps pick presets by name, so a rep can't have two with the same name
+    const existing = await getAllFilterPresets();
+    if (existing.some(
+      (preset) =>
+        preset.rep.toLowerCase() === rep.toLowerCase() &&
+        preset.name.toLowerCase() === name.toLowerCase()
+    )) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: `A filter preset named "${name}" already exists`,
+        details: 'Preset names must be unique for each rep',
+        statusCode: 409,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 409,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    console.log(`[API] POST /api/filter-presets "${name}" for ${rep}`);
+
+    const preset = await createFilterPreset({
+      rep,
+      name,
+      statuses: body.statuses,
+      followUpFilter: {
+        preset: body.followUpFilter.preset,
+        customStart: body.followUpFilter.customStart,
+        customEnd: body.followUpFilter.customEnd,
+      },
+      territory: body.territory?.trim() ?? '',
+      searchText: body.searchText?.trim() ?? '',
+    });
+
+    const response: FilterPresetResponse = {
+      success: true,
+      preset,
+    };
+
+    console.log(`[API] Successfully saved filter preset ${preset.id}`);
+
+    return NextResponse.json(response, {
+      status: 201,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in POST /api/filter-presets:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to save filter preset. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
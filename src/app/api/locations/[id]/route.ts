@@ -14,69 +14,8 @@ import type {
   ErrorResponse,
 } from '@/types/api';
 import type { Location } from '@/types/location';
-import { isValidStatus } from '@/types/location';
 import { updateLocation } from '@/services/sheets.service';
-
-/**
- * Validates the update request body.
- *
- * @param body - Request body to validate
- * @returns Validation error message or null if valid
- */
-function validateUpdateRequest(body: UpdateLocationRequest): string | null {
-  // At least one field must be provided
-  if (body.status === undefined && body.notes === undefined && body.followUpDate === undefined) {
-    return 'At least one field (status, notes, or followUpDate) must be provided';
-  }
-
-  // Validate status if provided
-  if (body.status !== undefined) {
-    if (typeof body.status !== 'string') {
-      return 'Status must be a string';
-    }
-
-    if (!isValidStatus(body.status)) {
-      return `Invalid status value. Must be one of: Prospect, Customer, Follow-up, Not interested, Revisit, Not applicable, Location not found`;
-    }
-  }
-
-  // Validate notes if provided
-  if (body.notes !== undefined) {
-    if (typeof body.notes !== 'string') {
-      return 'Notes must be a string';
-    }
-
-    // Optional: Add max length validation
-    const MAX_NOTES_LENGTH = 500;
-    if (body.notes.length > MAX_NOTES_LENGTH) {
-      return `Notes must be ${MAX_NOTES_LENGTH} characters or less`;
-    }
-  }
-
-  // Validate followUpDate if provided
-  if (body.followUpDate !== undefined) {
-    // Allow empty string or valid date in YYYY-MM-DD format
-    if (body.followUpDate !== '' && typeof body.followUpDate !== 'string') {
-      return 'Follow-up date must be a string in YYYY-MM-DD format';
-    }
-
-    // Validate date format if not empty
-    if (body.followUpDate !== '') {
-      const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
-      if (!dateRegex.test(body.followUpDate)) {
-        return 'Follow-up date must be in YYYY-MM-DD format';
-      }
-
-      // Validate that it's a valid date
-      const date = new Date(body.followUpDate);
-      if (isNaN(date.getTime())) {
-        return 'Follow-up date must be a valid date';
-      }
-    }
-  }
-
-  return null;
-}
+import { validateUpdateLocationRequest } from '@/lib/location-validation';
 
 /**
  * Handles PATCH requests to update a location.
@@ -184,7 +123,7 @@ export async function PATCH(
     }
 
     // Validate request body
-    const validationError = validateUpdateRequest(body);
+    const validationError = validateUpdateLocationRequest(body);
     if (validationError) {
       console.warn(`[API] Validation error for location ${id}:`, validationError);
       const errorResponse: ErrorResponse = {
@@ -0,0 +1,121 @@
+/**
+ * POST /api/locations/assignments API Route
+ *
+ * Writes the "Assigned To" rep for many locations in one batch, used when a
+ * manager accepts a territory balancing split.
+ *
+ * @module api/locations/assignments
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type {
+  AssignLocationsRequest,
+  AssignLocationsResponse,
+  ErrorResponse,
+} from '@/types/api';
+import { updateLocationAssignments } from '@/services/sheets.service';
+import { validateAssignLocationsRequest } from '@/lib/assignment-validation';
+
+/**
+ * Handles POST requests to assign locations to reps.
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with the number of locations written or error
+ *
+ * @example
+ * // Request body:
+ * {
+ *   "assignments": [
+ *     { "id": 2, "assignedTo": "Alex" },
+ *     { "id": 3, "assignedTo": "Sam" }
+ *   ]
+ * }
+ *
+ * @example
+ * // Success response (200):
+ * {
+ *   "success": true,
+ *   "updated": 2,
+ *   "notFound": []
+ * }
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Parse request body
+    let body: AssignLocationsRequest;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      console.error('[API] Failed to parse request body:', parseError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: 'Invalid JSON in request body',
+        details: parseError instanceof Error ? parseError.message : 'Parse error',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    // Validate request body
+    const validationError = validateAssignLocationsRequest(body);
+    if (validationError) {
+      console.warn('[API] Validation error for location assignments:', validationError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: validationError,
+        details: 'Request validation failed',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    console.log(`[API] POST /api/locations/assignments for ${body.assignments.length} locations`);
+
+    const notFound = await updateLocationAssignments(
+      body.assignments.map(({ id, assignedTo }) => ({ id, assignedTo: assignedTo.trim() }))
+    );
+
+    const response: AssignLocationsResponse = {
+      success: true,
+      updated: body.assignments.length - notFound.length,
+      notFound,
+    };
+
+    console.log(`[API] Assigned ${response.updated} locations, ${notFound.length} not found`);
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in POST /api/locations/assignments:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to save assignments. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
@@ -1,16 +1,47 @@
 /**
- * GET /api/locations API Route
+ * GET, POST and PATCH /api/locations API Route
  *
- * This endpoint fetches all locations from Google Sheets, geocodes any missing
+ * GET fetches all locations from Google Sheets, geocodes any missing
  * coordinates, updates the sheet with new coordinates, and returns all locations.
+ * Each location is placed in the territory polygon containing it, and the
+ * list can be narrowed to one territory with `?territory=`.
+ *
+ * POST adds a new location row, geocoding its address first so the new
+ * marker can be placed on the map straight away.
+ *
+ * PATCH updates the status, notes or follow-up date of many locations in
+ * one sheet write, reporting success or failure per location.
  *
  * @module api/locations
  */
 
-import { NextResponse } from 'next/server';
-import type { GetLocationsResponse, ErrorResponse } from '@/types/api';
-import { getAllLocations, updateLocationCoordinates } from '@/services/sheets.service';
-import { geocodeAddress } from '@/services/geocoding.service';
+import { NextRequest, NextResponse } from 'next/server';
+import type {
+  GetLocationsResponse,
+  CreateLocationRequest,
+  CreateLocationResponse,
+  UpdateLocationsRequest,
+  UpdateLocationsResponse,
+  ErrorResponse,
+} from '@/types/api';
+import type { LocationBatchResult, LocationStatus } from '@/types/location';
+import { getDefaultStatus } from '@/types/location';
+import type { Territory } from '@/types/territory';
+import {
+  createLocation,
+  getAllLocations,
+  getAllTerritories,
+  updateLocationCoordinates,
+  updateLocations,
+} from '@/services/sheets.service';
+import { geocodeAddress, geocodeAddressDetailed } from '@/services/geocoding.service';
+import { assignTerritories } from '@/lib/geometry';
+import {
+  validateCreateLocationRequest,
+  validateUpdateLocationRequest,
+  validateUpdateLocationsRequest,
+} from '@/lib/location-validation';
+import { TERRITORY_CONFIG } from '@/lib/constants';
 
 /**
  * In-memory lock to prevent concurrent geocoding operations.
@@ -89,7 +120,12 @@ async function processGeocodingQueue(): Promise<void> {
  * 2. Check if any locations are missing lat/lng coordinates
  * 3. For locations missing coordinates, use geocoding service to get them
  * 4. Update Google Sheets with newly geocoded coordinates
- * 5. Return all locations with complete coordinate data
+ * 5. Place each location in its territory and apply the territory filter
+ * 6. Return all locations with complete coordinate data
+ *
+ * Query parameters (optional):
+ * - territory: only locations in this territory (case-insensitive),
+ *   or "unassigned" for locations outside every territory
  *
  * @param request - Next.js request object
  * @returns JSON response with locations array or error
@@ -123,9 +159,11 @@ async function processGeocodingQueue(): Promise<void> {
  *   }
  * }
  */
-export async function GET(): Promise<NextResponse> {
+export async function GET(request: NextRequest): Promise<NextResponse> {
   try {
-    console.log('[API] GET /api/locations - Fetching locations from Google Sheets');
+    const territoryFilter = request.nextUrl.searchParams.get('territory')?.trim().toLowerCase();
+
+    console.log('[API] GET /api/locations - Fetching locations from Google Sheets', { territory: territoryFilter });
 
     // Fetch all locations from Google Sheets
     const locations = await getAllLocations();
@@ -245,12 +283,34 @@ export async function GET(): Promise<NextResponse> {
       });
     }
 
+    // Place locations in territories. A missing territories tab only matters when filtering.
+    let territories: Territory[] = [];
+    try {
+      territories = await getAllTerritories();
+    } catch (territoryError) {
+      if (territoryFilter) {
+        throw territoryError;
+      }
+      console.warn(
+        '[API] Territories unavailable, returning locations without territories:',
+        territoryError instanceof Error ? territoryError.message : territoryError
+      );
+    }
+
+    const placedLocations = assignTerritories(locations, territories).filter(
+      (location) =>
+        !territoryFilter ||
+        (territoryFilter === TERRITORY_CONFIG.UNASSIGNED
+          ? !location.territory
+          : location.territory?.toLowerCase() === territoryFilter)
+    );
+
     // Return successful response with locations
     const response: GetLocationsResponse = {
-      locations: locations,
+      locations: placedLocations,
     };
 
-    console.log(`[API] Successfully fetched ${locations.length} locations`);
+    console.log(`[API] Successfully fetched ${placedLocations.length} locations`);
 
     // Start background processing if there are locations needing geocoding
     // and no background process is already running
@@ -295,3 +355,313 @@ export async function GET(): Promise<NextResponse> {
     });
   }
 }
+
+/**
+ * Handles POST requests to add a new location.
+ *
+ * Flow:
+ * 1. Parse and validate the request body
+ * 2. Geocode the address (the row is not added if geocoding fails)
+ * 3. Append the location to Google Sheets via sheets service
+ * 4. Return the new location, placed in its territory
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with the new location or error
+ *
+ * @example
+ * // Request body:
+ * {
+ *   "companyName": "Acme Corp",
+ *   "address": "123 Main St, Springfield, IL",
+ *   "status": "Prospect",
+ *   "notes": "Walk-in lead"
+ * }
+ *
+ * @example
+ * // Success response (201):
+ * {
+ *   "success": true,
+ *   "location": {
+ *     "id": 42,
+ *     "companyName": "Acme Corp",
+ *     "address": "123 Main St, Springfield, IL",
+ *     "status": "Prospect",
+ *     "notes": "Walk-in lead",
+ *     "lat": 39.7817,
+ *     "lng": -89.6501
+ *   }
+ * }
+ *
+ * @example
+ * // Error response (422), address not found:
+ * {
+ *   "success": false,
+ *   "error": "Address could not be found. Please check it and try again.",
+ *   "details": "No results found for this address",
+ *   "statusCode": 422
+ * }
+ *
+ * @example
+ * // Error response (503), geocoding quota exceeded or API key missing
+ * // (502 when the Geocoding API request itself fails):
+ * {
+ *   "success": false,
+ *   "error": "Unable to look up the address right now. Please try again later.",
+ *   "details": "Geocoding quota exceeded. Please try again later.",
+ *   "statusCode": 503
+ * }
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Parse request body
+    let body: CreateLocationRequest;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      console.error('[API] Failed to parse request body:', parseError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: 'Invalid JSON in request body',
+        details: parseError instanceof Error ? parseError.message : 'Parse error',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    // Validate request body
+    const validationError = validateCreateLocationRequest(body);
+    if (validationError) {
+      console.warn('[API] Validation error for new location:', validationError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: validationError,
+        details: 'Request validation failed',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const companyName = body.companyName.trim();
+    const address = body.address.trim();
+
+    console.log(`[API] POST /api/locations - Adding ${companyName}`);
+
+    // Geocode before adding the row so unplaceable addresses never reach the sheet
+    const geocoded = await geocodeAddressDetailed(address);
+    if (!geocoded.success || !geocoded.coordinates) {
+      console.warn(`[API] Failed to geocode new location address "${address}": ${geocoded.error}`);
+
+      // Only a bad address is the rep's to fix; outages and upstream errors can be retried
+      const statusCode =
+        geocoded.failure === 'address' ? 422 : geocoded.failure === 'unavailable' ? 503 : 502;
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: statusCode === 422
+          ? 'Address could not be found. Please check it and try again.'
+          : 'Unable to look up the address right now. Please try again later.',
+        details: geocoded.error || 'Geocoding failed',
+        statusCode,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const location = await createLocation({
+      companyName,
+      address,
+      status: (body.status as LocationStatus | undefined) ?? getDefaultStatus(),
+      notes: body.notes ?? '',
+      lat: geocoded.coordinates.lat,
+      lng: geocoded.coordinates.lng,
+      followUpDate: body.followUpDate || undefined,
+    });
+
+    // Place the location in its territory; a missing territories tab leaves it unassigned
+    let territories: Territory[] = [];
+    try {
+      territories = await getAllTerritories();
+    } catch (territoryError) {
+      console.warn(
+        '[API] Territories unavailable, returning location without territory:',
+        territoryError instanceof Error ? territoryError.message : territoryError
+      );
+    }
+    const [placedLocation] = assignTerritories([location], territories);
+
+    const response: CreateLocationResponse = {
+      success: true,
+      location: placedLocation,
+    };
+
+    console.log(`[API] Added location ${location.id}: ${companyName} (${location.lat}, ${location.lng})`);
+
+    return NextResponse.json(response, {
+      status: 201,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in POST /api/locations:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to add location. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
+
+/**
+ * Handles PATCH requests to update many locations at once.
+ *
+ * Flow:
+ * 1. Parse the request body and check it is an array of updates with distinct IDs
+ * 2. Validate each update's fields (invalid items fail on their own)
+ * 3. Write the valid updates in one batch via sheets service
+ * 4. Return the outcome of every update, in request order
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with per-location results or error
+ *
+ * @example
+ * // Request body:
+ * [
+ *   { "id": 2, "status": "Revisit" },
+ *   { "id": 3, "followUpDate": "2025-11-03" },
+ *   { "id": 99, "notes": "Dropped off brochure" }
+ * ]
+ *
+ * @example
+ * // Success response (200), with one row missing:
+ * {
+ *   "success": true,
+ *   "results": [
+ *     { "id": 2, "success": true, "location": { ... } },
+ *     { "id": 3, "success": true, "location": { ... } },
+ *     { "id": 99, "success": false, "error": "Location with ID 99 not found" }
+ *   ],
+ *   "updated": 2,
+ *   "failed": 1
+ * }
+ */
+export async function PATCH(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Parse request body
+    let body: UpdateLocationsRequest;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      console.error('[API] Failed to parse request body:', parseError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: 'Invalid JSON in request body',
+        details: parseError instanceof Error ? parseError.message : 'Parse error',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    // Validate request body
+    const validationError = validateUpdateLocationsRequest(body);
+    if (validationError) {
+      console.warn('[API] Validation error for bulk location update:', validationError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: validationError,
+        details: 'Request validation failed',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    console.log(`[API] PATCH /api/locations for ${body.length} locations`);
+
+    // Write the updates whose fields are valid
+    const fieldErrors = body.map((item) => validateUpdateLocationRequest(item));
+    const written = await updateLocations(
+      body
+        .filter((_, index) => fieldErrors[index] === null)
+        .map(({ id, status, notes, followUpDate }) => ({ id, status, notes, followUpDate }))
+    );
+
+    // Merge the field errors back in, keeping the request order
+    let writtenIndex = 0;
+    const results = body.map((item, index): LocationBatchResult => {
+      const fieldError = fieldErrors[index];
+      return fieldError
+        ? { id: item.id, success: false, error: fieldError }
+        : written[writtenIndex++];
+    });
+
+    const updated = results.filter((result) => result.success).length;
+    const response: UpdateLocationsResponse = {
+      success: true,
+      results,
+      updated,
+      failed: results.length - updated,
+    };
+
+    console.log(`[API] Bulk update: ${updated} updated, ${response.failed} failed`);
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in PATCH /api/locations:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to update locations. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * GET /api/reports/mileage API Route
+ *
+ * Mileage reimbursement report computed from the "Visits" sheet tab.
+ * Returns per-rep driven distance for a date range, as JSON or as CSV
+ * for finance. Distances are straight-line estimates between consecutive
+ * visits on the same day.
+ *
+ * @module api/reports/mileage
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { MileageReportResponse, ErrorResponse } from '@/types/api';
+import { getAllVisits } from '@/services/sheets.service';
+import { buildMileageReport, mileageReportToCsv } from '@/lib/mileage';
+import { createHaversineEstimator } from '@/lib/travel-estimators';
+import { isValidIsoDate } from '@/lib/route-validation';
+import { config } from '@/lib/config';
+
+/**
+ * Builds a 400 response for invalid query parameters.
+ *
+ * @param error - Validation error message
+ * @returns Bad request error response
+ */
+function badRequestResponse(error: string): NextResponse {
+  console.warn('[API] Invalid mileage report request:', error);
+  const errorResponse: ErrorResponse = {
+    success: false,
+    error,
+    details: 'Request validation failed',
+    statusCode: 400,
+  };
+
+  return NextResponse.json(errorResponse, {
+    status: 400,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+/**
+ * Handles GET requests for the mileage report.
+ *
+ * Query parameters:
+ * - from: first date of the period (YYYY-MM-DD, required)
+ * - to: last date of the period (YYYY-MM-DD, required)
+ * - rep: only this rep (optional, case-insensitive)
+ * - format: "json" (default) or "csv"
+ *
+ * @param request - Next.js request object
+ * @returns JSON or CSV mileage report, or error
+ *
+ * @example
+ * // GET /api/reports/mileage?from=2025-10-01&to=2025-10-31
+ * // Success response (200):
+ * {
+ *   "from": "2025-10-01",
+ *   "to": "2025-10-31",
+ *   "method": "Straight-line estimate",
+ *   "ratePerKm": 0.3,
+ *   "reps": [
+ *     {
+ *       "rep": "Alex",
+ *       "visitCount": 6,
+ *       "totalKm": 42.5,
+ *       "reimbursement": 12.75,
+ *       "days": [{ "date": "2025-10-13", "visitCount": 6, "distanceKm": 42.5, "reimbursement": 12.75 }]
+ *     }
+ *   ]
+ * }
+ *
+ * @example
+ * // GET /api/reports/mileage?from=2025-10-01&to=2025-10-31&format=csv
+ * // Success response (200, text/csv):
+ * // Rep,Date,Visits,Distance (km),Reimbursement
+ * // Alex,2025-10-13,6,42.5,12.75
+ * // Alex,Total,6,42.5,12.75
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const from = searchParams.get('from') ?? '';
+    const to = searchParams.get('to') ?? '';
+    const rep = searchParams.get('rep')?.trim().toLowerCase();
+    const format = searchParams.get('format') ?? 'json';
+
+    if (!isValidIsoDate(from) || !isValidIsoDate(to)) {
+      return badRequestResponse('from and to are required dates in YYYY-MM-DD format');
+    }
+    if (from > to) {
+      return badRequestResponse('from must not be after to');
+    }
+    if (format !== 'json' && format !== 'csv') {
+      return badRequestResponse('format must be "json" or "csv"');
+    }
+
+    console.log('[API] GET /api/reports/mileage', { from, to, rep, format });
+
+    const visits = (await getAllVisits()).filter(
+      (visit) => !rep || visit.rep.toLowerCase() === rep
+    );
+
+    const report: MileageReportResponse = await buildMileageReport(visits, {
+      from,
+      to,
+      estimator: createHaversineEstimator(),
+      ratePerKm: config.mileage.ratePerKm,
+    });
+
+    console.log(`[API] Mileage report covers ${report.reps.length} reps`);
+
+    if (format === 'csv') {
+      return new NextResponse(mileageReportToCsv(report), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="mileage-${from}-to-${to}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(report, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in GET /api/reports/mileage:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to build mileage report. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
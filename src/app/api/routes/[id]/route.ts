@@ -0,0 +1,271 @@
+/**
+ * /api/routes/[id] API Route
+ *
+ * Updates or deletes a single saved route in the "Routes" sheet tab.
+ * - PATCH updates any of date, rep, locationIds, start and status
+ * - DELETE removes the route
+ *
+ * @module api/routes/[id]
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type {
+  UpdateRouteRequest,
+  RouteResponse,
+  DeleteRouteResponse,
+  ErrorResponse,
+} from '@/types/api';
+import type { Route, RouteStatus, RouteUpdate } from '@/types/route';
+import { updateRoute, deleteRoute } from '@/services/sheets.service';
+import { validateRouteRequest } from '@/lib/route-validation';
+
+/**
+ * Parses and validates the route ID from the URL params.
+ *
+ * @param idString - Raw ID from the URL
+ * @returns Route ID, or an error response if the ID is invalid
+ */
+function parseRouteId(idString: string): number | NextResponse {
+  const id = parseInt(idString, 10);
+
+  if (isNaN(id) || id < 2) {
+    console.warn(`[API] Invalid route ID: ${idString}`);
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Invalid route ID. Must be an integer of at least 2.',
+      details: `Received ID: ${idString}`,
+      statusCode: 400,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 400,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  return id;
+}
+
+/**
+ * Builds the 404 response for a route that does not exist.
+ *
+ * @param id - Requested route ID
+ * @returns Not found error response
+ */
+function routeNotFoundResponse(id: number): NextResponse {
+  const errorResponse: ErrorResponse = {
+    success: false,
+    error: 'Route not found',
+    details: `No route exists with ID ${id}`,
+    statusCode: 404,
+  };
+
+  return NextResponse.json(errorResponse, {
+    status: 404,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+/**
+ * Handles PATCH requests to update a saved route.
+ *
+ * @param request - Next.js request object
+ * @param context - Route context with params
+ * @returns JSON response with updated route or error
+ *
+ * @example
+ * // Request body:
+ * {
+ *   "status": "in progress"
+ * }
+ *
+ * @example
+ * // Success response (200):
+ * {
+ *   "success": true,
+ *   "route": { "id": 4, ..., "status": "in progress" }
+ * }
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    // Await params (Next.js 15 requirement)
+    const params = await context.params;
+    const id = parseRouteId(params.id);
+    if (id instanceof NextResponse) {
+      return id;
+    }
+
+    // Parse request body
+    let body: UpdateRouteRequest;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      console.error('[API] Failed to parse request body:', parseError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: 'Invalid JSON in request body',
+        details: parseError instanceof Error ? parseError.message : 'Parse error',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    // Validate request body
+    const validationError = validateRouteRequest(body, false);
+    if (validationError) {
+      console.warn(`[API] Validation error for route ${id}:`, validationError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: validationError,
+        details: 'Request validation failed',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    console.log(`[API] PATCH /api/routes/${id}`, body);
+
+    // Cast body to proper type after validation
+    const updates: RouteUpdate = {
+      ...(body.date !== undefined && { date: body.date }),
+      ...(body.rep !== undefined && { rep: body.rep.trim() }),
+      ...(body.locationIds !== undefined && { locationIds: body.locationIds }),
+      ...(body.start !== undefined && {
+        start: {
+          type: body.start.type,
+          label: body.start.label,
+          lat: body.start.lat,
+          lng: body.start.lng,
+        },
+      }),
+      ...(body.status !== undefined && { status: body.status as RouteStatus }),
+    };
+
+    let route: Route;
+    try {
+      route = await updateRoute(id, updates);
+    } catch (updateError) {
+      if (updateError instanceof Error && updateError.message.includes('not found')) {
+        return routeNotFoundResponse(id);
+      }
+      throw updateError;
+    }
+
+    const response: RouteResponse = {
+      success: true,
+      route,
+    };
+
+    console.log(`[API] Successfully updated route ${id}`);
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in PATCH /api/routes/[id]:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to update route. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
+
+/**
+ * Handles DELETE requests to remove a saved route.
+ *
+ * @param _request - Next.js request object (unused)
+ * @param context - Route context with params
+ * @returns JSON response confirming the delete or error
+ *
+ * @example
+ * // Success response (200):
+ * {
+ *   "success": true,
+ *   "id": 4
+ * }
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const params = await context.params;
+    const id = parseRouteId(params.id);
+    if (id instanceof NextResponse) {
+      return id;
+    }
+
+    console.log(`[API] DELETE /api/routes/${id}`);
+
+    try {
+      await deleteRoute(id);
+    } catch (deleteError) {
+      if (deleteError instanceof Error && deleteError.message.includes('not found')) {
+        return routeNotFoundResponse(id);
+      }
+      throw deleteError;
+    }
+
+    const response: DeleteRouteResponse = {
+      success: true,
+      id,
+    };
+
+    console.log(`[API] Successfully deleted route ${id}`);
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in DELETE /api/routes/[id]:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to delete route. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * /api/routes API Route
+ *
+ * Lists and saves day plans stored in the "Routes" sheet tab.
+ * - GET lists saved routes, optionally filtered by date and rep
+ * - POST saves a new route
+ *
+ * @module api/routes
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type {
+  CreateRouteRequest,
+  GetRoutesResponse,
+  RouteResponse,
+  ErrorResponse,
+} from '@/types/api';
+import type { RouteStatus } from '@/types/route';
+import { getAllRoutes, createRoute } from '@/services/sheets.service';
+import { validateRouteRequest } from '@/lib/route-validation';
+
+/**
+ * Handles GET requests to list saved routes.
+ *
+ * Query parameters (all optional):
+ * - date: only routes planned for this date (YYYY-MM-DD)
+ * - rep: only routes for this rep (case-insensitive)
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with routes array or error
+ *
+ * @example
+ * // GET /api/routes?date=2025-10-13&rep=Alex
+ * // Success response (200):
+ * {
+ *   "routes": [
+ *     {
+ *       "id": 4,
+ *       "date": "2025-10-13",
+ *       "rep": "Alex",
+ *       "locationIds": [5, 12, 9],
+ *       "start": { "type": "home-base", "label": "Home Base", "lat": 40.71, "lng": -74.0 },
+ *       "status": "planned"
+ *     }
+ *   ]
+ * }
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const date = request.nextUrl.searchParams.get('date');
+    const rep = request.nextUrl.searchParams.get('rep')?.trim().toLowerCase();
+
+    console.log('[API] GET /api/routes', { date, rep });
+
+    const routes = (await getAllRoutes()).filter(
+      (route) =>
+        (!date || route.date === date) &&
+        (!rep || route.rep.toLowerCase() === rep)
+    );
+
+    const response: GetRoutesResponse = { routes };
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in GET /api/routes:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to load saved routes. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
+
+/**
+ * Handles POST requests to save a new route.
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with the saved route (201) or error
+ *
+ * @example
+ * // Request body:
+ * {
+ *   "date": "2025-10-13",
+ *   "rep": "Alex",
+ *   "locationIds": [5, 12, 9],
+ *   "start": { "type": "home-base", "label": "Home Base", "lat": 40.71, "lng": -74.0 }
+ * }
+ *
+ * @example
+ * // Success response (201):
+ * {
+ *   "success": true,
+ *   "route": { "id": 4, "date": "2025-10-13", ..., "status": "planned" }
+ * }
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Parse request body
+    let body: CreateRouteRequest;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      console.error('[API] Failed to parse request body:', parseError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: 'Invalid JSON in request body',
+        details: parseError instanceof Error ? parseError.message : 'Parse error',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    // Validate request body
+    const validationError = validateRouteRequest(body, true);
+    if (validationError) {
+      console.warn('[API] Validation error for new route:', validationError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: validationError,
+        details: 'Request validation failed',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    console.log(`[API] POST /api/routes for ${body.rep} on ${body.date}`);
+
+    const route = await createRoute({
+      date: body.date,
+      rep: body.rep.trim(),
+      locationIds: body.locationIds,
+      start: {
+        type: body.start.type,
+        label: body.start.label,
+        lat: body.start.lat,
+        lng: body.start.lng,
+      },
+      status: (body.status as RouteStatus | undefined) ?? 'planned',
+    });
+
+    const response: RouteResponse = {
+      success: true,
+      route,
+    };
+
+    console.log(`[API] Successfully saved route ${route.id}`);
+
+    return NextResponse.json(response, {
+      status: 201,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in POST /api/routes:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to save route. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * /api/territories/[id] API Route
+ *
+ * Updates or deletes a single territory in the "Territories" sheet tab.
+ * - PATCH updates any of name, rep, color and polygon
+ * - DELETE removes the territory
+ *
+ * @module api/territories/[id]
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type {
+  UpdateTerritoryRequest,
+  TerritoryResponse,
+  DeleteTerritoryResponse,
+  ErrorResponse,
+} from '@/types/api';
+import type { Territory, TerritoryUpdate } from '@/types/territory';
+import { getAllTerritories, updateTerritory, deleteTerritory } from '@/services/sheets.service';
+import { validateTerritoryRequest } from '@/lib/territory-validation';
+
+/**
+ * Parses and validates the territory ID from the URL params.
+ *
+ * @param idString - Raw ID from the URL
+ * @returns Territory ID, or an error response if the ID is invalid
+ */
+function parseTerritoryId(idString: string): number | NextResponse {
+  const id = parseInt(idString, 10);
+
+  if (isNaN(id) || id < 2) {
+    console.warn(`[API] Invalid territory ID: ${idString}`);
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Invalid territory ID. Must be an integer of at least 2.',
+      details: `Received ID: ${idString}`,
+      statusCode: 400,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 400,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  return id;
+}
+
+/**
+ * Builds the 404 response for a territory that does not exist.
+ *
+ * @param id - Requested territory ID
+ * @returns Not found error response
+ */
+function territoryNotFoundResponse(id: number): NextResponse {
+  const errorResponse: ErrorResponse = {
+    success: false,
+    error: 'Territory not found',
+    details: `No territory exists with ID ${id}`,
+    statusCode: 404,
+  };
+
+  return NextResponse.json(errorResponse, {
+    status: 404,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+}
+
+/**
+ * Handles PATCH requests to update a territory.
+ *
+ * @param request - Next.js request object
+ * @param context - Route context with params
+ * @returns JSON response with updated territory or error
+ *
+ * @example
+ * // Request body:
+ * {
+ *   "rep": "Sam"
+ * }
+ *
+ * @example
+ * // Success response (200):
+ * {
+ *   "success": true,
+ *   "territory": { "id": 2, "name": "North", "rep": "Sam", ... }
+ * }
+ */
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    // Await params (Next.js 15 requirement)
+    const params = await context.params;
+    const id = parseTerritoryId(params.id);
+    if (id instanceof NextResponse) {
+      return id;
+    }
+
+    // Parse request body
+    let body: UpdateTerritoryRequest;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      console.error('[API] Failed to parse request body:', parseError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: 'Invalid JSON in request body',
+        details: parseError instanceof Error ? parseError.message : 'Parse error',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    // Validate request body
+    const validationError = validateTerritoryRequest(body, false);
+    if (validationError) {
+      console.warn(`[API] Validation error for territory ${id}:`, validationError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: validationError,
+        details: 'Request validation failed',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    console.log(`[API] PATCH /api/territories/${id}`, body);
+
+    // Cast body to proper type after validation
+    const updates: TerritoryUpdate = {
+      ...(body.name !== undefined && { name: body.name.trim() }),
+      ...(body.rep !== undefined && { rep: body.rep.trim() }),
+      ...(body.color !== undefined && { color: body.color }),
+      ...(body.polygon !== undefined && {
+        polygon: body.polygon.map(({ lat, lng }) => ({ lat, lng })),
+      }),
+    };
+
+    // Renames must not collide with another territory's name
+    if (updates.name !== undefined) {
+      const newName = updates.name.toLowerCase();
+      const existing = await getAllTerritories();
+      if (existing.some((other) => other.id !== id && other.name.toLowerCase() === newName)) {
+        const errorResponse: ErrorResponse = {
+          success: false,
+          error: `A territory named "${updates.name}" already exists`,
+          details: 'Territory names must be unique',
+          statusCode: 409,
+        };
+
+        return NextResponse.json(errorResponse, {
+          status: 409,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        });
+      }
+    }
+
+    let territory: Territory;
+    try {
+      territory = await updateTerritory(id, updates);
+    } catch (updateError) {
+      if (updateError instanceof Error && updateError.message.includes('not found')) {
+        return territoryNotFoundResponse(id);
+      }
+      throw updateError;
+    }
+
+    const response: TerritoryResponse = {
+      success: true,
+      territory,
+    };
+
+    console.log(`[API] Successfully updated territory ${id}`);
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in PATCH /api/territories/[id]:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to update territory. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
+
+/**
+ * Handles DELETE requests to remove a territory.
+ *
+ * @param _request - Next.js request object (unused)
+ * @param context - Route context with params
+ * @returns JSON response confirming the delete or error
+ *
+ * @example
+ * // Success response (200):
+ * {
+ *   "success": true,
+ *   "id": 2
+ * }
+ */
+export async function DELETE(
+  _request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+): Promise<NextResponse> {
+  try {
+    const params = await context.params;
+    const id = parseTerritoryId(params.id);
+    if (id instanceof NextResponse) {
+      return id;
+    }
+
+    console.log(`[API] DELETE /api/territories/${id}`);
+
+    try {
+      await deleteTerritory(id);
+    } catch (deleteError) {
+      if (deleteError instanceof Error && deleteError.message.includes('not found')) {
+        return territoryNotFoundResponse(id);
+      }
+      throw deleteError;
+    }
+
+    const response: DeleteTerritoryResponse = {
+      success: true,
+      id,
+    };
+
+    console.log(`[API] Successfully deleted territory ${id}`);
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in DELETE /api/territories/[id]:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to delete territory. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * /api/territories API Route
+ *
+ * Lists and saves territory polygons stored in the "Territories" sheet tab.
+ * - GET lists all territories
+ * - POST saves a new territory
+ *
+ * @module api/territories
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type {
+  CreateTerritoryRequest,
+  GetTerritoriesResponse,
+  TerritoryResponse,
+  ErrorResponse,
+} from '@/types/api';
+import { getAllTerritories, createTerritory } from '@/services/sheets.service';
+import { validateTerritoryRequest } from '@/lib/territory-validation';
+import { TERRITORY_CONFIG } from '@/lib/constants';
+
+/**
+ * Handles GET requests to list territories.
+ *
+ * @returns JSON response with territories array or error
+ *
+ * @example
+ * // GET /api/territories
+ * // Success response (200):
+ * {
+ *   "territories": [
+ *     {
+ *       "id": 2,
+ *       "name": "North",
+ *       "rep": "Alex",
+ *       "color": "#4285F4",
+ *       "polygon": [{ "lat": 40.8, "lng": -74.0 }, { "lat": 40.8, "lng": -73.9 }, { "lat": 40.75, "lng": -73.95 }]
+ *     }
+ *   ]
+ * }
+ */
+export async function GET(): Promise<NextResponse> {
+  try {
+    console.log('[API] GET /api/territories');
+
+    const response: GetTerritoriesResponse = {
+      territories: await getAllTerritories(),
+    };
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in GET /api/territories:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to load territories. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
+
+/**
+ * Handles POST requests to save a new territory.
+ * Territory names must be unique (case-insensitive).
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with the saved territory (201) or error
+ *
+ * @example
+ * // Request body:
+ * {
+ *   "name": "North",
+ *   "rep": "Alex",
+ *   "color": "#4285F4",
+ *   "polygon": [{ "lat": 40.8, "lng": -74.0 }, { "lat": 40.8, "lng": -73.9 }, { "lat": 40.75, "lng": -73.95 }]
+ * }
+ *
+ * @example
+ * // Success response (201):
+ * {
+ *   "success": true,
+ *   "territory": { "id": 2, "name": "North", ... }
+ * }
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Parse request body
+    let body: CreateTerritoryRequest;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      console.error('[API] Failed to parse request body:', parseError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: 'Invalid JSON in request body',
+        details: parseError instanceof Error ? parseError.message : 'Parse error',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    // Validate request body
+    const validationError = validateTerritoryRequest(body, true);
+    if (validationError) {
+      console.warn('[API] Validation error for new territory:', validationError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: validationError,
+        details: 'Request validation failed',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const name = body.name.trim();
+
+    // Names identify territories in filters, so they must be unique
+    const existing = await getAllTerritories();
+    if (existing.some((territory) => territory.name.toLowerCase() === name.toLowerCase())) {
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: `A territory named "${name}" already exists`,
+        details: 'Territory names must be unique',
+        statusCode: 409,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 409,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    console.log(`[API] POST /api/territories "${name}" with ${body.polygon.length} points`);
+
+    const territory = await createTerritory({
+      name,
+      rep: body.rep?.trim() ?? '',
+      color: body.color ?? TERRITORY_CONFIG.COLORS[existing.length % TERRITORY_CONFIG.COLORS.length],
+      polygon: body.polygon.map(({ lat, lng }) => ({ lat, lng })),
+    });
+
+    const response: TerritoryResponse = {
+      success: true,
+      territory,
+    };
+
+    console.log(`[API] Successfully saved territory ${territory.id}`);
+
+    return NextResponse.json(response, {
+      status: 201,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in POST /api/territories:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to save territory. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * /api/visits API Route
+ *
+ * Lists and records completed visits in the "Visits" sheet tab.
+ * - GET lists visits, optionally filtered by date and rep
+ * - POST records a visit (a route stop marked done or a check-in)
+ *
+ * Visits are verified here: the rep's position is measured against the
+ * location's coordinates in the sheet. Check-ins beyond the configured
+ * radius are rejected; route visits beyond it are recorded as unverified
+ * and left out of the mileage report. Both record the measured distance.
+ *
+ * @module api/visits
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type {
+  CreateVisitRequest,
+  GetVisitsResponse,
+  VisitResponse,
+  ErrorResponse,
+} from '@/types/api';
+import type { Location } from '@/types/location';
+import { getAllVisits, createVisit, getLocationById } from '@/services/sheets.service';
+import { validateVisitRequest } from '@/lib/visit-validation';
+import { measureCheckIn, checkInTooFarMessage } from '@/lib/check-in';
+import { config } from '@/lib/config';
+
+/**
+ * Handles GET requests to list visits.
+ *
+ * Query parameters (all optional):
+ * - date: only visits on this date (YYYY-MM-DD)
+ * - rep: only visits by this rep (case-insensitive)
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with visits array or error
+ *
+ * @example
+ * // GET /api/visits?date=2025-10-13&rep=Alex
+ * // Success response (200):
+ * {
+ *   "visits": [
+ *     {
+ *       "id": 2,
+ *       "timestamp": "2025-10-13T14:05:00.000Z",
+ *       "date": "2025-10-13",
+ *       "rep": "Alex",
+ *       "locationId": 5,
+ *       "lat": 40.71,
+ *       "lng": -74.0,
+ *       "source": "route",
+ *       "routeId": 4
+ *     }
+ *   ]
+ * }
+ */
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  try {
+    const date = request.nextUrl.searchParams.get('date');
+    const rep = request.nextUrl.searchParams.get('rep')?.trim().toLowerCase();
+
+    console.log('[API] GET /api/visits', { date, rep });
+
+    const visits = (await getAllVisits()).filter(
+      (visit) =>
+        (!date || visit.date === date) &&
+        (!rep || visit.rep.toLowerCase() === rep)
+    );
+
+    const response: GetVisitsResponse = { visits };
+
+    return NextResponse.json(response, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in GET /api/visits:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to load visits. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
+
+/**
+ * Handles POST requests to record a visit.
+ *
+ * @param request - Next.js request object
+ * @returns JSON response with the recorded visit (201) or error
+ *
+ * @example
+ * // Request body:
+ * {
+ *   "timestamp": "2025-10-13T14:05:00.000Z",
+ *   "date": "2025-10-13",
+ *   "rep": "Alex",
+ *   "locationId": 5,
+ *   "lat": 40.71,
+ *   "lng": -74.0,
+ *   "source": "route",
+ *   "routeId": 4
+ * }
+ *
+ * @example
+ * // Success response (201):
+ * {
+ *   "success": true,
+ *   "visit": { "id": 2, "timestamp": "2025-10-13T14:05:00.000Z", ... }
+ * }
+ *
+ * @example
+ * // Check-in too far from the location (400):
+ * {
+ *   "success": false,
+ *   "error": "You are 850 m from this location. Check-ins must be within 200 m.",
+ *   "details": "Check-in outside the allowed radius",
+ *   "statusCode": 400
+ * }
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    // Parse request body
+    let body: CreateVisitRequest;
+    try {
+      body = await request.json();
+    } catch (parseError) {
+      console.error('[API] Failed to parse request body:', parseError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: 'Invalid JSON in request body',
+        details: parseError instanceof Error ? parseError.message : 'Parse error',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    // Validate request body
+    const validationError = validateVisitRequest(body);
+    if (validationError) {
+      console.warn('[API] Validation error for new visit:', validationError);
+      const errorResponse: ErrorResponse = {
+        success: false,
+        error: validationError,
+        details: 'Request validation failed',
+        statusCode: 400,
+      };
+
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    console.log(`[API] POST /api/visits for ${body.rep} at location ${body.locationId}`);
+
+    // Measure the position against the location's coordinates in the sheet
+    let location: Location;
+    try {
+      location = await getLocationById(body.locationId);
+    } catch (lookupError) {
+      if (lookupError instanceof Error && lookupError.message.includes('not found')) {
+        const errorResponse: ErrorResponse = {
+          success: false,
+          error: 'Location not found',
+          details: `No location exists with ID ${body.locationId}`,
+          statusCode: 404,
+        };
+
+        return NextResponse.json(errorResponse, {
+          status: 404,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        });
+      }
+      throw lookupError;
+    }
+
+    const radiusMeters = config.checkIn.radiusMeters;
+    const hasCoordinates = Boolean(location.lat && location.lng);
+    const measurement = measureCheckIn(
+      { lat: body.lat, lng: body.lng },
+      { lat: location.lat, lng: location.lng },
+      radiusMeters
+    );
+    const verified = hasCoordinates && measurement.isWithinRadius;
+
+    // Check-ins must be verified; route visits are kept but left out of mileage if not
+    if (body.source === 'check-in') {
+      if (!verified) {
+        console.warn(
+          `[API] Rejected check-in for ${body.rep} at location ${body.locationId}: ` +
+            (hasCoordinates ? `${measurement.distanceMeters} m away` : 'location has no coordinates')
+        );
+        const errorResponse: ErrorResponse = {
+          success: false,
+          error: hasCoordinates
+            ? checkInTooFarMessage(measurement.distanceMeters, radiusMeters)
+            : 'This location has no coordinates to check in against',
+          details: 'Check-in outside the allowed radius',
+          statusCode: 400,
+        };
+
+        return NextResponse.json(errorResponse, {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+        });
+      }
+    } else if (!verified) {
+      console.warn(
+        `[API] Unverified route visit for ${body.rep} at location ${body.locationId}: ` +
+          (hasCoordinates ? `${measurement.distanceMeters} m away` : 'location has no coordinates')
+      );
+    }
+
+    const visit = await createVisit({
+      timestamp: new Date(body.timestamp).toISOString(),
+      date: body.date,
+      rep: body.rep.trim(),
+      locationId: body.locationId,
+      lat: body.lat,
+      lng: body.lng,
+      source: body.source,
+      routeId: body.routeId,
+      distanceMeters: hasCoordinates ? measurement.distanceMeters : undefined,
+      verified,
+    });
+
+    const response: VisitResponse = {
+      success: true,
+      visit,
+    };
+
+    console.log(`[API] Successfully recorded visit ${visit.id}`);
+
+    return NextResponse.json(response, {
+      status: 201,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('[API] Error in POST /api/visits:', error);
+
+    const errorResponse: ErrorResponse = {
+      success: false,
+      error: 'Failed to record visit. Please try again.',
+      details: error instanceof Error ? error.message : 'Unknown error occurred',
+      statusCode: 500,
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+}
@@ -15,19 +15,98 @@
 
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 
 // Internal types
-import type { Location } from '@/types/location';
-import type { GetLocationsResponse, ErrorResponse } from '@/types/api';
+import type { Location, LocationUpdate } from '@/types/location';
+import type { CreateLocationRequest, GetLocationsResponse, ErrorResponse } from '@/types/api';
+import type { Coordinates, Viewport } from '@/types/google';
+import type {
+  Route,
+  RouteLeg,
+  RoutePlan,
+  RouteScheduleSettings,
+  RouteStartPoint,
+  RouteStartType,
+  RouteStatus,
+  StopProgress,
+  StopProgressStatus,
+  TimeWindow,
+  UnschedulableReason,
+} from '@/types/route';
+import { ROUTE_START_LABELS } from '@/types/route';
+import type { Territory, TerritoryInput } from '@/types/territory';
+import type { Visit, VisitSource } from '@/types/visit';
+import type { FilterPreset, FollowUpFilter } from '@/types/filter-preset';
 
 // Internal components
 import Map from '@/components/Map';
 import LocationMarker from '@/components/LocationMarker';
 import FollowUpDropdown from '@/components/FollowUpDropdown';
+import RoutePlanner from '@/components/RoutePlanner';
+import SavedRoutePicker from '@/components/SavedRoutePicker';
+import RouteProgressPanel from '@/components/RouteProgressPanel';
+import NearbyPanel from '@/components/NearbyPanel';
+import NextStopSuggestions from '@/components/NextStopSuggestions';
+import TerritoryPanel from '@/components/TerritoryPanel';
+import TerritoryBalancer from '@/components/TerritoryBalancer';
+import GeofenceAlert from '@/components/GeofenceAlert';
+import CoLocatedChooser from '@/components/CoLocatedChooser';
+import HeatmapPanel from '@/components/HeatmapPanel';
+import SearchBox from '@/components/SearchBox';
+import LocationListPanel from '@/components/LocationListPanel';
+import FilterPresetSection from '@/components/FilterPresetSection';
+import SelectionTool from '@/components/SelectionTool';
+import AddLocationForm from '@/components/AddLocationForm';
+import BulkActionBar from '@/components/BulkActionBar';
+
+// Internal utilities
+import { getDepartureMinutes, scheduleRoute } from '@/lib/route-scheduler';
+import { optimizeRoute } from '@/lib/route-optimizer';
+import { resolveOpeningWindows } from '@/lib/opening-hours';
+import { getDefaultTravelEstimator } from '@/lib/travel-estimators';
+import { createSavedRoute, deleteSavedRoute, fetchSavedRoutes, updateSavedRoute } from '@/lib/routes.client';
+import { getStoredRepName, storeRepName } from '@/lib/rep-storage';
+import { clearStoredRouteProgress, getStoredRouteProgress, storeRouteProgress } from '@/lib/route-progress-storage';
+import {
+  assignLocations,
+  createLocation,
+  updateLocation,
+  updateLocations,
+} from '@/lib/locations.client';
+import { findClosestLocations } from '@/lib/proximity';
+import type { NearbyLocation } from '@/lib/proximity';
+import { findGeofenceHits } from '@/lib/geofence';
+import { getAlertedLocationIds, storeAlertedLocationIds } from '@/lib/geofence-storage';
+import { assignTerritories } from '@/lib/geometry';
+import { createTerritory, deleteTerritory, fetchTerritories } from '@/lib/territories.client';
+import { createFilterPreset, deleteFilterPreset, fetchFilterPresets, updateFilterPreset } from '@/lib/filter-presets.client';
+import type { BalancedGroup } from '@/lib/clustering';
+import { fetchVisits, recordVisit } from '@/lib/visits.client';
+import { buildHeatmapCells, needsVisitHistory } from '@/lib/heatmap';
+import type { HeatmapLayer } from '@/lib/heatmap';
+import { getLastVisitDates } from '@/lib/activity';
+import { buildSearchIndex, searchLocations } from '@/lib/fuzzy-search';
+import { findLocationsInPolygon } from '@/lib/map-selection';
+import type { SelectionShape } from '@/lib/map-selection';
+import { buildBulkUpdates } from '@/lib/bulk-actions';
+import type { BulkAction } from '@/lib/bulk-actions';
+import {
+  FOLLOW_UP_PRESETS,
+  getFollowUpFilterForDay,
+  getFollowUpRange,
+  getSingleDay,
+  formatFollowUpDay,
+} from '@/lib/follow-up-filter';
+import { getCurrentCoordinates, watchCoordinates } from '@/lib/geolocation';
+import { measureCheckIn, checkInTooFarMessage } from '@/lib/check-in';
+import { formatLocalIsoDate } from '@/lib/format';
+import { parseViewState, serializeViewState } from '@/lib/url-state';
+import type { MapCamera, MapType, ShareableView } from '@/lib/url-state';
 
 // Internal constants
-import { API_ENDPOINTS, HTTP_METHODS, ERROR_MESSAGES, STATUS_COLORS, STATUS_LABELS, ALL_STATUSES } from '@/lib/constants';
+import { clientConfig } from '@/lib/client-config';
+import { API_ENDPOINTS, HTTP_METHODS, ERROR_MESSAGES, STATUS_COLORS, STATUS_LABELS, ALL_STATUSES, DEFAULT_VISIBLE_STATUSES, ROUTING_CONFIG, NEXT_STOP_CONFIG, TERRITORY_CONFIG, FILTER_PRESET_CONFIG, GEOFENCE_CONFIG, VALIDATION, FOLLOW_UP_DATE_COLOR, FOLLOW_UP_OVERDUE_COLOR } from '@/lib/constants';
 
 // Pusher client and types
 import { getPusherClient } from '@/lib/pusher.client';
@@ -45,8 +124,23 @@ interface AppState {
   isLoading: boolean;
   /** Error message if data fetch fails */
   error: string | null;
-  /** Selected follow-up date filter (YYYY-MM-DD format) */
+  /** Day routes are planned for (YYYY-MM-DD format) */
   selectedFollowUpDate: string;
+  /** Follow-up date filter (highlighted on the map and listed in the dropdown) */
+  followUpFilter: FollowUpFilter;
+}
+
+/**
+ * Sets the follow-up filter. A filter covering a single day also makes it
+ * the day routes are planned for.
+ */
+function withFollowUpFilter(prev: AppState, followUpFilter: FollowUpFilter): AppState {
+  const singleDay = getSingleDay(getFollowUpRange(followUpFilter, formatLocalIsoDate(new Date())));
+  return {
+    ...prev,
+    followUpFilter,
+    selectedFollowUpDate: singleDay ?? prev.selectedFollowUpDate,
+  };
 }
 
 /**
@@ -58,11 +152,8 @@ interface AppState {
  * @returns Main page JSX
  */
 export default function HomePage(): JSX.Element {
-  // Get today's date in YYYY-MM-DD format
-  const getTodayDate = (): string => {
-    const today = new Date();
-    return today.toISOString().split('T')[0];
-  };
+  // Get today's local date in YYYY-MM-DD format
+  const getTodayDate = (): string => formatLocalIsoDate(new Date());
 
   // Application state
   const [state, setState] = useState<AppState>({
@@ -71,6 +162,7 @@ export default function HomePage(): JSX.Element {
     isLoading: true,
     error: null,
     selectedFollowUpDate: getTodayDate(),
+    followUpFilter: getFollowUpFilterForDay(getTodayDate(), getTodayDate()),
   });
 
   // Refresh counter state (separate for useEffect dependency tracking)
@@ -80,17 +172,145 @@ export default function HomePage(): JSX.Element {
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [isGettingLocation, setIsGettingLocation] = useState<boolean>(false);
 
+  // Tracking mode - the rep's position is watched and nearby due locations raise alerts
+  const [isTracking, setIsTracking] = useState<boolean>(false);
+  const [geofenceAlerts, setGeofenceAlerts] = useState<NearbyLocation[]>([]);
+
+  // Locations stacked on the clicked point, listed in a chooser (null when closed)
+  const [coLocatedChoices, setCoLocatedChoices] = useState<Location[] | null>(null);
+
   // Legend visibility state
   const [isLegendExpanded, setIsLegendExpanded] = useState<boolean>(false);
 
-  // Status filter state - default: all checked except "Not interested", "Location not found", and "Not applicable"
+  // Status filter state
   const [selectedStatuses, setSelectedStatuses] = useState<Set<string>>(
-    new Set(ALL_STATUSES.filter(status => status !== 'Not interested' && status !== 'Location not found' && status !== 'Not applicable'))
+    new Set(DEFAULT_VISIBLE_STATUSES)
   );
 
+  // Text filter - only locations matching it are shown (empty shows all)
+  const [textFilter, setTextFilter] = useState<string>('');
+
+  // Saved filter presets of the rep (loaded when the filters panel opens)
+  const [filterPresets, setFilterPresets] = useState<FilterPreset[] | null>(null);
+  const [isLoadingFilterPresets, setIsLoadingFilterPresets] = useState<boolean>(false);
+  const [isSavingFilterPreset, setIsSavingFilterPreset] = useState<boolean>(false);
+
   // Pushed location state - tracks which location was pushed and when
   const [pushedLocationId, setPushedLocationId] = useState<number | null>(null);
 
+  // Locations with saves the server has not confirmed yet (badged on the map)
+  const [pendingEditIds, setPendingEditIds] = useState<Set<number>>(new Set());
+
+  // Route plan state - ordered stop IDs for the selected follow-up date
+  const [routePlan, setRoutePlan] = useState<RoutePlan | null>(null);
+
+  // Route leg estimates (distance, time and path) for the planned route
+  const [routeLegs, setRouteLegs] = useState<RouteLeg[]>([]);
+  const travelEstimator = useMemo(() => getDefaultTravelEstimator(), []);
+
+  // Working day settings and the opening windows of the planned stops
+  const [scheduleSettings, setScheduleSettings] = useState<RouteScheduleSettings>({
+    dayStart: ROUTING_CONFIG.DEFAULT_DAY_START,
+    dayEnd: ROUTING_CONFIG.DEFAULT_DAY_END,
+    visitMinutes: ROUTING_CONFIG.DEFAULT_VISIT_MINUTES,
+  });
+  const [stopWindows, setStopWindows] = useState<Record<number, TimeWindow[]>>({});
+
+  // Saved route state - the "Routes" sheet tab record of the current plan
+  const [repName, setRepName] = useState<string>('');
+  const [savedRoute, setSavedRoute] = useState<Route | null>(null);
+  const [isSavingRoute, setIsSavingRoute] = useState<boolean>(false);
+
+  // Saved routes loaded by the picker for one date
+  const [savedRoutes, setSavedRoutes] = useState<Route[] | null>(null);
+  const [savedRoutesDate, setSavedRoutesDate] = useState<string | null>(null);
+  const [isLoadingSavedRoutes, setIsLoadingSavedRoutes] = useState<boolean>(false);
+
+  // Next-stop suggestions - shown from the last location whose status was saved
+  const [suggestionOrigin, setSuggestionOrigin] = useState<Location | null>(null);
+  const [visitedLocationIds, setVisitedLocationIds] = useState<Set<number>>(new Set());
+
+  // Route progress state - per-stop progress while driving the plan (null if not started)
+  const [stopProgress, setStopProgress] = useState<Record<number, StopProgress> | null>(null);
+
+  // Territories state (draft path is null when not drawing)
+  const [territories, setTerritories] = useState<Territory[]>([]);
+  const [draftTerritoryPath, setDraftTerritoryPath] = useState<Coordinates[] | null>(null);
+  const [isSavingTerritory, setIsSavingTerritory] = useState<boolean>(false);
+  const [selectedTerritory, setSelectedTerritory] = useState<string>('');
+
+  // Territory balancing state
+  const [balancePreview, setBalancePreview] = useState<BalancedGroup[] | null>(null);
+  const [isSavingAssignments, setIsSavingAssignments] = useState<boolean>(false);
+
+  // Heatmap state - the visit log is loaded the first time an activity layer is shown
+  const [heatmapLayer, setHeatmapLayer] = useState<HeatmapLayer | null>(null);
+  const [visits, setVisits] = useState<Visit[] | null>(null);
+  const [isLoadingVisits, setIsLoadingVisits] = useState<boolean>(false);
+
+  // List panel state - the map reports its bounds only while the list is open
+  const [isListOpen, setIsListOpen] = useState<boolean>(false);
+  const [hoveredLocationId, setHoveredLocationId] = useState<number | null>(null);
+  const [mapViewport, setMapViewport] = useState<Viewport | null>(null);
+
+  // Map selection state - locations picked with the lasso or rectangle for bulk actions
+  const [selectionShape, setSelectionShape] = useState<SelectionShape | null>(null);
+  const [bulkSelectedIds, setBulkSelectedIds] = useState<Set<number>>(new Set());
+  const [isSavingBulk, setIsSavingBulk] = useState<boolean>(false);
+
+  // Shareable link state - the query string mirrors the view once the
+  // locations have loaded (so a linked location can be selected first)
+  const [mapType, setMapType] = useState<MapType>('roadmap');
+  const [requestedCamera, setRequestedCamera] = useState<MapCamera | null>(null);
+  const [isUrlStateReady, setIsUrlStateReady] = useState<boolean>(false);
+  const cameraRef = useRef<MapCamera | null>(null);
+  const urlViewRef = useRef<ShareableView>({});
+  const lastUrlQueryRef = useRef<string | null>(null);
+  const pendingUrlLocationIdRef = useRef<number | null>(null);
+
+  /**
+   * Restores the rep name from localStorage after mount
+   */
+  useEffect(() => {
+    setRepName(getStoredRepName());
+  }, []);
+
+  /**
+   * Resumes a route that was in progress before the page was reloaded
+   */
+  useEffect(() => {
+    const progress = getStoredRouteProgress();
+    if (!progress) {
+      return;
+    }
+
+    console.log(`[HomePage] Resuming route in progress for ${progress.date}`);
+    setRoutePlan(progress.plan);
+    setSavedRoute(progress.savedRoute);
+    setStopProgress(progress.stops);
+    setState((prev) => ({
+      ...prev,
+      selectedFollowUpDate: progress.date,
+      followUpFilter: getFollowUpFilterForDay(progress.date, formatLocalIsoDate(new Date())),
+    }));
+  }, []);
+
+  /**
+   * Keeps the route in progress in localStorage so a reload resumes mid-route
+   */
+  useEffect(() => {
+    if (!stopProgress || !routePlan) {
+      return;
+    }
+
+    storeRouteProgress({
+      date: state.selectedFollowUpDate,
+      plan: routePlan,
+      savedRoute,
+      stops: stopProgress,
+    });
+  }, [stopProgress, routePlan, savedRoute, state.selectedFollowUpDate]);
+
   /**
    * Fetches locations from the API
    */
@@ -158,6 +378,21 @@ export default function HomePage(): JSX.Element {
     fetchLocations();
   }, [fetchLocations, refreshCounter]);
 
+  /**
+   * Loads territories on mount.
+   * Territories are optional, so a missing "Territories" tab only logs a warning.
+   */
+  useEffect(() => {
+    fetchTerritories()
+      .then((loaded) => {
+        console.log(`[HomePage] Loaded ${loaded.length} territories`);
+        setTerritories(loaded);
+      })
+      .catch((error) => {
+        console.warn('[HomePage] Territories unavailable:', error instanceof Error ? error.message : error);
+      });
+  }, []);
+
   /**
    * Set up Pusher real-time listener for location push events
    */
@@ -228,6 +463,22 @@ export default function HomePage(): JSX.Element {
     }));
   }, []);
 
+  /**
+   * Handles a click on a marker or cluster of locations sharing one point
+   */
+  const handleCoLocatedClick = useCallback((locations: Location[]): void => {
+    console.log(`[HomePage] ${locations.length} stacked locations clicked`);
+    setCoLocatedChoices(locations);
+  }, []);
+
+  /**
+   * Opens the location picked from the stacked-locations chooser
+   */
+  const handleCoLocatedSelect = useCallback((location: Location): void => {
+    setCoLocatedChoices(null);
+    handleMarkerClick(location);
+  }, [handleMarkerClick]);
+
   /**
    * Handles InfoWindow close event
    */
@@ -260,6 +511,45 @@ export default function HomePage(): JSX.Element {
     }));
   }, []);
 
+  /**
+   * Marks a location's background save as pending or settled
+   */
+  const handleSavePendingChange = useCallback((locationId: number, isPending: boolean): void => {
+    setPendingEditIds((prev) => {
+      const next = new Set(prev);
+      if (isPending) {
+        next.add(locationId);
+      } else {
+        next.delete(locationId);
+      }
+      return next;
+    });
+  }, []);
+
+  /**
+   * Records a visit after a status change is saved and suggests the next stops
+   */
+  const handleStatusSaved = useCallback((saved: Location): void => {
+    setVisitedLocationIds((prev) => new Set(prev).add(saved.id));
+    setSuggestionOrigin(saved);
+  }, []);
+
+  /**
+   * Closest unvisited locations worth visiting after the last saved visit
+   */
+  const nextStopSuggestions = useMemo(() => {
+    if (!suggestionOrigin) {
+      return [];
+    }
+    const candidates = state.locations.filter(
+      (location) =>
+        location.id !== suggestionOrigin.id &&
+        !visitedLocationIds.has(location.id) &&
+        (NEXT_STOP_CONFIG.STATUSES as readonly string[]).includes(location.status)
+    );
+    return findClosestLocations(suggestionOrigin, candidates, NEXT_STOP_CONFIG.SUGGESTION_COUNT);
+  }, [suggestionOrigin, visitedLocationIds, state.locations]);
+
   /**
    * Handles manual refresh button click
    */
@@ -278,64 +568,118 @@ export default function HomePage(): JSX.Element {
 
   /**
    * Handles "My Location" button click
-   * Gets user's current location and pans map to it
+   * Turns tracking mode on (the map follows the rep and nearby due
+   * locations raise alerts) or off.
    */
   const handleMyLocation = useCallback((): void => {
-    if (!navigator.geolocation) {
-      console.error('[HomePage] Geolocation is not supported by this browser');
+    if (isTracking) {
+      console.log('[HomePage] Stopping location tracking');
+      setIsTracking(false);
+      setIsGettingLocation(false);
+      setGeofenceAlerts([]);
       return;
     }
 
+    console.log('[HomePage] Starting location tracking...');
     setIsGettingLocation(true);
-    console.log('[HomePage] Getting user location...');
+    setIsTracking(true);
+  }, [isTracking]);
 
-    navigator.geolocation.getCurrentPosition(
-      (position) => {
-        const { latitude, longitude } = position.coords;
-        const location = { lat: latitude, lng: longitude };
+  /**
+   * Gets the rep's position once (e.g., for the Nearby panel) without
+   * turning tracking on
+   */
+  const handleRequestLocation = useCallback(async (): Promise<void> => {
+    setIsGettingLocation(true);
+    const position = await getCurrentCoordinates();
+    setIsGettingLocation(false);
 
-        setUserLocation(location);
-        setIsGettingLocation(false);
+    if (!position) {
+      setState((prev) => ({
+        ...prev,
+        error: 'Unable to get your location. Please enable location access.',
+      }));
+      return;
+    }
+
+    setUserLocation(position);
+  }, []);
 
-        console.log('[HomePage] User location:', location);
+  /**
+   * Watches the rep's position while tracking mode is on
+   */
+  useEffect(() => {
+    if (!isTracking) {
+      return;
+    }
+
+    return watchCoordinates(
+      (position) => {
+        setUserLocation(position);
+        setIsGettingLocation(false);
       },
       (error) => {
-        console.error('[HomePage] Error getting user location:', error);
+        // The watch keeps trying after a timeout, so only log it
+        if (error && error.code === error.TIMEOUT) {
+          console.warn('[HomePage] Location update timed out');
+          return;
+        }
+
+        console.error('[HomePage] Error tracking user location:', error);
+        setIsTracking(false);
         setIsGettingLocation(false);
 
         // Show error message based on error code
         let errorMessage = 'Unable to get your location.';
-        if (error.code === error.PERMISSION_DENIED) {
+        if (!error) {
+          errorMessage = 'Location is not supported by this browser.';
+        } else if (error.code === error.PERMISSION_DENIED) {
           errorMessage = 'Location permission denied. Please enable location access.';
         } else if (error.code === error.POSITION_UNAVAILABLE) {
           errorMessage = 'Location information unavailable.';
-        } else if (error.code === error.TIMEOUT) {
-          errorMessage = 'Location request timed out.';
         }
 
         setState((prev) => ({
           ...prev,
           error: errorMessage,
         }));
-      },
-      {
-        enableHighAccuracy: true,
-        timeout: 10000,
-        maximumAge: 0,
       }
     );
-  }, []);
+  }, [isTracking]);
 
   /**
-   * Handles follow-up date change
+   * Raises geofence alerts for due follow-ups and revisits near the rep.
+   * Each location alerts at most once a day.
    */
-  const handleFollowUpDateChange = useCallback((event: React.ChangeEvent<HTMLInputElement>): void => {
-    const newDate = event.target.value;
-    console.log('[HomePage] Follow-up date changed to:', newDate);
-    setState((prev) => ({
-      ...prev,
-      selectedFollowUpDate: newDate,
-    }));
+  useEffect(() => {
+    if (!isTracking || !userLocation) {
+      return;
+    }
+
+    const today = formatLocalIsoDate(new Date());
+    const alertedIds = getAlertedLocationIds(today);
+    const hits = findGeofenceHits(userLocation, state.locations, today, alertedIds);
+    if (hits.length === 0) {
+      return;
+    }
+
+    hits.forEach(({ location }) => alertedIds.add(location.id));
+    storeAlertedLocationIds(today, alertedIds);
+    console.log(`[HomePage] Geofence alert for ${hits.map(({ location }) => location.companyName).join(', ')}`);
+
+    setGeofenceAlerts((prev) => [...hits, ...prev].slice(0, GEOFENCE_CONFIG.MAX_VISIBLE_ALERTS));
+  }, [isTracking, userLocation, state.locations]);
+
+  /**
+   * Handles follow-up filter change
+   * A filter covering a single day also makes it the day routes are planned for.
+   */
+  const handleFollowUpFilterChange = useCallback((changes: Partial<FollowUpFilter>): void => {
+    setState((prev) => {
+      const followUpFilter = { ...prev.followUpFilter, ...changes };
+      console.log('[HomePage] Follow-up filter changed to:', followUpFilter.preset);
+      return withFollowUpFilter(prev, followUpFilter);
+    });
   }, []);
 
   /**
@@ -355,153 +699,1576 @@ export default function HomePage(): JSX.Element {
   }, []);
 
   /**
-   * Filter locations based on selected statuses
+   * Leaves progress mode and forgets the stored progress
    */
-  const filteredLocations = state.locations.filter(location =>
-    selectedStatuses.has(location.status)
-  );
+  const endRouteProgress = useCallback((): void => {
+    setStopProgress(null);
+    clearStoredRouteProgress();
+  }, []);
 
   /**
-   * Render loading state
+   * Builds the start point of a new route, or shows why it can't start there
    */
-  if (state.isLoading && state.locations.length === 0) {
-    return (
-      <div className="overlay">
-        <div className="loading-container">
-          <div className="spinner" role="status" aria-live="polite" />
-          <p className="loading-text">Loading locations...</p>
-        </div>
-      </div>
-    );
-  }
+  const resolveRouteStart = useCallback((startType: RouteStartType): RouteStartPoint | null => {
+    const startCoordinates =
+      startType === 'my-location' ? userLocation : clientConfig.routing.homeBase;
+
+    if (!startCoordinates) {
+      setState((prev) => ({
+        ...prev,
+        error:
+          startType === 'my-location'
+            ? 'Tap "My Location" first so the route can start from your position.'
+            : 'No home base is configured.',
+      }));
+      return null;
+    }
+
+    return {
+      type: startType,
+      label: ROUTE_START_LABELS[startType],
+      lat: startCoordinates.lat,
+      lng: startCoordinates.lng,
+    };
+  }, [userLocation]);
 
   /**
-   * Render error state
+   * Plans a route through the follow-ups for the selected date,
+   * fitting the stops into their opening hours and the working day
    */
-  if (state.error && state.locations.length === 0) {
-    return (
-      <div className="overlay">
-        <div className="error-container">
-          <svg
-            className="error-icon"
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-            aria-hidden="true"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
-            />
-          </svg>
-          <h1 className="error-title">Unable to Load Locations</h1>
-          <p className="error-message">{state.error}</p>
-          <button
-            onClick={handleRetry}
-            className="btn btn-error"
-            type="button"
-            aria-label="Retry loading locations"
-          >
-            Try Again
-          </button>
-        </div>
-      </div>
+  const handlePlanRoute = useCallback(async (startType: RouteStartType): Promise<void> => {
+    const start = resolveRouteStart(startType);
+    if (!start) {
+      return;
+    }
+
+    const date = state.selectedFollowUpDate;
+    const candidates = state.locations.filter(
+      (location) => location.followUpDate === date
     );
-  }
+    const windows = await resolveOpeningWindows(
+      candidates,
+      date,
+      clientConfig.routing.usePlacesOpeningHours
+    );
+    const route = scheduleRoute(
+      start,
+      candidates,
+      windows,
+      scheduleSettings,
+      getDepartureMinutes(date, scheduleSettings, new Date())
+    );
+
+    console.log(
+      `[HomePage] Planned route with ${route.stops.length} stops (${route.totalDistanceKm.toFixed(1)} km), ` +
+      `${route.unschedulable.length} unschedulable`
+    );
+
+    endRouteProgress();
+    setRoutePlan({
+      start,
+      stopIds: route.stops.map((stop) => stop.id),
+      unschedulable: route.unschedulable,
+    });
+  }, [resolveRouteStart, state.locations, state.selectedFollowUpDate, scheduleSettings, endRouteProgress]);
 
   /**
-   * Render main application
+   * Clears the planned route
    */
-  return (
-    <main className="map-container">
-      {/* Map Component */}
-      <Map
-        locations={filteredLocations}
-        onMarkerClick={handleMarkerClick}
-        selectedLocationId={state.selectedLocation?.id ?? null}
-        userLocation={userLocation}
-        selectedFollowUpDate={state.selectedFollowUpDate}
-      />
+  const handleClearRoute = useCallback((): void => {
+    endRouteProgress();
+    setRoutePlan(null);
+    setSavedRoute(null);
+  }, [endRouteProgress]);
 
-      {/* Top Control Bar */}
-      <div className="absolute top-4 left-4 right-4 z-50 flex flex-wrap items-start gap-2" style={{ pointerEvents: 'none' }}>
-        {/* Follow-up Dropdown */}
-        <div style={{ pointerEvents: 'auto' }}>
-          <FollowUpDropdown
-            locations={state.locations}
-            selectedFollowUpDate={state.selectedFollowUpDate}
-            onLocationClick={handleMarkerClick}
-          />
-        </div>
+  /**
+   * Applies a new stop order after the rep moves a stop in the list
+   */
+  const handleReorderRoute = useCallback((stopIds: number[]): void => {
+    setRoutePlan((prev) => (prev ? { ...prev, stopIds } : prev));
+  }, []);
 
-        {/* Collapsible Legend Button */}
-        <button
-          onClick={() => setIsLegendExpanded(!isLegendExpanded)}
-          className="flex items-center gap-2 px-4 py-2 bg-white rounded-lg shadow-lg hover:shadow-xl transition-shadow min-h-[44px] touch-manipulation"
-          type="button"
-          aria-label={isLegendExpanded ? 'Close filters' : 'Open filters'}
-          aria-expanded={isLegendExpanded}
-          style={{ pointerEvents: 'auto' }}
-        >
-          <svg
-            className={`h-5 w-5 transition-transform ${isLegendExpanded ? 'rotate-180' : ''}`}
-            fill="none"
-            stroke="currentColor"
-            viewBox="0 0 24 24"
-          >
-            <path
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth={2}
-              d="M19 9l-7 7-7-7"
-            />
-          </svg>
-          <span className="font-medium text-sm">
-            {isLegendExpanded ? 'Hide Filters' : 'Show Filters'}
-          </span>
-        </button>
-      </div>
+  /**
+   * Shows a failed route or territory action in the error toast
+   */
+  const showActionError = useCallback((message: string, error: unknown): void => {
+    console.error(`[HomePage] ${message}:`, error);
+    setState((prev) => ({
+      ...prev,
+      error: `${message}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    }));
+  }, []);
 
-      {/* Expandable Legend Panel */}
-      {isLegendExpanded && (
-        <>
-          {/* Backdrop - clicking closes the legend panel */}
-          <div
-            className="fixed inset-0 bg-black bg-opacity-20 z-35"
-            onClick={() => setIsLegendExpanded(false)}
-            aria-label="Close filters"
-          />
+  /**
+   * Handles rep name edits, remembering the name for future sessions
+   */
+  const handleRepNameChange = useCallback((name: string): void => {
+    setRepName(name);
+    storeRepName(name);
+  }, []);
 
-          {/* Legend Panel Content */}
-          <div
-            className="absolute top-20 left-4 z-40 bg-white rounded-lg shadow-lg p-3 max-w-[calc(100vw-2rem)] w-80 overflow-hidden"
-            role="region"
-            aria-label="Map controls"
-          >
-          {/* Follow-up Date Picker */}
-          <div className="mb-4 pb-4 border-b border-gray-200 overflow-x-hidden">
-            <label htmlFor="followUpDate" className="block text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
-              Follow-up Date Filter
-            </label>
-            <input
-              type="date"
-              id="followUpDate"
-              value={state.selectedFollowUpDate}
-              onChange={handleFollowUpDateChange}
-              className="w-full px-2 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 min-h-[44px]"
-              style={{ maxWidth: '250px', boxSizing: 'border-box' }}
-              aria-label="Select follow-up date to filter locations"
-            />
-            <p className="text-xs text-gray-500 mt-2 leading-relaxed">
-              Locations matching this date appear in purple
-            </p>
-          </div>
+  /**
+   * Saves the current plan to the "Routes" sheet tab.
+   * Updates the saved route if the plan was already saved for this date and rep.
+   */
+  const handleSaveRoute = useCallback(async (): Promise<void> => {
+    const rep = repName.trim();
+    if (!routePlan || !rep) {
+      return;
+    }
 
-          {/* Status Filters */}
-          <div>
-            <div className="text-xs font-semibold text-gray-700 mb-3 uppercase tracking-wide">
+    setIsSavingRoute(true);
+
+    try {
+      const isSameRoute =
+        savedRoute !== null &&
+        savedRoute.date === state.selectedFollowUpDate &&
+        savedRoute.rep.toLowerCase() === rep.toLowerCase();
+
+      const route = isSameRoute
+        ? await updateSavedRoute(savedRoute.id, {
+            locationIds: routePlan.stopIds,
+            start: routePlan.start,
+          })
+        : await createSavedRoute({
+            date: state.selectedFollowUpDate,
+            rep,
+            locationIds: routePlan.stopIds,
+            start: routePlan.start,
+          });
+
+      console.log(`[HomePage] Saved route ${route.id} for ${route.rep} on ${route.date}`);
+
+      setSavedRoute(route);
+      setSavedRoutes((prev) =>
+        prev && savedRoutesDate === route.date
+          ? [...prev.filter((item) => item.id !== route.id), route]
+          : prev
+      );
+    } catch (error) {
+      showActionError('Unable to save route', error);
+    } finally {
+      setIsSavingRoute(false);
+    }
+  }, [repName, routePlan, savedRoute, savedRoutesDate, state.selectedFollowUpDate, showActionError]);
+
+  /**
+   * Changes the status of the saved route for the current plan
+   */
+  const handleSavedRouteStatusChange = useCallback(async (status: RouteStatus): Promise<void> => {
+    if (!savedRoute) {
+      return;
+    }
+
+    try {
+      const route = await updateSavedRoute(savedRoute.id, { status });
+      setSavedRoute(route);
+      setSavedRoutes((prev) =>
+        prev ? prev.map((item) => (item.id === route.id ? route : item)) : prev
+      );
+    } catch (error) {
+      showActionError('Unable to update route status', error);
+    }
+  }, [savedRoute, showActionError]);
+
+  /**
+   * Loads the rep's saved routes for a date
+   */
+  const handleLoadSavedRoutes = useCallback(async (date: string): Promise<void> => {
+    const rep = repName.trim();
+    if (!rep) {
+      return;
+    }
+
+    setIsLoadingSavedRoutes(true);
+    setSavedRoutesDate(date);
+
+    try {
+      const routes = await fetchSavedRoutes(date, rep);
+      console.log(`[HomePage] Loaded ${routes.length} saved routes for ${date}`);
+      setSavedRoutes(routes);
+    } catch (error) {
+      setSavedRoutes(null);
+      showActionError('Unable to load saved routes', error);
+    } finally {
+      setIsLoadingSavedRoutes(false);
+    }
+  }, [repName, showActionError]);
+
+  /**
+   * Opens a saved route as the current plan and switches to its date
+   */
+  const handleOpenSavedRoute = useCallback((route: Route): void => {
+    console.log(`[HomePage] Opening saved route ${route.id}`);
+    endRouteProgress();
+    setRoutePlan({
+      start: route.start,
+      stopIds: route.locationIds,
+      unschedulable: [],
+    });
+    setSavedRoute(route);
+    setState((prev) => ({
+      ...prev,
+      selectedFollowUpDate: route.date,
+      followUpFilter: getFollowUpFilterForDay(route.date, formatLocalIsoDate(new Date())),
+    }));
+  }, [endRouteProgress]);
+
+  /**
+   * Deletes a saved route
+   */
+  const handleDeleteSavedRoute = useCallback(async (route: Route): Promise<void> => {
+    try {
+      await deleteSavedRoute(route.id);
+      console.log(`[HomePage] Deleted saved route ${route.id}`);
+      setSavedRoutes((prev) => (prev ? prev.filter((item) => item.id !== route.id) : prev));
+      setSavedRoute((prev) => (prev?.id === route.id ? null : prev));
+    } catch (error) {
+      showActionError('Unable to delete route', error);
+    }
+  }, [showActionError]);
+
+  /**
+   * Enters territory drawing mode
+   */
+  const handleStartDrawingTerritory = useCallback((): void => {
+    setDraftTerritoryPath([]);
+  }, []);
+
+  /**
+   * Adds a corner to the territory being drawn
+   */
+  const handleMapClick = useCallback((coordinates: Coordinates): void => {
+    setDraftTerritoryPath((prev) => (prev ? [...prev, coordinates] : prev));
+  }, []);
+
+  /**
+   * Removes the last corner of the territory being drawn
+   */
+  const handleUndoTerritoryPoint = useCallback((): void => {
+    setDraftTerritoryPath((prev) => (prev ? prev.slice(0, -1) : prev));
+  }, []);
+
+  /**
+   * Saves the drawn territory to the "Territories" sheet tab
+   */
+  const handleSaveTerritory = useCallback(async (details: Omit<TerritoryInput, 'polygon'>): Promise<void> => {
+    if (!draftTerritoryPath || draftTerritoryPath.length < TERRITORY_CONFIG.MIN_POINTS) {
+      return;
+    }
+
+    setIsSavingTerritory(true);
+
+    try {
+      const territory = await createTerritory({ ...details, polygon: draftTerritoryPath });
+      console.log(`[HomePage] Saved territory ${territory.id} (${territory.name})`);
+      setTerritories((prev) => [...prev, territory]);
+      setDraftTerritoryPath(null);
+    } catch (error) {
+      showActionError('Unable to save territory', error);
+    } finally {
+      setIsSavingTerritory(false);
+    }
+  }, [draftTerritoryPath, showActionError]);
+
+  /**
+   * Deletes a territory, clearing the territory filter if it was selected
+   */
+  const handleDeleteTerritory = useCallback(async (territory: Territory): Promise<void> => {
+    setIsSavingTerritory(true);
+
+    try {
+      await deleteTerritory(territory.id);
+      console.log(`[HomePage] Deleted territory ${territory.id}`);
+      setTerritories((prev) => prev.filter((item) => item.id !== territory.id));
+      setSelectedTerritory((prev) => (prev === territory.name ? '' : prev));
+    } catch (error) {
+      showActionError('Unable to delete territory', error);
+    } finally {
+      setIsSavingTerritory(false);
+    }
+  }, [showActionError]);
+
+  /**
+   * Loads the rep's filter presets each time the filters panel opens
+   */
+  useEffect(() => {
+    const rep = repName.trim();
+    if (!isLegendExpanded || !rep) {
+      return;
+    }
+
+    let isCancelled = false;
+    setIsLoadingFilterPresets(true);
+
+    fetchFilterPresets(rep)
+      .then((presets) => {
+        if (!isCancelled) {
+          console.log(`[HomePage] Loaded ${presets.length} filter presets for ${rep}`);
+          setFilterPresets(presets);
+        }
+      })
+      .catch((error) => {
+        if (!isCancelled) {
+          setFilterPresets(null);
+          showActionError('Unable to load filter presets', error);
+        }
+      })
+      .finally(() => {
+        if (!isCancelled) {
+          setIsLoadingFilterPresets(false);
+        }
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [isLegendExpanded, repName, showActionError]);
+
+  /**
+   * Filters a preset would save: statuses, follow-up dates, territory and text
+   */
+  const currentPresetFilters = useMemo(() => ({
+    statuses: ALL_STATUSES.filter((status) => selectedStatuses.has(status)),
+    followUpFilter: state.followUpFilter,
+    territory: selectedTerritory,
+    searchText: textFilter.trim(),
+  }), [selectedStatuses, state.followUpFilter, selectedTerritory, textFilter]);
+
+  /**
+   * Applies a saved filter preset. A territory that no longer exists is
+   * treated as all territories.
+   */
+  const handleApplyFilterPreset = useCallback((preset: FilterPreset): void => {
+    console.log(`[HomePage] Applying filter preset ${preset.id} (${preset.name})`);
+    const hasTerritory =
+      preset.territory === TERRITORY_CONFIG.UNASSIGNED ||
+      territories.some((territory) => territory.name === preset.territory);
+
+    setSelectedStatuses(new Set(preset.statuses));
+    setState((prev) => withFollowUpFilter(prev, preset.followUpFilter));
+    setSelectedTerritory(hasTerritory ? preset.territory : '');
+    setTextFilter(preset.searchText);
+  }, [territories]);
+
+  /**
+   * Saves the current filters as a preset, overwriting the rep's preset
+   * with the same name if there is one
+   */
+  const handleSaveFilterPreset = useCallback(async (name: string): Promise<void> => {
+    const rep = repName.trim();
+    if (!rep) {
+      return;
+    }
+
+    const existing = filterPresets?.find(
+      (preset) => preset.name.toLowerCase() === name.toLowerCase()
+    );
+    setIsSavingFilterPreset(true);
+
+    try {
+      if (existing) {
+        const updated = await updateFilterPreset(existing.id, currentPresetFilters);
+        console.log(`[HomePage] Updated filter preset ${updated.id} (${updated.name})`);
+        setFilterPresets((prev) =>
+          (prev ?? []).map((preset) => (preset.id === updated.id ? updated : preset))
+        );
+      } else {
+        const created = await createFilterPreset({ rep, name, ...currentPresetFilters });
+        console.log(`[HomePage] Saved filter preset ${created.id} (${created.name})`);
+        setFilterPresets((prev) => [...(prev ?? []), created]);
+      }
+    } catch (error) {
+      showActionError('Unable to save filter preset', error);
+    } finally {
+      setIsSavingFilterPreset(false);
+    }
+  }, [repName, filterPresets, currentPresetFilters, showActionError]);
+
+  /**
+   * Deletes a saved filter preset
+   */
+  const handleDeleteFilterPreset = useCallback(async (preset: FilterPreset): Promise<void> => {
+    setIsSavingFilterPreset(true);
+
+    try {
+      await deleteFilterPreset(preset.id);
+      console.log(`[HomePage] Deleted filter preset ${preset.id}`);
+      setFilterPresets((prev) => (prev ?? []).filter((item) => item.id !== preset.id));
+    } catch (error) {
+      showActionError('Unable to delete filter preset', error);
+    } finally {
+      setIsSavingFilterPreset(false);
+    }
+  }, [showActionError]);
+
+  /**
+   * Puts the statuses, follow-up, territory and text filters back to their defaults
+   */
+  const handleResetFilters = useCallback((): void => {
+    console.log('[HomePage] Resetting filters to default');
+    const today = formatLocalIsoDate(new Date());
+    setSelectedStatuses(new Set(DEFAULT_VISIBLE_STATUSES));
+    setState((prev) => withFollowUpFilter(prev, getFollowUpFilterForDay(today, today)));
+    setSelectedTerritory('');
+    setTextFilter('');
+  }, []);
+
+  /**
+   * Writes an accepted balancing split to the sheet's "Assigned To" column
+   */
+  const handleAcceptBalance = useCallback(async (groups: BalancedGroup[]): Promise<void> => {
+    const assignedTo = new globalThis.Map<number, string>();
+    groups.forEach((group) => {
+      group.locations.forEach((location) => assignedTo.set(location.id, group.rep));
+    });
+
+    setIsSavingAssignments(true);
+
+    try {
+      const notFound = await assignLocations(
+        Array.from(assignedTo, ([id, rep]) => ({ id, assignedTo: rep }))
+      );
+      notFound.forEach((id) => assignedTo.delete(id));
+      console.log(`[HomePage] Assigned ${assignedTo.size} locations across ${groups.length} reps`);
+      setState((prev) => ({
+        ...prev,
+        locations: prev.locations.map((location) =>
+          assignedTo.has(location.id) ? { ...location, assignedTo: assignedTo.get(location.id) } : location
+        ),
+      }));
+      setBalancePreview(null);
+      if (notFound.length > 0) {
+        showActionError(
+          `Unable to assign ${notFound.length} locations`,
+          new Error('They are no longer in the sheet')
+        );
+      }
+    } catch (error) {
+      showActionError('Unable to save assignments', error);
+    } finally {
+      setIsSavingAssignments(false);
+    }
+  }, [showActionError]);
+
+  /**
+   * Balancing preview outlines for the map
+   */
+  const previewHulls = useMemo(
+    () => balancePreview?.map((group) => ({ color: group.color, path: group.hull })),
+    [balancePreview]
+  );
+
+  /**
+   * Reps named on territories, offered as the starting list for balancing
+   */
+  const territoryReps = useMemo(
+    () => Array.from(new Set(territories.map((territory) => territory.rep).filter(Boolean))),
+    [territories]
+  );
+
+  /**
+   * Locations placed in the territory containing them.
+   * Recomputed on the client so new territories apply without a refetch.
+   */
+  const territoryLocations = useMemo(
+    () => assignTerritories(state.locations, territories),
+    [state.locations, territories]
+  );
+
+  /**
+   * Planned stops resolved against the latest location data
+   */
+  const routeStops = useMemo((): Location[] => {
+    if (!routePlan) {
+      return [];
+    }
+    return routePlan.stopIds
+      .map((id) => state.locations.find((location) => location.id === id))
+      .filter((location): location is Location => location !== undefined);
+  }, [routePlan, state.locations]);
+
+  /**
+   * Position of the current stop while driving the route
+   * (the first stop not yet done or skipped; -1 once every stop is handled)
+   */
+  const currentStopIndex = useMemo((): number => {
+    if (!stopProgress) {
+      return -1;
+    }
+    return routeStops.findIndex((stop) => {
+      const status = stopProgress[stop.id]?.status;
+      return status !== 'done' && status !== 'skipped';
+    });
+  }, [routeStops, stopProgress]);
+
+  const currentStop = currentStopIndex === -1 ? null : routeStops[currentStopIndex];
+
+  /**
+   * Starts progress mode for the planned route
+   */
+  const handleStartRoute = useCallback((): void => {
+    console.log('[HomePage] Starting route');
+    setStopProgress({});
+    if (savedRoute && savedRoute.status === 'planned') {
+      handleSavedRouteStatusChange('in progress');
+    }
+  }, [savedRoute, handleSavedRouteStatusChange]);
+
+  /**
+   * Records progress for the current stop, marking the saved route done
+   * once every stop is done or skipped
+   */
+  const setCurrentStopStatus = useCallback((status: StopProgressStatus): void => {
+    if (!currentStop || !stopProgress) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const previous = stopProgress[currentStop.id];
+    const updated: Record<number, StopProgress> = {
+      ...stopProgress,
+      [currentStop.id]:
+        status === 'arrived'
+          ? { status, arrivedAt: now }
+          : { ...previous, status, completedAt: now },
+    };
+    setStopProgress(updated);
+
+    const isRouteFinished = routeStops.every((stop) => {
+      const stopStatus = updated[stop.id]?.status;
+      return stopStatus === 'done' || stopStatus === 'skipped';
+    });
+    if (isRouteFinished && savedRoute && savedRoute.status !== 'done') {
+      handleSavedRouteStatusChange('done');
+    }
+  }, [currentStop, stopProgress, routeStops, savedRoute, handleSavedRouteStatusChange]);
+
+  /**
+   * Updates a location in state without opening its popup
+   */
+  const handleRouteStopUpdate = useCallback((updatedLocation: Location): void => {
+    setState((prev) => ({
+      ...prev,
+      locations: prev.locations.map((loc) =>
+        loc.id === updatedLocation.id ? updatedLocation : loc
+      ),
+    }));
+  }, []);
+
+  /**
+   * Logs a completed visit to the "Visits" sheet tab for the mileage report.
+   * Uses the rep's current position, or the location's when it is unavailable.
+   */
+  const logVisit = useCallback(async (location: Location, source: VisitSource): Promise<void> => {
+    const rep = repName.trim();
+    if (!rep) {
+      console.warn('[HomePage] Visit not logged: no rep name set');
+      setState((prev) => ({
+        ...prev,
+        error: 'Visit not logged for mileage. Enter your name under Saved Plans in the Route Planner.',
+      }));
+      return;
+    }
+
+    const completedAt = new Date();
+    const position = (await getCurrentCoordinates()) ?? { lat: location.lat, lng: location.lng };
+
+    try {
+      const visit = await recordVisit({
+        timestamp: completedAt.toISOString(),
+        date: formatLocalIsoDate(completedAt),
+        rep,
+        locationId: location.id,
+        lat: position.lat,
+        lng: position.lng,
+        source,
+        routeId: source === 'route' ? savedRoute?.id : undefined,
+      });
+      console.log(`[HomePage] Logged visit ${visit.id} at ${location.companyName}`);
+      setVisits((prev) => (prev ? [...prev, visit] : prev));
+    } catch (error) {
+      showActionError('Unable to log visit', error);
+    }
+  }, [repName, savedRoute, showActionError]);
+
+  /**
+   * Checks in at a location from its card. The device position must be
+   * within the check-in radius of the location; the server verifies the
+   * distance again before recording the visit.
+   * Throws with a message the card shows when the check-in is rejected.
+   */
+  const handleCheckIn = useCallback(async (location: Location): Promise<Visit> => {
+    const rep = repName.trim();
+    if (!rep) {
+      throw new Error('Enter your name under Saved Plans in the Route Planner to check in.');
+    }
+
+    const position = await getCurrentCoordinates();
+    if (!position) {
+      throw new Error('Unable to get your position. Allow location access and try again.');
+    }
+
+    const radiusMeters = clientConfig.checkIn.radiusMeters;
+    const { distanceMeters, isWithinRadius } = measureCheckIn(position, location, radiusMeters);
+    if (!isWithinRadius) {
+      throw new Error(checkInTooFarMessage(distanceMeters, radiusMeters));
+    }
+
+    const checkedInAt = new Date();
+    const visit = await recordVisit({
+      timestamp: checkedInAt.toISOString(),
+      date: formatLocalIsoDate(checkedInAt),
+      rep,
+      locationId: location.id,
+      lat: position.lat,
+      lng: position.lng,
+      source: 'check-in',
+    });
+    console.log(`[HomePage] Checked in at ${location.companyName} (${visit.distanceMeters} m away)`);
+    setVisits((prev) => (prev ? [...prev, visit] : prev));
+    return visit;
+  }, [repName]);
+
+  /**
+   * Marks the current stop done and saves any status or notes changes.
+   * Implements optimistic update pattern; the change is reverted if the save fails.
+   */
+  const handleStopDone = useCallback(async (updates: LocationUpdate): Promise<void> => {
+    if (!currentStop) {
+      return;
+    }
+
+    const stop = currentStop;
+    setCurrentStopStatus('done');
+    logVisit(stop, 'route');
+
+    if (Object.keys(updates).length === 0) {
+      return;
+    }
+
+    handleRouteStopUpdate({
+      ...stop,
+      ...updates,
+      // An empty follow-up date clears it
+      followUpDate:
+        updates.followUpDate !== undefined ? updates.followUpDate || undefined : stop.followUpDate,
+    });
+    handleSavePendingChange(stop.id, true);
+
+    try {
+      const location = await updateLocation(stop.id, updates);
+      console.log('[HomePage] Saved stop update:', location.id);
+      handleRouteStopUpdate(location);
+    } catch (error) {
+      handleRouteStopUpdate(stop);
+      showActionError(`Unable to save ${stop.companyName}`, error);
+    } finally {
+      handleSavePendingChange(stop.id, false);
+    }
+  }, [currentStop, setCurrentStopStatus, logVisit, handleRouteStopUpdate, handleSavePendingChange, showActionError]);
+
+  /**
+   * Follow-ups left off the route, resolved against the latest location data
+   */
+  const unschedulableStops = useMemo((): Array<{ location: Location; reason: UnschedulableReason }> => {
+    if (!routePlan) {
+      return [];
+    }
+    return routePlan.unschedulable.flatMap(({ locationId, reason }) => {
+      const location = state.locations.find((item) => item.id === locationId);
+      return location ? [{ location, reason }] : [];
+    });
+  }, [routePlan, state.locations]);
+
+  /**
+   * Resolves the opening windows of the planned stops for ETA warnings
+   */
+  useEffect(() => {
+    if (routeStops.length === 0) {
+      setStopWindows({});
+      return;
+    }
+
+    let isCancelled = false;
+
+    resolveOpeningWindows(
+      routeStops,
+      state.selectedFollowUpDate,
+      clientConfig.routing.usePlacesOpeningHours
+    )
+      .then((windows) => {
+        if (!isCancelled) {
+          setStopWindows(windows);
+        }
+      })
+      .catch((error) => {
+        console.error('[HomePage] Error resolving opening hours:', error);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [routeStops, state.selectedFollowUpDate]);
+
+  /**
+   * Route points (start + stops) as a stable key, so edits to a stop's
+   * status or notes do not trigger a new travel estimate
+   */
+  const routePointsKey = useMemo((): string => {
+    if (!routePlan || routeStops.length === 0) {
+      return '';
+    }
+    return JSON.stringify(
+      [routePlan.start, ...routeStops].map(({ lat, lng }) => ({ lat, lng }))
+    );
+  }, [routePlan, routeStops]);
+
+  /**
+   * Re-estimates route legs whenever the planned stops or their order change
+   */
+  useEffect(() => {
+    if (!routePointsKey) {
+      setRouteLegs([]);
+      return;
+    }
+
+    let isCancelled = false;
+    const points: Coordinates[] = JSON.parse(routePointsKey);
+
+    travelEstimator
+      .estimateLegs(points)
+      .then((legs) => {
+        if (!isCancelled) {
+          setRouteLegs(legs);
+        }
+      })
+      .catch((error) => {
+        console.error('[HomePage] Error estimating route legs:', error);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [routePointsKey, travelEstimator]);
+
+  /**
+   * Path of the planned route, joined from the leg paths
+   */
+  const routePath = useMemo(
+    () => routeLegs.flatMap((leg) => leg.path),
+    [routeLegs]
+  );
+
+  /**
+   * Date range of the follow-up filter
+   */
+  const today = formatLocalIsoDate(new Date());
+  const followUpRange = useMemo(
+    () => getFollowUpRange(state.followUpFilter, today),
+    [state.followUpFilter, today]
+  );
+
+  /**
+   * Applies a view read from the query string. Parameters missing from the
+   * link keep the current value on first load (e.g., a resumed route's
+   * date) and go back to the default when navigating through history.
+   */
+  const applyViewState = useCallback((view: ShareableView, resetMissing: boolean): void => {
+    if (view.statuses || resetMissing) {
+      setSelectedStatuses(new Set(
+        view.statuses?.filter((status) => (ALL_STATUSES as string[]).includes(status)) ?? DEFAULT_VISIBLE_STATUSES
+      ));
+    }
+
+    if (view.followUpFilter || resetMissing) {
+      const today = formatLocalIsoDate(new Date());
+      const followUpFilter = view.followUpFilter ?? getFollowUpFilterForDay(today, today);
+      setState((prev) => withFollowUpFilter(prev, followUpFilter));
+    }
+
+    if (view.mapType || resetMissing) {
+      setMapType(view.mapType ?? 'roadmap');
+    }
+
+    if (view.camera) {
+      cameraRef.current = view.camera;
+      setRequestedCamera(view.camera);
+    }
+  }, []);
+
+  /**
+   * Restores the view from the query string on first load
+   */
+  useEffect(() => {
+    const view = parseViewState(window.location.search);
+    console.log('[HomePage] Restoring view from link:', view);
+    applyViewState(view, false);
+    pendingUrlLocationIdRef.current = view.locationId ?? null;
+  }, [applyViewState]);
+
+  /**
+   * Selects the linked location once the locations have loaded, then
+   * starts mirroring the view to the query string
+   */
+  useEffect(() => {
+    if (isUrlStateReady || state.isLoading) {
+      return;
+    }
+
+    const locationId = pendingUrlLocationIdRef.current;
+    const location = state.locations.find((candidate) => candidate.id === locationId);
+    if (location) {
+      setState((prev) => ({ ...prev, selectedLocation: location }));
+    } else if (locationId !== null) {
+      console.warn(`[HomePage] Linked location ${locationId} not found`);
+    }
+    pendingUrlLocationIdRef.current = null;
+    setIsUrlStateReady(true);
+  }, [isUrlStateReady, state.isLoading, state.locations]);
+
+  /**
+   * Restores the view when the rep navigates with browser back/forward
+   */
+  useEffect(() => {
+    const handlePopState = (): void => {
+      const view = parseViewState(window.location.search);
+      applyViewState(view, true);
+      setState((prev) => ({
+        ...prev,
+        selectedLocation: prev.locations.find((location) => location.id === view.locationId) ?? null,
+      }));
+      // The restored view is already in the URL, so it shouldn't be pushed again
+      lastUrlQueryRef.current = window.location.search;
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+    };
+  }, [applyViewState]);
+
+  /**
+   * View mirrored to the query string (defaults are left out of the link)
+   */
+  const selectedLocationId = state.selectedLocation?.id;
+  const urlView = useMemo<ShareableView>(() => {
+    const isDefaultStatuses =
+      selectedStatuses.size === DEFAULT_VISIBLE_STATUSES.length &&
+      DEFAULT_VISIBLE_STATUSES.every((status) => selectedStatuses.has(status));
+    return {
+      locationId: selectedLocationId,
+      statuses: isDefaultStatuses
+        ? undefined
+        : ALL_STATUSES.filter((status) => selectedStatuses.has(status)),
+      followUpFilter: state.followUpFilter.preset === 'today' ? undefined : state.followUpFilter,
+      mapType,
+    };
+  }, [selectedLocationId, selectedStatuses, state.followUpFilter, mapType]);
+
+  /**
+   * Adds a history entry when the selection, filters or map type change,
+   * so back/forward step through them
+   */
+  useEffect(() => {
+    if (!isUrlStateReady) {
+      return;
+    }
+
+    urlViewRef.current = urlView;
+    const query = serializeViewState({ ...urlView, camera: cameraRef.current ?? undefined });
+    if (query === lastUrlQueryRef.current) {
+      return;
+    }
+
+    // The first sync only tidies the link the page was opened with
+    const url = query || window.location.pathname;
+    if (lastUrlQueryRef.current === null) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+    lastUrlQueryRef.current = query;
+  }, [isUrlStateReady, urlView]);
+
+  /**
+   * Keeps the map center and zoom in the current history entry (panning
+   * doesn't add entries)
+   */
+  const handleCameraChange = useCallback((camera: MapCamera): void => {
+    cameraRef.current = camera;
+    if (lastUrlQueryRef.current === null) {
+      return;
+    }
+
+    const query = serializeViewState({ ...urlViewRef.current, camera });
+    if (query !== lastUrlQueryRef.current) {
+      window.history.replaceState(null, '', query || window.location.pathname);
+      lastUrlQueryRef.current = query;
+    }
+  }, []);
+
+  /**
+   * Number of follow-ups that can be planned for the selected date
+   */
+  const routeCandidateCount = state.locations.filter(
+    (location) => location.followUpDate === state.selectedFollowUpDate
+  ).length;
+
+  /**
+   * IDs of the locations matching the text filter (null when there is none)
+   */
+  const textFilterIds = useMemo(() => {
+    if (!textFilter.trim()) {
+      return null;
+    }
+    const matches = searchLocations(buildSearchIndex(state.locations), textFilter, Infinity);
+    return new Set(matches.map((match) => match.location.id));
+  }, [state.locations, textFilter]);
+
+  /**
+   * Filter locations based on selected statuses, territory and text filter
+   */
+  const filteredLocations = useMemo(
+    () => territoryLocations.filter(location =>
+      selectedStatuses.has(location.status) &&
+      (!selectedTerritory ||
+        (selectedTerritory === TERRITORY_CONFIG.UNASSIGNED
+          ? !location.territory
+          : location.territory === selectedTerritory)) &&
+      (!textFilterIds || textFilterIds.has(location.id))
+    ),
+    [territoryLocations, selectedStatuses, selectedTerritory, textFilterIds]
+  );
+
+  /**
+   * Loads the visit log when an activity layer is first shown.
+   * The layer is turned off if the log can't be loaded, rather than
+   * showing every location as never visited.
+   */
+  useEffect(() => {
+    if (!heatmapLayer || !needsVisitHistory(heatmapLayer) || visits || isLoadingVisits) {
+      return;
+    }
+
+    setIsLoadingVisits(true);
+    fetchVisits()
+      .then((loaded) => {
+        console.log(`[HomePage] Loaded ${loaded.length} visits for the heatmap`);
+        setVisits(loaded);
+      })
+      .catch((error) => {
+        setHeatmapLayer(null);
+        showActionError('Unable to load visit history', error);
+      })
+      .finally(() => {
+        setIsLoadingVisits(false);
+      });
+  }, [heatmapLayer, visits, isLoadingVisits, showActionError]);
+
+  /**
+   * IDs of the locations shown on the map, to mark hidden search results
+   */
+  const filteredLocationIds = useMemo(
+    () => new Set(filteredLocations.map((location) => location.id)),
+    [filteredLocations]
+  );
+
+  /**
+   * Opens a location picked in the search box. If the filters hide it,
+   * its status is shown and the territory and text filters cleared so its
+   * marker appears and the map can pan to it.
+   */
+  const handleSearchSelect = useCallback((location: Location): void => {
+    console.log('[HomePage] Search result picked:', location.companyName);
+    if (!filteredLocationIds.has(location.id)) {
+      setSelectedStatuses((prev) => new Set(prev).add(location.status));
+      setSelectedTerritory((prev) => {
+        const isInTerritory = prev === TERRITORY_CONFIG.UNASSIGNED
+          ? !location.territory
+          : location.territory === prev;
+        return !prev || isInTerritory ? prev : '';
+      });
+      if (textFilterIds && !textFilterIds.has(location.id)) {
+        setTextFilter('');
+      }
+    }
+    handleMarkerClick(location);
+  }, [filteredLocationIds, textFilterIds, handleMarkerClick]);
+
+  /**
+   * Adds a location entered in the field, then shows and opens it on the map.
+   * Errors are left to the form, which shows them next to the entry.
+   */
+  const handleCreateLocation = useCallback(async (input: CreateLocationRequest): Promise<void> => {
+    const location = await createLocation(input);
+    console.log(`[HomePage] Added location ${location.id}: ${location.companyName}`);
+    setState((prev) => ({
+      ...prev,
+      locations: [...prev.locations, location],
+    }));
+    handleSearchSelect(location);
+  }, [handleSearchSelect]);
+
+  /**
+   * Heatmap cells for the map, over the locations passing the status filter
+   */
+  const heatmapCells = useMemo(() => {
+    if (!heatmapLayer || (needsVisitHistory(heatmapLayer) && !visits)) {
+      return [];
+    }
+    return buildHeatmapCells(
+      filteredLocations,
+      heatmapLayer,
+      getLastVisitDates(visits ?? []),
+      formatLocalIsoDate(new Date())
+    );
+  }, [heatmapLayer, visits, filteredLocations]);
+
+  /**
+   * Selects the locations shown on the map inside a drawn lasso or rectangle,
+   * replacing the previous selection
+   */
+  const handleSelectionDrawn = useCallback((polygon: Coordinates[]): void => {
+    const selected = findLocationsInPolygon(filteredLocations, polygon);
+    console.log(`[HomePage] Selected ${selected.length} locations on the map`);
+    setBulkSelectedIds(new Set(selected.map((location) => location.id)));
+  }, [filteredLocations]);
+
+  /**
+   * Clears the map selection and stops drawing
+   */
+  const handleClearSelection = useCallback((): void => {
+    setBulkSelectedIds(new Set());
+    setSelectionShape(null);
+  }, []);
+
+  /**
+   * Selected locations, resolved against the latest location data
+   */
+  const bulkSelectedLocations = useMemo(
+    () => state.locations.filter((location) => bulkSelectedIds.has(location.id)),
+    [state.locations, bulkSelectedIds]
+  );
+
+  /**
+   * Sets the status or follow-up date of every selected location, or appends
+   * a line to their notes, in one bulk request. Changes show immediately
+   * with a pending badge and are rolled back for any location the server
+   * rejects.
+   */
+  const handleBulkApply = useCallback(async (action: BulkAction): Promise<void> => {
+    const { updates, tooLong } = buildBulkUpdates(bulkSelectedLocations, action);
+    if (tooLong.length > 0) {
+      setState((prev) => ({
+        ...prev,
+        error: `${tooLong.length} ${tooLong.length === 1 ? 'location was' : 'locations were'} skipped: ` +
+          `the note would make their notes longer than ${VALIDATION.MAX_NOTES_LENGTH} characters.`,
+      }));
+    }
+    if (updates.length === 0) {
+      return;
+    }
+
+    updates.forEach(({ location, updates: fields }) => {
+      handleRouteStopUpdate({ ...location, ...fields });
+      handleSavePendingChange(location.id, true);
+    });
+    setIsSavingBulk(true);
+
+    try {
+      const results = await updateLocations(
+        updates.map(({ location, updates: fields }) => ({ id: location.id, ...fields }))
+      );
+
+      const failures: string[] = [];
+      results.forEach((result, index) => {
+        if (result.success) {
+          handleRouteStopUpdate(result.location);
+        } else {
+          handleRouteStopUpdate(updates[index].location);
+          failures.push(result.error);
+        }
+      });
+
+      console.log(`[HomePage] Bulk ${action.kind} update: ${results.length - failures.length} saved, ${failures.length} failed`);
+      if (failures.length > 0) {
+        showActionError(`Unable to save ${failures.length} of ${updates.length} locations`, new Error(failures[0]));
+      }
+    } catch (error) {
+      updates.forEach(({ location }) => handleRouteStopUpdate(location));
+      showActionError('Unable to save the selected locations', error);
+    } finally {
+      updates.forEach(({ location }) => handleSavePendingChange(location.id, false));
+      setIsSavingBulk(false);
+    }
+  }, [bulkSelectedLocations, handleRouteStopUpdate, handleSavePendingChange, showActionError]);
+
+  /**
+   * Assigns every selected location to a rep (an empty name unassigns them)
+   */
+  const handleBulkAssignRep = useCallback(async (rep: string): Promise<void> => {
+    if (bulkSelectedIds.size === 0) {
+      return;
+    }
+
+    setIsSavingBulk(true);
+
+    try {
+      const notFound = new Set(
+        await assignLocations(Array.from(bulkSelectedIds, (id) => ({ id, assignedTo: rep })))
+      );
+      console.log(`[HomePage] Assigned ${bulkSelectedIds.size - notFound.size} selected locations to "${rep}"`);
+      setState((prev) => ({
+        ...prev,
+        locations: prev.locations.map((location) =>
+          bulkSelectedIds.has(location.id) && !notFound.has(location.id)
+            ? { ...location, assignedTo: rep || undefined }
+            : location
+        ),
+      }));
+      if (notFound.size > 0) {
+        showActionError(
+          `Unable to assign ${notFound.size} of ${bulkSelectedIds.size} locations`,
+          new Error('They are no longer in the sheet')
+        );
+      }
+    } catch (error) {
+      showActionError('Unable to assign locations', error);
+    } finally {
+      setIsSavingBulk(false);
+    }
+  }, [bulkSelectedIds, showActionError]);
+
+  /**
+   * Adds the selected locations to the route. With a planned route, the new
+   * stops are appended in an optimized order from its last stop; otherwise
+   * a route through them is planned from the chosen start point.
+   */
+  const handleBulkAddToRoute = useCallback((startType: RouteStartType | null): void => {
+    if (routePlan && startType === null) {
+      const included = new Set(routePlan.stopIds);
+      const added = bulkSelectedLocations.filter((location) => !included.has(location.id));
+      if (added.length === 0) {
+        return;
+      }
+
+      const lastStopId = routePlan.stopIds[routePlan.stopIds.length - 1];
+      const lastStop = state.locations.find((location) => location.id === lastStopId);
+      const from = lastStop ? { ...routePlan.start, lat: lastStop.lat, lng: lastStop.lng } : routePlan.start;
+      const ordered = optimizeRoute(from, added).stops;
+
+      console.log(`[HomePage] Added ${ordered.length} selected locations to the route`);
+      setRoutePlan({ ...routePlan, stopIds: [...routePlan.stopIds, ...ordered.map((stop) => stop.id)] });
+      return;
+    }
+
+    const start = startType ? resolveRouteStart(startType) : null;
+    if (!start) {
+      return;
+    }
+
+    const route = optimizeRoute(start, bulkSelectedLocations);
+    console.log(
+      `[HomePage] Planned route through ${route.stops.length} selected locations (${route.totalDistanceKm.toFixed(1)} km)`
+    );
+
+    endRouteProgress();
+    setRoutePlan({
+      start,
+      stopIds: route.stops.map((stop) => stop.id),
+      unschedulable: [],
+    });
+  }, [routePlan, bulkSelectedLocations, state.locations, resolveRouteStart, endRouteProgress]);
+
+  /**
+   * Render loading state
+   */
+  if (state.isLoading && state.locations.length === 0) {
+    return (
+      <div className="overlay">
+        <div className="loading-container">
+          <div className="spinner" role="status" aria-live="polite" />
+          <p className="loading-text">Loading locations...</p>
+        </div>
+      </div>
+    );
+  }
+
+  /**
+   * Render error state
+   */
+  if (state.error && state.locations.length === 0) {
+    return (
+      <div className="overlay">
+        <div className="error-container">
+          <svg
+            className="error-icon"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+            aria-hidden="true"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+            />
+          </svg>
+          <h1 className="error-title">Unable to Load Locations</h1>
+          <p className="error-message">{state.error}</p>
+          <button
+            onClick={handleRetry}
+            className="btn btn-error"
+            type="button"
+            aria-label="Retry loading locations"
+          >
+            Try Again
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  /**
+   * Render main application
+   */
+  return (
+    <main className="map-container">
+      {/* Map Component */}
+      <Map
+        locations={filteredLocations}
+        onMarkerClick={handleMarkerClick}
+        onCoLocatedClick={handleCoLocatedClick}
+        selectedLocationId={state.selectedLocation?.id ?? null}
+        highlightedLocationId={isListOpen ? hoveredLocationId : null}
+        userLocation={userLocation}
+        followUpRange={followUpRange}
+        pushedLocationId={pushedLocationId}
+        pendingEditIds={pendingEditIds}
+        routeStopIds={routePlan?.stopIds}
+        routePath={routePath}
+        territories={territories}
+        draftTerritoryPath={draftTerritoryPath ?? undefined}
+        onMapClick={draftTerritoryPath ? handleMapClick : undefined}
+        previewHulls={previewHulls}
+        heatmapCells={heatmapCells}
+        onViewportChange={isListOpen ? setMapViewport : undefined}
+        camera={requestedCamera}
+        onCameraChange={handleCameraChange}
+        mapType={mapType}
+        onMapTypeChange={setMapType}
+        selectionShape={selectionShape}
+        onSelectionDrawn={handleSelectionDrawn}
+        bulkSelectedIds={bulkSelectedIds}
+      />
+
+      {/* Top Control Bar */}
+      <div className="absolute top-4 left-4 right-4 z-50 flex flex-wrap items-start gap-2" style={{ pointerEvents: 'none' }}>
+        {/* Search */}
+        <div style={{ pointerEvents: 'auto' }}>
+          <SearchBox
+            locations={territoryLocations}
+            visibleLocationIds={filteredLocationIds}
+            onSelect={handleSearchSelect}
+          />
+        </div>
+
+        {/* Follow-up Dropdown */}
+        <div style={{ pointerEvents: 'auto' }}>
+          <FollowUpDropdown
+            locations={state.locations}
+            range={followUpRange}
+            today={today}
+            onLocationClick={handleMarkerClick}
+          />
+        </div>
+
+        {/* Nearby Locations */}
+        <div style={{ pointerEvents: 'auto' }}>
+          <NearbyPanel
+            locations={filteredLocations}
+            userLocation={userLocation}
+            isGettingLocation={isGettingLocation}
+            onRequestLocation={handleRequestLocation}
+            onLocationClick={handleMarkerClick}
+          />
+        </div>
+
+        {/* Territories */}
+        <div style={{ pointerEvents: 'auto' }}>
+          <TerritoryPanel
+            territories={territories}
+            locations={territoryLocations}
+            repName={repName}
+            isDrawing={draftTerritoryPath !== null}
+            draftPointCount={draftTerritoryPath?.length ?? 0}
+            isSaving={isSavingTerritory}
+            onStartDrawing={handleStartDrawingTerritory}
+            onUndoPoint={handleUndoTerritoryPoint}
+            onCancelDrawing={() => setDraftTerritoryPath(null)}
+            onSave={handleSaveTerritory}
+            onDelete={handleDeleteTerritory}
+          />
+        </div>
+
+        {/* Territory Balancing */}
+        <div style={{ pointerEvents: 'auto' }}>
+          <TerritoryBalancer
+            locations={filteredLocations}
+            suggestedReps={territoryReps}
+            preview={balancePreview}
+            onPreviewChange={setBalancePreview}
+            onAccept={handleAcceptBalance}
+            isSaving={isSavingAssignments}
+          />
+        </div>
+
+        {/* Heatmap */}
+        <div style={{ pointerEvents: 'auto' }}>
+          <HeatmapPanel
+            layer={heatmapLayer}
+            onLayerChange={setHeatmapLayer}
+            cellCount={heatmapCells.length}
+            isLoadingVisits={isLoadingVisits}
+          />
+        </div>
+
+        {/* Add Location */}
+        <div style={{ pointerEvents: 'auto' }}>
+          <AddLocationForm onSubmit={handleCreateLocation} />
+        </div>
+
+        {/* Map Selection */}
+        <div style={{ pointerEvents: 'auto' }}>
+          <SelectionTool
+            shape={selectionShape}
+            onShapeChange={setSelectionShape}
+            selectedCount={bulkSelectedIds.size}
+          />
+        </div>
+
+        {/* Route Planner */}
+        <div style={{ pointerEvents: 'auto' }}>
+          <RoutePlanner
+            candidateCount={routeCandidateCount}
+            stops={routeStops}
+            start={routePlan?.start ?? null}
+            legs={routeLegs}
+            estimateSource={travelEstimator.name}
+            hasHomeBase={clientConfig.routing.homeBase !== null}
+            scheduleSettings={scheduleSettings}
+            onScheduleSettingsChange={setScheduleSettings}
+            stopWindows={stopWindows}
+            unschedulable={unschedulableStops}
+            routeDate={state.selectedFollowUpDate}
+            onPlanRoute={handlePlanRoute}
+            onClearRoute={handleClearRoute}
+            onReorderStops={handleReorderRoute}
+            onLocationClick={handleMarkerClick}
+            stopProgress={stopProgress}
+            onStartRoute={handleStartRoute}
+          >
+            <SavedRoutePicker
+              repName={repName}
+              onRepNameChange={handleRepNameChange}
+              canSave={routeStops.length > 0}
+              isSaving={isSavingRoute}
+              onSave={handleSaveRoute}
+              activeRoute={savedRoute}
+              onStatusChange={handleSavedRouteStatusChange}
+              routes={savedRoutes}
+              loadedDate={savedRoutesDate}
+              isLoading={isLoadingSavedRoutes}
+              onLoadDate={handleLoadSavedRoutes}
+              onOpen={handleOpenSavedRoute}
+              onDelete={handleDeleteSavedRoute}
+            />
+          </RoutePlanner>
+        </div>
+
+        {/* List Toggle Button */}
+        <button
+          onClick={() => {
+            setIsListOpen((prev) => !prev);
+            setHoveredLocationId(null);
+          }}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg shadow-lg hover:shadow-xl transition-shadow min-h-[44px] touch-manipulation ${
+            isListOpen ? 'bg-blue-600 text-white' : 'bg-white'
+          }`}
+          type="button"
+          aria-label={isListOpen ? 'Close location list' : 'Open location list'}
+          aria-expanded={isListOpen}
+          style={{ pointerEvents: 'auto' }}
+        >
+          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" />
+          </svg>
+          <span className="font-medium text-sm">List ({filteredLocations.length})</span>
+        </button>
+
+        {/* Collapsible Legend Button */}
+        <button
+          onClick={() => setIsLegendExpanded(!isLegendExpanded)}
+          className="flex items-center gap-2 px-4 py-2 bg-white rounded-lg shadow-lg hover:shadow-xl transition-shadow min-h-[44px] touch-manipulation"
+          type="button"
+          aria-label={isLegendExpanded ? 'Close filters' : 'Open filters'}
+          aria-expanded={isLegendExpanded}
+          style={{ pointerEvents: 'auto' }}
+        >
+          <svg
+            className={`h-5 w-5 transition-transform ${isLegendExpanded ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M19 9l-7 7-7-7"
+            />
+          </svg>
+          <span className="font-medium text-sm">
+            {isLegendExpanded ? 'Hide Filters' : 'Show Filters'}
+          </span>
+        </button>
+      </div>
+
+      {/* Expandable Legend Panel */}
+      {isLegendExpanded && (
+        <>
+          {/* Backdrop - clicking closes the legend panel */}
+          <div
+            className="fixed inset-0 bg-black bg-opacity-20 z-35"
+            onClick={() => setIsLegendExpanded(false)}
+            aria-label="Close filters"
+          />
+
+          {/* Legend Panel Content */}
+          <div
+            className="absolute top-20 left-4 z-40 bg-white rounded-lg shadow-lg p-3 max-w-[calc(100vw-2rem)] w-80 max-h-[calc(100vh-6rem)] overflow-x-hidden overflow-y-auto"
+            role="region"
+            aria-label="Map controls"
+          >
+          {/* Saved Filter Presets */}
+          <FilterPresetSection
+            repName={repName}
+            onRepNameChange={handleRepNameChange}
+            presets={filterPresets}
+            currentFilters={currentPresetFilters}
+            isLoading={isLoadingFilterPresets}
+            isSaving={isSavingFilterPreset}
+            onApply={handleApplyFilterPreset}
+            onSave={handleSaveFilterPreset}
+            onDelete={handleDeleteFilterPreset}
+            onReset={handleResetFilters}
+          />
+
+          {/* Follow-up Date Filter */}
+          <div className="mb-4 pb-4 border-b border-gray-200 overflow-x-hidden">
+            <div className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+              Follow-up Date Filter
+            </div>
+            <div className="grid grid-cols-3 gap-1" role="group" aria-label="Follow-up date range" style={{ maxWidth: '250px' }}>
+              {FOLLOW_UP_PRESETS.map(({ preset, label }) => (
+                <button
+                  key={preset}
+                  onClick={() => handleFollowUpFilterChange({ preset })}
+                  className={`px-1 py-2 text-xs rounded-md min-h-[44px] touch-manipulation transition-colors ${
+                    state.followUpFilter.preset === preset
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                  type="button"
+                  aria-pressed={state.followUpFilter.preset === preset}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {state.followUpFilter.preset === 'custom' && (
+              <div className="grid grid-cols-2 gap-2 mt-2" style={{ maxWidth: '250px' }}>
+                <label className="text-xs text-gray-600">
+                  From
+                  <input
+                    type="date"
+                    value={state.followUpFilter.customStart}
+                    onChange={(event) => handleFollowUpFilterChange({ customStart: event.target.value })}
+                    className="w-full mt-1 px-1 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 min-h-[44px]"
+                    style={{ boxSizing: 'border-box' }}
+                  />
+                </label>
+                <label className="text-xs text-gray-600">
+                  To
+                  <input
+                    type="date"
+                    value={state.followUpFilter.customEnd}
+                    onChange={(event) => handleFollowUpFilterChange({ customEnd: event.target.value })}
+                    className="w-full mt-1 px-1 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 min-h-[44px]"
+                    style={{ boxSizing: 'border-box' }}
+                  />
+                </label>
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-2 leading-relaxed">
+              Locations with a follow-up in this range appear in purple, or dark red once overdue
+            </p>
+            {!getSingleDay(followUpRange) && (
+              <p className="text-xs text-gray-500 mt-1 leading-relaxed">
+                Routes are planned for {formatFollowUpDay(state.selectedFollowUpDate, today)}
+              </p>
+            )}
+          </div>
+
+          {/* Territory Filter */}
+          {territories.length > 0 && (
+            <div className="mb-4 pb-4 border-b border-gray-200">
+              <label htmlFor="territoryFilter" className="block text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+                Territory
+              </label>
+              <select
+                id="territoryFilter"
+                value={selectedTerritory}
+                onChange={(event) => setSelectedTerritory(event.target.value)}
+                className="w-full px-2 py-2 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px]"
+                style={{ maxWidth: '250px' }}
+              >
+                <option value="">All territories</option>
+                {territories.map((territory) => (
+                  <option key={territory.id} value={territory.name}>
+                    {territory.rep ? `${territory.name} (${territory.rep})` : territory.name}
+                  </option>
+                ))}
+                <option value={TERRITORY_CONFIG.UNASSIGNED}>Unassigned</option>
+              </select>
+            </div>
+          )}
+
+          {/* Text Filter */}
+          <div className="mb-4 pb-4 border-b border-gray-200">
+            <label htmlFor="textFilter" className="block text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+              Text Filter
+            </label>
+            <input
+              id="textFilter"
+              type="text"
+              value={textFilter}
+              onChange={(event) => setTextFilter(event.target.value)}
+              maxLength={FILTER_PRESET_CONFIG.MAX_SEARCH_TEXT_LENGTH}
+              className="w-full px-2 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px]"
+              style={{ maxWidth: '250px' }}
+              placeholder="Name, address or notes"
+            />
+            <p className="text-xs text-gray-500 mt-2 leading-relaxed">
+              Only locations matching this text are shown
+            </p>
+          </div>
+
+          {/* Status Filters */}
+          <div>
+            <div className="text-xs font-semibold text-gray-700 mb-3 uppercase tracking-wide">
               Status Filters
             </div>
             <div className="space-y-2">
@@ -528,21 +2295,130 @@ export default function HomePage(): JSX.Element {
             </div>
 
             {/* Info about Follow-up Date Match */}
-            <div className="mt-4 pt-4 border-t border-gray-200">
+            <div className="mt-4 pt-4 border-t border-gray-200 space-y-2">
               <div className="flex items-center gap-2">
                 <div
                   className="w-4 h-4 rounded-full flex-shrink-0 border border-gray-200"
-                  style={{ backgroundColor: '#9C27B0' }}
+                  style={{ backgroundColor: FOLLOW_UP_DATE_COLOR }}
                   aria-hidden="true"
                 />
                 <span className="text-xs text-gray-600">Follow-up Date Match (Purple)</span>
               </div>
+              <div className="flex items-center gap-2">
+                <div
+                  className="w-4 h-4 rounded-full flex-shrink-0 border border-gray-200"
+                  style={{ backgroundColor: FOLLOW_UP_OVERDUE_COLOR }}
+                  aria-hidden="true"
+                />
+                <span className="text-xs text-gray-600">Overdue Follow-up Match (Dark Red)</span>
+              </div>
             </div>
           </div>
         </div>
         </>
       )}
 
+      {/* Bulk Action Bar */}
+      {bulkSelectedIds.size > 0 && (
+        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-40">
+          <BulkActionBar
+            selectedCount={bulkSelectedIds.size}
+            suggestedReps={territoryReps}
+            hasRoute={!!routePlan && routePlan.stopIds.length > 0}
+            hasHomeBase={clientConfig.routing.homeBase !== null}
+            isSaving={isSavingBulk}
+            onApply={handleBulkApply}
+            onAssignRep={handleBulkAssignRep}
+            onAddToRoute={handleBulkAddToRoute}
+            onClear={handleClearSelection}
+          />
+        </div>
+      )}
+
+      {/* Route Progress Panel */}
+      {stopProgress && routeStops.length > 0 && (
+        <div className="absolute bottom-20 left-4 z-40">
+          <RouteProgressPanel
+            key={currentStop?.id ?? 'complete'}
+            stop={currentStop}
+            stopNumber={currentStopIndex + 1}
+            totalStops={routeStops.length}
+            progress={currentStop ? stopProgress[currentStop.id] : undefined}
+            doneCount={routeStops.filter((stop) => stopProgress[stop.id]?.status === 'done').length}
+            skippedCount={routeStops.filter((stop) => stopProgress[stop.id]?.status === 'skipped').length}
+            onArrived={() => setCurrentStopStatus('arrived')}
+            onSkip={() => setCurrentStopStatus('skipped')}
+            onDone={handleStopDone}
+            onLocationUpdate={handleRouteStopUpdate}
+            onEndRoute={endRouteProgress}
+          />
+        </div>
+      )}
+
+      {/* Next-Stop Suggestions (progress mode already shows the next stop) */}
+      {suggestionOrigin && !stopProgress && (
+        <div className="absolute bottom-20 left-4 z-40">
+          <NextStopSuggestions
+            fromLocation={suggestionOrigin}
+            suggestions={nextStopSuggestions}
+            onLocationClick={handleMarkerClick}
+            onDismiss={() => setSuggestionOrigin(null)}
+          />
+        </div>
+      )}
+
+      {/* Location List Panel */}
+      {isListOpen && (
+        <LocationListPanel
+          locations={filteredLocations}
+          viewport={mapViewport}
+          userLocation={userLocation}
+          isGettingLocation={isGettingLocation}
+          selectedLocationId={state.selectedLocation?.id ?? null}
+          onLocationClick={handleMarkerClick}
+          onLocationHover={setHoveredLocationId}
+          onRequestLocation={handleRequestLocation}
+          onClose={() => {
+            setIsListOpen(false);
+            setHoveredLocationId(null);
+          }}
+        />
+      )}
+
+      {/* Geofence Alerts (tracking mode) */}
+      {geofenceAlerts.length > 0 && (
+        <div className="absolute top-20 left-1/2 transform -translate-x-1/2 z-40">
+          <GeofenceAlert
+            alerts={geofenceAlerts}
+            today={formatLocalIsoDate(new Date())}
+            onLocationClick={handleMarkerClick}
+            onDismiss={(locationId) =>
+              setGeofenceAlerts((prev) => prev.filter(({ location }) => location.id !== locationId))
+            }
+          />
+        </div>
+      )}
+
+      {/* Stacked Locations Chooser */}
+      {coLocatedChoices && (
+        <>
+          {/* Backdrop - clicking closes the chooser */}
+          <div
+            className="fixed inset-0 bg-black bg-opacity-30 z-40"
+            onClick={() => setCoLocatedChoices(null)}
+            aria-label="Close chooser"
+          />
+
+          <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-50">
+            <CoLocatedChooser
+              locations={coLocatedChoices}
+              onSelect={handleCoLocatedSelect}
+              onClose={() => setCoLocatedChoices(null)}
+            />
+          </div>
+        </>
+      )}
+
       {/* InfoWindow Overlay */}
       {state.selectedLocation && (
         <>
@@ -567,6 +2443,9 @@ export default function HomePage(): JSX.Element {
               isOpen={true}
               onClose={handleInfoWindowClose}
               onUpdate={handleLocationUpdate}
+              onStatusSaved={handleStatusSaved}
+              onCheckIn={handleCheckIn}
+              onSavePendingChange={handleSavePendingChange}
               isPushed={pushedLocationId === state.selectedLocation.id}
             />
           </div>
@@ -601,14 +2480,14 @@ export default function HomePage(): JSX.Element {
         </svg>
       </button>
 
-      {/* My Location Button */}
+      {/* My Location Button - toggles tracking mode */}
       <button
         onClick={handleMyLocation}
-        className="btn-location"
+        className={`btn-location ${isTracking ? 'btn-location-active' : ''}`}
         type="button"
-        aria-label="Show my location"
-        disabled={isGettingLocation}
-        title="My Location"
+        aria-label={isTracking ? 'Stop tracking my location' : 'Track my location'}
+        aria-pressed={isTracking}
+        title={isTracking ? 'Stop Tracking' : 'Track My Location'}
       >
         <svg
           className={`h-6 w-6 ${isGettingLocation ? 'animate-pulse' : ''}`}
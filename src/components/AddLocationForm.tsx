@@ -0,0 +1,241 @@
+/**
+ * AddLocationForm Component
+ *
+ * Top bar dropdown for adding a location the rep found in the field. The
+ * rep enters the company name and address (plus an optional status, notes
+ * and follow-up date); the server geocodes the address and adds the row,
+ * so the new marker appears on the map right away. Errors such as an
+ * address that can't be found are shown in the form so the rep can fix
+ * the entry and try again.
+ *
+ * @module components/AddLocationForm
+ */
+
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import type { FormEvent } from 'react';
+import type { LocationStatus } from '@/types/location';
+import type { CreateLocationRequest } from '@/types/api';
+import { ALL_STATUSES, STATUS_LABELS, STATUS_TYPES, VALIDATION } from '@/lib/constants';
+
+/**
+ * Props for the AddLocationForm component
+ */
+interface AddLocationFormProps {
+  /** Callback to add the location; rejects with a message to show if it fails */
+  onSubmit: (input: CreateLocationRequest) => Promise<void>;
+}
+
+/**
+ * Shared classes of the form inputs
+ */
+const INPUT_CLASSES =
+  'w-full px-2 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px] bg-white';
+
+/**
+ * Shared classes of the field labels
+ */
+const LABEL_CLASSES = 'block text-xs font-medium text-gray-700 mb-1';
+
+/**
+ * AddLocationForm Component
+ *
+ * Collects and submits a new location.
+ *
+ * @param props - Component props
+ * @returns AddLocationForm JSX
+ */
+export default function AddLocationForm({ onSubmit }: AddLocationFormProps): JSX.Element {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [companyName, setCompanyName] = useState<string>('');
+  const [address, setAddress] = useState<string>('');
+  const [status, setStatus] = useState<LocationStatus>(STATUS_TYPES.PROSPECT);
+  const [notes, setNotes] = useState<string>('');
+  const [followUpDate, setFollowUpDate] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Handle clicking outside the dropdown to close it
+   */
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent): void => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const canSubmit = !!companyName.trim() && !!address.trim() && !isSubmitting;
+
+  /**
+   * Submit the location, then reset and close the form
+   */
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>): Promise<void> => {
+    event.preventDefault();
+    if (!canSubmit) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await onSubmit({
+        companyName: companyName.trim(),
+        address: address.trim(),
+        status,
+        notes: notes.trim(),
+        followUpDate: followUpDate || undefined,
+      });
+
+      setCompanyName('');
+      setAddress('');
+      setStatus(STATUS_TYPES.PROSPECT);
+      setNotes('');
+      setFollowUpDate('');
+      setIsOpen(false);
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Unable to add location');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div ref={dropdownRef} className="relative z-50">
+      {/* Dropdown Button */}
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        className={`flex items-center gap-2 px-4 py-2 rounded-lg shadow-lg hover:shadow-xl transition-shadow min-h-[44px] touch-manipulation ${
+          isOpen ? 'bg-blue-600 text-white' : 'bg-white'
+        }`}
+        type="button"
+        aria-label="Add a location"
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+        </svg>
+        <span className="font-medium text-sm">Add location</span>
+      </button>
+
+      {/* Dropdown Panel */}
+      {isOpen && (
+        <div
+          className="absolute top-full mt-2 left-0 bg-white rounded-lg shadow-lg py-2 w-80 max-w-[90vw]"
+          role="region"
+          aria-label="Add location"
+        >
+          <form onSubmit={handleSubmit} className="px-4 py-2 space-y-3">
+            <div className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+              New location
+            </div>
+
+            <div>
+              <label htmlFor="add-location-company" className={LABEL_CLASSES}>
+                Company name
+              </label>
+              <input
+                id="add-location-company"
+                type="text"
+                value={companyName}
+                onChange={(event) => setCompanyName(event.target.value)}
+                maxLength={VALIDATION.MAX_COMPANY_NAME_LENGTH}
+                className={INPUT_CLASSES}
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="add-location-address" className={LABEL_CLASSES}>
+                Address
+              </label>
+              <input
+                id="add-location-address"
+                type="text"
+                value={address}
+                onChange={(event) => setAddress(event.target.value)}
+                maxLength={VALIDATION.MAX_ADDRESS_LENGTH}
+                className={INPUT_CLASSES}
+                placeholder="Street, city, state"
+                autoComplete="street-address"
+                required
+              />
+            </div>
+
+            <div>
+              <label htmlFor="add-location-status" className={LABEL_CLASSES}>
+                Status
+              </label>
+              <select
+                id="add-location-status"
+                value={status}
+                onChange={(event) => setStatus(event.target.value as LocationStatus)}
+                className={INPUT_CLASSES}
+              >
+                {ALL_STATUSES.map((value) => (
+                  <option key={value} value={value}>
+                    {STATUS_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="add-location-notes" className={LABEL_CLASSES}>
+                Notes
+              </label>
+              <textarea
+                id="add-location-notes"
+                value={notes}
+                onChange={(event) => setNotes(event.target.value)}
+                maxLength={VALIDATION.MAX_NOTES_LENGTH}
+                rows={2}
+                className={INPUT_CLASSES}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="add-location-follow-up" className={LABEL_CLASSES}>
+                Follow-up date
+              </label>
+              <input
+                id="add-location-follow-up"
+                type="date"
+                value={followUpDate}
+                onChange={(event) => setFollowUpDate(event.target.value)}
+                className={INPUT_CLASSES}
+              />
+            </div>
+
+            {error && (
+              <p className="text-xs text-red-600" role="alert">
+                {error}
+              </p>
+            )}
+
+            <button
+              type="submit"
+              disabled={!canSubmit}
+              className="w-full px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            >
+              {isSubmitting ? 'Finding address...' : 'Add location'}
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+/**
+ * BulkActionBar Component
+ *
+ * Bar shown at the bottom of the map while locations are selected with
+ * the lasso or rectangle tool. Applies one action to every selected
+ * location: set the status, set (or clear) the follow-up date, append a
+ * line to the notes, assign a rep, or add the locations to the planned
+ * route (starting a new route if none is planned).
+ *
+ * @module components/BulkActionBar
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { LocationStatus } from '@/types/location';
+import type { RouteStartType } from '@/types/route';
+import { ROUTE_START_LABELS } from '@/types/route';
+import type { BulkAction } from '@/lib/bulk-actions';
+import { ALL_STATUSES, STATUS_LABELS, STATUS_TYPES, VALIDATION } from '@/lib/constants';
+
+/**
+ * Props for the BulkActionBar component
+ */
+interface BulkActionBarProps {
+  /** Number of selected locations */
+  selectedCount: number;
+  /** Rep names offered when assigning */
+  suggestedReps: string[];
+  /** Whether a route is planned (the locations are appended to it) */
+  hasRoute: boolean;
+  /** Whether a home base is configured */
+  hasHomeBase: boolean;
+  /** Whether a bulk action is being saved */
+  isSaving: boolean;
+  /** Callback to update a field on every selected location */
+  onApply: (action: BulkAction) => Promise<void>;
+  /** Callback to assign every selected location to a rep (empty to unassign) */
+  onAssignRep: (rep: string) => Promise<void>;
+  /** Callback to append the selected locations to the route (null), or start a route from the given point */
+  onAddToRoute: (startType: RouteStartType | null) => void;
+  /** Callback to clear the selection */
+  onClear: () => void;
+}
+
+/**
+ * Action tabs
+ */
+type ActionTab = 'status' | 'follow-up' | 'note' | 'rep' | 'route';
+
+/**
+ * Action tabs, in display order
+ */
+const ACTION_TABS: Array<{ tab: ActionTab; label: string }> = [
+  { tab: 'status', label: 'Status' },
+  { tab: 'follow-up', label: 'Follow-up' },
+  { tab: 'note', label: 'Note' },
+  { tab: 'rep', label: 'Rep' },
+  { tab: 'route', label: 'Route' },
+];
+
+/**
+ * Shared classes of the apply buttons
+ */
+const APPLY_BUTTON_CLASSES =
+  'px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors';
+
+/**
+ * Shared classes of the action inputs
+ */
+const INPUT_CLASSES =
+  'flex-1 min-w-0 px-2 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px] bg-white';
+
+/**
+ * BulkActionBar Component
+ *
+ * Applies an action to every selected location.
+ *
+ * @param props - Component props
+ * @returns BulkActionBar JSX
+ */
+export default function BulkActionBar({
+  selectedCount,
+  suggestedReps,
+  hasRoute,
+  hasHomeBase,
+  isSaving,
+  onApply,
+  onAssignRep,
+  onAddToRoute,
+  onClear,
+}: BulkActionBarProps): JSX.Element {
+  const [activeTab, setActiveTab] = useState<ActionTab>('status');
+  const [status, setStatus] = useState<LocationStatus>(STATUS_TYPES.FOLLOW_UP);
+  const [followUpDate, setFollowUpDate] = useState<string>('');
+  const [note, setNote] = useState<string>('');
+  const [rep, setRep] = useState<string>('');
+
+  const countLabel = `${selectedCount} ${selectedCount === 1 ? 'location' : 'locations'}`;
+
+  /**
+   * Append the note, clearing it afterwards
+   */
+  const handleAppendNote = async (): Promise<void> => {
+    const trimmed = note.trim();
+    if (!trimmed || isSaving) {
+      return;
+    }
+    await onApply({ kind: 'note', note: trimmed });
+    setNote('');
+  };
+
+  return (
+    <div
+      className="bg-white rounded-lg shadow-lg p-3 w-[28rem] max-w-[calc(100vw-2rem)]"
+      role="region"
+      aria-label="Bulk actions"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="text-sm font-semibold text-gray-900">{selectedCount} selected</div>
+        <button
+          onClick={onClear}
+          className="text-xs text-blue-600 hover:text-blue-800 px-1 min-h-[44px] touch-manipulation"
+          type="button"
+        >
+          Clear selection
+        </button>
+      </div>
+
+      {/* Action Tabs */}
+      <div className="grid grid-cols-5 gap-1 mb-2" role="tablist" aria-label="Bulk action">
+        {ACTION_TABS.map((option) => (
+          <button
+            key={option.tab}
+            onClick={() => setActiveTab(option.tab)}
+            className={`px-1 py-2 text-xs font-medium rounded-md min-h-[44px] touch-manipulation transition-colors ${
+              activeTab === option.tab
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+            type="button"
+            role="tab"
+            aria-selected={activeTab === option.tab}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Active Action */}
+      {activeTab === 'status' && (
+        <div className="flex gap-2">
+          <select
+            value={status}
+            onChange={(event) => setStatus(event.target.value as LocationStatus)}
+            className={INPUT_CLASSES}
+            aria-label="New status"
+          >
+            {ALL_STATUSES.map((value) => (
+              <option key={value} value={value}>
+                {STATUS_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => onApply({ kind: 'status', status })}
+            disabled={isSaving}
+            className={APPLY_BUTTON_CLASSES}
+            type="button"
+          >
+            {isSaving ? 'Saving...' : 'Set status'}
+          </button>
+        </div>
+      )}
+
+      {activeTab === 'follow-up' && (
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={followUpDate}
+            onChange={(event) => setFollowUpDate(event.target.value)}
+            className={INPUT_CLASSES}
+            aria-label="New follow-up date (empty to clear)"
+          />
+          <button
+            onClick={() => onApply({ kind: 'follow-up', followUpDate })}
+            disabled={isSaving}
+            className={APPLY_BUTTON_CLASSES}
+            type="button"
+          >
+            {isSaving ? 'Saving...' : followUpDate ? 'Set date' : 'Clear dates'}
+          </button>
+        </div>
+      )}
+
+      {activeTab === 'note' && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                handleAppendNote();
+              }
+            }}
+            maxLength={VALIDATION.MAX_NOTES_LENGTH}
+            className={INPUT_CLASSES}
+            placeholder="Line to add to each location's notes"
+            aria-label="Note to append"
+          />
+          <button
+            onClick={handleAppendNote}
+            disabled={isSaving || !note.trim()}
+            className={APPLY_BUTTON_CLASSES}
+            type="button"
+          >
+            {isSaving ? 'Saving...' : 'Append'}
+          </button>
+        </div>
+      )}
+
+      {activeTab === 'rep' && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={rep}
+            onChange={(event) => setRep(event.target.value)}
+            list="bulk-rep-suggestions"
+            className={INPUT_CLASSES}
+            placeholder="Rep name (empty to unassign)"
+            aria-label="Rep to assign"
+          />
+          <datalist id="bulk-rep-suggestions">
+            {suggestedReps.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+          <button
+            onClick={() => onAssignRep(rep.trim())}
+            disabled={isSaving}
+            className={APPLY_BUTTON_CLASSES}
+            type="button"
+          >
+            {isSaving ? 'Saving...' : rep.trim() ? 'Assign' : 'Unassign'}
+          </button>
+        </div>
+      )}
+
+      {activeTab === 'route' && (
+        hasRoute ? (
+          <button
+            onClick={() => onAddToRoute(null)}
+            className={`w-full ${APPLY_BUTTON_CLASSES}`}
+            type="button"
+          >
+            Add {countLabel} to the route
+          </button>
+        ) : (
+          <div>
+            <div className="text-xs text-gray-500 mb-2">No route is planned. Start one from:</div>
+            <div className="flex gap-2">
+              {(['my-location', 'home-base'] as const).map((startType) => (
+                <button
+                  key={startType}
+                  onClick={() => onAddToRoute(startType)}
+                  disabled={startType === 'home-base' && !hasHomeBase}
+                  className={`flex-1 ${APPLY_BUTTON_CLASSES}`}
+                  type="button"
+                >
+                  {ROUTE_START_LABELS[startType]}
+                </button>
+              ))}
+            </div>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * CoLocatedChooser Component
+ *
+ * Chooser shown when the rep clicks a marker (or a cluster that cannot
+ * be zoomed apart) where several locations share the same point, such as
+ * the businesses in one strip mall. Lists each location with its status
+ * color; picking one opens its popup.
+ *
+ * @module components/CoLocatedChooser
+ */
+
+'use client';
+
+import type { Location } from '@/types/location';
+import { STATUS_COLORS, STATUS_LABELS } from '@/lib/constants';
+
+/**
+ * Props for the CoLocatedChooser component
+ */
+interface CoLocatedChooserProps {
+  /** Locations sharing the clicked point */
+  locations: Location[];
+  /** Callback when a location is picked */
+  onSelect: (location: Location) => void;
+  /** Callback to close the chooser */
+  onClose: () => void;
+}
+
+/**
+ * CoLocatedChooser Component
+ *
+ * Lets the rep pick one of several stacked locations.
+ *
+ * @param props - Component props
+ * @returns CoLocatedChooser JSX
+ */
+export default function CoLocatedChooser({
+  locations,
+  onSelect,
+  onClose,
+}: CoLocatedChooserProps): JSX.Element {
+  const sorted = [...locations].sort((a, b) => a.companyName.localeCompare(b.companyName));
+
+  return (
+    <div
+      className="w-80 max-w-[90vw] max-h-[70vh] overflow-y-auto bg-white rounded-lg shadow-lg py-2"
+      role="dialog"
+      aria-label="Choose a location"
+    >
+      <div className="flex items-start justify-between gap-2 px-4 py-1">
+        <div>
+          <div className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+            {locations.length} locations here
+          </div>
+          {sorted[0] && (
+            <div className="text-xs text-gray-500 mt-0.5">{sorted[0].address}</div>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors p-1"
+          type="button"
+          aria-label="Close"
+        >
+          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {sorted.map((location) => (
+          <li key={location.id}>
+            <button
+              onClick={() => onSelect(location)}
+              className="w-full text-left px-4 py-2 min-h-[44px] touch-manipulation flex items-start gap-2 hover:bg-gray-50 transition-colors"
+              type="button"
+            >
+              <span
+                className="mt-1 w-3 h-3 rounded-full flex-shrink-0 border border-gray-200"
+                style={{ backgroundColor: STATUS_COLORS[location.status] }}
+                aria-hidden="true"
+              />
+              <span className="flex-1">
+                <span className="block text-sm font-medium text-gray-900">{location.companyName}</span>
+                <span className="block text-xs text-gray-500">{STATUS_LABELS[location.status]}</span>
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+/**
+ * FilterPresetSection Component
+ *
+ * "Saved Filters" section of the filters panel. Lists the rep's named
+ * filter presets (e.g., "My hot leads"), applies one with a tap, saves the
+ * current statuses, follow-up dates, territory and text filter under a
+ * name, and resets the filters to the defaults. Saving under an existing
+ * name overwrites that preset.
+ *
+ * Presets belong to the rep name entered for saved routes; the section
+ * asks for it when none is set.
+ *
+ * @module components/FilterPresetSection
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { FilterPreset, FilterPresetInput } from '@/types/filter-preset';
+import { FILTER_PRESET_CONFIG } from '@/lib/constants';
+
+/**
+ * Filters a preset can hold
+ */
+type PresetFilters = Omit<FilterPresetInput, 'rep' | 'name'>;
+
+/**
+ * Props for the FilterPresetSection component
+ */
+interface FilterPresetSectionProps {
+  /** Rep the presets belong to (empty if not entered yet) */
+  repName: string;
+  /** Callback when the rep enters their name */
+  onRepNameChange: (name: string) => void;
+  /** The rep's presets (null until loaded) */
+  presets: FilterPreset[] | null;
+  /** Filters currently applied, to mark the matching preset */
+  currentFilters: PresetFilters;
+  /** Whether the presets are being loaded */
+  isLoading: boolean;
+  /** Whether a preset is being saved or deleted */
+  isSaving: boolean;
+  /** Callback to apply a preset's filters */
+  onApply: (preset: FilterPreset) => void;
+  /** Callback to save the current filters under a name (overwriting a preset with that name) */
+  onSave: (name: string) => Promise<void>;
+  /** Callback to delete a preset */
+  onDelete: (preset: FilterPreset) => Promise<void>;
+  /** Callback to go back to the default filters */
+  onReset: () => void;
+}
+
+/**
+ * Checks whether a preset holds exactly the given filters.
+ *
+ * @param preset - Saved preset
+ * @param filters - Filters to compare
+ * @returns True if applying the preset would change nothing
+ */
+function matchesFilters(preset: FilterPreset, filters: PresetFilters): boolean {
+  const { followUpFilter } = filters;
+  const isCustom = followUpFilter.preset === 'custom';
+  return (
+    preset.statuses.length === filters.statuses.length &&
+    preset.statuses.every((status) => filters.statuses.includes(status)) &&
+    preset.followUpFilter.preset === followUpFilter.preset &&
+    (!isCustom ||
+      (preset.followUpFilter.customStart === followUpFilter.customStart &&
+        preset.followUpFilter.customEnd === followUpFilter.customEnd)) &&
+    preset.territory === filters.territory &&
+    preset.searchText === filters.searchText
+  );
+}
+
+/**
+ * FilterPresetSection Component
+ *
+ * Saved filter presets for the filters panel.
+ *
+ * @param props - Component props
+ * @returns FilterPresetSection JSX
+ */
+export default function FilterPresetSection({
+  repName,
+  onRepNameChange,
+  presets,
+  currentFilters,
+  isLoading,
+  isSaving,
+  onApply,
+  onSave,
+  onDelete,
+  onReset,
+}: FilterPresetSectionProps): JSX.Element {
+  const [name, setName] = useState<string>('');
+  const [pendingDeleteId, setPendingDeleteId] = useState<number | null>(null);
+
+  const trimmedName = name.trim();
+  const existingPreset = presets?.find(
+    (preset) => preset.name.toLowerCase() === trimmedName.toLowerCase()
+  );
+  const canSave = trimmedName.length > 0 && presets !== null && !isSaving;
+
+  /**
+   * Save the current filters, clearing the name afterwards
+   */
+  const handleSave = async (): Promise<void> => {
+    if (!canSave) {
+      return;
+    }
+    await onSave(trimmedName);
+    setName('');
+  };
+
+  /**
+   * Delete a preset after the rep confirms
+   */
+  const handleConfirmDelete = async (preset: FilterPreset): Promise<void> => {
+    await onDelete(preset);
+    setPendingDeleteId(null);
+  };
+
+  return (
+    <div className="mb-4 pb-4 border-b border-gray-200">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+          Saved Filters
+        </div>
+        <button
+          onClick={onReset}
+          className="text-xs text-blue-600 hover:text-blue-800 px-1 min-h-[44px] touch-manipulation"
+          type="button"
+        >
+          Reset to default
+        </button>
+      </div>
+
+      {!repName.trim() ? (
+        <label className="block text-xs text-gray-600">
+          Enter your name to save and load your filter presets
+          <input
+            type="text"
+            defaultValue=""
+            onBlur={(event) => onRepNameChange(event.target.value.trim())}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                onRepNameChange(event.currentTarget.value.trim());
+              }
+            }}
+            className="w-full mt-1 px-2 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px]"
+            placeholder="e.g., Alex"
+          />
+        </label>
+      ) : (
+        <>
+          {isLoading || presets === null ? (
+            <div className="text-xs text-gray-500 py-2">Loading presets...</div>
+          ) : presets.length === 0 ? (
+            <div className="text-xs text-gray-500 py-2">No saved filters yet</div>
+          ) : (
+            <ul className="space-y-1 mb-2">
+              {presets.map((preset) => {
+                const isActive = matchesFilters(preset, currentFilters);
+                return (
+                  <li key={preset.id} className="flex items-center gap-1">
+                    <button
+                      onClick={() => onApply(preset)}
+                      className={`flex-1 min-w-0 px-3 py-2 text-sm text-left rounded-md min-h-[44px] touch-manipulation transition-colors truncate ${
+                        isActive
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                      type="button"
+                      aria-pressed={isActive}
+                    >
+                      {preset.name}
+                    </button>
+                    {pendingDeleteId === preset.id ? (
+                      <span className="flex gap-1">
+                        <button
+                          onClick={() => handleConfirmDelete(preset)}
+                          disabled={isSaving}
+                          className="px-2 py-1 text-xs font-medium rounded-md min-h-[44px] touch-manipulation bg-red-600 text-white hover:bg-red-700 disabled:bg-gray-300 transition-colors"
+                          type="button"
+                        >
+                          Delete
+                        </button>
+                        <button
+                          onClick={() => setPendingDeleteId(null)}
+                          className="px-2 py-1 text-xs font-medium rounded-md min-h-[44px] touch-manipulation bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+                          type="button"
+                        >
+                          Keep
+                        </button>
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => setPendingDeleteId(preset.id)}
+                        className="text-gray-400 hover:text-red-600 transition-colors p-2 min-h-[44px] touch-manipulation"
+                        type="button"
+                        aria-label={`Delete ${preset.name}`}
+                      >
+                        <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') {
+                  handleSave();
+                }
+              }}
+              maxLength={FILTER_PRESET_CONFIG.MAX_NAME_LENGTH}
+              className="flex-1 min-w-0 px-2 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px]"
+              placeholder="Name these filters"
+              aria-label="Filter preset name"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!canSave}
+              className="px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+              type="button"
+            >
+              {isSaving ? 'Saving...' : existingPreset ? 'Update' : 'Save'}
+            </button>
+          </div>
+          {existingPreset && (
+            <div className="text-xs text-gray-500 mt-1">
+              Replaces the filters saved as &quot;{existingPreset.name}&quot;
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
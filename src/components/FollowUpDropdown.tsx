@@ -1,8 +1,9 @@
 /**
  * FollowUpDropdown Component
  *
- * Displays a dropdown showing the count of follow-ups scheduled for a specific date.
- * When clicked, shows a list of company names with follow-ups on that date.
+ * Displays a dropdown showing the count of follow-ups in the follow-up
+ * filter range (e.g., Overdue or This week). When clicked, shows the
+ * company names grouped by follow-up date, overdue dates flagged in red.
  * Clicking a company name selects that location and opens its popup.
  *
  * @module components/FollowUpDropdown
@@ -12,6 +13,9 @@
 
 import { useState, useRef, useEffect } from 'react';
 import type { Location } from '@/types/location';
+import { describeFollowUpRange, formatFollowUpDay, groupByFollowUpDate } from '@/lib/follow-up-filter';
+import type { FollowUpRange } from '@/lib/follow-up-filter';
+import { FOLLOW_UP_OVERDUE_COLOR } from '@/lib/constants';
 
 /**
  * Props for the FollowUpDropdown component
@@ -19,8 +23,10 @@ import type { Location } from '@/types/location';
 interface FollowUpDropdownProps {
   /** All locations from the app */
   locations: Location[];
-  /** Currently selected follow-up date (YYYY-MM-DD format) */
-  selectedFollowUpDate: string;
+  /** Follow-up date range of the filter */
+  range: FollowUpRange;
+  /** Today's local date (YYYY-MM-DD format) */
+  today: string;
   /** Callback when a location is clicked */
   onLocationClick: (location: Location) => void;
 }
@@ -28,27 +34,27 @@ interface FollowUpDropdownProps {
 /**
  * FollowUpDropdown Component
  *
- * Shows follow-ups scheduled for the selected date and allows navigation to them.
+ * Shows follow-ups scheduled in the selected range and allows navigation to them.
  *
  * @param props - Component props
  * @returns FollowUpDropdown JSX
  */
 export default function FollowUpDropdown({
   locations,
-  selectedFollowUpDate,
+  range,
+  today,
   onLocationClick,
 }: FollowUpDropdownProps): JSX.Element {
   const [isOpen, setIsOpen] = useState<boolean>(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   /**
-   * Filter locations that match the selected follow-up date
+   * Group locations with a follow-up in the range by date
    */
-  const followUpLocations = locations.filter(
-    (location) => location.followUpDate === selectedFollowUpDate
-  );
+  const followUpGroups = groupByFollowUpDate(locations, range);
 
-  const count = followUpLocations.length;
+  const count = followUpGroups.reduce((total, group) => total + group.locations.length, 0);
+  const rangeDescription = describeFollowUpRange(range, today);
 
   /**
    * Handle clicking outside the dropdown to close it
@@ -91,7 +97,7 @@ export default function FollowUpDropdown({
         onClick={toggleDropdown}
         className="flex items-center gap-2 px-4 py-2 bg-white rounded-lg shadow-lg hover:shadow-xl transition-shadow min-h-[44px] touch-manipulation"
         type="button"
-        aria-label={`${count} follow-ups scheduled for ${selectedFollowUpDate}`}
+        aria-label={`${count} follow-ups ${rangeDescription}`}
         aria-expanded={isOpen}
         aria-haspopup="true"
       >
@@ -122,29 +128,44 @@ export default function FollowUpDropdown({
         >
           {count === 0 ? (
             <div className="px-4 py-3 text-sm text-gray-500">
-              No follow-ups scheduled for this date
+              No follow-ups {range.start === null ? 'overdue' : `scheduled ${rangeDescription}`}
             </div>
           ) : (
-            <div className="divide-y divide-gray-100">
-              {followUpLocations.map((location) => (
-                <button
-                  key={location.id}
-                  onClick={() => handleCompanyClick(location)}
-                  className="w-full px-4 py-3 text-left hover:bg-gray-50 transition-colors min-h-[44px] touch-manipulation"
-                  type="button"
-                  role="menuitem"
+            followUpGroups.map((group) => (
+              <div key={group.date} role="group" aria-label={formatFollowUpDay(group.date, today)}>
+                {/* Date Heading */}
+                <div
+                  className="px-4 pt-3 pb-1 flex items-center justify-between text-xs font-semibold uppercase tracking-wide"
+                  style={group.date < today ? { color: FOLLOW_UP_OVERDUE_COLOR } : undefined}
                 >
-                  <div className="font-medium text-sm text-gray-900">
-                    {location.companyName}
-                  </div>
-                  {location.address && (
-                    <div className="text-xs text-gray-500 mt-1">
-                      {location.address}
-                    </div>
-                  )}
-                </button>
-              ))}
-            </div>
+                  <span className={group.date < today ? '' : 'text-gray-700'}>
+                    {formatFollowUpDay(group.date, today)}
+                    {group.date < today && ' · Overdue'}
+                  </span>
+                  <span className="text-gray-400">{group.locations.length}</span>
+                </div>
+                <div className="divide-y divide-gray-100">
+                  {group.locations.map((location) => (
+                    <button
+                      key={location.id}
+                      onClick={() => handleCompanyClick(location)}
+                      className="w-full px-4 py-3 text-left hover:bg-gray-50 transition-colors min-h-[44px] touch-manipulation"
+                      type="button"
+                      role="menuitem"
+                    >
+                      <div className="font-medium text-sm text-gray-900">
+                        {location.companyName}
+                      </div>
+                      {location.address && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {location.address}
+                        </div>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))
           )}
         </div>
       )}
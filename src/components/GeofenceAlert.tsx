@@ -0,0 +1,118 @@
+/**
+ * GeofenceAlert Component
+ *
+ * Alert card shown while tracking when the rep comes near a location with
+ * a due or overdue follow-up, or one marked Revisit. Each alert shows why
+ * the location is worth a stop and how far away it is; clicking the name
+ * opens the location popup, and "Go" opens directions.
+ *
+ * @module components/GeofenceAlert
+ */
+
+'use client';
+
+import type { Location } from '@/types/location';
+import type { NearbyLocation } from '@/lib/proximity';
+import { formatDistance } from '@/lib/format';
+import { openDirections } from '@/lib/directions';
+import { STATUS_COLORS, STATUS_LABELS } from '@/lib/constants';
+
+/**
+ * Props for the GeofenceAlert component
+ */
+interface GeofenceAlertProps {
+  /** Locations that raised an alert, most recent first */
+  alerts: NearbyLocation[];
+  /** Rep's local date (YYYY-MM-DD), to tell due from overdue follow-ups */
+  today: string;
+  /** Callback when an alert's name is clicked */
+  onLocationClick: (location: Location) => void;
+  /** Callback to dismiss one alert */
+  onDismiss: (locationId: number) => void;
+}
+
+/**
+ * Describes why a location raised an alert.
+ *
+ * @param location - Alerted location
+ * @param today - Rep's local date (YYYY-MM-DD)
+ * @returns Short reason (e.g., "Follow-up overdue (2025-10-10)")
+ */
+function describeReason(location: Location, today: string): string {
+  if (location.followUpDate && location.followUpDate < today) {
+    return `Follow-up overdue (${location.followUpDate})`;
+  }
+  if (location.followUpDate === today) {
+    return 'Follow-up due today';
+  }
+  return STATUS_LABELS[location.status];
+}
+
+/**
+ * GeofenceAlert Component
+ *
+ * Lists nearby locations that need a visit.
+ *
+ * @param props - Component props
+ * @returns GeofenceAlert JSX
+ */
+export default function GeofenceAlert({
+  alerts,
+  today,
+  onLocationClick,
+  onDismiss,
+}: GeofenceAlertProps): JSX.Element {
+  return (
+    <div
+      className="w-80 max-w-[calc(100vw-2rem)] bg-white border-l-4 border-amber-500 rounded-lg shadow-lg py-2"
+      role="alert"
+      aria-live="assertive"
+    >
+      <div className="px-4 py-1 text-xs font-semibold text-gray-700 uppercase tracking-wide">
+        Nearby and due for a visit
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {alerts.map(({ location, distanceKm }) => (
+          <li key={location.id} className="flex items-center gap-2 px-4 py-2">
+            <button
+              onClick={() => onLocationClick(location)}
+              className="flex-1 text-left min-h-[44px] touch-manipulation flex items-start gap-2"
+              type="button"
+            >
+              <span
+                className="mt-1 w-3 h-3 rounded-full flex-shrink-0 border border-gray-200"
+                style={{ backgroundColor: STATUS_COLORS[location.status] }}
+                aria-hidden="true"
+              />
+              <span className="flex-1">
+                <span className="block text-sm font-medium text-gray-900">{location.companyName}</span>
+                <span className="block text-xs text-gray-500">
+                  {describeReason(location, today)} · {formatDistance(distanceKm)}
+                </span>
+              </span>
+            </button>
+            <button
+              onClick={() => openDirections(location)}
+              className="px-4 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800 transition-colors"
+              type="button"
+              aria-label={`Get directions to ${location.companyName}`}
+            >
+              Go
+            </button>
+            <button
+              onClick={() => onDismiss(location.id)}
+              className="text-gray-400 hover:text-gray-600 transition-colors p-1"
+              type="button"
+              aria-label={`Dismiss alert for ${location.companyName}`}
+            >
+              <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+/**
+ * HeatmapPanel Component
+ *
+ * Dropdown panel for the manager's heatmap layer: status density (e.g.,
+ * where Customers are concentrated), time since the last visit, or
+ * coverage gaps (grid cells holding Prospects with no visit in the chosen
+ * number of days). Shows a legend for the active layer.
+ *
+ * @module components/HeatmapPanel
+ */
+
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import type { LocationStatus } from '@/types/location';
+import type { HeatmapLayer } from '@/lib/heatmap';
+import { ALL_STATUSES, STATUS_TYPES, STATUS_LABELS, HEATMAP_CONFIG } from '@/lib/constants';
+
+/**
+ * Props for the HeatmapPanel component
+ */
+interface HeatmapPanelProps {
+  /** Active layer (null when the heatmap is off) */
+  layer: HeatmapLayer | null;
+  /** Callback when a layer is picked or the heatmap is turned off */
+  onLayerChange: (layer: HeatmapLayer | null) => void;
+  /** Number of shaded cells in the active layer */
+  cellCount: number;
+  /** Whether the visit log is being loaded */
+  isLoadingVisits: boolean;
+}
+
+/**
+ * Layer choices, in display order
+ */
+const LAYER_OPTIONS: Array<{ kind: HeatmapLayer['kind'] | 'off'; label: string }> = [
+  { kind: 'off', label: 'Off' },
+  { kind: 'status', label: 'Status density' },
+  { kind: 'last-visit', label: 'Time since last visit' },
+  { kind: 'coverage-gaps', label: 'Coverage gaps' },
+];
+
+/**
+ * HeatmapPanel Component
+ *
+ * Picks and explains the heatmap layer.
+ *
+ * @param props - Component props
+ * @returns HeatmapPanel JSX
+ */
+export default function HeatmapPanel({
+  layer,
+  onLayerChange,
+  cellCount,
+  isLoadingVisits,
+}: HeatmapPanelProps): JSX.Element {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [status, setStatus] = useState<LocationStatus>(STATUS_TYPES.CUSTOMER);
+  const [gapDays, setGapDays] = useState<number>(HEATMAP_CONFIG.DEFAULT_GAP_DAYS);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Handle clicking outside the dropdown to close it
+   */
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent): void => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  /**
+   * Switch to another layer, keeping the chosen status and gap days
+   */
+  const handleLayerClick = (kind: HeatmapLayer['kind'] | 'off'): void => {
+    switch (kind) {
+      case 'off':
+        onLayerChange(null);
+        break;
+      case 'status':
+        onLayerChange({ kind, status });
+        break;
+      case 'last-visit':
+        onLayerChange({ kind });
+        break;
+      case 'coverage-gaps':
+        onLayerChange({ kind, days: gapDays });
+        break;
+    }
+  };
+
+  /**
+   * Pick the status of the density layer
+   */
+  const handleStatusChange = (value: LocationStatus): void => {
+    setStatus(value);
+    onLayerChange({ kind: 'status', status: value });
+  };
+
+  /**
+   * Pick the inactivity period of the coverage gaps layer
+   */
+  const handleGapDaysClick = (days: number): void => {
+    setGapDays(days);
+    onLayerChange({ kind: 'coverage-gaps', days });
+  };
+
+  const activeKind = layer?.kind ?? 'off';
+
+  return (
+    <div ref={dropdownRef} className="relative z-50">
+      {/* Dropdown Button */}
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        className={`flex items-center gap-2 px-4 py-2 rounded-lg shadow-lg hover:shadow-xl transition-shadow min-h-[44px] touch-manipulation ${
+          layer ? 'bg-blue-600 text-white' : 'bg-white'
+        }`}
+        type="button"
+        aria-label="Heatmap layers"
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5h6v6H4zM14 5h6v6h-6zM4 15h6v6H4zM14 15h6v6h-6z" />
+        </svg>
+        <span className="font-medium text-sm">Heatmap</span>
+      </button>
+
+      {/* Dropdown Panel */}
+      {isOpen && (
+        <div
+          className="absolute top-full mt-2 left-0 bg-white rounded-lg shadow-lg py-2 w-80 max-w-[90vw] max-h-[60vh] overflow-y-auto"
+          role="region"
+          aria-label="Heatmap layers"
+        >
+          {/* Layer */}
+          <div className="px-4 py-2 border-b border-gray-100">
+            <div className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+              Layer
+            </div>
+            <div className="grid grid-cols-2 gap-1">
+              {LAYER_OPTIONS.map((option) => (
+                <button
+                  key={option.kind}
+                  onClick={() => handleLayerClick(option.kind)}
+                  className={`px-2 py-2 text-sm rounded-md min-h-[44px] touch-manipulation transition-colors ${
+                    activeKind === option.kind
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                  type="button"
+                  aria-pressed={activeKind === option.kind}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Layer Settings */}
+          {layer?.kind === 'status' && (
+            <div className="px-4 py-2 border-b border-gray-100">
+              <label
+                htmlFor="heatmap-status"
+                className="block text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide"
+              >
+                Status
+              </label>
+              <select
+                id="heatmap-status"
+                value={layer.status}
+                onChange={(event) => handleStatusChange(event.target.value as LocationStatus)}
+                className="w-full px-2 py-2 text-sm border border-gray-300 rounded-md min-h-[44px] bg-white"
+              >
+                {ALL_STATUSES.map((value) => (
+                  <option key={value} value={value}>
+                    {STATUS_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {layer?.kind === 'coverage-gaps' && (
+            <div className="px-4 py-2 border-b border-gray-100">
+              <div className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+                No visit in
+              </div>
+              <div className="flex gap-1">
+                {HEATMAP_CONFIG.GAP_DAYS_OPTIONS.map((days) => (
+                  <button
+                    key={days}
+                    onClick={() => handleGapDaysClick(days)}
+                    className={`flex-1 px-2 py-2 text-sm rounded-md min-h-[44px] touch-manipulation transition-colors ${
+                      layer.days === days
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                    type="button"
+                    aria-pressed={layer.days === days}
+                  >
+                    {days} d
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Legend */}
+          {layer && (
+            <div className="px-4 py-2 text-xs text-gray-600">
+              {layer.kind === 'coverage-gaps' ? (
+                <div className="flex items-center gap-2">
+                  <span
+                    className="w-4 h-4 rounded-sm flex-shrink-0"
+                    style={{ backgroundColor: HEATMAP_CONFIG.GAP_COLOR, opacity: HEATMAP_CONFIG.MAX_FILL_OPACITY }}
+                    aria-hidden="true"
+                  />
+                  <span>
+                    Prospects with no visit in {layer.days} days (darker cells hold more)
+                  </span>
+                </div>
+              ) : (
+                <>
+                  <div
+                    className="h-3 rounded-sm"
+                    style={{ background: `linear-gradient(to right, ${HEATMAP_CONFIG.GRADIENT.join(', ')})` }}
+                    aria-hidden="true"
+                  />
+                  <div className="flex justify-between mt-1">
+                    <span>{layer.kind === 'status' ? 'Few' : 'Recently visited'}</span>
+                    <span>
+                      {layer.kind === 'status'
+                        ? `Most ${STATUS_LABELS[layer.status]}`
+                        : `${HEATMAP_CONFIG.MAX_STALE_DAYS}+ days or never`}
+                    </span>
+                  </div>
+                </>
+              )}
+              <div className="mt-2 text-gray-500">
+                {isLoadingVisits
+                  ? 'Loading visit history...'
+                  : `${cellCount} ${cellCount === 1 ? 'cell' : 'cells'} of ${HEATMAP_CONFIG.CELL_SIZE_KM} km shaded`}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
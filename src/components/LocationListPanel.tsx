@@ -0,0 +1,283 @@
+/**
+ * LocationListPanel Component
+ *
+ * Collapsible list of the filtered locations, shown as a bottom sheet on
+ * phones and a side panel on larger screens. Rows can be sorted by name,
+ * status, follow-up date or distance, and optionally limited to the part
+ * of the map currently in view. Hovering a row highlights its marker and
+ * clicking it selects the location, like clicking the marker.
+ *
+ * Only the rows in view (plus a few above and below) are rendered, so the
+ * list stays fast with thousands of locations.
+ *
+ * @module components/LocationListPanel
+ */
+
+'use client';
+
+import { useState, useRef, useEffect, useMemo } from 'react';
+import type { Location } from '@/types/location';
+import type { Coordinates, Viewport } from '@/types/google';
+import { calculateDistance } from '@/types/google';
+import { sortLocations } from '@/lib/location-sort';
+import type { LocationSortKey } from '@/lib/location-sort';
+import { isPointInViewport } from '@/lib/geometry';
+import { formatDistance } from '@/lib/format';
+import { LIST_PANEL_CONFIG, STATUS_COLORS, STATUS_LABELS } from '@/lib/constants';
+
+/**
+ * Props for the LocationListPanel component
+ */
+interface LocationListPanelProps {
+  /** Locations passing the current filters */
+  locations: Location[];
+  /** Part of the map currently in view (null until the map reports it) */
+  viewport: Viewport | null;
+  /** Rep's current position (null until "My Location" has been used) */
+  userLocation: Coordinates | null;
+  /** Whether the rep's position is being looked up */
+  isGettingLocation: boolean;
+  /** ID of the selected location (its row is highlighted and scrolled into view) */
+  selectedLocationId: number | null;
+  /** Callback when a row is clicked */
+  onLocationClick: (location: Location) => void;
+  /** Callback when the pointer enters (location ID) or leaves (null) a row */
+  onLocationHover: (locationId: number | null) => void;
+  /** Callback to look up the rep's position, for sorting by distance */
+  onRequestLocation: () => void;
+  /** Callback to close the panel */
+  onClose: () => void;
+}
+
+/**
+ * Sort choices, in display order
+ */
+const SORT_OPTIONS: Array<{ key: LocationSortKey; label: string }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'status', label: 'Status' },
+  { key: 'followUpDate', label: 'Follow-up' },
+  { key: 'distance', label: 'Distance' },
+];
+
+/**
+ * LocationListPanel Component
+ *
+ * Virtualized, sortable list of locations.
+ *
+ * @param props - Component props
+ * @returns LocationListPanel JSX
+ */
+export default function LocationListPanel({
+  locations,
+  viewport,
+  userLocation,
+  isGettingLocation,
+  selectedLocationId,
+  onLocationClick,
+  onLocationHover,
+  onRequestLocation,
+  onClose,
+}: LocationListPanelProps): JSX.Element {
+  const [sortKey, setSortKey] = useState<LocationSortKey>('name');
+  const [isLimitedToViewport, setIsLimitedToViewport] = useState<boolean>(false);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const [listHeight, setListHeight] = useState<number>(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const { ROW_HEIGHT_PX, OVERSCAN_ROWS } = LIST_PANEL_CONFIG;
+
+  /**
+   * Rows in display order
+   */
+  const rows = useMemo(() => {
+    const inView = isLimitedToViewport && viewport
+      ? locations.filter((location) => isPointInViewport(location, viewport))
+      : locations;
+    return sortLocations(inView, sortKey, userLocation);
+  }, [locations, viewport, isLimitedToViewport, sortKey, userLocation]);
+
+  /**
+   * Track the list height so the right rows are rendered after resizes
+   */
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) {
+      return;
+    }
+
+    const observer = new ResizeObserver(() => {
+      setListHeight(list.clientHeight);
+    });
+    observer.observe(list);
+    setListHeight(list.clientHeight);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, []);
+
+  // Latest rows, read when the selection changes (re-sorting alone shouldn't scroll)
+  const rowsRef = useRef<Location[]>(rows);
+  rowsRef.current = rows;
+
+  /**
+   * Scroll the selected location's row into view (e.g., after a marker click)
+   */
+  useEffect(() => {
+    const list = listRef.current;
+    const index = rowsRef.current.findIndex((location) => location.id === selectedLocationId);
+    if (!list || index === -1) {
+      return;
+    }
+
+    const rowTop = index * ROW_HEIGHT_PX;
+    if (rowTop < list.scrollTop || rowTop + ROW_HEIGHT_PX > list.scrollTop + list.clientHeight) {
+      list.scrollTop = rowTop - (list.clientHeight - ROW_HEIGHT_PX) / 2;
+    }
+  }, [selectedLocationId, ROW_HEIGHT_PX]);
+
+  /**
+   * Sort by a new key, looking up the rep's position first if needed
+   */
+  const handleSortClick = (key: LocationSortKey): void => {
+    if (key === 'distance' && !userLocation && !isGettingLocation) {
+      onRequestLocation();
+    }
+    setSortKey(key);
+  };
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT_PX) - OVERSCAN_ROWS);
+  const lastRow = Math.min(
+    rows.length,
+    Math.ceil((scrollTop + listHeight) / ROW_HEIGHT_PX) + OVERSCAN_ROWS
+  );
+
+  return (
+    <div
+      className="absolute left-0 right-0 bottom-0 h-[45vh] md:left-auto md:right-4 md:top-20 md:bottom-20 md:h-auto md:w-96 z-40 bg-white rounded-t-lg md:rounded-lg shadow-lg flex flex-col"
+      role="region"
+      aria-label="Location list"
+    >
+      {/* Header */}
+      <div className="px-4 pt-3 pb-2 border-b border-gray-100">
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+            {rows.length} {rows.length === 1 ? 'location' : 'locations'}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors p-1"
+            type="button"
+            aria-label="Close list"
+          >
+            <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Sort */}
+        <div className="flex gap-1 mt-2" role="group" aria-label="Sort by">
+          {SORT_OPTIONS.map((option) => (
+            <button
+              key={option.key}
+              onClick={() => handleSortClick(option.key)}
+              className={`flex-1 px-2 py-1 text-xs rounded-md min-h-[36px] touch-manipulation transition-colors ${
+                sortKey === option.key
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+              type="button"
+              aria-pressed={sortKey === option.key}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {sortKey === 'distance' && !userLocation && (
+          <div className="text-xs text-gray-500 mt-2">
+            {isGettingLocation ? 'Finding your location...' : 'Your location is needed to sort by distance'}
+          </div>
+        )}
+
+        {/* Viewport limit */}
+        <label className="flex items-center gap-2 mt-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isLimitedToViewport}
+            onChange={(event) => setIsLimitedToViewport(event.target.checked)}
+            className="w-4 h-4"
+          />
+          Only locations in view on the map
+        </label>
+      </div>
+
+      {/* Rows */}
+      <div
+        ref={listRef}
+        className="flex-1 overflow-y-auto"
+        onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+        onMouseLeave={() => onLocationHover(null)}
+      >
+        {rows.length === 0 ? (
+          <div className="px-4 py-3 text-sm text-gray-500">
+            {isLimitedToViewport ? 'No locations in view' : 'No locations match the filters'}
+          </div>
+        ) : (
+          <ul className="relative" style={{ height: rows.length * ROW_HEIGHT_PX }}>
+            {rows.slice(firstRow, lastRow).map((location, offset) => {
+              const index = firstRow + offset;
+              const isSelected = location.id === selectedLocationId;
+              const detail = sortKey === 'distance' && userLocation && location.lat && location.lng
+                ? formatDistance(calculateDistance(userLocation, location))
+                : location.followUpDate
+                  ? `Follow-up ${location.followUpDate}`
+                  : null;
+
+              return (
+                <li
+                  key={location.id}
+                  className="absolute left-0 right-0"
+                  style={{ top: index * ROW_HEIGHT_PX, height: ROW_HEIGHT_PX }}
+                >
+                  <button
+                    onClick={() => onLocationClick(location)}
+                    onMouseEnter={() => onLocationHover(location.id)}
+                    onFocus={() => onLocationHover(location.id)}
+                    onBlur={() => onLocationHover(null)}
+                    className={`w-full h-full px-4 text-left flex items-center gap-3 border-b border-gray-100 touch-manipulation transition-colors ${
+                      isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                    type="button"
+                    aria-current={isSelected ? 'true' : undefined}
+                  >
+                    <span
+                      className="w-3 h-3 rounded-full flex-shrink-0 border border-gray-200"
+                      style={{ backgroundColor: STATUS_COLORS[location.status] }}
+                      aria-hidden="true"
+                    />
+                    <span className="flex-1 min-w-0">
+                      <span className="block font-medium text-sm text-gray-900 truncate">
+                        {location.companyName}
+                      </span>
+                      <span className="block text-xs text-gray-500 truncate">
+                        {STATUS_LABELS[location.status]}
+                        {location.address && ` · ${location.address}`}
+                      </span>
+                    </span>
+                    {detail && (
+                      <span className="text-xs font-medium text-blue-700 whitespace-nowrap">
+                        {detail}
+                      </span>
+                    )}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
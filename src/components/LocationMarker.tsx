@@ -10,6 +10,7 @@
  * - Color-coded markers based on location status
  * - Editable status dropdown with all 6 status options
  * - Editable notes textarea with character limit
+ * - "Check in" button that verifies the rep is at the location
  * - "Get Directions" button for native maps integration
  * - Optimistic updates with loading states
  * - Error handling and user feedback
@@ -21,9 +22,10 @@
 import { useState, useCallback, useEffect } from 'react';
 import type { Location, LocationStatus } from '@/types/location';
 import type { UpdateLocationResponse, ErrorResponse } from '@/types/api';
+import type { Visit } from '@/types/visit';
 import { LOCATION_STATUSES } from '@/types/location';
+import { openDirections } from '@/lib/directions';
 import {
-  getDirectionsUrl,
   getLocationPageUrl,
   VALIDATION,
   API_ENDPOINTS,
@@ -42,6 +44,12 @@ interface LocationMarkerProps {
   onClose: () => void;
   /** Callback when location data is updated */
   onUpdate: (updated: Location) => void;
+  /** Callback after the rep saves a status change (e.g., to suggest the next stop) */
+  onStatusSaved?: (saved: Location) => void;
+  /** Callback to check in at the location (omit to hide the Check in button) */
+  onCheckIn?: (location: Location) => Promise<Visit>;
+  /** Callback when a background save starts (true) and settles (false) */
+  onSavePendingChange?: (locationId: number, isPending: boolean) => void;
   /** Whether this location was pushed by another user */
   isPushed?: boolean;
 }
@@ -60,6 +68,18 @@ interface EditState {
   success: boolean;
 }
 
+/**
+ * State for tracking a check-in
+ */
+interface CheckInState {
+  /** Whether a check-in is in progress */
+  isCheckingIn: boolean;
+  /** Error message if the check-in was rejected or failed */
+  error: string | null;
+  /** Distance from the location of the accepted check-in, in meters */
+  distanceMeters: number | null;
+}
+
 /**
  * Validation result for form inputs
  */
@@ -92,6 +112,9 @@ export default function LocationMarker({
   isOpen,
   onClose,
   onUpdate,
+  onStatusSaved,
+  onCheckIn,
+  onSavePendingChange,
   isPushed = false,
 }: LocationMarkerProps): JSX.Element | null {
   // Local state for edited values
@@ -119,6 +142,13 @@ export default function LocationMarker({
   const [isPushing, setIsPushing] = useState<boolean>(false);
   const [showPushedNotification, setShowPushedNotification] = useState<boolean>(false);
 
+  // Check-in state
+  const [checkInState, setCheckInState] = useState<CheckInState>({
+    isCheckingIn: false,
+    error: null,
+    distanceMeters: null,
+  });
+
   // Sync local state when location prop changes
   useEffect(() => {
     setEditedStatus(location.status);
@@ -136,6 +166,11 @@ export default function LocationMarker({
     setPhotoLoadState('loading');
   }, [location.id, location.status, location.notes, location.followUpDate]);
 
+  // Clear the check-in result when a different location is shown
+  useEffect(() => {
+    setCheckInState({ isCheckingIn: false, error: null, distanceMeters: null });
+  }, [location.id]);
+
   /**
    * Validates notes input
    */
@@ -262,7 +297,12 @@ export default function LocationMarker({
     console.log('[LocationMarker] Closing popup immediately after optimistic update');
     onClose();
 
+    if (editedStatus !== location.status) {
+      onStatusSaved?.(optimisticLocation);
+    }
+
     // Continue API call in background
+    onSavePendingChange?.(location.id, true);
     (async () => {
       try {
         console.log('[LocationMarker] Sending PATCH request to:', API_ENDPOINTS.UPDATE_LOCATION(location.id));
@@ -322,6 +362,8 @@ export default function LocationMarker({
 
         // Revert optimistic update and reopen popup
         onUpdate(location);
+      } finally {
+        onSavePendingChange?.(location.id, false);
       }
     })();
   }, [
@@ -333,6 +375,8 @@ export default function LocationMarker({
     editedFollowUpDate,
     onUpdate,
     onClose,
+    onStatusSaved,
+    onSavePendingChange,
   ]);
 
   /**
@@ -355,19 +399,35 @@ export default function LocationMarker({
    * Opens native maps app for directions
    */
   const handleGetDirections = useCallback((): void => {
-    const userAgent = typeof navigator !== 'undefined' ? navigator.userAgent : '';
-    const url = getDirectionsUrl(
-      location.lat,
-      location.lng,
-      location.companyName,
-      location.address,
-      userAgent,
-      location.placeId
-    );
+    openDirections(location);
+  }, [location]);
 
-    // Open in new window/tab or native app
-    window.open(url, '_blank');
-  }, [location.lat, location.lng, location.companyName, location.address, location.placeId]);
+  /**
+   * Checks in at this location; the parent verifies the rep's position
+   */
+  const handleCheckIn = useCallback(async (): Promise<void> => {
+    if (!onCheckIn) {
+      return;
+    }
+
+    setCheckInState({ isCheckingIn: true, error: null, distanceMeters: null });
+
+    try {
+      const visit = await onCheckIn(location);
+      setCheckInState({
+        isCheckingIn: false,
+        error: null,
+        distanceMeters: visit.distanceMeters ?? 0,
+      });
+    } catch (error) {
+      console.warn('[LocationMarker] Check-in failed:', error);
+      setCheckInState({
+        isCheckingIn: false,
+        error: error instanceof Error ? error.message : 'Check-in failed. Please try again.',
+        distanceMeters: null,
+      });
+    }
+  }, [onCheckIn, location]);
 
   /**
    * Pushes this location to all other viewers
@@ -560,6 +620,9 @@ export default function LocationMarker({
       {/* Address */}
       <div className="mb-2 md:mb-3">
         <p className="text-xs md:text-sm text-gray-600 leading-relaxed">{location.address}</p>
+        {location.assignedTo && (
+          <p className="text-xs text-gray-500 mt-1">Assigned to {location.assignedTo}</p>
+        )}
       </div>
 
       {/* Status Dropdown */}
@@ -750,6 +813,26 @@ export default function LocationMarker({
         </div>
       )}
 
+      {/* Check-in Result */}
+      {checkInState.error && (
+        <div
+          className="mb-2 md:mb-3 p-2 md:p-3 bg-red-50 border border-red-200 rounded-md"
+          role="alert"
+        >
+          <p className="text-xs md:text-sm text-red-800">{checkInState.error}</p>
+        </div>
+      )}
+      {checkInState.distanceMeters !== null && (
+        <div
+          className="mb-2 md:mb-3 p-2 md:p-3 bg-green-50 border border-green-200 rounded-md"
+          role="status"
+        >
+          <p className="text-xs md:text-sm text-green-800">
+            Checked in ({checkInState.distanceMeters} m from the location)
+          </p>
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="flex flex-col space-y-2">
         {/* Save/Cancel Buttons - Show when editing */}
@@ -800,6 +883,31 @@ export default function LocationMarker({
           </div>
         )}
 
+        {/* Check In Button - Records a verified visit */}
+        {onCheckIn && (
+          <button
+            type="button"
+            onClick={handleCheckIn}
+            disabled={editState.isSaving || checkInState.isCheckingIn}
+            className="w-full min-h-[44px] px-4 py-2 bg-teal-600 text-white font-medium rounded-md hover:bg-teal-700 active:bg-teal-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2 touch-manipulation"
+          >
+            <svg
+              className="h-5 w-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0zM15 11a3 3 0 11-6 0 3 3 0 016 0z"
+              />
+            </svg>
+            <span>{checkInState.isCheckingIn ? 'Checking in...' : 'Check in'}</span>
+          </button>
+        )}
+
         {/* Get Directions Button - Always visible */}
         <button
           type="button"
@@ -7,11 +7,21 @@
  *
  * Features:
  * - Google Maps integration using @googlemaps/js-api-loader
- * - Color-coded markers based on location status
- * - Clickable markers with event handling
+ * - Color-coded advanced markers based on location status, with badges for
+ *   route stop numbers, overdue follow-ups, pushed locations and unsaved edits
+ * - Clickable, keyboard-focusable markers with event handling
  * - Loading states and error handling
  * - Mobile-optimized and touch-friendly
  * - Automatic bounds fitting for all markers
+ * - Planned route drawn as a polyline with numbered stop markers
+ * - Territory polygons shaded in their color, and a draft polygon drawn by clicking the map
+ * - Outlines of a previewed territory balancing split
+ * - Heatmap and coverage gap grid cells
+ * - Marker clustering, with cluster icons showing the status breakdown
+ * - Chooser callback for locations stacked on the same point
+ * - Highlighted marker for the hovered list row, and viewport reporting
+ * - Camera and map type that can be restored from and reported to a shareable link
+ * - Lasso and rectangle selection drawn over the map, with a badge on selected markers
  *
  * @module components/Map
  */
@@ -19,15 +29,44 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
+import type { PointerEvent } from 'react';
 import { setOptions, importLibrary } from '@googlemaps/js-api-loader';
+import { MarkerClusterer, SuperClusterAlgorithm } from '@googlemaps/markerclusterer';
+import type { Cluster } from '@googlemaps/markerclusterer';
 
 // Internal types
 import type { Location } from '@/types/location';
-import type { Coordinates } from '@/types/google';
+import { getDefaultStatus } from '@/types/location';
+import type { Coordinates, Viewport } from '@/types/google';
+import type { Territory } from '@/types/territory';
 
 // Internal constants
 import { clientConfig } from '@/lib/client-config';
-import { getMarkerIcon, createMarkerIcon, FOLLOW_UP_DATE_COLOR } from '@/lib/constants';
+import {
+  getStatusColor,
+  FOLLOW_UP_DATE_COLOR,
+  FOLLOW_UP_OVERDUE_COLOR,
+  ROUTING_CONFIG,
+  TERRITORY_CONFIG,
+  CLUSTER_CONFIG,
+  CO_LOCATED_CONFIG,
+  SELECTION_CONFIG,
+} from '@/lib/constants';
+import { buildClusterIconSvg, getClusterIconSize } from '@/lib/cluster-icon';
+import { groupCoLocatedLocations } from '@/lib/proximity';
+import type { HeatmapCell } from '@/lib/heatmap';
+import { isInFollowUpRange } from '@/lib/follow-up-filter';
+import type { FollowUpRange } from '@/lib/follow-up-filter';
+import type { MapCamera, MapType } from '@/lib/url-state';
+import { formatLocalIsoDate } from '@/lib/format';
+import { addPathPoint, buildSelectionOutline, isUsableOutline } from '@/lib/map-selection';
+import type { ScreenPoint, SelectionShape } from '@/lib/map-selection';
+import {
+  buildMarkerHtml,
+  buildDotHtml,
+  createMarkerContent,
+  describeMarker,
+} from '@/lib/marker-content';
 
 /**
  * Props interface for the Map component
@@ -37,12 +76,80 @@ interface MapProps {
   locations: Location[];
   /** Callback when a marker is clicked */
   onMarkerClick?: (location: Location) => void;
+  /** Callback when a marker or cluster of locations sharing one point is clicked */
+  onCoLocatedClick?: (locations: Location[]) => void;
   /** ID of the currently selected location (for highlighting) */
   selectedLocationId?: number | null;
+  /** ID of a location to highlight without panning (e.g., a hovered list row) */
+  highlightedLocationId?: number | null;
   /** User's current location to pan to */
   userLocation?: { lat: number; lng: number } | null;
-  /** Selected follow-up date to highlight locations (YYYY-MM-DD format) */
-  selectedFollowUpDate?: string;
+  /** Follow-up date range whose locations are highlighted */
+  followUpRange?: FollowUpRange | null;
+  /** ID of a location just pushed to the rep (shown with a badge) */
+  pushedLocationId?: number | null;
+  /** IDs of locations with edits the server has not confirmed yet (shown with a badge) */
+  pendingEditIds?: Set<number>;
+  /** Location IDs of the planned route, in visiting order (shown as numbered markers) */
+  routeStopIds?: number[];
+  /** Path of the planned route to draw as a polyline */
+  routePath?: Coordinates[];
+  /** Territories to shade on the map */
+  territories?: Territory[];
+  /** Vertices of the territory being drawn */
+  draftTerritoryPath?: Coordinates[];
+  /** Callback when the map itself (not a marker) is clicked */
+  onMapClick?: (coordinates: Coordinates) => void;
+  /** Outlines of a previewed balancing split, one per rep */
+  previewHulls?: Array<{ color: string; path: Coordinates[] }>;
+  /** Shaded grid cells of the active heatmap layer */
+  heatmapCells?: HeatmapCell[];
+  /** Callback with the visible bounds whenever the map comes to rest */
+  onViewportChange?: (viewport: Viewport) => void;
+  /** Camera to move to (e.g., from a shared link); a new object moves the map again */
+  camera?: MapCamera | null;
+  /** Callback with the center and zoom whenever the map comes to rest */
+  onCameraChange?: (camera: MapCamera) => void;
+  /** Base layer (the map keeps its own when not given) */
+  mapType?: MapType;
+  /** Callback when the rep switches between roadmap and satellite */
+  onMapTypeChange?: (mapType: MapType) => void;
+  /** Shape drawn by dragging over the map (map panning is paused while set) */
+  selectionShape?: SelectionShape | null;
+  /** Callback with the outline of a finished lasso or rectangle */
+  onSelectionDrawn?: (polygon: Coordinates[]) => void;
+  /** IDs of locations selected for bulk actions (shown with a badge) */
+  bulkSelectedIds?: Set<number>;
+}
+
+/**
+ * Converts a point on the map container to map coordinates.
+ * Offsets the world position of the container's top-left corner by the
+ * point, scaled down to the current zoom level.
+ *
+ * @param map - Map the point is on
+ * @param point - Pixels from the container's top-left corner
+ * @returns Coordinates under the point, or null if the map is not laid out yet
+ */
+function containerPointToCoordinates(map: google.maps.Map, point: ScreenPoint): Coordinates | null {
+  const projection = map.getProjection();
+  const bounds = map.getBounds();
+  const zoom = map.getZoom();
+  if (!projection || !bounds || zoom === undefined) {
+    return null;
+  }
+
+  const northeast = projection.fromLatLngToPoint(bounds.getNorthEast());
+  const southwest = projection.fromLatLngToPoint(bounds.getSouthWest());
+  if (!northeast || !southwest) {
+    return null;
+  }
+
+  const scale = 2 ** zoom;
+  const latLng = projection.fromPointToLatLng(
+    new google.maps.Point(southwest.x + point.x / scale, northeast.y + point.y / scale)
+  );
+  return latLng ? { lat: latLng.lat(), lng: latLng.lng() } : null;
 }
 
 /**
@@ -60,9 +167,28 @@ interface MapProps {
 export default function Map({
   locations,
   onMarkerClick,
+  onCoLocatedClick,
   selectedLocationId,
+  highlightedLocationId,
   userLocation,
-  selectedFollowUpDate,
+  followUpRange,
+  pushedLocationId,
+  pendingEditIds,
+  routeStopIds,
+  routePath,
+  territories,
+  draftTerritoryPath,
+  onMapClick,
+  previewHulls,
+  heatmapCells,
+  onViewportChange,
+  camera,
+  onCameraChange,
+  mapType: mapTypeProp,
+  onMapTypeChange,
+  selectionShape,
+  onSelectionDrawn,
+  bulkSelectedIds,
 }: MapProps): JSX.Element {
   console.log('[Map] Component rendered with', locations.length, 'locations');
 
@@ -70,12 +196,28 @@ export default function Map({
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [loadError, setLoadError] = useState<string | null>(null);
   const [mapInstance, setMapInstance] = useState<google.maps.Map | null>(null);
-  const [mapType, setMapType] = useState<'roadmap' | 'satellite'>('roadmap');
+  const [localMapType, setLocalMapType] = useState<MapType>('roadmap');
+  const [selectionPath, setSelectionPath] = useState<ScreenPoint[] | null>(null);
+  const mapType = mapTypeProp ?? localMapType;
 
   // Refs for DOM elements and Google Maps objects
   const mapContainerRef = useRef<HTMLDivElement>(null);
-  const markersRef = useRef<globalThis.Map<number, google.maps.Marker>>(new globalThis.Map());
-  const userLocationMarkerRef = useRef<google.maps.Marker | null>(null);
+  const markersRef = useRef<globalThis.Map<number, google.maps.marker.AdvancedMarkerElement>>(new globalThis.Map());
+  const markerColorsRef = useRef<WeakMap<google.maps.marker.AdvancedMarkerElement, string>>(new WeakMap());
+  const markerAppearanceKeysRef = useRef<WeakMap<google.maps.marker.AdvancedMarkerElement, string>>(new WeakMap());
+  const clustererRef = useRef<MarkerClusterer | null>(null);
+  const clusterNeedsRenderRef = useRef<boolean>(false);
+  const unclusteredIdsRef = useRef<Set<number>>(new Set());
+  const markerLocationIdsRef = useRef<WeakMap<google.maps.marker.AdvancedMarkerElement, number>>(new WeakMap());
+  const coLocatedGroupsRef = useRef<globalThis.Map<number, Location[]>>(new globalThis.Map());
+  const onCoLocatedClickRef = useRef(onCoLocatedClick);
+  const userLocationMarkerRef = useRef<google.maps.marker.AdvancedMarkerElement | null>(null);
+  const routePolylineRef = useRef<google.maps.Polyline | null>(null);
+  const territoryPolygonsRef = useRef<globalThis.Map<number, google.maps.Polygon>>(new globalThis.Map());
+  const draftPolygonRef = useRef<google.maps.Polygon | null>(null);
+  const draftVertexMarkersRef = useRef<google.maps.marker.AdvancedMarkerElement[]>([]);
+  const previewHullPolygonsRef = useRef<google.maps.Polygon[]>([]);
+  const heatmapRectanglesRef = useRef<google.maps.Rectangle[]>([]);
   const isInitializedRef = useRef<boolean>(false);
   const hasSetInitialBoundsRef = useRef<boolean>(false);
   const previousLocationsRef = useRef<globalThis.Map<number, Location>>(new globalThis.Map());
@@ -84,6 +226,11 @@ export default function Map({
    * Initialize Google Maps API and create map instance
    */
   useEffect(() => {
+    // Captured for the cleanup function
+    const markers = markersRef.current;
+    const previousLocations = previousLocationsRef.current;
+    const territoryPolygons = territoryPolygonsRef.current;
+
     console.log('[Map] useEffect running - isInitialized:', isInitializedRef.current, 'mapContainer:', !!mapContainerRef.current);
 
     // Don't initialize if already initialized
@@ -123,6 +270,7 @@ export default function Map({
         // Load Google Maps API
         console.log('[Map] Loading Maps library...');
         const { Map: GoogleMap } = await importLibrary('maps');
+        await importLibrary('marker');
         console.log('[Map] Maps library loaded successfully');
 
         // Mark as initialized
@@ -142,13 +290,8 @@ export default function Map({
           zoomControl: false,
           gestureHandling: 'greedy', // Better for mobile
           clickableIcons: false, // Disable POI clicks
-          styles: [
-            {
-              featureType: 'poi',
-              elementType: 'labels',
-              stylers: [{ visibility: 'off' }],
-            },
-          ],
+          // Required for advanced markers; POI labels are hidden in the map ID's cloud style
+          mapId: clientConfig.googleMaps.mapId,
         });
 
         setMapInstance(map);
@@ -171,20 +314,139 @@ export default function Map({
     // Cleanup function
     return () => {
       // Clear all markers
-      markersRef.current.forEach((marker) => {
-        marker.setMap(null);
+      markers.forEach((marker) => {
+        marker.map = null;
       });
-      markersRef.current.clear();
-      previousLocationsRef.current.clear();
+      markers.clear();
+      previousLocations.clear();
 
       // Clear user location marker
       if (userLocationMarkerRef.current) {
-        userLocationMarkerRef.current.setMap(null);
+        userLocationMarkerRef.current.map = null;
         userLocationMarkerRef.current = null;
       }
+
+      // Clear route polyline
+      if (routePolylineRef.current) {
+        routePolylineRef.current.setMap(null);
+        routePolylineRef.current = null;
+      }
+
+      // Clear territory polygons and the draft
+      territoryPolygons.forEach((polygon) => {
+        polygon.setMap(null);
+      });
+      territoryPolygons.clear();
+      draftPolygonRef.current?.setMap(null);
+      draftPolygonRef.current = null;
+      draftVertexMarkersRef.current.forEach((marker) => {
+        marker.map = null;
+      });
+      draftVertexMarkersRef.current = [];
+
+      // Clear the balancing preview
+      previewHullPolygonsRef.current.forEach((polygon) => polygon.setMap(null));
+      previewHullPolygonsRef.current = [];
+
+      // Clear the heatmap
+      heatmapRectanglesRef.current.forEach((rectangle) => rectangle.setMap(null));
+      heatmapRectanglesRef.current = [];
     };
   }, []);
 
+  /**
+   * Keep the latest co-located click callback for the clusterer
+   */
+  useEffect(() => {
+    onCoLocatedClickRef.current = onCoLocatedClick;
+  }, [onCoLocatedClick]);
+
+  /**
+   * Create the marker clusterer.
+   * Cluster icons are donut charts of the marker colors, with a purple ring
+   * when a cluster hides a follow-up date match (dark red if it is
+   * overdue). Clicking a cluster zooms in to its markers, or opens the
+   * chooser when they all share one point (zooming would never split them).
+   */
+  useEffect(() => {
+    if (!mapInstance) {
+      return;
+    }
+
+    const markerColors = markerColorsRef.current;
+    const markerLocationIds = markerLocationIdsRef.current;
+
+    const handleClusterClick = (
+      _event: google.maps.MapMouseEvent,
+      { markers, bounds }: Cluster,
+      map: google.maps.Map
+    ): void => {
+      const locationIds = (markers ?? []).map((marker) =>
+        markerLocationIds.get(marker as google.maps.marker.AdvancedMarkerElement)
+      );
+      const group = locationIds[0] !== undefined
+        ? coLocatedGroupsRef.current.get(locationIds[0])
+        : undefined;
+      const isSingleStack =
+        group !== undefined &&
+        locationIds.every((id) => id !== undefined && group.some((location) => location.id === id));
+
+      if (isSingleStack && onCoLocatedClickRef.current) {
+        onCoLocatedClickRef.current(group);
+        return;
+      }
+
+      if (bounds) {
+        map.fitBounds(bounds);
+      }
+    };
+
+    // Markers without a recorded color count as the default status, so only
+    // real follow-up matches add the highlight ring
+    const fallbackColor = getStatusColor(getDefaultStatus());
+
+    const renderCluster = ({ markers, position }: Cluster): google.maps.marker.AdvancedMarkerElement => {
+      const colorCounts = new globalThis.Map<string, number>();
+      markers.forEach((marker) => {
+        const color = markerColors.get(marker as google.maps.marker.AdvancedMarkerElement) ?? fallbackColor;
+        colorCounts.set(color, (colorCounts.get(color) ?? 0) + 1);
+      });
+
+      const slices = Array.from(colorCounts, ([color, count]) => ({ color, count }));
+      const size = getClusterIconSize(markers.length);
+      // Overdue follow-ups take the ring over other follow-up matches
+      const highlightColor = [FOLLOW_UP_OVERDUE_COLOR, FOLLOW_UP_DATE_COLOR].find((color) =>
+        colorCounts.has(color)
+      );
+      const svg = buildClusterIconSvg(slices, size, highlightColor ?? null);
+
+      return new google.maps.marker.AdvancedMarkerElement({
+        position,
+        content: createMarkerContent(svg, 'center'),
+        title: `${markers.length} locations`,
+        // Above single markers, larger clusters on top
+        zIndex: 1000 + markers.length,
+      });
+    };
+
+    const clusterer = new MarkerClusterer({
+      map: mapInstance,
+      algorithm: new SuperClusterAlgorithm({
+        radius: CLUSTER_CONFIG.RADIUS_PX,
+        maxZoom: CLUSTER_CONFIG.MAX_ZOOM,
+      }),
+      renderer: { render: renderCluster },
+      onClusterClick: handleClusterClick,
+    });
+    clustererRef.current = clusterer;
+
+    return () => {
+      clusterer.clearMarkers(true);
+      clusterer.setMap(null);
+      clustererRef.current = null;
+    };
+  }, [mapInstance]);
+
   /**
    * Update markers when locations change
    */
@@ -214,12 +476,31 @@ export default function Map({
     // Create a set of current location IDs
     const currentLocationIds = new Set(validLocations.map((loc) => loc.id));
 
+    // Find locations stacked on the same point (looked up when a marker is clicked)
+    coLocatedGroupsRef.current = groupCoLocatedLocations(validLocations, CO_LOCATED_CONFIG.RADIUS_METERS);
+
+    /**
+     * Opens the chooser for stacked locations, or the clicked location itself
+     */
+    const handleMarkerClick = (location: Location): void => {
+      const group = coLocatedGroupsRef.current.get(location.id);
+      if (group && onCoLocatedClick) {
+        onCoLocatedClick(group);
+      } else if (onMarkerClick) {
+        onMarkerClick(location);
+      }
+    };
+
     // Remove markers for locations that no longer exist
+    let removedCount = 0;
     markersRef.current.forEach((marker, locationId) => {
       if (!currentLocationIds.has(locationId)) {
-        marker.setMap(null);
+        clustererRef.current?.removeMarker(marker, true);
+        marker.map = null;
         markersRef.current.delete(locationId);
         previousLocationsRef.current.delete(locationId);
+        unclusteredIdsRef.current.delete(locationId);
+        removedCount++;
       }
     });
 
@@ -229,6 +510,8 @@ export default function Map({
     // Track which locations were updated
     let updatedCount = 0;
     let createdCount = 0;
+    let hasMovedMarkers = false;
+    const newMarkers: google.maps.marker.AdvancedMarkerElement[] = [];
 
     // Update or create markers for each location
     validLocations.forEach((location) => {
@@ -243,54 +526,23 @@ export default function Map({
         const previousLocation = previousLocationsRef.current.get(location.id);
 
         // Determine if this location's relevant data has changed
-        const hasChangedStatus = !previousLocation || previousLocation.status !== location.status;
-        const hasChangedFollowUpDate = !previousLocation || previousLocation.followUpDate !== location.followUpDate;
         const hasChangedPosition = !previousLocation ||
           previousLocation.lat !== location.lat ||
           previousLocation.lng !== location.lng;
-        const hasChangedName = !previousLocation || previousLocation.companyName !== location.companyName;
-
-        // Determine marker color based on follow-up date match or status
-        const hasFollowUpDateMatch =
-          selectedFollowUpDate &&
-          location.followUpDate &&
-          location.followUpDate === selectedFollowUpDate;
-
-        // Get marker icon configuration
-        const markerIconConfig = hasFollowUpDateMatch
-          ? createMarkerIcon(FOLLOW_UP_DATE_COLOR) // Purple for follow-up date match
-          : getMarkerIcon(location.status); // Regular status color
 
         if (existingMarker) {
           // Check if any data has changed (including notes)
-          const hasChangedNotes = !previousLocation || previousLocation.notes !== location.notes;
-          const hasAnyChange = hasChangedStatus || hasChangedFollowUpDate || hasChangedName || hasChangedPosition || hasChangedNotes;
-
-          // Only update marker if relevant data changed
-          if (hasChangedStatus || hasChangedFollowUpDate) {
-            existingMarker.setIcon({
-              path: markerIconConfig.path,
-              fillColor: markerIconConfig.fillColor,
-              fillOpacity: markerIconConfig.fillOpacity,
-              strokeColor: markerIconConfig.strokeColor,
-              strokeWeight: markerIconConfig.strokeWeight,
-              scale: markerIconConfig.scale,
-              anchor: new google.maps.Point(
-                markerIconConfig.anchor?.x ?? 12,
-                markerIconConfig.anchor?.y ?? 22
-              ),
-            });
-            updatedCount++;
-          }
-
-          // Update title if company name changed
-          if (hasChangedName) {
-            existingMarker.setTitle(location.companyName);
-          }
+          const hasAnyChange = !previousLocation ||
+            previousLocation.status !== location.status ||
+            previousLocation.followUpDate !== location.followUpDate ||
+            previousLocation.companyName !== location.companyName ||
+            previousLocation.notes !== location.notes ||
+            hasChangedPosition;
 
           // Update position if coordinates changed
           if (hasChangedPosition) {
-            existingMarker.setPosition(position);
+            existingMarker.position = position;
+            hasMovedMarkers = true;
           }
 
           // Update click listener if ANY data has changed (including notes)
@@ -298,42 +550,29 @@ export default function Map({
           if (hasAnyChange) {
             google.maps.event.clearListeners(existingMarker, 'click');
             existingMarker.addListener('click', () => {
-              if (onMarkerClick) {
-                onMarkerClick(location);
-              }
+              handleMarkerClick(location);
             });
+            updatedCount++;
           }
         } else {
-          // Create new marker
-          const marker = new google.maps.Marker({
+          // Create new marker (shown on the map by the clusterer).
+          // Its pin and title are drawn by the appearance effect below.
+          const marker = new google.maps.marker.AdvancedMarkerElement({
             position,
-            map: mapInstance,
             title: location.companyName,
-            icon: {
-              path: markerIconConfig.path,
-              fillColor: markerIconConfig.fillColor,
-              fillOpacity: markerIconConfig.fillOpacity,
-              strokeColor: markerIconConfig.strokeColor,
-              strokeWeight: markerIconConfig.strokeWeight,
-              scale: markerIconConfig.scale,
-              anchor: new google.maps.Point(
-                markerIconConfig.anchor?.x ?? 12,
-                markerIconConfig.anchor?.y ?? 22
-              ),
-            },
-            clickable: true,
-            optimized: true,
+            content: createMarkerContent('', 'bottom'),
           });
 
-          // Add click listener
+          // A click listener also makes the marker focusable and
+          // clickable with the keyboard (Tab, then Enter or Space)
           marker.addListener('click', () => {
-            if (onMarkerClick) {
-              onMarkerClick(location);
-            }
+            handleMarkerClick(location);
           });
 
           // Store marker reference
           markersRef.current.set(location.id, marker);
+          markerLocationIdsRef.current.set(marker, location.id);
+          newMarkers.push(marker);
           createdCount++;
         }
 
@@ -350,6 +589,19 @@ export default function Map({
       }
     });
 
+    // Add new markers; clusters are redrawn by the appearance effect once
+    // the new markers have their colors
+    if (clustererRef.current) {
+      clustererRef.current.addMarkers(newMarkers, true);
+      if (createdCount > 0 || removedCount > 0 || hasMovedMarkers) {
+        clusterNeedsRenderRef.current = true;
+      }
+    } else {
+      newMarkers.forEach((marker) => {
+        marker.map = mapInstance;
+      });
+    }
+
     // Fit map to show all markers only on initial load
     // Don't reset bounds when locations update (e.g., when user saves changes)
     if (validLocations.length > 0 && !hasSetInitialBoundsRef.current) {
@@ -381,35 +633,353 @@ export default function Map({
         `[Map] Markers synchronized: ${createdCount} created, ${updatedCount} updated, ${markersRef.current.size} total`
       );
     }
-  }, [mapInstance, locations, onMarkerClick, selectedFollowUpDate]);
+  }, [mapInstance, locations, onMarkerClick, onCoLocatedClick]);
 
   /**
-   * Pan to user location when requested and add marker
+   * Draw each marker's pin and badges.
+   * Pins are in the status color, or purple for a follow-up in the filter
+   * range (dark red when the follow-up has passed); the selected and
+   * highlighted markers are enlarged and drawn on top. Route stop markers
+   * are numbered in visiting order and, like the highlighted marker, taken
+   * out of the clusters so they stay visible. Only markers whose
+   * appearance changed are redrawn.
    */
   useEffect(() => {
-    if (!mapInstance || !userLocation) {
+    if (!mapInstance) {
       return;
     }
 
-    console.log('[Map] Panning to user location:', userLocation);
+    const stopNumbers = new globalThis.Map<number, number>();
+    (routeStopIds ?? []).forEach((locationId, index) => {
+      stopNumbers.set(locationId, index + 1);
+    });
+
+    const today = formatLocalIsoDate(new Date());
+    const clusterer = clustererRef.current;
+    const unclusteredIds = unclusteredIdsRef.current;
+    const appearanceKeys = markerAppearanceKeysRef.current;
+    let needsRender = clusterNeedsRenderRef.current;
+    let redrawnCount = 0;
+
+    locations.forEach((location) => {
+      const marker = markersRef.current.get(location.id);
+      if (!marker) {
+        return;
+      }
+
+      const isOverdue = !!location.followUpDate && location.followUpDate < today;
+      const hasFollowUpDateMatch =
+        !!followUpRange && isInFollowUpRange(location.followUpDate, followUpRange);
+      const followUpColor = isOverdue ? FOLLOW_UP_OVERDUE_COLOR : FOLLOW_UP_DATE_COLOR;
+      const color = hasFollowUpDateMatch ? followUpColor : getStatusColor(location.status);
+      const isSelected =
+        location.id === selectedLocationId || location.id === highlightedLocationId;
+      const badges = {
+        stopNumber: stopNumbers.get(location.id),
+        isOverdue,
+        isPushed: location.id === pushedLocationId,
+        hasPendingEdit: pendingEditIds?.has(location.id) ?? false,
+        isBulkSelected: bulkSelectedIds?.has(location.id) ?? false,
+      };
+
+      // Move route stops and the highlighted marker out of the clusters, and back afterwards
+      const isUnclustered = !!badges.stopNumber || location.id === highlightedLocationId;
+      if (clusterer && isUnclustered && !unclusteredIds.has(location.id)) {
+        clusterer.removeMarker(marker, true);
+        marker.map = mapInstance;
+        unclusteredIds.add(location.id);
+        needsRender = true;
+      } else if (clusterer && !isUnclustered && unclusteredIds.has(location.id)) {
+        marker.map = null;
+        clusterer.addMarker(marker, true);
+        unclusteredIds.delete(location.id);
+        needsRender = true;
+      }
+
+      const title = describeMarker(location.companyName, badges);
+      const appearanceKey = JSON.stringify([color, isSelected, title]);
+      if (appearanceKeys.get(marker) === appearanceKey) {
+        return;
+      }
+
+      if (markerColorsRef.current.get(marker) !== color) {
+        markerColorsRef.current.set(marker, color);
+        needsRender = true;
+      }
+
+      if (marker.content instanceof HTMLElement) {
+        marker.content.innerHTML = buildMarkerHtml({ color, isSelected, badges });
+      }
+      marker.title = title;
+      marker.zIndex = isSelected ? 1000 : null;
+      appearanceKeys.set(marker, appearanceKey);
+      redrawnCount++;
+    });
+
+    // Redraw clusters whose markers changed
+    if (needsRender) {
+      clusterer?.render();
+    }
+    clusterNeedsRenderRef.current = false;
+
+    if (redrawnCount > 0) {
+      console.log(`[Map] Redrew ${redrawnCount} markers`);
+    }
+  }, [
+    mapInstance,
+    locations,
+    followUpRange,
+    selectedLocationId,
+    highlightedLocationId,
+    pushedLocationId,
+    pendingEditIds,
+    bulkSelectedIds,
+    routeStopIds,
+  ]);
+
+  /**
+   * Draw the planned route as a polyline.
+   * The polyline is reused so reordering stops only updates its path.
+   */
+  useEffect(() => {
+    if (!mapInstance) {
+      return;
+    }
+
+    if (!routePath || routePath.length < 2) {
+      routePolylineRef.current?.setMap(null);
+      return;
+    }
+
+    if (!routePolylineRef.current) {
+      routePolylineRef.current = new google.maps.Polyline({
+        strokeColor: ROUTING_CONFIG.ROUTE_LINE_COLOR,
+        strokeOpacity: 0.8,
+        strokeWeight: 5,
+        clickable: false,
+        zIndex: 1,
+      });
+    }
+
+    routePolylineRef.current.setPath(routePath);
+    routePolylineRef.current.setMap(mapInstance);
+  }, [mapInstance, routePath]);
+
+  /**
+   * Shade territory polygons.
+   * Polygons are not clickable so map clicks and markers keep working.
+   */
+  useEffect(() => {
+    if (!mapInstance) {
+      return;
+    }
+
+    const polygons = territoryPolygonsRef.current;
+    const currentIds = new Set((territories ?? []).map((territory) => territory.id));
+
+    // Remove polygons for deleted territories
+    polygons.forEach((polygon, territoryId) => {
+      if (!currentIds.has(territoryId)) {
+        polygon.setMap(null);
+        polygons.delete(territoryId);
+      }
+    });
+
+    (territories ?? []).forEach((territory) => {
+      const options: google.maps.PolygonOptions = {
+        paths: territory.polygon,
+        strokeColor: territory.color,
+        strokeOpacity: 0.8,
+        strokeWeight: 2,
+        fillColor: territory.color,
+        fillOpacity: TERRITORY_CONFIG.FILL_OPACITY,
+        clickable: false,
+        zIndex: 0,
+      };
+
+      const existing = polygons.get(territory.id);
+      if (existing) {
+        existing.setOptions(options);
+      } else {
+        polygons.set(territory.id, new google.maps.Polygon({ ...options, map: mapInstance }));
+      }
+    });
+  }, [mapInstance, territories]);
 
-    // Remove existing user location marker if present
+  /**
+   * Draw the territory being drawn, with a dot on each vertex
+   */
+  useEffect(() => {
+    if (!mapInstance) {
+      return;
+    }
+
+    draftVertexMarkersRef.current.forEach((marker) => {
+      marker.map = null;
+    });
+    draftVertexMarkersRef.current = [];
+
+    if (!draftTerritoryPath || draftTerritoryPath.length === 0) {
+      draftPolygonRef.current?.setMap(null);
+      return;
+    }
+
+    if (!draftPolygonRef.current) {
+      draftPolygonRef.current = new google.maps.Polygon({
+        strokeColor: TERRITORY_CONFIG.DRAFT_COLOR,
+        strokeOpacity: 0.9,
+        strokeWeight: 2,
+        fillColor: TERRITORY_CONFIG.DRAFT_COLOR,
+        fillOpacity: TERRITORY_CONFIG.FILL_OPACITY,
+        clickable: false,
+        zIndex: 2,
+      });
+    }
+
+    draftPolygonRef.current.setPath(draftTerritoryPath);
+    draftPolygonRef.current.setMap(mapInstance);
+
+    draftVertexMarkersRef.current = draftTerritoryPath.map(
+      (vertex) =>
+        new google.maps.marker.AdvancedMarkerElement({
+          position: vertex,
+          map: mapInstance,
+          content: createMarkerContent(
+            buildDotHtml('#FFFFFF', TERRITORY_CONFIG.DRAFT_COLOR, 12, 2),
+            'center'
+          ),
+          zIndex: 2000,
+        })
+    );
+  }, [mapInstance, draftTerritoryPath]);
+
+  /**
+   * Outline each group of a previewed balancing split.
+   * Previews are short-lived, so the polygons are simply redrawn.
+   */
+  useEffect(() => {
+    if (!mapInstance) {
+      return;
+    }
+
+    previewHullPolygonsRef.current.forEach((polygon) => polygon.setMap(null));
+    previewHullPolygonsRef.current = (previewHulls ?? []).map(
+      (hull) =>
+        new google.maps.Polygon({
+          map: mapInstance,
+          paths: hull.path,
+          strokeColor: hull.color,
+          strokeOpacity: 1,
+          strokeWeight: 3,
+          fillColor: hull.color,
+          fillOpacity: TERRITORY_CONFIG.FILL_OPACITY * 2,
+          clickable: false,
+          zIndex: 1,
+        })
+    );
+  }, [mapInstance, previewHulls]);
+
+  /**
+   * Shade the heatmap grid cells.
+   * Cells sit under the territories and are not clickable.
+   */
+  useEffect(() => {
+    if (!mapInstance) {
+      return;
+    }
+
+    heatmapRectanglesRef.current.forEach((rectangle) => rectangle.setMap(null));
+    heatmapRectanglesRef.current = (heatmapCells ?? []).map(
+      (cell) =>
+        new google.maps.Rectangle({
+          map: mapInstance,
+          bounds: cell.bounds,
+          strokeColor: cell.color,
+          strokeOpacity: Math.min(cell.opacity * 1.5, 1),
+          strokeWeight: 1,
+          fillColor: cell.color,
+          fillOpacity: cell.opacity,
+          clickable: false,
+          zIndex: -1,
+        })
+    );
+  }, [mapInstance, heatmapCells]);
+
+  /**
+   * Report clicks on the map itself (used to place territory vertices)
+   */
+  useEffect(() => {
+    if (!mapInstance || !onMapClick) {
+      return;
+    }
+
+    const listener = mapInstance.addListener('click', (event: google.maps.MapMouseEvent) => {
+      if (event.latLng) {
+        onMapClick({ lat: event.latLng.lat(), lng: event.latLng.lng() });
+      }
+    });
+
+    return () => {
+      listener.remove();
+    };
+  }, [mapInstance, onMapClick]);
+
+  /**
+   * Report the visible bounds each time the map comes to rest after a pan or zoom
+   */
+  useEffect(() => {
+    if (!mapInstance || !onViewportChange) {
+      return;
+    }
+
+    const reportViewport = (): void => {
+      const bounds = mapInstance.getBounds();
+      if (bounds) {
+        const northeast = bounds.getNorthEast();
+        const southwest = bounds.getSouthWest();
+        onViewportChange({
+          northeast: { lat: northeast.lat(), lng: northeast.lng() },
+          southwest: { lat: southwest.lat(), lng: southwest.lng() },
+        });
+      }
+    };
+
+    const listener = mapInstance.addListener('idle', reportViewport);
+    reportViewport();
+
+    return () => {
+      listener.remove();
+    };
+  }, [mapInstance, onViewportChange]);
+
+  /**
+   * Show the user location marker and keep it in view.
+   * While tracking, the marker moves with each update and the map only
+   * pans when the rep leaves the visible area, so it doesn't fight the
+   * rep's own panning.
+   */
+  useEffect(() => {
+    if (!mapInstance || !userLocation) {
+      return;
+    }
+
+    // Move the existing marker, panning only if it left the view
     if (userLocationMarkerRef.current) {
-      userLocationMarkerRef.current.setMap(null);
+      userLocationMarkerRef.current.position = userLocation;
+      const bounds = mapInstance.getBounds();
+      if (bounds && !bounds.contains(userLocation)) {
+        mapInstance.panTo(userLocation);
+      }
+      return;
     }
 
+    console.log('[Map] Panning to user location:', userLocation);
+
     // Create a blue dot marker for user location
-    const userMarker = new google.maps.Marker({
+    const userMarker = new google.maps.marker.AdvancedMarkerElement({
       position: userLocation,
       map: mapInstance,
-      icon: {
-        path: google.maps.SymbolPath.CIRCLE,
-        fillColor: '#4285F4',
-        fillOpacity: 1,
-        strokeColor: '#FFFFFF',
-        strokeWeight: 3,
-        scale: 8,
-      },
+      content: createMarkerContent(buildDotHtml('#4285F4', '#FFFFFF', 22, 3), 'center'),
       title: 'Your Location',
       zIndex: 2000, // Above all other markers
     });
@@ -427,71 +997,63 @@ export default function Map({
   }, [mapInstance, userLocation]);
 
   /**
-   * Highlight selected marker
+   * Pan to the selected marker (its highlight is drawn by the appearance effect)
    */
   useEffect(() => {
     if (!mapInstance || !selectedLocationId) {
       return;
     }
 
-    // Reset all markers to normal scale and z-index
-    markersRef.current.forEach((marker, locationId) => {
-      const location = locations.find((loc) => loc.id === locationId);
-      if (location) {
-        // Determine if this location has a follow-up date match
-        const hasFollowUpDateMatch =
-          selectedFollowUpDate &&
-          location.followUpDate &&
-          location.followUpDate === selectedFollowUpDate;
-
-        const markerIconConfig = hasFollowUpDateMatch
-          ? createMarkerIcon(FOLLOW_UP_DATE_COLOR)
-          : getMarkerIcon(location.status);
-
-        const currentIcon = marker.getIcon() as google.maps.Symbol | undefined;
-
-        if (currentIcon && typeof currentIcon === 'object') {
-          marker.setIcon({
-            ...currentIcon,
-            scale: markerIconConfig.scale,
-          });
-        }
-
-        // Reset z-index
-        marker.setZIndex(locationId === selectedLocationId ? 1000 : google.maps.Marker.MAX_ZINDEX);
-      }
-    });
-
-    // Highlight selected marker
     const selectedMarker = markersRef.current.get(selectedLocationId);
-    if (selectedMarker) {
-      const currentIcon = selectedMarker.getIcon() as
-        | google.maps.Symbol
-        | undefined;
-
-      if (currentIcon && typeof currentIcon === 'object') {
-        selectedMarker.setIcon({
-          ...currentIcon,
-          scale: (currentIcon.scale ?? 1.5) * 1.2, // Scale up by 20%
-        });
+    const position = selectedMarker?.position;
+    if (position) {
+      mapInstance.panTo(position);
+
+      // Zoom in to a reasonable level to focus on the selected location
+      const currentZoom = mapInstance.getZoom();
+      if (!currentZoom || currentZoom < 16) {
+        mapInstance.setZoom(16);
       }
+    }
+  }, [mapInstance, selectedLocationId]);
 
-      // Set high z-index for selected marker
-      selectedMarker.setZIndex(1000);
+  /**
+   * Move to a requested camera (e.g., from a shared link or browser back).
+   * Declared after the selection effect so the requested view wins over
+   * the pan to a location selected at the same time, and it stops the
+   * initial fit to all markers from overriding it.
+   */
+  useEffect(() => {
+    if (!mapInstance || !camera) {
+      return;
+    }
 
-      // Pan to selected marker and zoom in
-      const position = selectedMarker.getPosition();
-      if (position) {
-        mapInstance.panTo(position);
+    console.log('[Map] Moving to requested camera:', camera);
+    hasSetInitialBoundsRef.current = true;
+    mapInstance.setCenter(camera.center);
+    mapInstance.setZoom(camera.zoom);
+  }, [mapInstance, camera]);
 
-        // Zoom in to a reasonable level to focus on the selected location
-        const currentZoom = mapInstance.getZoom();
-        if (!currentZoom || currentZoom < 16) {
-          mapInstance.setZoom(16);
-        }
-      }
+  /**
+   * Report the center and zoom each time the map comes to rest
+   */
+  useEffect(() => {
+    if (!mapInstance || !onCameraChange) {
+      return;
     }
-  }, [mapInstance, selectedLocationId, locations, selectedFollowUpDate]);
+
+    const listener = mapInstance.addListener('idle', () => {
+      const center = mapInstance.getCenter();
+      const zoom = mapInstance.getZoom();
+      if (center && zoom !== undefined) {
+        onCameraChange({ center: { lat: center.lat(), lng: center.lng() }, zoom });
+      }
+    });
+
+    return () => {
+      listener.remove();
+    };
+  }, [mapInstance, onCameraChange]);
 
   /**
    * Update map type when state changes
@@ -509,9 +1071,68 @@ export default function Map({
    * Toggle between roadmap and satellite view
    */
   const toggleMapType = (): void => {
-    setMapType((prev) => (prev === 'roadmap' ? 'satellite' : 'roadmap'));
+    const nextMapType = mapType === 'roadmap' ? 'satellite' : 'roadmap';
+    setLocalMapType(nextMapType);
+    onMapTypeChange?.(nextMapType);
+  };
+
+  /**
+   * Pointer position relative to the selection overlay (which covers the map)
+   */
+  const getContainerPoint = (event: PointerEvent<HTMLDivElement>): ScreenPoint => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  /**
+   * Start drawing a selection where the rep presses
+   */
+  const handleSelectionPointerDown = (event: PointerEvent<HTMLDivElement>): void => {
+    if (!event.isPrimary) {
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setSelectionPath([getContainerPoint(event)]);
+  };
+
+  /**
+   * Extend the lasso, or move the rectangle's far corner
+   */
+  const handleSelectionPointerMove = (event: PointerEvent<HTMLDivElement>): void => {
+    if (!event.isPrimary || !selectionPath) {
+      return;
+    }
+    const point = getContainerPoint(event);
+    setSelectionPath(
+      selectionShape === 'rectangle' ? [selectionPath[0], point] : addPathPoint(selectionPath, point)
+    );
+  };
+
+  /**
+   * Finish the selection and report its outline in map coordinates
+   */
+  const handleSelectionPointerUp = (event: PointerEvent<HTMLDivElement>): void => {
+    if (!event.isPrimary || !selectionPath || !selectionShape) {
+      return;
+    }
+
+    const outline = buildSelectionOutline(selectionShape, [...selectionPath, getContainerPoint(event)]);
+    setSelectionPath(null);
+
+    if (!mapInstance || !isUsableOutline(outline)) {
+      return;
+    }
+
+    const polygon = outline.map((point) => containerPointToCoordinates(mapInstance, point));
+    if (polygon.every((point): point is Coordinates => point !== null)) {
+      console.log(`[Map] Selection drawn with ${polygon.length} corners`);
+      onSelectionDrawn?.(polygon);
+    }
   };
 
+  const selectionOutline =
+    selectionShape && selectionPath ? buildSelectionOutline(selectionShape, selectionPath) : [];
+
   /**
    * Render map container (always rendered to ensure ref is attached)
    */
@@ -572,6 +1193,32 @@ export default function Map({
         </div>
       )}
 
+      {/* Selection overlay - captures drags while a selection shape is active */}
+      {!isLoading && !loadError && mapInstance && selectionShape && onSelectionDrawn && (
+        <div
+          className="absolute inset-0 z-10 cursor-crosshair"
+          style={{ touchAction: 'none' }}
+          onPointerDown={handleSelectionPointerDown}
+          onPointerMove={handleSelectionPointerMove}
+          onPointerUp={handleSelectionPointerUp}
+          onPointerCancel={() => setSelectionPath(null)}
+        >
+          {selectionOutline.length > 1 && (
+            <svg className="absolute inset-0 h-full w-full pointer-events-none" aria-hidden="true">
+              <polygon
+                points={selectionOutline.map((point) => `${point.x},${point.y}`).join(' ')}
+                fill={SELECTION_CONFIG.STROKE_COLOR}
+                fillOpacity={SELECTION_CONFIG.FILL_OPACITY}
+                stroke={SELECTION_CONFIG.STROKE_COLOR}
+                strokeWidth={2}
+                strokeDasharray="6 4"
+                strokeLinejoin="round"
+              />
+            </svg>
+          )}
+        </div>
+      )}
+
       {/* No locations message */}
       {!isLoading && !loadError && locations.length === 0 && (
         <div className="absolute inset-0 flex items-center justify-center bg-white bg-opacity-90">
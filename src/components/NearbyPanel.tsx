@@ -0,0 +1,259 @@
+/**
+ * NearbyPanel Component
+ *
+ * Dropdown panel listing the locations within a chosen radius of the rep's
+ * position, closest first. Only locations passing the current status filter
+ * are listed. Quick filters (e.g., "Prospects within 2 km") narrow the list
+ * to one status and radius in a single tap. Clicking a row selects that
+ * location and opens its popup.
+ *
+ * @module components/NearbyPanel
+ */
+
+'use client';
+
+import { useState, useRef, useEffect, useMemo } from 'react';
+import type { Location } from '@/types/location';
+import type { Coordinates } from '@/types/google';
+import { findNearbyLocations } from '@/lib/proximity';
+import { formatDistance } from '@/lib/format';
+import { NEARBY_CONFIG, STATUS_COLORS, STATUS_LABELS } from '@/lib/constants';
+
+/**
+ * Props for the NearbyPanel component
+ */
+interface NearbyPanelProps {
+  /** Locations passing the current status filter */
+  locations: Location[];
+  /** Rep's current position (null until "My Location" has been used) */
+  userLocation: Coordinates | null;
+  /** Whether the rep's position is being looked up */
+  isGettingLocation: boolean;
+  /** Callback to look up the rep's position */
+  onRequestLocation: () => void;
+  /** Callback when a location is clicked */
+  onLocationClick: (location: Location) => void;
+}
+
+/**
+ * NearbyPanel Component
+ *
+ * Lists nearby locations sorted by distance.
+ *
+ * @param props - Component props
+ * @returns NearbyPanel JSX
+ */
+export default function NearbyPanel({
+  locations,
+  userLocation,
+  isGettingLocation,
+  onRequestLocation,
+  onLocationClick,
+}: NearbyPanelProps): JSX.Element {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [radiusKm, setRadiusKm] = useState<number>(NEARBY_CONFIG.DEFAULT_RADIUS_KM);
+  const [quickFilterLabel, setQuickFilterLabel] = useState<string | null>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  const quickFilter = NEARBY_CONFIG.QUICK_FILTERS.find(
+    (filter) => filter.label === quickFilterLabel
+  );
+
+  /**
+   * Locations within the radius (and quick filter status), closest first
+   */
+  const nearby = useMemo(() => {
+    if (!userLocation) {
+      return [];
+    }
+    const candidates = quickFilter
+      ? locations.filter((location) => location.status === quickFilter.status)
+      : locations;
+    return findNearbyLocations(userLocation, candidates, radiusKm);
+  }, [userLocation, locations, radiusKm, quickFilter]);
+
+  /**
+   * Handle clicking outside the dropdown to close it
+   */
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent): void => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  /**
+   * Open the panel, looking up the rep's position first if needed
+   */
+  const toggleDropdown = (): void => {
+    if (!isOpen && !userLocation && !isGettingLocation) {
+      onRequestLocation();
+    }
+    setIsOpen((prev) => !prev);
+  };
+
+  /**
+   * Pick a radius, clearing any quick filter
+   */
+  const handleRadiusClick = (km: number): void => {
+    setRadiusKm(km);
+    setQuickFilterLabel(null);
+  };
+
+  /**
+   * Toggle a quick filter on or off
+   */
+  const handleQuickFilterClick = (label: string, km: number): void => {
+    if (quickFilterLabel === label) {
+      setQuickFilterLabel(null);
+      return;
+    }
+    setQuickFilterLabel(label);
+    setRadiusKm(km);
+  };
+
+  /**
+   * Handle clicking on a nearby location
+   */
+  const handleLocationClick = (location: Location): void => {
+    onLocationClick(location);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={dropdownRef} className="relative z-50">
+      {/* Dropdown Button */}
+      <button
+        onClick={toggleDropdown}
+        className="flex items-center gap-2 px-4 py-2 bg-white rounded-lg shadow-lg hover:shadow-xl transition-shadow min-h-[44px] touch-manipulation"
+        type="button"
+        aria-label="Locations near me"
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a2 2 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
+        </svg>
+        <span className="font-medium text-sm">Nearby</span>
+      </button>
+
+      {/* Dropdown Panel */}
+      {isOpen && (
+        <div
+          className="absolute top-full mt-2 left-0 bg-white rounded-lg shadow-lg py-2 w-80 max-w-[90vw] max-h-[60vh] overflow-y-auto"
+          role="region"
+          aria-label="Nearby locations"
+        >
+          {/* Radius */}
+          <div className="px-4 py-2 border-b border-gray-100">
+            <div className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+              Within
+            </div>
+            <div className="flex gap-1">
+              {NEARBY_CONFIG.RADIUS_OPTIONS_KM.map((km) => (
+                <button
+                  key={km}
+                  onClick={() => handleRadiusClick(km)}
+                  className={`flex-1 px-2 py-2 text-sm rounded-md min-h-[44px] touch-manipulation transition-colors ${
+                    radiusKm === km
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                  type="button"
+                  aria-pressed={radiusKm === km}
+                >
+                  {km} km
+                </button>
+              ))}
+            </div>
+
+            {/* Quick Filters */}
+            <div className="flex flex-wrap gap-1 mt-2">
+              {NEARBY_CONFIG.QUICK_FILTERS.map((filter) => (
+                <button
+                  key={filter.label}
+                  onClick={() => handleQuickFilterClick(filter.label, filter.radiusKm)}
+                  className={`px-3 py-1 text-xs rounded-full min-h-[32px] touch-manipulation border transition-colors ${
+                    quickFilterLabel === filter.label
+                      ? 'bg-blue-50 border-blue-600 text-blue-700'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                  type="button"
+                  aria-pressed={quickFilterLabel === filter.label}
+                >
+                  {filter.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Results */}
+          {!userLocation ? (
+            <div className="px-4 py-3 text-sm text-gray-500">
+              {isGettingLocation ? 'Finding your location...' : 'Your location is needed to find nearby stops'}
+              {!isGettingLocation && (
+                <button
+                  onClick={onRequestLocation}
+                  className="block w-full mt-2 px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+                  type="button"
+                >
+                  Use my location
+                </button>
+              )}
+            </div>
+          ) : nearby.length === 0 ? (
+            <div className="px-4 py-3 text-sm text-gray-500">
+              No matching locations within {radiusKm} km
+            </div>
+          ) : (
+            <>
+              <div className="px-4 py-2 text-xs text-gray-500">
+                {nearby.length} within {radiusKm} km
+                {nearby.length > NEARBY_CONFIG.MAX_RESULTS && ` · closest ${NEARBY_CONFIG.MAX_RESULTS} shown`}
+              </div>
+              <ul className="divide-y divide-gray-100">
+                {nearby.slice(0, NEARBY_CONFIG.MAX_RESULTS).map(({ location, distanceKm }) => (
+                  <li key={location.id}>
+                    <button
+                      onClick={() => handleLocationClick(location)}
+                      className="w-full px-4 py-3 text-left hover:bg-gray-50 transition-colors min-h-[44px] touch-manipulation flex items-start gap-3"
+                      type="button"
+                    >
+                      <span
+                        className="mt-1 w-3 h-3 rounded-full flex-shrink-0 border border-gray-200"
+                        style={{ backgroundColor: STATUS_COLORS[location.status] }}
+                        aria-hidden="true"
+                      />
+                      <span className="flex-1">
+                        <span className="block font-medium text-sm text-gray-900">
+                          {location.companyName}
+                        </span>
+                        <span className="block text-xs text-gray-500 mt-1">
+                          {STATUS_LABELS[location.status]}
+                          {location.address && ` · ${location.address}`}
+                        </span>
+                      </span>
+                      <span className="text-xs font-medium text-blue-700 whitespace-nowrap">
+                        {formatDistance(distanceKm)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
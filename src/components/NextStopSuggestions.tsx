@@ -0,0 +1,110 @@
+/**
+ * NextStopSuggestions Component
+ *
+ * Card shown after the rep saves a status change, suggesting the closest
+ * locations still worth visiting (Prospect, Follow-up or Revisit). Each
+ * suggestion shows its distance and a one-tap "Go" button that opens
+ * directions; clicking the name opens the location popup instead.
+ *
+ * @module components/NextStopSuggestions
+ */
+
+'use client';
+
+import type { Location } from '@/types/location';
+import type { NearbyLocation } from '@/lib/proximity';
+import { formatDistance } from '@/lib/format';
+import { openDirections } from '@/lib/directions';
+import { STATUS_COLORS, STATUS_LABELS } from '@/lib/constants';
+
+/**
+ * Props for the NextStopSuggestions component
+ */
+interface NextStopSuggestionsProps {
+  /** Location the rep just saved (distances are measured from here) */
+  fromLocation: Location;
+  /** Closest suggested locations, closest first */
+  suggestions: NearbyLocation[];
+  /** Callback when a suggestion's name is clicked */
+  onLocationClick: (location: Location) => void;
+  /** Callback to hide the suggestions */
+  onDismiss: () => void;
+}
+
+/**
+ * NextStopSuggestions Component
+ *
+ * Suggests where to go after a visit.
+ *
+ * @param props - Component props
+ * @returns NextStopSuggestions JSX
+ */
+export default function NextStopSuggestions({
+  fromLocation,
+  suggestions,
+  onLocationClick,
+  onDismiss,
+}: NextStopSuggestionsProps): JSX.Element {
+  return (
+    <div
+      className="w-[calc(100vw-6rem)] max-w-[400px] bg-white rounded-lg shadow-lg py-2"
+      role="region"
+      aria-label="Suggested next stops"
+    >
+      <div className="flex items-start justify-between gap-2 px-4 py-1">
+        <div>
+          <div className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+            Next closest stops
+          </div>
+          <div className="text-xs text-gray-500 mt-0.5">From {fromLocation.companyName}</div>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="text-gray-400 hover:text-gray-600 transition-colors p-1"
+          type="button"
+          aria-label="Dismiss suggestions"
+        >
+          <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {suggestions.length === 0 ? (
+        <div className="px-4 py-2 text-sm text-gray-500">No unvisited prospects, follow-ups or revisits left</div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {suggestions.map(({ location, distanceKm }) => (
+            <li key={location.id} className="flex items-center gap-2 px-4 py-2">
+              <button
+                onClick={() => onLocationClick(location)}
+                className="flex-1 text-left min-h-[44px] touch-manipulation flex items-start gap-2"
+                type="button"
+              >
+                <span
+                  className="mt-1 w-3 h-3 rounded-full flex-shrink-0 border border-gray-200"
+                  style={{ backgroundColor: STATUS_COLORS[location.status] }}
+                  aria-hidden="true"
+                />
+                <span className="flex-1">
+                  <span className="block text-sm font-medium text-gray-900">{location.companyName}</span>
+                  <span className="block text-xs text-gray-500">
+                    {STATUS_LABELS[location.status]} · {formatDistance(distanceKm)}
+                  </span>
+                </span>
+              </button>
+              <button
+                onClick={() => openDirections(location)}
+                className="px-4 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800 transition-colors"
+                type="button"
+                aria-label={`Get directions to ${location.companyName}`}
+              >
+                Go
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,506 @@
+/**
+ * RoutePlanner Component
+ *
+ * Dropdown panel for planning a route through the follow-ups scheduled for
+ * the selected date. The rep picks a start point ("My Location" or the home
+ * base) and working hours, and the planned stops are shown as a numbered list
+ * in visiting order, with the distance, travel time and ETA of the leg leading
+ * to each stop. Stops that could not be fitted into the day are listed
+ * separately with the reason.
+ * Stops can be moved up or down; clicking a stop selects that location and
+ * opens its popup. A planned route can be exported as multi-stop Google Maps
+ * or Apple Maps links, or downloaded as a GPX file, or started in progress
+ * mode where the rep works through the stops one by one.
+ *
+ * @module components/RoutePlanner
+ */
+
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import type { Location } from '@/types/location';
+import type {
+  RouteLeg,
+  RouteScheduleSettings,
+  RouteStartPoint,
+  RouteStartType,
+  StopProgress,
+  StopProgressStatus,
+  TimeWindow,
+  UnschedulableReason,
+} from '@/types/route';
+import { ROUTE_START_LABELS, UNSCHEDULABLE_REASON_LABELS } from '@/types/route';
+import { formatDistance, formatDuration, formatMinutesOfDay } from '@/lib/format';
+import { buildStopTimeline, getDepartureMinutes } from '@/lib/route-scheduler';
+import { buildAppleMapsRouteLinks, buildGoogleMapsRouteLinks, buildRouteGpx } from '@/lib/route-export';
+
+/**
+ * Props for the RoutePlanner component
+ */
+interface RoutePlannerProps {
+  /** Number of follow-ups available to plan for the selected date */
+  candidateCount: number;
+  /** Planned stops in visiting order (empty if no route is planned) */
+  stops: Location[];
+  /** Start point of the planned route (null if no route is planned) */
+  start: RouteStartPoint | null;
+  /** Travel estimates for each leg; legs[i] leads to stops[i] */
+  legs: RouteLeg[];
+  /** Name of the source of the leg estimates */
+  estimateSource: string;
+  /** Whether a home base is configured */
+  hasHomeBase: boolean;
+  /** Working day settings used to schedule the route */
+  scheduleSettings: RouteScheduleSettings;
+  /** Callback when the working day settings are edited */
+  onScheduleSettingsChange: (settings: RouteScheduleSettings) => void;
+  /** Opening windows of the stops on the route date, keyed by location ID */
+  stopWindows: Record<number, TimeWindow[]>;
+  /** Follow-ups left off the route, with the reason */
+  unschedulable: Array<{ location: Location; reason: UnschedulableReason }>;
+  /** Follow-up date the route is planned for (YYYY-MM-DD), used to name exports */
+  routeDate: string;
+  /** Callback to plan a route from the chosen start point */
+  onPlanRoute: (startType: RouteStartType) => void;
+  /** Callback to clear the planned route */
+  onClearRoute: () => void;
+  /** Callback with the new stop order after a stop is moved */
+  onReorderStops: (stopIds: number[]) => void;
+  /** Callback when a stop is clicked */
+  onLocationClick: (location: Location) => void;
+  /** Progress of each stop keyed by location ID (null if the route is not started) */
+  stopProgress: Record<number, StopProgress> | null;
+  /** Callback to start driving the planned route */
+  onStartRoute: () => void;
+  /** Extra sections shown at the bottom of the panel (e.g., saved plans) */
+  children?: React.ReactNode;
+}
+
+/**
+ * Stop number badge colors by progress (done and skipped stops are dimmed)
+ */
+const STOP_BADGE_CLASSES: Record<StopProgressStatus, string> = {
+  pending: 'bg-blue-600',
+  arrived: 'bg-orange-500',
+  done: 'bg-green-600',
+  skipped: 'bg-gray-400',
+};
+
+/**
+ * RoutePlanner Component
+ *
+ * Plans the day's follow-up route and lists the stops in order.
+ *
+ * @param props - Component props
+ * @returns RoutePlanner JSX
+ */
+export default function RoutePlanner({
+  candidateCount,
+  stops,
+  start,
+  legs,
+  estimateSource,
+  hasHomeBase,
+  scheduleSettings,
+  onScheduleSettingsChange,
+  stopWindows,
+  unschedulable,
+  routeDate,
+  onPlanRoute,
+  onClearRoute,
+  onReorderStops,
+  onLocationClick,
+  stopProgress,
+  onStartRoute,
+  children,
+}: RoutePlannerProps): JSX.Element {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [startType, setStartType] = useState<RouteStartType>(
+    hasHomeBase ? 'home-base' : 'my-location'
+  );
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  const hasRoute = start !== null && stops.length > 0;
+  const googleMapsLinks = hasRoute ? buildGoogleMapsRouteLinks(start, stops) : [];
+  const appleMapsLinks = hasRoute ? buildAppleMapsRouteLinks(start, stops) : [];
+
+  // Legs are recalculated asynchronously; ignore them until they match the stops
+  const hasLegs = legs.length === stops.length;
+  const totalDistanceKm = legs.reduce((sum, leg) => sum + leg.distanceKm, 0);
+  const totalDurationMinutes = legs.reduce((sum, leg) => sum + leg.durationMinutes, 0);
+
+  // Arrival times start at the day start, or now if the route is for today
+  const timeline = hasLegs
+    ? buildStopTimeline(
+        getDepartureMinutes(routeDate, scheduleSettings, new Date()),
+        legs.map((leg) => leg.durationMinutes),
+        stops.map((stop) => stopWindows[stop.id]),
+        scheduleSettings
+      )
+    : [];
+  const finishMinutes =
+    timeline.length > 0
+      ? timeline[timeline.length - 1].visitStartMinutes + scheduleSettings.visitMinutes
+      : null;
+
+  /**
+   * Handle clicking outside the dropdown to close it
+   */
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent): void => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  /**
+   * Handle clicking on a stop
+   */
+  const handleStopClick = (location: Location): void => {
+    onLocationClick(location);
+    setIsOpen(false);
+  };
+
+  /**
+   * Start progress mode and close the panel so the stop card is visible
+   */
+  const handleStartRoute = (): void => {
+    onStartRoute();
+    setIsOpen(false);
+  };
+
+  /**
+   * Move a stop one position up or down
+   */
+  const handleMoveStop = (index: number, direction: -1 | 1): void => {
+    const target = index + direction;
+    if (target < 0 || target >= stops.length) {
+      return;
+    }
+
+    const stopIds = stops.map((stop) => stop.id);
+    [stopIds[index], stopIds[target]] = [stopIds[target], stopIds[index]];
+    onReorderStops(stopIds);
+  };
+
+  /**
+   * Download the planned route as a GPX file
+   */
+  const handleDownloadGpx = (): void => {
+    if (!start) {
+      return;
+    }
+
+    const gpx = buildRouteGpx(start, stops, `Follow-ups ${routeDate}`);
+    const url = URL.createObjectURL(new Blob([gpx], { type: 'application/gpx+xml' }));
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `route-${routeDate}.gpx`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /**
+   * Toggle dropdown open/closed
+   */
+  const toggleDropdown = (): void => {
+    setIsOpen((prev) => !prev);
+  };
+
+  return (
+    <div ref={dropdownRef} className="relative z-50">
+      {/* Dropdown Button */}
+      <button
+        onClick={toggleDropdown}
+        className="flex items-center gap-2 px-4 py-2 bg-white rounded-lg shadow-lg hover:shadow-xl transition-shadow min-h-[44px] touch-manipulation"
+        type="button"
+        aria-label={hasRoute ? `Route with ${stops.length} stops` : 'Plan route'}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <svg
+          className="h-5 w-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          aria-hidden="true"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7"
+          />
+        </svg>
+        <span className="font-medium text-sm">
+          {hasRoute ? `Route (${stops.length})` : 'Plan Route'}
+        </span>
+      </button>
+
+      {/* Dropdown Panel */}
+      {isOpen && (
+        <div
+          className="absolute top-full mt-2 left-0 bg-white rounded-lg shadow-lg py-2 min-w-[280px] max-w-[90vw] max-h-[60vh] overflow-y-auto"
+          role="region"
+          aria-label="Route planner"
+        >
+          {/* Start Point Picker */}
+          <div className="px-4 py-2 border-b border-gray-100">
+            <div className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+              Start From
+            </div>
+            <div className="flex gap-2">
+              {(Object.keys(ROUTE_START_LABELS) as RouteStartType[]).map((type) => (
+                <button
+                  key={type}
+                  onClick={() => setStartType(type)}
+                  disabled={type === 'home-base' && !hasHomeBase}
+                  className={`flex-1 px-3 py-2 text-sm rounded-md min-h-[44px] touch-manipulation transition-colors disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed ${
+                    startType === type
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                  type="button"
+                  aria-pressed={startType === type}
+                  title={type === 'home-base' && !hasHomeBase ? 'Set NEXT_PUBLIC_HOME_BASE to enable' : undefined}
+                >
+                  {ROUTE_START_LABELS[type]}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2 mt-2">
+              <label className="flex-1 text-xs text-gray-500">
+                Day start
+                <input
+                  type="time"
+                  value={scheduleSettings.dayStart}
+                  onChange={(event) => onScheduleSettingsChange({ ...scheduleSettings, dayStart: event.target.value })}
+                  className="block w-full mt-1 px-2 py-2 text-sm text-gray-900 border border-gray-300 rounded-md min-h-[44px]"
+                />
+              </label>
+              <label className="flex-1 text-xs text-gray-500">
+                Day end
+                <input
+                  type="time"
+                  value={scheduleSettings.dayEnd}
+                  onChange={(event) => onScheduleSettingsChange({ ...scheduleSettings, dayEnd: event.target.value })}
+                  className="block w-full mt-1 px-2 py-2 text-sm text-gray-900 border border-gray-300 rounded-md min-h-[44px]"
+                />
+              </label>
+              <label className="flex-1 text-xs text-gray-500">
+                Visit (min)
+                <input
+                  type="number"
+                  min={0}
+                  step={5}
+                  value={scheduleSettings.visitMinutes}
+                  onChange={(event) =>
+                    onScheduleSettingsChange({
+                      ...scheduleSettings,
+                      visitMinutes: Math.max(0, parseInt(event.target.value, 10) || 0),
+                    })
+                  }
+                  className="block w-full mt-1 px-2 py-2 text-sm text-gray-900 border border-gray-300 rounded-md min-h-[44px]"
+                />
+              </label>
+            </div>
+            <div className="flex gap-2 mt-2">
+              <button
+                onClick={() => onPlanRoute(startType)}
+                disabled={candidateCount === 0}
+                className="flex-1 px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-green-600 text-white hover:bg-green-700 active:bg-green-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+                type="button"
+              >
+                {hasRoute ? 'Re-plan' : 'Plan'} {candidateCount} {candidateCount === 1 ? 'stop' : 'stops'}
+              </button>
+              {hasRoute && (
+                <button
+                  onClick={onClearRoute}
+                  className="px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-gray-200 text-gray-700 hover:bg-gray-300 active:bg-gray-400 transition-colors"
+                  type="button"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Ordered Stops */}
+          {!hasRoute ? (
+            <div className="px-4 py-3 text-sm text-gray-500">
+              {candidateCount === 0
+                ? 'No follow-ups scheduled for this date'
+                : 'Choose a start point and plan the route'}
+            </div>
+          ) : (
+            <>
+              <div className="px-4 py-2 text-xs text-gray-500">
+                From {start.label}
+                {hasLegs && (
+                  <>
+                    {' · '}
+                    {formatDistance(totalDistanceKm)} · {formatDuration(totalDurationMinutes)}
+                    {finishMinutes !== null && ` · Done by ${formatMinutesOfDay(finishMinutes)}`}
+                    <span className="block mt-0.5">{estimateSource}</span>
+                  </>
+                )}
+              </div>
+              <div className="px-4 pb-2">
+                <button
+                  onClick={handleStartRoute}
+                  disabled={stopProgress !== null}
+                  className="w-full px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+                  type="button"
+                >
+                  {stopProgress !== null ? 'Route in progress' : 'Start route'}
+                </button>
+              </div>
+              <ol className="divide-y divide-gray-100">
+                {stops.map((location, index) => (
+                  <li key={location.id} className="flex items-stretch">
+                    <button
+                      onClick={() => handleStopClick(location)}
+                      className="flex-1 px-4 py-3 text-left hover:bg-gray-50 transition-colors min-h-[44px] touch-manipulation flex items-start gap-3"
+                      type="button"
+                    >
+                      <span
+                        className={`flex-shrink-0 w-6 h-6 rounded-full text-white text-xs font-bold flex items-center justify-center ${
+                          STOP_BADGE_CLASSES[stopProgress?.[location.id]?.status ?? 'pending']
+                        }`}
+                        aria-hidden="true"
+                      >
+                        {index + 1}
+                      </span>
+                      <span className="flex-1">
+                        <span className="block font-medium text-sm text-gray-900">
+                          {location.companyName}
+                        </span>
+                        {location.address && (
+                          <span className="block text-xs text-gray-500 mt-1">
+                            {location.address}
+                          </span>
+                        )}
+                        {hasLegs && (
+                          <span className="block text-xs text-blue-700 mt-1">
+                            +{formatDistance(legs[index].distanceKm)} · {formatDuration(legs[index].durationMinutes)} · ETA {formatMinutesOfDay(timeline[index].arrivalMinutes)}
+                            {timeline[index].visitStartMinutes > timeline[index].arrivalMinutes &&
+                              ` · opens ${formatMinutesOfDay(timeline[index].visitStartMinutes)}`}
+                          </span>
+                        )}
+                        {hasLegs && (timeline[index].isOutsideHours || timeline[index].isAfterDayEnd) && (
+                          <span className="block text-xs text-red-600 mt-1">
+                            {timeline[index].isOutsideHours ? 'Outside opening hours' : 'After end of day'}
+                          </span>
+                        )}
+                      </span>
+                    </button>
+                    <div className="flex flex-col justify-center pr-2">
+                      <button
+                        onClick={() => handleMoveStop(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-gray-500 hover:text-gray-800 disabled:text-gray-200 disabled:cursor-not-allowed touch-manipulation"
+                        type="button"
+                        aria-label={`Move ${location.companyName} earlier`}
+                      >
+                        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => handleMoveStop(index, 1)}
+                        disabled={index === stops.length - 1}
+                        className="p-1 text-gray-500 hover:text-gray-800 disabled:text-gray-200 disabled:cursor-not-allowed touch-manipulation"
+                        type="button"
+                        aria-label={`Move ${location.companyName} later`}
+                      >
+                        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                        </svg>
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+
+              {/* Export */}
+              <div className="px-4 py-2 border-t border-gray-100">
+                <div className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+                  Export
+                </div>
+                {[
+                  { app: 'Google Maps', links: googleMapsLinks },
+                  { app: 'Apple Maps', links: appleMapsLinks },
+                ].map(({ app, links }) => (
+                  <div key={app} className="flex flex-wrap gap-2 mb-2">
+                    {links.map((link) => (
+                      <a
+                        key={link.part}
+                        href={link.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex-1 px-3 py-2 text-sm text-center rounded-md min-h-[44px] touch-manipulation bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors flex items-center justify-center"
+                        title={`Stops ${link.firstStop}-${link.lastStop}`}
+                      >
+                        {link.totalParts > 1 ? `${app} (${link.part}/${link.totalParts})` : app}
+                      </a>
+                    ))}
+                  </div>
+                ))}
+                {googleMapsLinks.length > 1 && (
+                  <div className="text-xs text-gray-500 mb-2">
+                    Long routes are split into parts of up to {googleMapsLinks[0].lastStop} stops
+                  </div>
+                )}
+                <button
+                  onClick={handleDownloadGpx}
+                  className="w-full px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+                  type="button"
+                >
+                  Download GPX
+                </button>
+              </div>
+            </>
+          )}
+
+          {/* Unschedulable Stops */}
+          {unschedulable.length > 0 && (
+            <div className="px-4 py-2 border-t border-gray-100">
+              <div className="text-xs font-semibold text-red-700 mb-2 uppercase tracking-wide">
+                Not scheduled ({unschedulable.length})
+              </div>
+              <ul className="space-y-1">
+                {unschedulable.map(({ location, reason }) => (
+                  <li key={location.id}>
+                    <button
+                      onClick={() => handleStopClick(location)}
+                      className="w-full text-left px-1 py-1 rounded hover:bg-gray-50 min-h-[44px] touch-manipulation"
+                      type="button"
+                    >
+                      <span className="block text-sm text-gray-900">{location.companyName}</span>
+                      <span className="block text-xs text-gray-500">
+                        {UNSCHEDULABLE_REASON_LABELS[reason]}
+                        {location.openingHours && ` · ${location.openingHours}`}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {children}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+/**
+ * RouteProgressPanel Component
+ *
+ * Driving-mode panel shown while the rep works through a planned route.
+ * Shows the current stop's location card with "Arrived", "Skip" and "Done"
+ * actions. "Done" can also set the stop's status and notes before moving on
+ * to the next stop. Once every stop is done or skipped, a summary is shown.
+ *
+ * Render with `key` set to the current stop ID so the card and the "Done"
+ * form start fresh at each stop.
+ *
+ * @module components/RouteProgressPanel
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { Location, LocationStatus, LocationUpdate } from '@/types/location';
+import type { StopProgress } from '@/types/route';
+import { LOCATION_STATUSES } from '@/types/location';
+import { STATUS_LABELS, VALIDATION } from '@/lib/constants';
+import { openDirections } from '@/lib/directions';
+import LocationMarker from '@/components/LocationMarker';
+
+/**
+ * Props for the RouteProgressPanel component
+ */
+interface RouteProgressPanelProps {
+  /** Current stop (null once every stop is done or skipped) */
+  stop: Location | null;
+  /** Position of the current stop in the route (1-indexed) */
+  stopNumber: number;
+  /** Number of stops on the route */
+  totalStops: number;
+  /** Progress of the current stop (undefined if not reached yet) */
+  progress: StopProgress | undefined;
+  /** Number of stops marked done */
+  doneCount: number;
+  /** Number of stops skipped */
+  skippedCount: number;
+  /** Callback when the rep arrives at the current stop */
+  onArrived: () => void;
+  /** Callback to skip the current stop */
+  onSkip: () => void;
+  /** Callback to mark the current stop done, with any location changes to save */
+  onDone: (updates: LocationUpdate) => void;
+  /** Callback when the stop is edited from its location card */
+  onLocationUpdate: (updated: Location) => void;
+  /** Callback to leave progress mode */
+  onEndRoute: () => void;
+}
+
+/**
+ * RouteProgressPanel Component
+ *
+ * Walks the rep through the route one stop at a time.
+ *
+ * @param props - Component props
+ * @returns RouteProgressPanel JSX
+ */
+export default function RouteProgressPanel({
+  stop,
+  stopNumber,
+  totalStops,
+  progress,
+  doneCount,
+  skippedCount,
+  onArrived,
+  onSkip,
+  onDone,
+  onLocationUpdate,
+  onEndRoute,
+}: RouteProgressPanelProps): JSX.Element {
+  const [isCardOpen, setIsCardOpen] = useState<boolean>(true);
+  const [isCompleting, setIsCompleting] = useState<boolean>(false);
+  const [doneStatus, setDoneStatus] = useState<LocationStatus | ''>('');
+  const [doneNotes, setDoneNotes] = useState<string>(stop?.notes ?? '');
+
+  const isArrived = progress?.status === 'arrived';
+  const notesTooLong = doneNotes.length > VALIDATION.MAX_NOTES_LENGTH;
+
+  /**
+   * Opens directions to the current stop in the native maps app
+   */
+  const handleNavigate = (): void => {
+    if (stop) {
+      openDirections(stop);
+    }
+  };
+
+  /**
+   * Marks the stop done, sending only the fields the rep changed
+   */
+  const handleConfirmDone = (): void => {
+    if (!stop || notesTooLong) {
+      return;
+    }
+
+    const updates: LocationUpdate = {};
+    if (doneStatus && doneStatus !== stop.status) {
+      updates.status = doneStatus;
+    }
+    if (doneNotes.trim() !== stop.notes.trim()) {
+      updates.notes = doneNotes.trim();
+    }
+    onDone(updates);
+  };
+
+  // Route finished
+  if (!stop) {
+    return (
+      <div className="w-[calc(100vw-6rem)] max-w-[400px] bg-white rounded-lg shadow-lg p-4">
+        <div className="text-sm font-semibold text-gray-900">Route complete</div>
+        <div className="text-xs text-gray-500 mt-1">
+          {doneCount} done · {skippedCount} skipped of {totalStops} {totalStops === 1 ? 'stop' : 'stops'}
+        </div>
+        <button
+          onClick={onEndRoute}
+          className="w-full mt-3 px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800 transition-colors"
+          type="button"
+        >
+          Finish
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-[calc(100vw-6rem)] max-w-[400px] flex flex-col gap-2">
+      {/* Current Stop Card */}
+      {isCardOpen && (
+        <div className="max-h-[50vh] overflow-y-auto rounded-lg">
+          <LocationMarker
+            location={stop}
+            isOpen={true}
+            onClose={() => setIsCardOpen(false)}
+            onUpdate={onLocationUpdate}
+          />
+        </div>
+      )}
+
+      {/* Progress Actions */}
+      <div className="bg-white rounded-lg shadow-lg p-3">
+        <div className="flex items-center justify-between gap-2">
+          <button
+            onClick={() => setIsCardOpen((prev) => !prev)}
+            className="flex-1 text-left min-h-[44px] touch-manipulation"
+            type="button"
+            aria-expanded={isCardOpen}
+          >
+            <span className="block text-xs text-gray-500">
+              Stop {stopNumber} of {totalStops}
+              {isArrived && ' · Arrived'}
+            </span>
+            <span className="block text-sm font-semibold text-gray-900 truncate">
+              {stop.companyName}
+            </span>
+          </button>
+          <button
+            onClick={onEndRoute}
+            className="px-2 py-1 text-xs text-gray-500 hover:text-gray-800 min-h-[44px] touch-manipulation"
+            type="button"
+          >
+            End route
+          </button>
+        </div>
+
+        {isCompleting ? (
+          <div className="mt-2 space-y-2">
+            <select
+              value={doneStatus}
+              onChange={(event) => setDoneStatus(event.target.value as LocationStatus | '')}
+              className="w-full px-2 py-2 text-sm border border-gray-300 rounded-md min-h-[44px] bg-white"
+              aria-label="New status"
+            >
+              <option value="">Keep status ({STATUS_LABELS[stop.status]})</option>
+              {LOCATION_STATUSES.map((status) => (
+                <option key={status} value={status}>
+                  {STATUS_LABELS[status]}
+                </option>
+              ))}
+            </select>
+            <textarea
+              value={doneNotes}
+              onChange={(event) => setDoneNotes(event.target.value)}
+              rows={3}
+              className="w-full px-2 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Visit notes"
+              aria-label="Notes"
+            />
+            {notesTooLong && (
+              <div className="text-xs text-red-600">
+                Notes must be {VALIDATION.MAX_NOTES_LENGTH} characters or less
+              </div>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={handleConfirmDone}
+                disabled={notesTooLong}
+                className="flex-1 px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-green-600 text-white hover:bg-green-700 active:bg-green-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+                type="button"
+              >
+                Done, next stop
+              </button>
+              <button
+                onClick={() => setIsCompleting(false)}
+                className="px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+                type="button"
+              >
+                Back
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex gap-2 mt-2">
+            {isArrived ? (
+              <button
+                onClick={() => setIsCompleting(true)}
+                className="flex-1 px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-green-600 text-white hover:bg-green-700 active:bg-green-800 transition-colors"
+                type="button"
+              >
+                Done
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={handleNavigate}
+                  className="flex-1 px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800 transition-colors"
+                  type="button"
+                >
+                  Navigate
+                </button>
+                <button
+                  onClick={onArrived}
+                  className="flex-1 px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-orange-500 text-white hover:bg-orange-600 active:bg-orange-700 transition-colors"
+                  type="button"
+                >
+                  Arrived
+                </button>
+              </>
+            )}
+            <button
+              onClick={onSkip}
+              className="px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-gray-200 text-gray-700 hover:bg-gray-300 active:bg-gray-400 transition-colors"
+              type="button"
+            >
+              Skip
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
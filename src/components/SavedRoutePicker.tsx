@@ -0,0 +1,221 @@
+/**
+ * SavedRoutePicker Component
+ *
+ * Section of the route planner for day plans saved to the "Routes" sheet tab.
+ * The rep enters their name once (kept in localStorage), saves the current
+ * plan, updates its status, and loads yesterday's, today's or tomorrow's
+ * saved plans.
+ *
+ * @module components/SavedRoutePicker
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { Route, RouteStatus } from '@/types/route';
+import { ROUTE_STATUSES } from '@/types/route';
+import { formatLocalIsoDate } from '@/lib/format';
+
+/**
+ * Props for the SavedRoutePicker component
+ */
+interface SavedRoutePickerProps {
+  /** Rep name used to save and look up routes */
+  repName: string;
+  /** Callback when the rep name is edited */
+  onRepNameChange: (name: string) => void;
+  /** Whether there is a planned route that can be saved */
+  canSave: boolean;
+  /** Whether a save is in progress */
+  isSaving: boolean;
+  /** Callback to save the current plan */
+  onSave: () => void;
+  /** Saved route the current plan was loaded from or saved to (null if unsaved) */
+  activeRoute: Route | null;
+  /** Callback to change the status of the active route */
+  onStatusChange: (status: RouteStatus) => void;
+  /** Saved routes for the loaded date (null until a date is loaded) */
+  routes: Route[] | null;
+  /** Date the routes list was loaded for (YYYY-MM-DD) */
+  loadedDate: string | null;
+  /** Whether the routes list is loading */
+  isLoading: boolean;
+  /** Callback to load the saved routes for a date */
+  onLoadDate: (date: string) => void;
+  /** Callback to open a saved route */
+  onOpen: (route: Route) => void;
+  /** Callback to delete a saved route */
+  onDelete: (route: Route) => void;
+}
+
+/**
+ * Gets a date relative to today in YYYY-MM-DD format, in local time.
+ *
+ * @param offsetDays - Days from today (negative for the past)
+ * @returns Local date in YYYY-MM-DD format
+ */
+function getRelativeDate(offsetDays: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + offsetDays);
+  return formatLocalIsoDate(date);
+}
+
+/**
+ * Quick picks for loading saved plans
+ */
+const DATE_PICKS: Array<{ label: string; offsetDays: number }> = [
+  { label: 'Yesterday', offsetDays: -1 },
+  { label: 'Today', offsetDays: 0 },
+  { label: 'Tomorrow', offsetDays: 1 },
+];
+
+/**
+ * SavedRoutePicker Component
+ *
+ * Saves the current plan and loads saved plans by date.
+ *
+ * @param props - Component props
+ * @returns SavedRoutePicker JSX
+ */
+export default function SavedRoutePicker({
+  repName,
+  onRepNameChange,
+  canSave,
+  isSaving,
+  onSave,
+  activeRoute,
+  onStatusChange,
+  routes,
+  loadedDate,
+  isLoading,
+  onLoadDate,
+  onOpen,
+  onDelete,
+}: SavedRoutePickerProps): JSX.Element {
+  const [pendingDeleteId, setPendingDeleteId] = useState<number | null>(null);
+
+  const hasRepName = repName.trim() !== '';
+
+  /**
+   * Delete a route after a second tap to confirm
+   */
+  const handleDelete = (route: Route): void => {
+    if (pendingDeleteId !== route.id) {
+      setPendingDeleteId(route.id);
+      return;
+    }
+    setPendingDeleteId(null);
+    onDelete(route);
+  };
+
+  return (
+    <div className="px-4 py-2 border-t border-gray-100">
+      <div className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+        Saved Plans
+      </div>
+
+      {/* Rep Name */}
+      <label htmlFor="repName" className="block text-xs text-gray-500 mb-1">
+        Your name
+      </label>
+      <input
+        id="repName"
+        type="text"
+        value={repName}
+        onChange={(event) => onRepNameChange(event.target.value)}
+        placeholder="e.g., Alex"
+        className="w-full px-2 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 min-h-[44px]"
+        autoComplete="name"
+      />
+
+      {/* Save + Status */}
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={onSave}
+          disabled={!canSave || !hasRepName || isSaving}
+          className="flex-1 px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+          type="button"
+        >
+          {isSaving ? 'Saving...' : activeRoute ? 'Update saved plan' : 'Save plan'}
+        </button>
+        {activeRoute && (
+          <select
+            value={activeRoute.status}
+            onChange={(event) => onStatusChange(event.target.value as RouteStatus)}
+            className="px-2 py-2 text-sm border border-gray-300 rounded-md min-h-[44px] bg-white"
+            aria-label="Saved plan status"
+          >
+            {ROUTE_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {/* Date Quick Picks */}
+      <div className="flex gap-2 mt-3">
+        {DATE_PICKS.map(({ label, offsetDays }) => {
+          const date = getRelativeDate(offsetDays);
+          return (
+            <button
+              key={label}
+              onClick={() => onLoadDate(date)}
+              disabled={!hasRepName || isLoading}
+              className={`flex-1 px-2 py-2 text-sm rounded-md min-h-[44px] touch-manipulation transition-colors disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed ${
+                loadedDate === date
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+              type="button"
+              aria-pressed={loadedDate === date}
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Saved Routes for the loaded date */}
+      {isLoading && (
+        <div className="py-2 text-sm text-gray-500">Loading saved plans...</div>
+      )}
+      {!isLoading && routes !== null && routes.length === 0 && (
+        <div className="py-2 text-sm text-gray-500">No saved plans for {loadedDate}</div>
+      )}
+      {!isLoading && routes !== null && routes.length > 0 && (
+        <ul className="mt-2 divide-y divide-gray-100">
+          {routes.map((route) => (
+            <li key={route.id} className="flex items-center gap-2 py-2">
+              <button
+                onClick={() => onOpen(route)}
+                className="flex-1 text-left min-h-[44px] touch-manipulation hover:bg-gray-50 rounded px-1"
+                type="button"
+              >
+                <span className="block text-sm font-medium text-gray-900">
+                  {route.locationIds.length} {route.locationIds.length === 1 ? 'stop' : 'stops'} from {route.start.label}
+                </span>
+                <span className="block text-xs text-gray-500">
+                  {route.date} · {route.status}
+                  {activeRoute?.id === route.id && ' · open'}
+                </span>
+              </button>
+              <button
+                onClick={() => handleDelete(route)}
+                className={`px-2 py-1 text-xs rounded-md min-h-[44px] touch-manipulation transition-colors ${
+                  pendingDeleteId === route.id
+                    ? 'bg-red-600 text-white'
+                    : 'text-red-600 hover:bg-red-50'
+                }`}
+                type="button"
+              >
+                {pendingDeleteId === route.id ? 'Confirm' : 'Delete'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+/**
+ * SearchBox Component
+ *
+ * Search field for the top control bar. Finds locations by company name,
+ * address or notes, tolerating typos, as the rep types (debounced). Results
+ * are a keyboard-navigable list: arrow keys move through them, Enter picks
+ * the highlighted one and Escape closes the list. Locations hidden by the
+ * current filters are still found, and marked as such.
+ *
+ * @module components/SearchBox
+ */
+
+'use client';
+
+import { useState, useRef, useEffect, useMemo } from 'react';
+import type { KeyboardEvent } from 'react';
+import type { Location } from '@/types/location';
+import { buildSearchIndex, searchLocations } from '@/lib/fuzzy-search';
+import { SEARCH_CONFIG, STATUS_COLORS, STATUS_LABELS, UI_CONFIG } from '@/lib/constants';
+
+/**
+ * Props for the SearchBox component
+ */
+interface SearchBoxProps {
+  /** All locations, including those hidden by filters */
+  locations: Location[];
+  /** IDs of the locations currently shown on the map */
+  visibleLocationIds: Set<number>;
+  /** Callback when a result is picked */
+  onSelect: (location: Location) => void;
+}
+
+/**
+ * SearchBox Component
+ *
+ * Fuzzy location search with a results list.
+ *
+ * @param props - Component props
+ * @returns SearchBox JSX
+ */
+export default function SearchBox({
+  locations,
+  visibleLocationIds,
+  onSelect,
+}: SearchBoxProps): JSX.Element {
+  const [query, setQuery] = useState<string>('');
+  const [debouncedQuery, setDebouncedQuery] = useState<string>('');
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [activeIndex, setActiveIndex] = useState<number>(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const searchIndex = useMemo(() => buildSearchIndex(locations), [locations]);
+  const results = useMemo(
+    () => searchLocations(searchIndex, debouncedQuery, SEARCH_CONFIG.MAX_RESULTS),
+    [searchIndex, debouncedQuery]
+  );
+
+  /**
+   * Debounce the query so the search doesn't run on every keystroke
+   */
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedQuery(query);
+      setActiveIndex(0);
+    }, UI_CONFIG.DEBOUNCE_DELAY);
+
+    return () => {
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  /**
+   * Handle clicking outside the search box to close the results
+   */
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent): void => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  /**
+   * Pick a result and reset the search
+   */
+  const handleSelect = (location: Location): void => {
+    onSelect(location);
+    setQuery('');
+    setDebouncedQuery('');
+    setIsOpen(false);
+  };
+
+  /**
+   * Arrow keys move through the results, Enter picks, Escape closes
+   */
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>): void => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setIsOpen(true);
+        if (results.length > 0) {
+          setActiveIndex((prev) => (prev + 1) % results.length);
+        }
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (results.length > 0) {
+          setActiveIndex((prev) => (prev - 1 + results.length) % results.length);
+        }
+        break;
+      case 'Enter':
+        if (isOpen && results[activeIndex]) {
+          event.preventDefault();
+          handleSelect(results[activeIndex].location);
+        }
+        break;
+      case 'Escape':
+        if (isOpen) {
+          setIsOpen(false);
+        } else {
+          setQuery('');
+        }
+        break;
+    }
+  };
+
+  const showResults = isOpen && debouncedQuery.trim() !== '';
+  const activeOptionId = showResults && results[activeIndex] ? `search-result-${results[activeIndex].location.id}` : undefined;
+
+  return (
+    <div ref={containerRef} className="relative z-50 w-64 max-w-[90vw]">
+      <div className="flex items-center gap-2 px-3 bg-white rounded-lg shadow-lg min-h-[44px]">
+        <svg className="h-5 w-5 text-gray-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-4.35-4.35M17 11a6 6 0 11-12 0 6 6 0 0112 0z" />
+        </svg>
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search locations"
+          className="flex-1 min-w-0 py-2 text-sm bg-transparent outline-none"
+          role="combobox"
+          aria-label="Search locations by name, address or notes"
+          aria-expanded={showResults}
+          aria-controls="search-results"
+          aria-autocomplete="list"
+          aria-activedescendant={activeOptionId}
+        />
+      </div>
+
+      {/* Results */}
+      {showResults && (
+        <div className="absolute top-full mt-2 left-0 w-80 max-w-[90vw] bg-white rounded-lg shadow-lg py-2 max-h-[60vh] overflow-y-auto">
+          {results.length === 0 ? (
+            <div className="px-4 py-3 text-sm text-gray-500">
+              {query === debouncedQuery ? 'No matching locations' : 'Searching...'}
+            </div>
+          ) : (
+            <ul id="search-results" role="listbox" aria-label="Search results" className="divide-y divide-gray-100">
+              {results.map(({ location }, index) => (
+                <li
+                  key={location.id}
+                  id={`search-result-${location.id}`}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onMouseDown={(event) => event.preventDefault()}
+                  onClick={() => handleSelect(location)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={`px-4 py-3 min-h-[44px] touch-manipulation flex items-start gap-3 cursor-pointer transition-colors ${
+                    index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <span
+                    className="mt-1 w-3 h-3 rounded-full flex-shrink-0 border border-gray-200"
+                    style={{ backgroundColor: STATUS_COLORS[location.status] }}
+                    aria-hidden="true"
+                  />
+                  <span className="flex-1">
+                    <span className="block font-medium text-sm text-gray-900">
+                      {location.companyName}
+                    </span>
+                    <span className="block text-xs text-gray-500 mt-1">
+                      {STATUS_LABELS[location.status]}
+                      {location.address && ` · ${location.address}`}
+                    </span>
+                    {!visibleLocationIds.has(location.id) && (
+                      <span className="block text-xs text-amber-700 mt-1">Hidden by filters</span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
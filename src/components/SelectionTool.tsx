@@ -0,0 +1,153 @@
+/**
+ * SelectionTool Component
+ *
+ * Top bar control for selecting locations by drawing on the map. The rep
+ * picks a lasso (freehand) or a rectangle, then drags over the map; every
+ * marker shown by the current filters inside the shape is selected for
+ * the bulk action bar. Map panning is paused while a shape is active, so
+ * the button turns into a "Done" button that gives the map back.
+ *
+ * @module components/SelectionTool
+ */
+
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import type { SelectionShape } from '@/lib/map-selection';
+
+/**
+ * Props for the SelectionTool component
+ */
+interface SelectionToolProps {
+  /** Shape being drawn (null when the map pans normally) */
+  shape: SelectionShape | null;
+  /** Callback when a shape is picked or drawing ends */
+  onShapeChange: (shape: SelectionShape | null) => void;
+  /** Number of locations currently selected */
+  selectedCount: number;
+}
+
+/**
+ * Shape choices, in display order
+ */
+const SHAPE_OPTIONS: Array<{ shape: SelectionShape; label: string }> = [
+  { shape: 'lasso', label: 'Lasso' },
+  { shape: 'rectangle', label: 'Rectangle' },
+];
+
+/**
+ * SelectionTool Component
+ *
+ * Picks the selection shape and ends drawing.
+ *
+ * @param props - Component props
+ * @returns SelectionTool JSX
+ */
+export default function SelectionTool({
+  shape,
+  onShapeChange,
+  selectedCount,
+}: SelectionToolProps): JSX.Element {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Handle clicking outside the dropdown to close it
+   */
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent): void => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  /**
+   * Open the shape choices, or stop drawing if a shape is active
+   */
+  const handleButtonClick = (): void => {
+    if (shape) {
+      onShapeChange(null);
+      return;
+    }
+    setIsOpen((prev) => !prev);
+  };
+
+  /**
+   * Start drawing the picked shape, closing the dropdown so the map is free
+   */
+  const handleShapeClick = (value: SelectionShape): void => {
+    onShapeChange(value);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={dropdownRef} className="relative z-50">
+      {/* Dropdown Button */}
+      <button
+        onClick={handleButtonClick}
+        className={`flex items-center gap-2 px-4 py-2 rounded-lg shadow-lg hover:shadow-xl transition-shadow min-h-[44px] touch-manipulation ${
+          shape ? 'bg-blue-600 text-white' : 'bg-white'
+        }`}
+        type="button"
+        aria-label={shape ? `Stop drawing ${shape} selections` : 'Select locations on the map'}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} strokeDasharray="3 3" d="M4 4h16v16H4z" />
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 9l8 3-3.5 1.5L12 17z" />
+        </svg>
+        <span className="font-medium text-sm">{shape ? 'Done selecting' : 'Select'}</span>
+        {selectedCount > 0 && (
+          <span
+            className={`text-xs font-semibold px-1.5 py-0.5 rounded-full ${
+              shape ? 'bg-white text-blue-600' : 'bg-blue-600 text-white'
+            }`}
+          >
+            {selectedCount}
+          </span>
+        )}
+      </button>
+
+      {/* Dropdown Panel */}
+      {isOpen && (
+        <div
+          className="absolute top-full mt-2 left-0 bg-white rounded-lg shadow-lg py-2 w-72 max-w-[90vw]"
+          role="region"
+          aria-label="Selection shape"
+        >
+          <div className="px-4 py-2">
+            <div className="text-xs font-semibold text-gray-700 mb-2 uppercase tracking-wide">
+              Shape
+            </div>
+            <div className="grid grid-cols-2 gap-1">
+              {SHAPE_OPTIONS.map((option) => (
+                <button
+                  key={option.shape}
+                  onClick={() => handleShapeClick(option.shape)}
+                  className="px-2 py-2 text-sm rounded-md min-h-[44px] touch-manipulation transition-colors bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  type="button"
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Drag on the map around the locations to select. Only locations shown by the
+              current filters are selected; drawing again replaces the selection.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+/**
+ * TerritoryBalancer Component
+ *
+ * Dropdown panel for splitting locations fairly among reps. The manager
+ * lists the reps, previews the split (each rep's group is outlined on the
+ * map in its own color), and accepts it to write every location's
+ * "Assigned To" rep back to the sheet in one batch.
+ *
+ * Only locations passing the current filters are split, so narrowing the
+ * map to one territory first balances just that territory.
+ *
+ * @module components/TerritoryBalancer
+ */
+
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import type { Location } from '@/types/location';
+import type { BalancedGroup } from '@/lib/clustering';
+import { splitLocationsAmongReps } from '@/lib/clustering';
+import { BALANCING_CONFIG } from '@/lib/constants';
+
+/**
+ * Props for the TerritoryBalancer component
+ */
+interface TerritoryBalancerProps {
+  /** Locations passing the current filters */
+  locations: Location[];
+  /** Rep names to start with (e.g., the territory reps) */
+  suggestedReps: string[];
+  /** Split currently previewed on the map (null if none) */
+  preview: BalancedGroup[] | null;
+  /** Callback to show or clear the previewed split */
+  onPreviewChange: (groups: BalancedGroup[] | null) => void;
+  /** Callback to write the previewed split to the sheet */
+  onAccept: (groups: BalancedGroup[]) => Promise<void>;
+  /** Whether the split is being written */
+  isSaving: boolean;
+}
+
+/**
+ * TerritoryBalancer Component
+ *
+ * Previews and accepts a balanced split of locations among reps.
+ *
+ * @param props - Component props
+ * @returns TerritoryBalancer JSX
+ */
+export default function TerritoryBalancer({
+  locations,
+  suggestedReps,
+  preview,
+  onPreviewChange,
+  onAccept,
+  isSaving,
+}: TerritoryBalancerProps): JSX.Element {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [reps, setReps] = useState<string[]>([]);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  const placedCount = locations.filter((location) => location.lat && location.lng).length;
+  const repNames = reps.map((rep) => rep.trim());
+  const hasDuplicateReps = new Set(repNames.map((rep) => rep.toLowerCase())).size < repNames.length;
+  const canPreview =
+    repNames.length >= 2 && repNames.every(Boolean) && !hasDuplicateReps && placedCount > 0;
+
+  /**
+   * Handle clicking outside the dropdown to close it
+   */
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent): void => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  /**
+   * Open the panel, starting from the suggested reps the first time
+   */
+  const toggleDropdown = (): void => {
+    if (!isOpen && reps.length === 0) {
+      const initial = suggestedReps.slice(0, BALANCING_CONFIG.MAX_REPS);
+      setReps(initial.length >= 2 ? initial : [...initial, '', ''].slice(0, 2));
+    }
+    setIsOpen((prev) => !prev);
+  };
+
+  /**
+   * Edit one rep name (any edit invalidates the preview)
+   */
+  const handleRepChange = (index: number, name: string): void => {
+    setReps((prev) => prev.map((rep, i) => (i === index ? name : rep)));
+    onPreviewChange(null);
+  };
+
+  /**
+   * Add an empty rep row
+   */
+  const handleAddRep = (): void => {
+    setReps((prev) => [...prev, '']);
+    onPreviewChange(null);
+  };
+
+  /**
+   * Remove a rep row
+   */
+  const handleRemoveRep = (index: number): void => {
+    setReps((prev) => prev.filter((_, i) => i !== index));
+    onPreviewChange(null);
+  };
+
+  /**
+   * Compute the split and show it on the map
+   */
+  const handlePreview = (): void => {
+    if (!canPreview) {
+      return;
+    }
+    onPreviewChange(splitLocationsAmongReps(locations, repNames));
+  };
+
+  /**
+   * Write the previewed split to the sheet
+   */
+  const handleAccept = async (): Promise<void> => {
+    if (preview) {
+      await onAccept(preview);
+    }
+  };
+
+  return (
+    <div ref={dropdownRef} className="relative z-50">
+      {/* Dropdown Button */}
+      <button
+        onClick={toggleDropdown}
+        className="flex items-center gap-2 px-4 py-2 bg-white rounded-lg shadow-lg hover:shadow-xl transition-shadow min-h-[44px] touch-manipulation"
+        type="button"
+        aria-label="Balance territories"
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3" />
+        </svg>
+        <span className="font-medium text-sm">Balance</span>
+        {preview && (
+          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-800 text-white">
+            Preview
+          </span>
+        )}
+      </button>
+
+      {/* Dropdown Panel */}
+      {isOpen && (
+        <div
+          className="absolute top-full mt-2 left-0 bg-white rounded-lg shadow-lg py-2 w-80 max-w-[90vw] max-h-[60vh] overflow-y-auto"
+          role="region"
+          aria-label="Balance territories"
+        >
+          <div className="px-4 py-2 border-b border-gray-100">
+            <div className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+              Split among reps
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              {placedCount} {placedCount === 1 ? 'location' : 'locations'} in the current filters
+            </p>
+          </div>
+
+          {/* Reps */}
+          <div className="px-4 py-2 space-y-2 border-b border-gray-100">
+            {reps.map((rep, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={rep}
+                  onChange={(event) => handleRepChange(index, event.target.value)}
+                  className="flex-1 px-2 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px]"
+                  placeholder={`Rep ${index + 1}`}
+                  aria-label={`Rep ${index + 1}`}
+                />
+                <button
+                  onClick={() => handleRemoveRep(index)}
+                  disabled={reps.length <= 2}
+                  className="text-gray-400 hover:text-red-600 disabled:text-gray-200 disabled:cursor-not-allowed transition-colors p-2 min-h-[44px] touch-manipulation"
+                  type="button"
+                  aria-label={`Remove rep ${index + 1}`}
+                >
+                  <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+            ))}
+            {hasDuplicateReps && (
+              <div className="text-xs text-red-600">Each rep can only be listed once</div>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={handleAddRep}
+                disabled={reps.length >= BALANCING_CONFIG.MAX_REPS}
+                className="px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+                type="button"
+              >
+                Add rep
+              </button>
+              <button
+                onClick={handlePreview}
+                disabled={!canPreview}
+                className="flex-1 px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+                type="button"
+              >
+                Preview split
+              </button>
+            </div>
+          </div>
+
+          {/* Preview */}
+          {preview && (
+            <div className="px-4 py-2 space-y-2">
+              <ul className="space-y-1">
+                {preview.map((group) => (
+                  <li key={group.rep} className="flex items-center gap-3 text-sm">
+                    <span
+                      className="w-3 h-3 rounded-full flex-shrink-0 border border-gray-200"
+                      style={{ backgroundColor: group.color }}
+                      aria-hidden="true"
+                    />
+                    <span className="flex-1 text-gray-900 truncate">{group.rep}</span>
+                    <span className="text-xs text-gray-500">
+                      {group.locations.length} {group.locations.length === 1 ? 'location' : 'locations'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleAccept}
+                  disabled={isSaving}
+                  className="flex-1 px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-green-600 text-white hover:bg-green-700 active:bg-green-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+                  type="button"
+                >
+                  {isSaving ? 'Saving...' : 'Accept split'}
+                </button>
+                <button
+                  onClick={() => onPreviewChange(null)}
+                  disabled={isSaving}
+                  className="px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+                  type="button"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+/**
+ * TerritoryPanel Component
+ *
+ * Dropdown panel for managing sales territories. Lists each territory with
+ * its rep and the number of locations inside it, and lets reps draw a new
+ * territory: "Draw territory" puts the map in drawing mode, each map click
+ * adds a corner, and the name, rep and color are chosen before saving.
+ * The panel stays open while drawing so map clicks don't dismiss it.
+ *
+ * @module components/TerritoryPanel
+ */
+
+'use client';
+
+import { useState, useRef, useEffect, useMemo } from 'react';
+import type { Location } from '@/types/location';
+import type { Territory, TerritoryInput } from '@/types/territory';
+import { TERRITORY_CONFIG } from '@/lib/constants';
+
+/**
+ * Props for the TerritoryPanel component
+ */
+interface TerritoryPanelProps {
+  /** Saved territories */
+  territories: Territory[];
+  /** All locations, with their territory assigned */
+  locations: Location[];
+  /** Rep name used as the default owner of new territories */
+  repName: string;
+  /** Whether the map is in drawing mode */
+  isDrawing: boolean;
+  /** Number of corners placed so far */
+  draftPointCount: number;
+  /** Whether a territory is being saved or deleted */
+  isSaving: boolean;
+  /** Callback to enter drawing mode */
+  onStartDrawing: () => void;
+  /** Callback to remove the last placed corner */
+  onUndoPoint: () => void;
+  /** Callback to leave drawing mode without saving */
+  onCancelDrawing: () => void;
+  /** Callback to save the drawn territory */
+  onSave: (details: Omit<TerritoryInput, 'polygon'>) => Promise<void>;
+  /** Callback to delete a territory */
+  onDelete: (territory: Territory) => Promise<void>;
+}
+
+/**
+ * TerritoryPanel Component
+ *
+ * Lists, draws and deletes territories.
+ *
+ * @param props - Component props
+ * @returns TerritoryPanel JSX
+ */
+export default function TerritoryPanel({
+  territories,
+  locations,
+  repName,
+  isDrawing,
+  draftPointCount,
+  isSaving,
+  onStartDrawing,
+  onUndoPoint,
+  onCancelDrawing,
+  onSave,
+  onDelete,
+}: TerritoryPanelProps): JSX.Element {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [name, setName] = useState<string>('');
+  const [rep, setRep] = useState<string>('');
+  const [color, setColor] = useState<string>(TERRITORY_CONFIG.COLORS[0]);
+  const [pendingDeleteId, setPendingDeleteId] = useState<number | null>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Number of locations in each territory, keyed by territory name
+   */
+  const locationCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    locations.forEach((location) => {
+      if (location.territory) {
+        counts[location.territory] = (counts[location.territory] ?? 0) + 1;
+      }
+    });
+    return counts;
+  }, [locations]);
+
+  const trimmedName = name.trim();
+  const nameTaken = territories.some(
+    (territory) => territory.name.toLowerCase() === trimmedName.toLowerCase()
+  );
+  const canSave =
+    draftPointCount >= TERRITORY_CONFIG.MIN_POINTS &&
+    trimmedName.length > 0 &&
+    trimmedName.toLowerCase() !== TERRITORY_CONFIG.UNASSIGNED &&
+    !nameTaken &&
+    !isSaving;
+
+  /**
+   * Handle clicking outside the dropdown to close it.
+   * Disabled while drawing, since drawing happens by clicking the map.
+   */
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent): void => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setPendingDeleteId(null);
+      }
+    };
+
+    if (isOpen && !isDrawing) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen, isDrawing]);
+
+  /**
+   * Enter drawing mode with a fresh form
+   */
+  const handleStartDrawing = (): void => {
+    setName('');
+    setRep(repName);
+    setColor(TERRITORY_CONFIG.COLORS[territories.length % TERRITORY_CONFIG.COLORS.length]);
+    setPendingDeleteId(null);
+    onStartDrawing();
+  };
+
+  /**
+   * Save the drawn territory
+   */
+  const handleSave = async (): Promise<void> => {
+    if (!canSave) {
+      return;
+    }
+    await onSave({ name: trimmedName, rep: rep.trim(), color });
+  };
+
+  /**
+   * Delete a territory after the rep confirms
+   */
+  const handleConfirmDelete = async (territory: Territory): Promise<void> => {
+    await onDelete(territory);
+    setPendingDeleteId(null);
+  };
+
+  return (
+    <div ref={dropdownRef} className="relative z-50">
+      {/* Dropdown Button */}
+      <button
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="flex items-center gap-2 px-4 py-2 bg-white rounded-lg shadow-lg hover:shadow-xl transition-shadow min-h-[44px] touch-manipulation"
+        type="button"
+        aria-label="Territories"
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+      >
+        <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7" />
+        </svg>
+        <span className="font-medium text-sm">Territories</span>
+        {isDrawing && (
+          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-800 text-white">
+            Drawing
+          </span>
+        )}
+      </button>
+
+      {/* Dropdown Panel */}
+      {isOpen && (
+        <div
+          className="absolute top-full mt-2 left-0 bg-white rounded-lg shadow-lg py-2 w-80 max-w-[90vw] max-h-[60vh] overflow-y-auto"
+          role="region"
+          aria-label="Territories"
+        >
+          {isDrawing ? (
+            <div className="px-4 py-2 space-y-3">
+              <div>
+                <div className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+                  New territory
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Tap the map to place each corner ({draftPointCount} placed, at least{' '}
+                  {TERRITORY_CONFIG.MIN_POINTS} needed).
+                </p>
+              </div>
+
+              <button
+                onClick={onUndoPoint}
+                disabled={draftPointCount === 0}
+                className="w-full px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+                type="button"
+              >
+                Undo last corner
+              </button>
+
+              <input
+                type="text"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                maxLength={TERRITORY_CONFIG.MAX_NAME_LENGTH}
+                className="w-full px-2 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px]"
+                placeholder="Territory name"
+                aria-label="Territory name"
+              />
+              {nameTaken && (
+                <div className="text-xs text-red-600">A territory with this name already exists</div>
+              )}
+
+              <input
+                type="text"
+                value={rep}
+                onChange={(event) => setRep(event.target.value)}
+                className="w-full px-2 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 min-h-[44px]"
+                placeholder="Assigned rep"
+                aria-label="Assigned rep"
+              />
+
+              <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Territory color">
+                {TERRITORY_CONFIG.COLORS.map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setColor(option)}
+                    className={`w-8 h-8 rounded-full border-2 touch-manipulation ${
+                      color === option ? 'border-gray-900' : 'border-white shadow'
+                    }`}
+                    style={{ backgroundColor: option }}
+                    type="button"
+                    role="radio"
+                    aria-checked={color === option}
+                    aria-label={`Color ${option}`}
+                  />
+                ))}
+              </div>
+
+              <div className="flex gap-2">
+                <button
+                  onClick={handleSave}
+                  disabled={!canSave}
+                  className="flex-1 px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+                  type="button"
+                >
+                  {isSaving ? 'Saving...' : 'Save territory'}
+                </button>
+                <button
+                  onClick={onCancelDrawing}
+                  className="px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+                  type="button"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="px-4 py-2 border-b border-gray-100">
+                <button
+                  onClick={handleStartDrawing}
+                  className="w-full px-3 py-2 text-sm font-medium rounded-md min-h-[44px] touch-manipulation bg-blue-600 text-white hover:bg-blue-700 active:bg-blue-800 transition-colors"
+                  type="button"
+                >
+                  Draw territory
+                </button>
+              </div>
+
+              {territories.length === 0 ? (
+                <div className="px-4 py-3 text-sm text-gray-500">No territories yet</div>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {territories.map((territory) => (
+                    <li key={territory.id} className="flex items-center gap-3 px-4 py-2 min-h-[44px]">
+                      <span
+                        className="w-3 h-3 rounded-full flex-shrink-0 border border-gray-200"
+                        style={{ backgroundColor: territory.color }}
+                        aria-hidden="true"
+                      />
+                      <span className="flex-1 min-w-0">
+                        <span className="block text-sm font-medium text-gray-900 truncate">
+                          {territory.name}
+                        </span>
+                        <span className="block text-xs text-gray-500">
+                          {territory.rep || 'No rep'} · {locationCounts[territory.name] ?? 0}{' '}
+                          {locationCounts[territory.name] === 1 ? 'location' : 'locations'}
+                        </span>
+                      </span>
+                      {pendingDeleteId === territory.id ? (
+                        <span className="flex gap-1">
+                          <button
+                            onClick={() => handleConfirmDelete(territory)}
+                            disabled={isSaving}
+                            className="px-2 py-1 text-xs font-medium rounded-md min-h-[44px] touch-manipulation bg-red-600 text-white hover:bg-red-700 disabled:bg-gray-300 transition-colors"
+                            type="button"
+                          >
+                            Delete
+                          </button>
+                          <button
+                            onClick={() => setPendingDeleteId(null)}
+                            className="px-2 py-1 text-xs font-medium rounded-md min-h-[44px] touch-manipulation bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+                            type="button"
+                          >
+                            Keep
+                          </button>
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => setPendingDeleteId(territory.id)}
+                          className="text-gray-400 hover:text-red-600 transition-colors p-2 min-h-[44px] touch-manipulation"
+                          type="button"
+                          aria-label={`Delete ${territory.name}`}
+                        >
+                          <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
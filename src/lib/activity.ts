@@ -0,0 +1,53 @@
+/**
+ * Location Activity
+ *
+ * Derives when each location was last worked from the visit log (route
+ * stops marked done and check-ins). Used by the heatmap's "time since last
+ * visit" and coverage gaps layers.
+ *
+ * @module activity
+ */
+
+import type { Visit } from '@/types/visit';
+
+/**
+ * Finds the most recent visit date of each location.
+ *
+ * @param visits - Recorded visits (any order)
+ * @returns Map of location ID to its latest visit date (YYYY-MM-DD)
+ *
+ * @example
+ * ```typescript
+ * const lastVisits = getLastVisitDates(visits);
+ * lastVisits.get(5); // '2025-10-13', or undefined if never visited
+ * ```
+ */
+export function getLastVisitDates(visits: Visit[]): Map<number, string> {
+  const lastVisits = new Map<number, string>();
+  for (const visit of visits) {
+    const previous = lastVisits.get(visit.locationId);
+    if (!previous || visit.date > previous) {
+      lastVisits.set(visit.locationId, visit.date);
+    }
+  }
+  return lastVisits;
+}
+
+/**
+ * Counts the days between two calendar dates.
+ *
+ * @param from - Earlier date (YYYY-MM-DD)
+ * @param to - Later date (YYYY-MM-DD)
+ * @returns Whole days from `from` to `to` (negative if `from` is later)
+ *
+ * @example
+ * ```typescript
+ * daysBetween('2025-10-01', '2025-10-13') // 12
+ * ```
+ */
+export function daysBetween(from: string, to: string): number {
+  // Dates are compared at UTC midnight so daylight saving changes don't matter
+  const fromMs = Date.parse(`${from}T00:00:00Z`);
+  const toMs = Date.parse(`${to}T00:00:00Z`);
+  return Math.round((toMs - fromMs) / (24 * 60 * 60 * 1000));
+}
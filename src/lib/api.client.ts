@@ -0,0 +1,45 @@
+/**
+ * Client-side API Request Helper
+ *
+ * Shared fetch wrapper for the client API modules (routes.client,
+ * locations.client). Sends JSON and turns the API error format into
+ * thrown errors.
+ *
+ * @module api.client
+ */
+
+import type { ErrorResponse } from '@/types/api';
+
+/**
+ * Sends a JSON request and unwraps the API error format.
+ *
+ * @param url - Endpoint URL
+ * @param method - HTTP method
+ * @param body - Optional request body
+ * @returns Parsed successful response
+ * @throws {Error} With the API error message if the request fails
+ *
+ * @example
+ * ```typescript
+ * const data = await requestJson<GetRoutesResponse>(API_ENDPOINTS.ROUTES, HTTP_METHODS.GET);
+ * ```
+ */
+export async function requestJson<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    cache: 'no-store',
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+
+  const data: T | ErrorResponse = await response.json();
+
+  if (!response.ok || (typeof data === 'object' && data !== null && 'success' in data && data.success === false)) {
+    const message = (data as ErrorResponse).error || `HTTP error! status: ${response.status}`;
+    throw new Error(message);
+  }
+
+  return data as T;
+}
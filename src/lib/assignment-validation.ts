@@ -0,0 +1,66 @@
+/**
+ * Location Assignment Validation
+ *
+ * Validates request bodies for POST /api/locations/assignments, which
+ * writes the rep chosen by territory balancing for many locations at once.
+ *
+ * @module assignment-validation
+ */
+
+import type { AssignLocationsRequest } from '@/types/api';
+import { BALANCING_CONFIG, VALIDATION } from '@/lib/constants';
+
+/**
+ * Validates an assignments request body.
+ *
+ * @param body - Request body to validate
+ * @returns Validation error message or null if valid
+ *
+ * @example
+ * ```typescript
+ * const error = validateAssignLocationsRequest(body);
+ * if (error) {
+ *   // respond with 400
+ * }
+ * ```
+ */
+export function validateAssignLocationsRequest(body: AssignLocationsRequest): string | null {
+  if (typeof body !== 'object' || body === null || !Array.isArray(body.assignments)) {
+    return 'assignments must be an array';
+  }
+
+  if (body.assignments.length === 0) {
+    return 'assignments must not be empty';
+  }
+
+  if (body.assignments.length > BALANCING_CONFIG.MAX_ASSIGNMENTS) {
+    return `At most ${BALANCING_CONFIG.MAX_ASSIGNMENTS} assignments can be written at once`;
+  }
+
+  const seenIds = new Set<number>();
+
+  for (const assignment of body.assignments) {
+    if (typeof assignment !== 'object' || assignment === null) {
+      return 'Each assignment must be an object with id and assignedTo';
+    }
+
+    const { id, assignedTo } = assignment;
+
+    if (typeof id !== 'number' || !Number.isInteger(id) || id < 2) {
+      return `Invalid location ID: ${String(id)}. Must be an integer of at least 2.`;
+    }
+    if (seenIds.has(id)) {
+      return `Location ${id} is assigned more than once`;
+    }
+    seenIds.add(id);
+
+    if (typeof assignedTo !== 'string') {
+      return `assignedTo for location ${id} must be a string`;
+    }
+    if (assignedTo.length > VALIDATION.MAX_REP_LENGTH) {
+      return `assignedTo for location ${id} must be ${VALIDATION.MAX_REP_LENGTH} characters or less`;
+    }
+  }
+
+  return null;
+}
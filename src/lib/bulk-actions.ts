@@ -0,0 +1,94 @@
+/**
+ * Bulk Location Actions
+ *
+ * Builds the per-location updates for an action applied to every location
+ * in a map selection: setting the status, setting the follow-up date, or
+ * appending a line to the notes.
+ *
+ * @module bulk-actions
+ */
+
+import type { Location, LocationStatus, LocationUpdate } from '@/types/location';
+import { VALIDATION } from '@/lib/constants';
+
+/**
+ * Field update applied to every selected location.
+ */
+export type BulkAction =
+  | { kind: 'status'; status: LocationStatus }
+  | { kind: 'follow-up'; followUpDate: string }
+  | { kind: 'note'; note: string };
+
+/**
+ * Update planned for one location.
+ */
+export interface BulkUpdate {
+  /** Location as it was before the update */
+  location: Location;
+  /** Fields to write */
+  updates: LocationUpdate;
+}
+
+/**
+ * Appends a line to a location's notes.
+ *
+ * @param notes - Existing notes (may be empty)
+ * @param note - Line to append
+ * @returns The combined notes
+ *
+ * @example
+ * ```typescript
+ * appendNote('Met the owner', 'Dropped off brochure'); // "Met the owner\nDropped off brochure"
+ * ```
+ */
+export function appendNote(notes: string, note: string): string {
+  return notes.trim() ? `${notes.trimEnd()}\n${note}` : note;
+}
+
+/**
+ * Builds the updates for a bulk action.
+ * Locations the action would not change are left out, as are locations
+ * whose notes would grow past the notes length limit.
+ *
+ * @param locations - Selected locations
+ * @param action - Action to apply
+ * @returns The updates to write, and the locations skipped for being too long
+ *
+ * @example
+ * ```typescript
+ * const { updates } = buildBulkUpdates(selected, { kind: 'status', status: 'Revisit' });
+ * ```
+ */
+export function buildBulkUpdates(
+  locations: Location[],
+  action: BulkAction
+): { updates: BulkUpdate[]; tooLong: Location[] } {
+  const updates: BulkUpdate[] = [];
+  const tooLong: Location[] = [];
+
+  locations.forEach((location) => {
+    switch (action.kind) {
+      case 'status':
+        if (location.status !== action.status) {
+          updates.push({ location, updates: { status: action.status } });
+        }
+        break;
+      case 'follow-up':
+        if ((location.followUpDate ?? '') !== action.followUpDate) {
+          updates.push({ location, updates: { followUpDate: action.followUpDate } });
+        }
+        break;
+      case 'note': {
+        const notes = appendNote(location.notes, action.note);
+        if (notes.length > VALIDATION.MAX_NOTES_LENGTH) {
+          tooLong.push(location);
+        } else {
+          updates.push({ location, updates: { notes } });
+        }
+        break;
+      }
+    }
+  });
+
+  return { updates, tooLong };
+}
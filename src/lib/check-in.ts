@@ -0,0 +1,59 @@
+/**
+ * Check-in Verification
+ *
+ * Decides whether a rep is close enough to a location to check in there.
+ * The same check runs in the browser, for immediate feedback, and on the
+ * server, which re-measures against the location's coordinates in the sheet
+ * before recording the visit.
+ *
+ * @module check-in
+ */
+
+import type { Coordinates } from '@/types/google';
+import { calculateDistance } from '@/types/google';
+
+/**
+ * Result of measuring a check-in position against a location.
+ */
+export interface CheckInMeasurement {
+  /** Distance between the rep and the location in whole meters */
+  distanceMeters: number;
+  /** Whether the distance is within the check-in radius */
+  isWithinRadius: boolean;
+}
+
+/**
+ * Measures how far a check-in position is from a location.
+ *
+ * @param position - Rep's device position
+ * @param location - Location being checked in to
+ * @param radiusMeters - Maximum accepted distance in meters
+ * @returns Rounded distance and whether it is within the radius
+ *
+ * @example
+ * ```typescript
+ * const { distanceMeters, isWithinRadius } = measureCheckIn(position, location, 200);
+ * if (!isWithinRadius) {
+ *   // reject the check-in
+ * }
+ * ```
+ */
+export function measureCheckIn(
+  position: Coordinates,
+  location: Coordinates,
+  radiusMeters: number
+): CheckInMeasurement {
+  const distanceMeters = Math.round(calculateDistance(position, location) * 1000);
+  return { distanceMeters, isWithinRadius: distanceMeters <= radiusMeters };
+}
+
+/**
+ * Builds the message shown when a check-in is too far from the location.
+ *
+ * @param distanceMeters - Measured distance in meters
+ * @param radiusMeters - Maximum accepted distance in meters
+ * @returns Rejection message
+ */
+export function checkInTooFarMessage(distanceMeters: number, radiusMeters: number): string {
+  return `You are ${distanceMeters} m from this location. Check-ins must be within ${radiusMeters} m.`;
+}
@@ -19,6 +19,22 @@ export interface ClientConfig {
     defaultCenter: { lat: number; lng: number };
     /** Default zoom level (1-20) */
     defaultZoom: number;
+    /** Map ID (required for advanced markers; carries the map's cloud style) */
+    mapId: string;
+  };
+  /** Route planning settings */
+  routing: {
+    /** Home base used as a route start point (null if not configured) */
+    homeBase: { lat: number; lng: number } | null;
+    /** Use the Google Directions service for route distances and times */
+    useDirectionsService: boolean;
+    /** Look up opening hours from Google Places for locations with a place ID */
+    usePlacesOpeningHours: boolean;
+  };
+  /** Check-in settings */
+  checkIn: {
+    /** Maximum distance from a location for a check-in to be accepted, in meters */
+    radiusMeters: number;
   };
 }
 
@@ -76,6 +92,26 @@ function parseCoordinates(
   return { lat, lng };
 }
 
+/**
+ * Parses an optional coordinate string in format "lat,lng"
+ * @param coordString - Coordinate string
+ * @returns Parsed coordinates object, or null if not set or invalid
+ */
+function parseOptionalCoordinates(
+  coordString: string | undefined
+): { lat: number; lng: number } | null {
+  if (!coordString || coordString.trim() === '') {
+    return null;
+  }
+
+  const parsed = parseCoordinates(coordString, NaN, NaN);
+  if (isNaN(parsed.lat) || isNaN(parsed.lng)) {
+    return null;
+  }
+
+  return parsed;
+}
+
 /**
  * Parses and validates a numeric environment variable
  * @param value - Environment variable value
@@ -90,6 +126,19 @@ function parseNumber(value: string | undefined, defaultValue: number): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+/**
+ * Parses a boolean environment variable
+ * @param value - Environment variable value
+ * @param defaultValue - Default value if not set
+ * @returns Parsed boolean
+ */
+function parseBoolean(value: string | undefined, defaultValue: boolean): boolean {
+  if (!value) {
+    return defaultValue;
+  }
+  return value.toLowerCase() === 'true' || value === '1';
+}
+
 /**
  * Loads and validates client-side environment variables
  * @throws Error if any required variables are missing
@@ -113,11 +162,42 @@ function loadClientConfig(): ClientConfig {
     10
   );
 
+  // Google's demo map ID works for development but uses the default style
+  const mapId = process.env.NEXT_PUBLIC_MAPS_MAP_ID?.trim() || 'DEMO_MAP_ID';
+
+  const homeBase = parseOptionalCoordinates(
+    process.env.NEXT_PUBLIC_HOME_BASE
+  );
+
+  const useDirectionsService = parseBoolean(
+    process.env.NEXT_PUBLIC_USE_DIRECTIONS_SERVICE,
+    false
+  );
+
+  const usePlacesOpeningHours = parseBoolean(
+    process.env.NEXT_PUBLIC_USE_PLACES_OPENING_HOURS,
+    false
+  );
+
+  const checkInRadius = parseNumber(
+    process.env.NEXT_PUBLIC_CHECK_IN_RADIUS_METERS,
+    200
+  );
+
   return {
     googleMaps: {
       apiKey: googleMapsApiKey,
       defaultCenter,
       defaultZoom,
+      mapId,
+    },
+    routing: {
+      homeBase,
+      useDirectionsService,
+      usePlacesOpeningHours,
+    },
+    checkIn: {
+      radiusMeters: checkInRadius > 0 ? checkInRadius : 200,
     },
   };
 }
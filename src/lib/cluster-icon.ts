@@ -0,0 +1,114 @@
+/**
+ * Cluster Icons
+ *
+ * Builds the SVG icons for marker clusters: a donut chart with one slice
+ * per marker color (so the status breakdown is visible at a glance) and
+ * the number of locations in the middle. Clusters containing a highlighted
+ * marker (e.g., a follow-up date match) get an outer ring in the highlight
+ * color, so the highlight stays visible when zoomed out.
+ *
+ * @module cluster-icon
+ */
+
+import { CLUSTER_CONFIG } from '@/lib/constants';
+
+/**
+ * One slice of a cluster icon.
+ */
+export interface ClusterSlice {
+  /** Marker color */
+  color: string;
+  /** Number of markers with this color */
+  count: number;
+}
+
+/**
+ * Gets the icon size for a cluster, growing with the number of markers.
+ *
+ * @param count - Number of markers in the cluster
+ * @returns Icon width and height in pixels
+ */
+export function getClusterIconSize(count: number): number {
+  const { MIN_ICON_SIZE, MAX_ICON_SIZE } = CLUSTER_CONFIG;
+  const size = MIN_ICON_SIZE + Math.log10(Math.max(count, 1)) * 10;
+  return Math.round(Math.min(size, MAX_ICON_SIZE));
+}
+
+/**
+ * Gets a point on a circle around the icon center.
+ */
+function pointOnCircle(center: number, radius: number, angle: number): string {
+  const x = center + radius * Math.sin(angle);
+  const y = center - radius * Math.cos(angle);
+  return `${x.toFixed(2)} ${y.toFixed(2)}`;
+}
+
+/**
+ * Builds the SVG for a cluster icon.
+ * Slices are drawn clockwise from the top, largest first.
+ *
+ * @param slices - Marker counts per color
+ * @param size - Icon width and height in pixels
+ * @param highlightColor - Color of the outer ring (null for no ring)
+ * @returns SVG markup
+ *
+ * @example
+ * ```typescript
+ * const svg = buildClusterIconSvg(
+ *   [{ color: '#4285F4', count: 12 }, { color: '#34A853', count: 4 }],
+ *   getClusterIconSize(16),
+ *   null
+ * );
+ * ```
+ */
+export function buildClusterIconSvg(
+  slices: ClusterSlice[],
+  size: number,
+  highlightColor: string | null
+): string {
+  const total = slices.reduce((sum, slice) => sum + slice.count, 0);
+  const center = size / 2;
+  const ringWidth = highlightColor ? CLUSTER_CONFIG.HIGHLIGHT_RING_WIDTH : 0;
+  const radius = center - ringWidth - 1;
+  const holeRadius = Math.round(radius * 0.6 * 100) / 100;
+
+  const sorted = [...slices].sort((a, b) => b.count - a.count);
+  const parts: string[] = [];
+
+  // Outer ring, separated from the slices by a thin white gap
+  if (highlightColor) {
+    parts.push(
+      `<circle cx="${center}" cy="${center}" r="${center}" fill="${highlightColor}"/>`,
+      `<circle cx="${center}" cy="${center}" r="${radius + 1}" fill="#FFFFFF"/>`
+    );
+  }
+
+  if (sorted.length === 1) {
+    parts.push(`<circle cx="${center}" cy="${center}" r="${radius}" fill="${sorted[0].color}"/>`);
+  } else {
+    let angle = 0;
+    for (const slice of sorted) {
+      const sweep = (slice.count / total) * 2 * Math.PI;
+      const largeArc = sweep > Math.PI ? 1 : 0;
+      parts.push(
+        `<path d="M ${center} ${center} L ${pointOnCircle(center, radius, angle)} ` +
+          `A ${radius} ${radius} 0 ${largeArc} 1 ${pointOnCircle(center, radius, angle + sweep)} Z" ` +
+          `fill="${slice.color}"/>`
+      );
+      angle += sweep;
+    }
+  }
+
+  parts.push(
+    `<circle cx="${center}" cy="${center}" r="${holeRadius}" fill="#FFFFFF"/>`,
+    `<text x="${center}" y="${center}" text-anchor="middle" dominant-baseline="central" ` +
+      `font-family="Arial, sans-serif" font-size="${Math.round(holeRadius * 1.1)}" font-weight="bold" ` +
+      `fill="#1F2937">${total}</text>`
+  );
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">` +
+    parts.join('') +
+    '</svg>'
+  );
+}
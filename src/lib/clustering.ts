@@ -0,0 +1,195 @@
+/**
+ * Balanced Clustering
+ *
+ * Splits locations into K groups of (nearly) equal size using
+ * capacity-constrained k-means over their coordinates. Used to divide
+ * locations fairly among reps: each group is compact, and group sizes
+ * differ by at most one location.
+ *
+ * Distances use an equirectangular projection (longitude scaled by the
+ * cosine of the mean latitude), which is accurate at city scale and much
+ * cheaper than Haversine in the inner loop.
+ *
+ * @module clustering
+ */
+
+import type { Coordinates } from '@/types/google';
+import type { Location } from '@/types/location';
+import { convexHull } from '@/lib/geometry';
+import { BALANCING_CONFIG, TERRITORY_CONFIG } from '@/lib/constants';
+
+/**
+ * One rep's share of a balanced split.
+ */
+export interface BalancedGroup {
+  /** Rep the group is assigned to */
+  rep: string;
+  /** Color used to preview the group on the map */
+  color: string;
+  /** Locations in the group */
+  locations: Location[];
+  /** Convex hull of the group's locations, for the map preview */
+  hull: Coordinates[];
+}
+
+/**
+ * Squared planar distance between two projected points.
+ */
+function squaredDistance(a: Coordinates, b: Coordinates, lngScale: number): number {
+  const dLat = a.lat - b.lat;
+  const dLng = (a.lng - b.lng) * lngScale;
+  return dLat * dLat + dLng * dLng;
+}
+
+/**
+ * Mean of a set of points.
+ */
+function centroidOf(points: Coordinates[]): Coordinates {
+  const sum = points.reduce(
+    (acc, point) => ({ lat: acc.lat + point.lat, lng: acc.lng + point.lng }),
+    { lat: 0, lng: 0 }
+  );
+  return { lat: sum.lat / points.length, lng: sum.lng / points.length };
+}
+
+/**
+ * Picks deterministic starting centroids by farthest-point sampling:
+ * the point farthest from the mean, then repeatedly the point farthest
+ * from every centroid chosen so far.
+ */
+function initialCentroids(points: Coordinates[], k: number, lngScale: number): Coordinates[] {
+  const mean = centroidOf(points);
+  const minDistances = points.map((point) => squaredDistance(point, mean, lngScale));
+  const centroids: Coordinates[] = [];
+
+  while (centroids.length < k) {
+    let farthest = 0;
+    for (let i = 1; i < points.length; i++) {
+      if (minDistances[i] > minDistances[farthest]) {
+        farthest = i;
+      }
+    }
+
+    const centroid = points[farthest];
+    centroids.push(centroid);
+    points.forEach((point, i) => {
+      const distance = squaredDistance(point, centroid, lngScale);
+      // The first centroid replaces the distances to the mean
+      minDistances[i] = centroids.length === 1 ? distance : Math.min(minDistances[i], distance);
+    });
+  }
+
+  return centroids;
+}
+
+/**
+ * Assigns points to centroids without exceeding each cluster's capacity.
+ * Point-centroid pairs are taken closest first, so each point goes to the
+ * nearest cluster that still has room.
+ */
+function assignWithCapacity(
+  points: Coordinates[],
+  centroids: Coordinates[],
+  capacities: number[],
+  lngScale: number
+): number[] {
+  const pairs: Array<{ point: number; cluster: number; distance: number }> = [];
+  points.forEach((point, pointIndex) => {
+    centroids.forEach((centroid, cluster) => {
+      pairs.push({ point: pointIndex, cluster, distance: squaredDistance(point, centroid, lngScale) });
+    });
+  });
+  pairs.sort((a, b) => a.distance - b.distance);
+
+  const assignments = new Array<number>(points.length).fill(-1);
+  const sizes = new Array<number>(centroids.length).fill(0);
+
+  for (const { point, cluster } of pairs) {
+    if (assignments[point] === -1 && sizes[cluster] < capacities[cluster]) {
+      assignments[point] = cluster;
+      sizes[cluster]++;
+    }
+  }
+
+  return assignments;
+}
+
+/**
+ * Splits points into K clusters of nearly equal size.
+ * The result is deterministic for the same input order.
+ *
+ * @param points - Points to split (must have valid coordinates)
+ * @param k - Number of clusters (clamped to the number of points)
+ * @returns Cluster index (0 to k-1) for each point, in input order
+ *
+ * @example
+ * ```typescript
+ * const clusters = balancedKMeans(locations, 3);
+ * // 10 locations → cluster sizes 4, 3 and 3
+ * ```
+ */
+export function balancedKMeans(points: Coordinates[], k: number): number[] {
+  const clusterCount = Math.min(Math.max(Math.floor(k), 1), points.length);
+  if (clusterCount === 0) {
+    return [];
+  }
+
+  const meanLat = centroidOf(points).lat;
+  const lngScale = Math.cos((meanLat * Math.PI) / 180);
+
+  // Sizes differ by at most one: the first (n mod k) clusters take one extra
+  const baseCapacity = Math.floor(points.length / clusterCount);
+  const capacities = Array.from({ length: clusterCount }, (_, cluster) =>
+    baseCapacity + (cluster < points.length % clusterCount ? 1 : 0)
+  );
+
+  let centroids = initialCentroids(points, clusterCount, lngScale);
+  let assignments = assignWithCapacity(points, centroids, capacities, lngScale);
+
+  for (let iteration = 1; iteration < BALANCING_CONFIG.MAX_ITERATIONS; iteration++) {
+    centroids = centroids.map((centroid, cluster) => {
+      const members = points.filter((_, i) => assignments[i] === cluster);
+      return members.length > 0 ? centroidOf(members) : centroid;
+    });
+
+    const next = assignWithCapacity(points, centroids, capacities, lngScale);
+    const isStable = next.every((cluster, i) => cluster === assignments[i]);
+    assignments = next;
+
+    if (isStable) {
+      break;
+    }
+  }
+
+  return assignments;
+}
+
+/**
+ * Splits locations fairly among reps, one compact group per rep.
+ * Locations without coordinates are left out of the split.
+ *
+ * @param locations - Locations to split
+ * @param reps - Rep names, one group each
+ * @returns One group per rep, in the order given (groups may be empty
+ *   when there are more reps than locations)
+ *
+ * @example
+ * ```typescript
+ * const groups = splitLocationsAmongReps(locations, ['Alex', 'Sam', 'Jo']);
+ * groups.forEach((group) => console.log(group.rep, group.locations.length));
+ * ```
+ */
+export function splitLocationsAmongReps(locations: Location[], reps: string[]): BalancedGroup[] {
+  const placed = locations.filter((location) => location.lat && location.lng);
+  const clusters = balancedKMeans(placed, reps.length);
+
+  return reps.map((rep, index) => {
+    const members = placed.filter((_, i) => clusters[i] === index);
+    return {
+      rep,
+      color: TERRITORY_CONFIG.COLORS[index % TERRITORY_CONFIG.COLORS.length],
+      locations: members,
+      hull: convexHull(members.map(({ lat, lng }) => ({ lat, lng }))),
+    };
+  });
+}
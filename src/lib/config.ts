@@ -32,10 +32,30 @@ export interface AppConfig {
     sheetId: string;
     /** Sheet name (tab name) within the Google Sheet */
     sheetName: string;
+    /** Sheet name (tab name) for saved day plans */
+    routesSheetName: string;
+    /** Sheet name (tab name) for territory polygons */
+    territoriesSheetName: string;
+    /** Sheet name (tab name) for the visit log */
+    visitsSheetName: string;
+    /** Sheet name (tab name) for saved filter presets */
+    filterPresetsSheetName: string;
     /** Optional API key (alternative auth method) */
     apiKey?: string;
   };
 
+  /** Mileage report settings */
+  mileage: {
+    /** Reimbursement per kilometer (null if not configured) */
+    ratePerKm: number | null;
+  };
+
+  /** Check-in settings */
+  checkIn: {
+    /** Maximum distance from a location for a check-in to be accepted, in meters */
+    radiusMeters: number;
+  };
+
   /** Application settings */
   app: {
     /** Node environment (development, production, test) */
@@ -193,8 +213,35 @@ function loadConfig(): AppConfig {
     'Sheet1'
   );
 
+  const routesSheetName = validateOptional(
+    process.env.ROUTES_SHEET_NAME,
+    'Routes'
+  );
+
+  const territoriesSheetName = validateOptional(
+    process.env.TERRITORIES_SHEET_NAME,
+    'Territories'
+  );
+
+  const visitsSheetName = validateOptional(
+    process.env.VISITS_SHEET_NAME,
+    'Visits'
+  );
+
+  const filterPresetsSheetName = validateOptional(
+    process.env.FILTER_PRESETS_SHEET_NAME,
+    'Filter Presets'
+  );
+
   const sheetsApiKey = process.env.GOOGLE_SHEETS_API_KEY;
 
+  const mileageRate = parseNumber(process.env.MILEAGE_RATE_PER_KM, 0);
+
+  const checkInRadius = parseNumber(
+    process.env.NEXT_PUBLIC_CHECK_IN_RADIUS_METERS,
+    200
+  );
+
   const defaultCenter = parseCoordinates(
     process.env.NEXT_PUBLIC_DEFAULT_MAP_CENTER,
     40.7128,  // New York City latitude
@@ -220,8 +267,18 @@ function loadConfig(): AppConfig {
       privateKey,
       sheetId,
       sheetName,
+      routesSheetName,
+      territoriesSheetName,
+      visitsSheetName,
+      filterPresetsSheetName,
       apiKey: sheetsApiKey,
     },
+    mileage: {
+      ratePerKm: mileageRate > 0 ? mileageRate : null,
+    },
+    checkIn: {
+      radiusMeters: checkInRadius > 0 ? checkInRadius : 200,
+    },
     app: {
       nodeEnv,
       debugMode,
@@ -273,6 +330,7 @@ export function logConfigStatus(): void {
   console.log('- Private Key:', config.googleSheets.privateKey ? '✓ Set' : '✗ Missing');
   console.log('- Sheet ID:', config.googleSheets.sheetId ? '✓ Set' : '✗ Missing');
   console.log('- Sheet Name:', config.googleSheets.sheetName);
+  console.log('- Routes Sheet Name:', config.googleSheets.routesSheetName);
   console.log('- Default Center:', `${config.googleMaps.defaultCenter.lat}, ${config.googleMaps.defaultCenter.lng}`);
   console.log('- Default Zoom:', config.googleMaps.defaultZoom);
 }
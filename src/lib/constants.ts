@@ -50,10 +50,15 @@ export const STATUS_COLORS: Record<StatusType, string> = {
 };
 
 /**
- * Special color for locations with follow-up date matching selected date
+ * Special color for locations with a follow-up in the follow-up filter range
  */
 export const FOLLOW_UP_DATE_COLOR = '#9C27B0'; // Purple
 
+/**
+ * Color for locations in the follow-up filter range whose follow-up has passed
+ */
+export const FOLLOW_UP_OVERDUE_COLOR = '#B71C1C'; // Dark red
+
 /**
  * Status to readable label mapping
  * For display in UI dropdowns and labels
@@ -75,25 +80,15 @@ export const STATUS_LABELS: Record<StatusType, string> = {
 export const ALL_STATUSES: StatusType[] = Object.values(STATUS_TYPES);
 
 /**
- * Google Maps marker icon configuration
- * Uses SVG path for custom colored markers
- */
-export interface MarkerIconConfig {
-  /** SVG path for the marker shape */
-  path: string;
-  /** Fill color (set dynamically based on status) */
-  fillColor: string;
-  /** Fill opacity */
-  fillOpacity: number;
-  /** Stroke color */
-  strokeColor: string;
-  /** Stroke weight */
-  strokeWeight: number;
-  /** Scale of the icon */
-  scale: number;
-  /** Anchor point for the icon */
-  anchor?: { x: number; y: number };
-}
+ * Statuses shown when no filter has been chosen: all except
+ * "Not interested", "Location not found" and "Not applicable"
+ */
+export const DEFAULT_VISIBLE_STATUSES: StatusType[] = ALL_STATUSES.filter(
+  (status) =>
+    status !== STATUS_TYPES.NOT_INTERESTED &&
+    status !== STATUS_TYPES.LOCATION_NOT_FOUND &&
+    status !== STATUS_TYPES.NOT_APPLICABLE
+);
 
 /**
  * Default marker icon SVG path (pin shape)
@@ -102,21 +97,25 @@ export interface MarkerIconConfig {
 export const MARKER_ICON_PATH = 'M12 2C8.13 2 5 5.13 5 9c0 5.25 7 13 7 13s7-7.75 7-13c0-3.87-3.13-7-7-7z';
 
 /**
- * Creates a marker icon configuration with the specified color
- * @param color - Hex color code for the marker
- * @returns Marker icon configuration object
- */
-export function createMarkerIcon(color: string): MarkerIconConfig {
-  return {
-    path: MARKER_ICON_PATH,
-    fillColor: color,
-    fillOpacity: 0.9,
-    strokeColor: '#FFFFFF',
-    strokeWeight: 2,
-    scale: 1.5,
-    anchor: { x: 12, y: 22 },
-  };
-}
+ * Location marker constants
+ */
+export const MARKER_CONFIG = {
+  /** Pin size relative to the 24px icon path */
+  SCALE: 1.5,
+  /** Extra scale of the selected marker */
+  SELECTED_SCALE: 1.2,
+  /** Pin fill opacity */
+  FILL_OPACITY: 0.9,
+  /** Badge diameter in pixels */
+  BADGE_SIZE: 14,
+  /** Badge colors */
+  BADGE_COLORS: {
+    OVERDUE: '#DC2626',
+    PUSHED: '#9333EA',
+    PENDING_EDIT: '#D97706',
+    BULK_SELECTED: '#2563EB',
+  },
+} as const;
 
 /**
  * Gets the marker color for a given status
@@ -127,24 +126,36 @@ export function getStatusColor(status: StatusType): string {
   return STATUS_COLORS[status] || STATUS_COLORS[STATUS_TYPES.PROSPECT];
 }
 
-/**
- * Gets the marker icon configuration for a given status
- * @param status - Location status
- * @returns Marker icon configuration
- */
-export function getMarkerIcon(status: StatusType): MarkerIconConfig {
-  const color = getStatusColor(status);
-  return createMarkerIcon(color);
-}
-
 /**
  * API endpoint constants
  */
 export const API_ENDPOINTS = {
   /** Get all locations */
   GET_LOCATIONS: '/api/locations',
+  /** Add a new location (geocoded on the server) */
+  CREATE_LOCATION: '/api/locations',
   /** Update a specific location */
   UPDATE_LOCATION: (id: number) => `/api/locations/${id}`,
+  /** Update many locations in one sheet write */
+  UPDATE_LOCATIONS: '/api/locations',
+  /** List or save routes */
+  ROUTES: '/api/routes',
+  /** Update or delete a specific route */
+  ROUTE: (id: number) => `/api/routes/${id}`,
+  /** List or save territories */
+  TERRITORIES: '/api/territories',
+  /** Update or delete a specific territory */
+  TERRITORY: (id: number) => `/api/territories/${id}`,
+  /** List or save filter presets */
+  FILTER_PRESETS: '/api/filter-presets',
+  /** Update or delete a specific filter preset */
+  FILTER_PRESET: (id: number) => `/api/filter-presets/${id}`,
+  /** Write rep assignments for many locations */
+  LOCATION_ASSIGNMENTS: '/api/locations/assignments',
+  /** List or record visits */
+  VISITS: '/api/visits',
+  /** Mileage report for a date range */
+  MILEAGE_REPORT: '/api/reports/mileage',
 } as const;
 
 /**
@@ -172,6 +183,8 @@ export const SHEET_COLUMNS = {
   FOLLOW_UP_DATE: 6,
   PLACE_ID: 7,
   PHOTO: 8,
+  OPENING_HOURS: 9,
+  ASSIGNED_TO: 10,
 } as const;
 
 /**
@@ -188,8 +201,165 @@ export const SHEET_HEADERS = [
   'Follow-up Date',
   'Place ID',
   'Photo',
+  'Opening Hours',
+  'Assigned To',
 ] as const;
 
+/**
+ * Routes sheet column mapping
+ * Maps saved route fields to their indices (0-based) in the routes tab
+ */
+export const ROUTE_SHEET_COLUMNS = {
+  DATE: 0,
+  REP: 1,
+  LOCATION_IDS: 2,
+  START_TYPE: 3,
+  START_LABEL: 4,
+  START_LATITUDE: 5,
+  START_LONGITUDE: 6,
+  STATUS: 7,
+} as const;
+
+/**
+ * Routes sheet column headers
+ * Expected header row values in the routes tab
+ */
+export const ROUTE_SHEET_HEADERS = [
+  'Date',
+  'Rep',
+  'Location IDs',
+  'Start Type',
+  'Start Label',
+  'Start Latitude',
+  'Start Longitude',
+  'Status',
+] as const;
+
+/**
+ * Territories sheet column mapping
+ * Maps column names to their index positions (0-based) in the territories tab
+ */
+export const TERRITORY_SHEET_COLUMNS = {
+  NAME: 0,
+  REP: 1,
+  COLOR: 2,
+  POLYGON: 3,
+} as const;
+
+/**
+ * Expected column headers of the territories tab (in order)
+ */
+export const TERRITORY_SHEET_HEADERS = [
+  'Name',
+  'Rep',
+  'Color',
+  'Polygon',
+] as const;
+
+/**
+ * Visits sheet column mapping
+ * Maps visit log fields to their indices (0-based) in the visits tab
+ */
+export const VISIT_SHEET_COLUMNS = {
+  TIMESTAMP: 0,
+  DATE: 1,
+  REP: 2,
+  LOCATION_ID: 3,
+  LATITUDE: 4,
+  LONGITUDE: 5,
+  SOURCE: 6,
+  ROUTE_ID: 7,
+  DISTANCE: 8,
+  VERIFIED: 9,
+} as const;
+
+/**
+ * Visits sheet column headers
+ * Expected header row values in the visits tab
+ */
+export const VISIT_SHEET_HEADERS = [
+  'Timestamp',
+  'Date',
+  'Rep',
+  'Location ID',
+  'Latitude',
+  'Longitude',
+  'Source',
+  'Route ID',
+  'Distance (m)',
+  'Verified',
+] as const;
+
+/**
+ * Filter presets sheet column mapping
+ * Maps filter preset fields to their indices (0-based) in the filter presets tab
+ */
+export const FILTER_PRESET_SHEET_COLUMNS = {
+  REP: 0,
+  NAME: 1,
+  STATUSES: 2,
+  FOLLOW_UP_PRESET: 3,
+  FOLLOW_UP_FROM: 4,
+  FOLLOW_UP_TO: 5,
+  TERRITORY: 6,
+  SEARCH_TEXT: 7,
+} as const;
+
+/**
+ * Filter presets sheet column headers
+ * Expected header row values in the filter presets tab
+ */
+export const FILTER_PRESET_SHEET_HEADERS = [
+  'Rep',
+  'Name',
+  'Statuses',
+  'Follow-up Preset',
+  'Follow-up From',
+  'Follow-up To',
+  'Territory',
+  'Search Text',
+] as const;
+
+/**
+ * Filter preset constants
+ */
+export const FILTER_PRESET_CONFIG = {
+  /** Maximum length of a preset name */
+  MAX_NAME_LENGTH: 50,
+  /** Maximum length of a preset's search text */
+  MAX_SEARCH_TEXT_LENGTH: 200,
+} as const;
+
+/**
+ * Territory drawing and display constants
+ */
+export const TERRITORY_CONFIG = {
+  /** Fill colors offered for new territories */
+  COLORS: ['#4285F4', '#34A853', '#FBBC04', '#EA4335', '#9C27B0', '#00ACC1', '#FF6D00', '#795548'],
+  /** Polygon fill opacity on the map */
+  FILL_OPACITY: 0.15,
+  /** Outline color of the territory being drawn */
+  DRAFT_COLOR: '#1F2937',
+  /** Maximum length of a territory name */
+  MAX_NAME_LENGTH: 100,
+  /** Minimum number of corners of a territory polygon */
+  MIN_POINTS: 3,
+  /** Filter value for locations outside every territory */
+  UNASSIGNED: 'unassigned',
+} as const;
+
+/**
+ * Territory balancing configuration
+ */
+export const BALANCING_CONFIG = {
+  /** Most reps a split can be made for (one hull color each) */
+  MAX_REPS: TERRITORY_CONFIG.COLORS.length,
+  /** Maximum k-means refinement passes */
+  MAX_ITERATIONS: 50,
+  /** Maximum locations written in one assignments request */
+  MAX_ASSIGNMENTS: 5000,
+} as const;
+
 /**
  * Map configuration constants
  */
@@ -217,6 +387,140 @@ export const MAP_CONFIG = {
   },
 } as const;
 
+/**
+ * Route planning constants
+ */
+export const ROUTING_CONFIG = {
+  /** Average driving speed used by the straight-line estimator (km/h) */
+  AVERAGE_SPEED_KMH: 40,
+  /** Maximum points per Directions request (origin + destination + 23 waypoints) */
+  DIRECTIONS_MAX_POINTS: 25,
+  /** Route polyline color */
+  ROUTE_LINE_COLOR: '#1A73E8',
+  /** Default working day start (HH:MM, 24-hour) */
+  DEFAULT_DAY_START: '09:00',
+  /** Default working day end (HH:MM, 24-hour) */
+  DEFAULT_DAY_END: '17:00',
+  /** Default time spent at each stop (minutes) */
+  DEFAULT_VISIT_MINUTES: 20,
+} as const;
+
+/**
+ * "Nearby" panel constants
+ */
+export const NEARBY_CONFIG = {
+  /** Radius choices offered in the panel (km) */
+  RADIUS_OPTIONS_KM: [1, 2, 5, 10, 25],
+  /** Radius used until the rep picks another (km) */
+  DEFAULT_RADIUS_KM: 5,
+  /** Maximum number of rows listed */
+  MAX_RESULTS: 50,
+  /** One-tap filters combining a status and a radius */
+  QUICK_FILTERS: [
+    { label: 'Prospects within 2 km', status: STATUS_TYPES.PROSPECT, radiusKm: 2 },
+    { label: 'Follow-ups within 5 km', status: STATUS_TYPES.FOLLOW_UP, radiusKm: 5 },
+    { label: 'Revisits within 5 km', status: STATUS_TYPES.REVISIT, radiusKm: 5 },
+  ],
+} as const;
+
+/**
+ * Next-stop suggestions shown after a status change is saved
+ */
+export const NEXT_STOP_CONFIG = {
+  /** Number of suggestions shown */
+  SUGGESTION_COUNT: 3,
+  /** Statuses worth visiting next */
+  STATUSES: [STATUS_TYPES.PROSPECT, STATUS_TYPES.FOLLOW_UP, STATUS_TYPES.REVISIT],
+} as const;
+
+/**
+ * Marker clustering constants
+ */
+export const CLUSTER_CONFIG = {
+  /** Cluster radius in pixels */
+  RADIUS_PX: 60,
+  /** Highest zoom level at which markers are clustered */
+  MAX_ZOOM: 15,
+  /** Icon size of the smallest clusters (pixels) */
+  MIN_ICON_SIZE: 36,
+  /** Icon size of the largest clusters (pixels) */
+  MAX_ICON_SIZE: 64,
+  /** Width of the ring around clusters containing a follow-up date match (pixels) */
+  HIGHLIGHT_RING_WIDTH: 4,
+} as const;
+
+/**
+ * Co-located marker constants
+ */
+export const CO_LOCATED_CONFIG = {
+  /** Locations closer than this share a stack and open a chooser on click (meters) */
+  RADIUS_METERS: 15,
+} as const;
+
+/**
+ * Geofence alerts raised while tracking the rep's position
+ */
+export const GEOFENCE_CONFIG = {
+  /** Distance from a location that raises an alert (meters) */
+  RADIUS_METERS: 300,
+  /** Statuses that alert whatever their follow-up date */
+  STATUSES: [STATUS_TYPES.REVISIT],
+  /** Maximum number of alerts listed at once */
+  MAX_VISIBLE_ALERTS: 3,
+} as const;
+
+/**
+ * Heatmap and coverage layer constants
+ */
+export const HEATMAP_CONFIG = {
+  /** Grid cell size (km) */
+  CELL_SIZE_KM: 1,
+  /** Days without a visit at which a location counts as fully stale */
+  MAX_STALE_DAYS: 90,
+  /** Inactivity choices for the coverage gaps layer (days) */
+  GAP_DAYS_OPTIONS: [30, 60, 90, 180],
+  /** Inactivity used until the manager picks another (days) */
+  DEFAULT_GAP_DAYS: 60,
+  /** Color ramp from the lowest to the highest intensity */
+  GRADIENT: ['#FEF08A', '#FB923C', '#DC2626'],
+  /** Fill opacity of the most intense cells */
+  MAX_FILL_OPACITY: 0.55,
+  /** Coverage gap cell color */
+  GAP_COLOR: '#DB2777',
+} as const;
+
+/**
+ * Location search constants
+ */
+export const SEARCH_CONFIG = {
+  /** Maximum number of results listed */
+  MAX_RESULTS: 8,
+} as const;
+
+/**
+ * Location list panel constants
+ */
+export const LIST_PANEL_CONFIG = {
+  /** Height of one row (px); rows are fixed-height so the list can be virtualized */
+  ROW_HEIGHT_PX: 64,
+  /** Rows rendered above and below the visible ones, to keep scrolling smooth */
+  OVERSCAN_ROWS: 8,
+} as const;
+
+/**
+ * Lasso and rectangle selection constants
+ */
+export const SELECTION_CONFIG = {
+  /** Outline color of the shape being drawn */
+  STROKE_COLOR: '#2563EB',
+  /** Fill opacity of the shape being drawn */
+  FILL_OPACITY: 0.12,
+  /** Minimum distance between recorded lasso points (px) */
+  MIN_POINT_SPACING_PX: 4,
+  /** Shapes narrower and shorter than this are treated as a tap and ignored (px) */
+  MIN_SIZE_PX: 8,
+} as const;
+
 /**
  * UI Configuration constants
  */
@@ -290,6 +594,46 @@ export const DIRECTIONS_CONFIG = {
   /** Google Maps URL with coordinates only (fallback when no place_id) */
   GOOGLE_MAPS_COORDS: (lat: number, lng: number) =>
     `https://www.google.com/maps/dir/?api=1&destination=${lat},${lng}`,
+  /**
+   * Maximum waypoints (stops between origin and destination) in one Google Maps
+   * directions link. Google Maps URLs support up to 9 waypoints.
+   */
+  GOOGLE_MAPS_MAX_WAYPOINTS: 9,
+  /**
+   * Google Maps multi-stop directions URL.
+   * Place IDs take priority over the text values, which act as fallback.
+   * waypoint_place_ids must list one ID per waypoint, so it is only sent when every waypoint has one.
+   */
+  GOOGLE_MAPS_ROUTE: (
+    origin: string,
+    destination: string,
+    waypoints: string[],
+    destinationPlaceId?: string,
+    waypointPlaceIds?: string[]
+  ) => {
+    const params = new URLSearchParams({
+      api: '1',
+      origin,
+      destination,
+      travelmode: 'driving',
+    });
+    if (destinationPlaceId) {
+      params.set('destination_place_id', destinationPlaceId);
+    }
+    if (waypoints.length > 0) {
+      params.set('waypoints', waypoints.join('|'));
+    }
+    if (waypointPlaceIds && waypointPlaceIds.length === waypoints.length && waypoints.length > 0) {
+      params.set('waypoint_place_ids', waypointPlaceIds.join('|'));
+    }
+    return `https://www.google.com/maps/dir/?${params.toString()}`;
+  },
+  /** Apple Maps multi-stop directions URL (one waypoint parameter per stop) */
+  APPLE_MAPS_ROUTE: (source: string, destination: string, waypoints: string[]) => {
+    const params = new URLSearchParams({ source, destination, mode: 'driving' });
+    waypoints.forEach((waypoint) => params.append('waypoint', waypoint));
+    return `https://maps.apple.com/directions?${params.toString()}`;
+  },
 } as const;
 
 /**
@@ -351,6 +695,10 @@ export const VALIDATION = {
   MAX_ADDRESS_LENGTH: 200,
   /** Maximum length for notes */
   MAX_NOTES_LENGTH: 500,
+  /** Maximum length for a rep name */
+  MAX_REP_LENGTH: 100,
+  /** Maximum number of locations updated in one bulk PATCH */
+  MAX_BATCH_UPDATES: 1000,
   /** Valid latitude range */
   LATITUDE_RANGE: { min: -90, max: 90 },
   /** Valid longitude range */
@@ -0,0 +1,37 @@
+/**
+ * Directions
+ *
+ * Opens turn-by-turn directions to a location in the native maps app.
+ * Shared by the location popup, the route progress panel and the
+ * next-stop suggestions so every "Go" button behaves the same.
+ *
+ * @module directions
+ */
+
+import type { Location } from '@/types/location';
+import { getDirectionsUrl } from '@/lib/constants';
+
+/**
+ * Opens directions to a location in a new window/tab or the native maps app.
+ *
+ * @param location - Destination location
+ *
+ * @example
+ * ```typescript
+ * openDirections(location);
+ * ```
+ */
+export function openDirections(location: Location): void {
+  const userAgent = typeof navigator !== 'undefined' ? navigator.userAgent : '';
+  const url = getDirectionsUrl(
+    location.lat,
+    location.lng,
+    location.companyName,
+    location.address,
+    userAgent,
+    location.placeId
+  );
+
+  // Open in new window/tab or native app
+  window.open(url, '_blank');
+}
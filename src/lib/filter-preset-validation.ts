@@ -0,0 +1,123 @@
+/**
+ * Filter Preset Request Validation
+ *
+ * Validates request bodies for the filter presets API. Shared by
+ * POST /api/filter-presets (rep, name, statuses and follow-up filter
+ * required) and PATCH /api/filter-presets/[id] (any subset of fields).
+ *
+ * @module filter-preset-validation
+ */
+
+import type { UpdateFilterPresetRequest } from '@/types/api';
+import { isValidStatus } from '@/types/location';
+import { FOLLOW_UP_PRESET_VALUES, isValidFollowUpPreset } from '@/types/filter-preset';
+import { isValidIsoDate } from '@/lib/route-validation';
+import { FILTER_PRESET_CONFIG, TERRITORY_CONFIG, VALIDATION } from '@/lib/constants';
+
+/**
+ * Validates a filter preset request body.
+ *
+ * @param body - Request body to validate
+ * @param requireAll - True for creates (rep, name, statuses and followUpFilter are required)
+ * @returns Validation error message or null if valid
+ *
+ * @example
+ * ```typescript
+ * const error = validateFilterPresetRequest(body, true);
+ * if (error) {
+ *   // respond with 400
+ * }
+ * ```
+ */
+export function validateFilterPresetRequest(
+  body: UpdateFilterPresetRequest,
+  requireAll: boolean
+): string | null {
+  if (typeof body !== 'object' || body === null) {
+    return 'Request body must be an object';
+  }
+
+  if (requireAll) {
+    if (
+      body.rep === undefined || body.name === undefined ||
+      body.statuses === undefined || body.followUpFilter === undefined
+    ) {
+      return 'rep, name, statuses and followUpFilter are required';
+    }
+  } else if (
+    body.rep === undefined && body.name === undefined && body.statuses === undefined &&
+    body.followUpFilter === undefined && body.territory === undefined && body.searchText === undefined
+  ) {
+    return 'At least one field (rep, name, statuses, followUpFilter, territory, or searchText) must be provided';
+  }
+
+  // Validate rep if provided
+  if (body.rep !== undefined) {
+    if (typeof body.rep !== 'string' || !body.rep.trim()) {
+      return 'Rep must be a non-empty string';
+    }
+    if (body.rep.length > VALIDATION.MAX_REP_LENGTH) {
+      return `Rep must be ${VALIDATION.MAX_REP_LENGTH} characters or less`;
+    }
+  }
+
+  // Validate name if provided
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return 'Name must be a non-empty string';
+    }
+    if (body.name.length > FILTER_PRESET_CONFIG.MAX_NAME_LENGTH) {
+      return `Name must be ${FILTER_PRESET_CONFIG.MAX_NAME_LENGTH} characters or less`;
+    }
+  }
+
+  // Validate statuses if provided (an empty list hides every location)
+  if (body.statuses !== undefined) {
+    if (!Array.isArray(body.statuses)) {
+      return 'Statuses must be an array';
+    }
+    const invalidStatus = body.statuses.find(
+      (status) => typeof status !== 'string' || !isValidStatus(status)
+    );
+    if (invalidStatus !== undefined) {
+      return `Invalid status "${String(invalidStatus)}"`;
+    }
+  }
+
+  // Validate follow-up filter if provided
+  if (body.followUpFilter !== undefined) {
+    const filter = body.followUpFilter;
+    if (typeof filter !== 'object' || filter === null) {
+      return 'followUpFilter must be an object';
+    }
+    if (typeof filter.preset !== 'string' || !isValidFollowUpPreset(filter.preset)) {
+      return `Follow-up preset must be one of: ${FOLLOW_UP_PRESET_VALUES.join(', ')}`;
+    }
+    const dates = [filter.customStart, filter.customEnd];
+    if (dates.some((date) => typeof date !== 'string' || (date !== '' && !isValidIsoDate(date)))) {
+      return 'Custom follow-up dates must be empty or in YYYY-MM-DD format';
+    }
+  }
+
+  // Validate territory if provided (empty string means all territories)
+  if (body.territory !== undefined) {
+    if (typeof body.territory !== 'string') {
+      return 'Territory must be a string';
+    }
+    if (body.territory.length > TERRITORY_CONFIG.MAX_NAME_LENGTH) {
+      return `Territory must be ${TERRITORY_CONFIG.MAX_NAME_LENGTH} characters or less`;
+    }
+  }
+
+  // Validate search text if provided
+  if (body.searchText !== undefined) {
+    if (typeof body.searchText !== 'string') {
+      return 'Search text must be a string';
+    }
+    if (body.searchText.length > FILTER_PRESET_CONFIG.MAX_SEARCH_TEXT_LENGTH) {
+      return `Search text must be ${FILTER_PRESET_CONFIG.MAX_SEARCH_TEXT_LENGTH} characters or less`;
+    }
+  }
+
+  return null;
+}
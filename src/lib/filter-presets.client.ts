@@ -0,0 +1,76 @@
+/**
+ * Client-side Filter Presets API
+ *
+ * Thin wrappers around the /api/filter-presets endpoints, used by the
+ * filters panel to list, save, overwrite and delete a rep's named filter
+ * presets stored in the "Filter Presets" sheet tab.
+ *
+ * @module filter-presets.client
+ */
+
+import type {
+  CreateFilterPresetRequest,
+  DeleteFilterPresetResponse,
+  FilterPresetResponse,
+  GetFilterPresetsResponse,
+  UpdateFilterPresetRequest,
+} from '@/types/api';
+import type { FilterPreset } from '@/types/filter-preset';
+import { API_ENDPOINTS, HTTP_METHODS } from '@/lib/constants';
+import { requestJson } from '@/lib/api.client';
+
+/**
+ * Lists a rep's filter presets.
+ *
+ * @param rep - Rep name (case-insensitive)
+ * @returns The rep's presets in sheet order
+ * @throws {Error} If the request fails
+ *
+ * @example
+ * ```typescript
+ * const presets = await fetchFilterPresets('Alex');
+ * ```
+ */
+export async function fetchFilterPresets(rep: string): Promise<FilterPreset[]> {
+  const params = new URLSearchParams({ rep });
+  const data = await requestJson<GetFilterPresetsResponse>(
+    `${API_ENDPOINTS.FILTER_PRESETS}?${params.toString()}`,
+    HTTP_METHODS.GET
+  );
+  return data.presets;
+}
+
+/**
+ * Saves a new filter preset.
+ *
+ * @param preset - Preset to save
+ * @returns The saved preset with its ID
+ * @throws {Error} If the request fails (e.g., the rep already has a preset with that name)
+ */
+export async function createFilterPreset(preset: CreateFilterPresetRequest): Promise<FilterPreset> {
+  const data = await requestJson<FilterPresetResponse>(API_ENDPOINTS.FILTER_PRESETS, HTTP_METHODS.POST, preset);
+  return data.preset;
+}
+
+/**
+ * Updates a filter preset.
+ *
+ * @param id - Preset ID
+ * @param updates - Fields to update
+ * @returns The updated preset
+ * @throws {Error} If the request fails
+ */
+export async function updateFilterPreset(id: number, updates: UpdateFilterPresetRequest): Promise<FilterPreset> {
+  const data = await requestJson<FilterPresetResponse>(API_ENDPOINTS.FILTER_PRESET(id), HTTP_METHODS.PATCH, updates);
+  return data.preset;
+}
+
+/**
+ * Deletes a filter preset.
+ *
+ * @param id - Preset ID
+ * @throws {Error} If the request fails
+ */
+export async function deleteFilterPreset(id: number): Promise<void> {
+  await requestJson<DeleteFilterPresetResponse>(API_ENDPOINTS.FILTER_PRESET(id), HTTP_METHODS.DELETE);
+}
@@ -0,0 +1,217 @@
+/**
+ * Follow-up Date Filter
+ *
+ * Turns the follow-up filter presets (Overdue, Today, Tomorrow, This week,
+ * Next 7 days, Custom) into date ranges, tests follow-up dates against
+ * them, and groups matching locations by date for the follow-up dropdown.
+ * Dates are YYYY-MM-DD strings, which compare correctly as text.
+ *
+ * @module follow-up-filter
+ */
+
+import type { Location } from '@/types/location';
+import type { FollowUpFilter, FollowUpPreset } from '@/types/filter-preset';
+import { daysBetween } from '@/lib/activity';
+
+/**
+ * Inclusive range of follow-up dates.
+ */
+export interface FollowUpRange {
+  /** First day (YYYY-MM-DD), or null for no lower bound */
+  start: string | null;
+  /** Last day (YYYY-MM-DD) */
+  end: string;
+}
+
+/**
+ * Follow-ups sharing one date, for the grouped dropdown.
+ */
+export interface FollowUpGroup {
+  /** Follow-up date (YYYY-MM-DD) */
+  date: string;
+  /** Locations due that day, by company name */
+  locations: Location[];
+}
+
+/**
+ * Presets in display order, with their labels
+ */
+export const FOLLOW_UP_PRESETS: Array<{ preset: FollowUpPreset; label: string }> = [
+  { preset: 'overdue', label: 'Overdue' },
+  { preset: 'today', label: 'Today' },
+  { preset: 'tomorrow', label: 'Tomorrow' },
+  { preset: 'this-week', label: 'This week' },
+  { preset: 'next-7-days', label: 'Next 7 days' },
+  { preset: 'custom', label: 'Custom' },
+];
+
+/**
+ * Adds days to a calendar date.
+ *
+ * @param date - Date (YYYY-MM-DD)
+ * @param days - Days to add (negative to go back)
+ * @returns Resulting date (YYYY-MM-DD)
+ *
+ * @example
+ * ```typescript
+ * addDays('2025-10-31', 1) // '2025-11-01'
+ * ```
+ */
+export function addDays(date: string, days: number): string {
+  // Computed at UTC midnight so daylight saving changes don't matter
+  const result = new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000);
+  return result.toISOString().split('T')[0];
+}
+
+/**
+ * Gets the date range of a follow-up filter.
+ * A custom range entered backwards is swapped.
+ *
+ * @param filter - Chosen preset and custom dates
+ * @param today - Today's local date (YYYY-MM-DD)
+ * @returns Inclusive date range
+ *
+ * @example
+ * ```typescript
+ * // 2025-10-15 is a Wednesday
+ * getFollowUpRange({ preset: 'this-week', customStart: '', customEnd: '' }, '2025-10-15');
+ * // { start: '2025-10-13', end: '2025-10-19' }
+ * ```
+ */
+export function getFollowUpRange(filter: FollowUpFilter, today: string): FollowUpRange {
+  switch (filter.preset) {
+    case 'overdue':
+      return { start: null, end: addDays(today, -1) };
+
+    case 'tomorrow': {
+      const tomorrow = addDays(today, 1);
+      return { start: tomorrow, end: tomorrow };
+    }
+
+    case 'this-week': {
+      // getUTCDay() is 0 for Sunday; weeks start on Monday
+      const weekday = (new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7;
+      const monday = addDays(today, -weekday);
+      return { start: monday, end: addDays(monday, 6) };
+    }
+
+    case 'next-7-days':
+      return { start: today, end: addDays(today, 6) };
+
+    case 'custom': {
+      const start = filter.customStart || today;
+      const end = filter.customEnd || start;
+      return start <= end ? { start, end } : { start: end, end: start };
+    }
+
+    case 'today':
+    default:
+      return { start: today, end: today };
+  }
+}
+
+/**
+ * Checks whether a follow-up date falls in a range.
+ *
+ * @param followUpDate - Location's follow-up date (YYYY-MM-DD), if any
+ * @param range - Inclusive date range
+ * @returns True if the date is in the range
+ */
+export function isInFollowUpRange(followUpDate: string | undefined, range: FollowUpRange): boolean {
+  if (!followUpDate) {
+    return false;
+  }
+  return (range.start === null || followUpDate >= range.start) && followUpDate <= range.end;
+}
+
+/**
+ * Gets the day a range covers, if it covers exactly one.
+ *
+ * @param range - Inclusive date range
+ * @returns The single day (YYYY-MM-DD), or null for longer ranges
+ */
+export function getSingleDay(range: FollowUpRange): string | null {
+  return range.start !== null && range.start === range.end ? range.start : null;
+}
+
+/**
+ * Gets the filter that shows exactly one day, using the Today or Tomorrow
+ * preset when it applies (e.g., when a saved route for that day is opened).
+ *
+ * @param date - Day to show (YYYY-MM-DD)
+ * @param today - Today's local date (YYYY-MM-DD)
+ * @returns Follow-up filter
+ */
+export function getFollowUpFilterForDay(date: string, today: string): FollowUpFilter {
+  const preset: FollowUpPreset =
+    date === today ? 'today' : date === addDays(today, 1) ? 'tomorrow' : 'custom';
+  return { preset, customStart: date, customEnd: date };
+}
+
+/**
+ * Formats a follow-up date for headings, relative to today where it reads
+ * better.
+ *
+ * @param date - Follow-up date (YYYY-MM-DD)
+ * @param today - Today's local date (YYYY-MM-DD)
+ * @returns Label (e.g., "Today", "Yesterday", "Thu, Oct 16")
+ */
+export function formatFollowUpDay(date: string, today: string): string {
+  switch (daysBetween(today, date)) {
+    case -1:
+      return 'Yesterday';
+    case 0:
+      return 'Today';
+    case 1:
+      return 'Tomorrow';
+    default:
+      return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        timeZone: 'UTC',
+      });
+  }
+}
+
+/**
+ * Describes a follow-up range for labels and screen readers.
+ *
+ * @param range - Inclusive date range
+ * @param today - Today's local date (YYYY-MM-DD)
+ * @returns Description (e.g., "overdue", "for Today", "from Mon, Oct 13 to Sun, Oct 19")
+ */
+export function describeFollowUpRange(range: FollowUpRange, today: string): string {
+  if (range.start === null) {
+    return 'overdue';
+  }
+
+  const singleDay = getSingleDay(range);
+  if (singleDay) {
+    return `for ${formatFollowUpDay(singleDay, today)}`;
+  }
+  return `from ${formatFollowUpDay(range.start, today)} to ${formatFollowUpDay(range.end, today)}`;
+}
+
+/**
+ * Groups locations with a follow-up in a range by date.
+ *
+ * @param locations - Locations to search
+ * @param range - Inclusive date range
+ * @returns Groups, earliest date first
+ */
+export function groupByFollowUpDate(locations: Location[], range: FollowUpRange): FollowUpGroup[] {
+  const groups = new Map<string, Location[]>();
+  for (const location of locations) {
+    if (location.followUpDate && isInFollowUpRange(location.followUpDate, range)) {
+      const group = groups.get(location.followUpDate) ?? [];
+      group.push(location);
+      groups.set(location.followUpDate, group);
+    }
+  }
+
+  return Array.from(groups, ([date, group]) => ({
+    date,
+    locations: group.sort((a, b) => a.companyName.localeCompare(b.companyName)),
+  })).sort((a, b) => (a.date < b.date ? -1 : 1));
+}
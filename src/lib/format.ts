@@ -0,0 +1,102 @@
+/**
+ * Display Formatting Helpers
+ *
+ * Small helpers for formatting distances, durations, times and dates.
+ *
+ * @module format
+ */
+
+/**
+ * Formats a distance in kilometers for display.
+ *
+ * @param km - Distance in kilometers
+ * @returns Formatted distance (e.g., "850 m" or "12.4 km")
+ *
+ * @example
+ * ```typescript
+ * formatDistance(0.85) // '850 m'
+ * formatDistance(12.42) // '12.4 km'
+ * ```
+ */
+export function formatDistance(km: number): string {
+  if (km < 1) {
+    return `${Math.round(km * 1000)} m`;
+  }
+  return `${km.toFixed(1)} km`;
+}
+
+/**
+ * Formats a duration in minutes for display.
+ *
+ * @param minutes - Duration in minutes
+ * @returns Formatted duration (e.g., "9 min" or "1 h 25 min")
+ *
+ * @example
+ * ```typescript
+ * formatDuration(9.2) // '9 min'
+ * formatDuration(85) // '1 h 25 min'
+ * ```
+ */
+export function formatDuration(minutes: number): string {
+  const rounded = Math.max(1, Math.round(minutes));
+  if (rounded < 60) {
+    return `${rounded} min`;
+  }
+
+  const hours = Math.floor(rounded / 60);
+  const remainder = rounded % 60;
+  return remainder === 0 ? `${hours} h` : `${hours} h ${remainder} min`;
+}
+
+/**
+ * Formats a date as a local clock time.
+ *
+ * @param date - Date to format
+ * @returns Time in HH:MM format (24-hour)
+ *
+ * @example
+ * ```typescript
+ * formatClockTime(new Date(2025, 9, 13, 9, 5)) // '09:05'
+ * ```
+ */
+export function formatClockTime(date: Date): string {
+  const hours = String(date.getHours()).padStart(2, '0');
+  const minutes = String(date.getMinutes()).padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
+
+/**
+ * Formats a time of day given in minutes after midnight.
+ *
+ * @param minutes - Minutes after midnight
+ * @returns Time in HH:MM format (24-hour)
+ *
+ * @example
+ * ```typescript
+ * formatMinutesOfDay(545) // '09:05'
+ * ```
+ */
+export function formatMinutesOfDay(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const hours = String(Math.floor(rounded / 60)).padStart(2, '0');
+  const remainder = String(rounded % 60).padStart(2, '0');
+  return `${hours}:${remainder}`;
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in the device's local time zone.
+ *
+ * @param date - Date to format
+ * @returns Local date in YYYY-MM-DD format
+ *
+ * @example
+ * ```typescript
+ * formatLocalIsoDate(new Date(2025, 9, 13, 23, 30)) // '2025-10-13'
+ * ```
+ */
+export function formatLocalIsoDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
@@ -0,0 +1,214 @@
+/**
+ * Fuzzy Location Search
+ *
+ * Typo-tolerant search over company names, addresses and notes. Each word
+ * of the query must match a word in one of those fields, exactly, as a
+ * prefix (for words still being typed), inside a longer word, or within a
+ * small number of typos (more for longer words). Matches in the company
+ * name rank above matches in the address, which rank above notes.
+ *
+ * @module fuzzy-search
+ */
+
+import type { Location } from '@/types/location';
+
+/**
+ * A location prepared for searching.
+ */
+export interface SearchEntry {
+  /** Location to return when the entry matches */
+  location: Location;
+  /** Normalized words of each searchable field, strongest field first */
+  fields: Array<{ weight: number; text: string; words: string[] }>;
+}
+
+/**
+ * One search result.
+ */
+export interface SearchResult {
+  /** Matching location */
+  location: Location;
+  /** Relevance (higher is better) */
+  score: number;
+}
+
+/**
+ * Field weights: company name, then address, then notes
+ */
+const FIELD_WEIGHTS = {
+  companyName: 3,
+  address: 2,
+  notes: 1,
+} as const;
+
+/**
+ * Match quality by kind, before the field weight is applied
+ */
+const MATCH_QUALITY = {
+  EXACT: 1,
+  PREFIX: 0.9,
+  SUBSTRING: 0.7,
+  TYPO: 0.6,
+} as const;
+
+/**
+ * Lowercases text, strips accents and turns punctuation into spaces.
+ *
+ * @param text - Text to normalize
+ * @returns Normalized text (e.g., "Café  Müller, Inc." → "cafe muller inc")
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Gets how many typos a query word may contain.
+ */
+function getAllowedTypos(word: string): number {
+  if (word.length <= 3) {
+    return 0;
+  }
+  return word.length <= 7 ? 1 : 2;
+}
+
+/**
+ * Counts the edits (insertions, deletions, substitutions and swaps of
+ * neighbouring letters) between two words, giving up above a limit.
+ *
+ * @param a - First word
+ * @param b - Second word
+ * @param limit - Largest distance of interest
+ * @returns Edit distance, or limit + 1 if it is larger than the limit
+ */
+export function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) {
+    return limit + 1;
+  }
+
+  // Three rolling rows of the optimal string alignment matrix
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > limit) {
+      return limit + 1;
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], limit + 1);
+}
+
+/**
+ * Scores one query word against one field.
+ *
+ * @returns Match quality (0 if the word doesn't match)
+ */
+function scoreWord(queryWord: string, field: SearchEntry['fields'][number]): number {
+  const allowedTypos = getAllowedTypos(queryWord);
+  let best = 0;
+
+  for (const word of field.words) {
+    if (word === queryWord) {
+      return MATCH_QUALITY.EXACT;
+    }
+    if (word.startsWith(queryWord)) {
+      best = Math.max(best, MATCH_QUALITY.PREFIX);
+    } else if (allowedTypos > 0 && best < MATCH_QUALITY.TYPO) {
+      // Compare with the whole word and with its start, for words still being typed
+      const distance = Math.min(
+        editDistance(queryWord, word, allowedTypos),
+        editDistance(queryWord, word.slice(0, queryWord.length), allowedTypos)
+      );
+      if (distance <= allowedTypos) {
+        best = MATCH_QUALITY.TYPO;
+      }
+    }
+  }
+
+  if (best < MATCH_QUALITY.SUBSTRING && field.text.includes(queryWord)) {
+    best = MATCH_QUALITY.SUBSTRING;
+  }
+
+  return best;
+}
+
+/**
+ * Prepares locations for searching. Build once per locations change.
+ *
+ * @param locations - Locations to search
+ * @returns Search entries
+ */
+export function buildSearchIndex(locations: Location[]): SearchEntry[] {
+  return locations.map((location) => ({
+    location,
+    fields: (Object.keys(FIELD_WEIGHTS) as Array<keyof typeof FIELD_WEIGHTS>).map((key) => {
+      const text = normalizeSearchText(location[key] ?? '');
+      return { weight: FIELD_WEIGHTS[key], text, words: text ? text.split(' ') : [] };
+    }),
+  }));
+}
+
+/**
+ * Searches locations by company name, address and notes.
+ *
+ * @param index - Entries from buildSearchIndex
+ * @param query - Search text as typed
+ * @param limit - Maximum number of results
+ * @returns Best matches first (empty for a blank query)
+ *
+ * @example
+ * ```typescript
+ * const index = buildSearchIndex(locations);
+ * searchLocations(index, 'resturant main st', 8);
+ * // [{ location: { companyName: 'Main Street Restaurant', ... }, score: 7.5 }]
+ * ```
+ */
+export function searchLocations(index: SearchEntry[], query: string, limit: number): SearchResult[] {
+  const queryWords = normalizeSearchText(query).split(' ').filter(Boolean);
+  if (queryWords.length === 0) {
+    return [];
+  }
+
+  const results: SearchResult[] = [];
+  for (const entry of index) {
+    let score = 0;
+    for (const queryWord of queryWords) {
+      const wordScore = Math.max(
+        ...entry.fields.map((field) => scoreWord(queryWord, field) * field.weight)
+      );
+      if (wordScore === 0) {
+        score = 0;
+        break;
+      }
+      score += wordScore;
+    }
+
+    if (score > 0) {
+      results.push({ location: entry.location, score });
+    }
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.location.companyName.localeCompare(b.location.companyName))
+    .slice(0, limit);
+}
@@ -0,0 +1,68 @@
+/**
+ * Geofence Alert Storage
+ *
+ * Remembers which locations have already raised a geofence alert today,
+ * so driving past the same place again (or reloading the page) doesn't
+ * alert twice. The record is replaced when the date changes.
+ *
+ * @module geofence-storage
+ */
+
+/**
+ * localStorage key for today's alerted locations.
+ */
+const GEOFENCE_ALERTS_STORAGE_KEY = 'map-route:geofence-alerts';
+
+/**
+ * Stored alert record for one day.
+ */
+interface StoredGeofenceAlerts {
+  /** Local date of the alerts (YYYY-MM-DD) */
+  date: string;
+  /** IDs of the locations alerted on that date */
+  locationIds: number[];
+}
+
+/**
+ * Gets the locations that already raised an alert on a date.
+ *
+ * @param date - Local date (YYYY-MM-DD)
+ * @returns Alerted location IDs (empty for another date, or if storage is unavailable)
+ *
+ * @example
+ * ```typescript
+ * const alerted = getAlertedLocationIds(formatLocalIsoDate(new Date()));
+ * ```
+ */
+export function getAlertedLocationIds(date: string): Set<number> {
+  try {
+    const stored = window.localStorage.getItem(GEOFENCE_ALERTS_STORAGE_KEY);
+    if (!stored) {
+      return new Set();
+    }
+
+    const alerts = JSON.parse(stored) as StoredGeofenceAlerts;
+    if (alerts.date !== date || !Array.isArray(alerts.locationIds)) {
+      return new Set();
+    }
+
+    return new Set(alerts.locationIds);
+  } catch {
+    return new Set();
+  }
+}
+
+/**
+ * Stores the locations that raised an alert on a date.
+ *
+ * @param date - Local date (YYYY-MM-DD)
+ * @param locationIds - Alerted location IDs
+ */
+export function storeAlertedLocationIds(date: string, locationIds: Set<number>): void {
+  try {
+    const alerts: StoredGeofenceAlerts = { date, locationIds: Array.from(locationIds) };
+    window.localStorage.setItem(GEOFENCE_ALERTS_STORAGE_KEY, JSON.stringify(alerts));
+  } catch (error) {
+    console.warn('[GeofenceStorage] Unable to store geofence alerts:', error);
+  }
+}
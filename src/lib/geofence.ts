@@ -0,0 +1,57 @@
+/**
+ * Geofence Alerts
+ *
+ * Decides which locations should alert the rep while tracking: those with
+ * a follow-up date that is due or overdue, and those marked Revisit. A
+ * location alerts when the rep's tracked position comes within the
+ * geofence radius of it.
+ *
+ * @module geofence
+ */
+
+import type { Coordinates } from '@/types/google';
+import type { Location } from '@/types/location';
+import type { NearbyLocation } from '@/lib/proximity';
+import { findNearbyLocations } from '@/lib/proximity';
+import { GEOFENCE_CONFIG } from '@/lib/constants';
+
+/**
+ * Checks whether a location should alert when the rep drives by.
+ *
+ * @param location - Location to check
+ * @param today - Rep's local date (YYYY-MM-DD)
+ * @returns True if the follow-up is due or overdue, or the status alerts
+ */
+export function isGeofenceTarget(location: Location, today: string): boolean {
+  if (location.followUpDate && location.followUpDate <= today) {
+    return true;
+  }
+  return (GEOFENCE_CONFIG.STATUSES as readonly string[]).includes(location.status);
+}
+
+/**
+ * Finds the locations the rep has come close enough to for an alert.
+ *
+ * @param position - Rep's tracked position
+ * @param locations - Locations to check
+ * @param today - Rep's local date (YYYY-MM-DD)
+ * @param alertedIds - Locations that already alerted today (skipped)
+ * @returns New alerts, closest first
+ *
+ * @example
+ * ```typescript
+ * const hits = findGeofenceHits(userLocation, locations, '2025-10-13', alertedIds);
+ * hits.forEach(({ location }) => alertedIds.add(location.id));
+ * ```
+ */
+export function findGeofenceHits(
+  position: Coordinates,
+  locations: Location[],
+  today: string,
+  alertedIds: Set<number>
+): NearbyLocation[] {
+  const targets = locations.filter(
+    (location) => !alertedIds.has(location.id) && isGeofenceTarget(location, today)
+  );
+  return findNearbyLocations(position, targets, GEOFENCE_CONFIG.RADIUS_METERS / 1000);
+}
@@ -0,0 +1,81 @@
+/**
+ * Geolocation Helpers
+ *
+ * Wrappers around the browser Geolocation API: a promise for a one-off
+ * position, and a watcher for continuous tracking.
+ *
+ * @module geolocation
+ */
+
+import type { Coordinates } from '@/types/google';
+
+/**
+ * Gets the device's current position.
+ * Resolves to null instead of rejecting when geolocation is unsupported,
+ * denied or times out, so callers can fall back to another position.
+ *
+ * @param timeoutMs - How long to wait for a fix
+ * @returns Current coordinates, or null if unavailable
+ *
+ * @example
+ * ```typescript
+ * const position = (await getCurrentCoordinates()) ?? stop;
+ * ```
+ */
+export function getCurrentCoordinates(timeoutMs: number = 10000): Promise<Coordinates | null> {
+  return new Promise((resolve) => {
+    if (typeof navigator === 'undefined' || !navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ lat: position.coords.latitude, lng: position.coords.longitude }),
+      (error) => {
+        console.warn('[Geolocation] Unable to get current position:', error.message);
+        resolve(null);
+      },
+      {
+        enableHighAccuracy: true,
+        timeout: timeoutMs,
+        maximumAge: 30000,
+      }
+    );
+  });
+}
+
+/**
+ * Watches the device's position until the returned function is called.
+ *
+ * @param onPosition - Called with every position update
+ * @param onError - Called when geolocation is unsupported or a fix fails
+ * @returns Function that stops watching
+ *
+ * @example
+ * ```typescript
+ * const stop = watchCoordinates(setUserLocation, (error) => console.warn(error.message));
+ * // later
+ * stop();
+ * ```
+ */
+export function watchCoordinates(
+  onPosition: (coordinates: Coordinates) => void,
+  onError: (error: GeolocationPositionError | null) => void
+): () => void {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
+    onError(null);
+    return () => {};
+  }
+
+  const watchId = navigator.geolocation.watchPosition(
+    (position) => onPosition({ lat: position.coords.latitude, lng: position.coords.longitude }),
+    onError,
+    {
+      enableHighAccuracy: true,
+      timeout: 20000,
+      maximumAge: 5000,
+    }
+  );
+
+  return () => navigator.geolocation.clearWatch(watchId);
+}
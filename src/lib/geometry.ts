@@ -0,0 +1,156 @@
+/**
+ * Geometry Helpers
+ *
+ * Point-in-polygon tests used to place locations in territories,
+ * viewport tests used to limit the location list to the visible map, and
+ * convex hulls used to outline location clusters. Areas are small (city
+ * scale), so latitude/longitude are treated as planar coordinates.
+ *
+ * @module geometry
+ */
+
+import type { Coordinates, Viewport } from '@/types/google';
+import type { Location } from '@/types/location';
+import type { Territory } from '@/types/territory';
+
+/**
+ * Checks whether a point lies inside a polygon (ray casting).
+ *
+ * @param point - Point to test
+ * @param polygon - Polygon corners in order (open or closed)
+ * @returns True if the point is inside the polygon
+ *
+ * @example
+ * ```typescript
+ * isPointInPolygon({ lat: 1, lng: 1 }, [
+ *   { lat: 0, lng: 0 }, { lat: 0, lng: 2 }, { lat: 2, lng: 2 }, { lat: 2, lng: 0 },
+ * ]); // true
+ * ```
+ */
+export function isPointInPolygon(point: Coordinates, polygon: Coordinates[]): boolean {
+  let isInside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+
+    const crossesRay =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+
+    if (crossesRay) {
+      isInside = !isInside;
+    }
+  }
+
+  return isInside;
+}
+
+/**
+ * Checks whether a point lies inside a map viewport.
+ * Handles viewports that cross the antimeridian (west edge east of the east edge).
+ *
+ * @param point - Point to test
+ * @param viewport - Viewport corners
+ * @returns True if the point is inside the viewport (edges included)
+ *
+ * @example
+ * ```typescript
+ * isPointInViewport({ lat: 1, lng: 1 }, {
+ *   northeast: { lat: 2, lng: 2 },
+ *   southwest: { lat: 0, lng: 0 },
+ * }); // true
+ * ```
+ */
+export function isPointInViewport(point: Coordinates, viewport: Viewport): boolean {
+  const { northeast, southwest } = viewport;
+  if (point.lat < southwest.lat || point.lat > northeast.lat) {
+    return false;
+  }
+  return southwest.lng <= northeast.lng
+    ? point.lng >= southwest.lng && point.lng <= northeast.lng
+    : point.lng >= southwest.lng || point.lng <= northeast.lng;
+}
+
+/**
+ * Finds the territory containing a point.
+ * If territories overlap, the first one in sheet order wins.
+ *
+ * @param point - Point to place
+ * @param territories - Territories to search
+ * @returns The containing territory, or undefined if none contains the point
+ */
+export function findTerritory(point: Coordinates, territories: Territory[]): Territory | undefined {
+  return territories.find((territory) => isPointInPolygon(point, territory.polygon));
+}
+
+/**
+ * Sets each location's territory name from the territory polygons.
+ * Locations without coordinates or outside every territory get no territory.
+ *
+ * @param locations - Locations to place
+ * @param territories - Territories to place them in
+ * @returns New location objects with `territory` set
+ *
+ * @example
+ * ```typescript
+ * const placed = assignTerritories(locations, territories);
+ * const north = placed.filter((location) => location.territory === 'North');
+ * ```
+ */
+export function assignTerritories(locations: Location[], territories: Territory[]): Location[] {
+  return locations.map((location) => {
+    const territory =
+      location.lat && location.lng ? findTerritory(location, territories) : undefined;
+    return { ...location, territory: territory?.name };
+  });
+}
+
+/**
+ * Cross product of the vectors o→a and o→b.
+ * Positive when o, a, b turn counter-clockwise.
+ */
+function cross(o: Coordinates, a: Coordinates, b: Coordinates): number {
+  return (a.lng - o.lng) * (b.lat - o.lat) - (a.lat - o.lat) * (b.lng - o.lng);
+}
+
+/**
+ * Computes the convex hull of a set of points (monotone chain).
+ * Fewer than three distinct points are returned as-is, so callers can still
+ * draw a line or a dot.
+ *
+ * @param points - Points to enclose
+ * @returns Hull corners in counter-clockwise order
+ *
+ * @example
+ * ```typescript
+ * const hull = convexHull(cluster.map(({ lat, lng }) => ({ lat, lng })));
+ * ```
+ */
+export function convexHull(points: Coordinates[]): Coordinates[] {
+  const sorted = [...points].sort((a, b) => a.lng - b.lng || a.lat - b.lat);
+
+  if (sorted.length < 3) {
+    return sorted;
+  }
+
+  const lower: Coordinates[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) {
+      lower.pop();
+    }
+    lower.push(point);
+  }
+
+  const upper: Coordinates[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const point = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) {
+      upper.pop();
+    }
+    upper.push(point);
+  }
+
+  // The last point of each chain is the first point of the other
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
@@ -0,0 +1,190 @@
+/**
+ * Heatmap Grid
+ *
+ * Bins locations into a grid of roughly square cells and shades each cell
+ * for one of the manager's layers:
+ * - status density: how many locations of one status (e.g., Customers) a
+ *   cell holds, relative to the busiest cell
+ * - time since last visit: how long, on average, the cell's locations have
+ *   gone without a visit (never visited counts as fully stale)
+ * - coverage gaps: cells holding Prospects with no visit in the last N days
+ *
+ * Cells are drawn as rectangles, like territory polygons, so the layer
+ * needs no extra Maps library.
+ *
+ * @module heatmap
+ */
+
+import type { Location, LocationStatus } from '@/types/location';
+import { STATUS_TYPES, HEATMAP_CONFIG } from '@/lib/constants';
+import { daysBetween } from '@/lib/activity';
+
+/**
+ * Layers the heatmap can show.
+ */
+export type HeatmapLayer =
+  | { kind: 'status'; status: LocationStatus }
+  | { kind: 'last-visit' }
+  | { kind: 'coverage-gaps'; days: number };
+
+/**
+ * One shaded grid cell.
+ */
+export interface HeatmapCell {
+  /** Cell edges in degrees */
+  bounds: { north: number; south: number; east: number; west: number };
+  /** Number of locations that contributed to the cell */
+  count: number;
+  /** Cell intensity from 0 (faint) to 1 (strongest) */
+  intensity: number;
+  /** Fill and outline color */
+  color: string;
+  /** Fill opacity */
+  opacity: number;
+}
+
+/**
+ * Kilometers per degree of latitude
+ */
+const KM_PER_DEGREE = 111.32;
+
+/**
+ * Lowest fill opacity, so faint cells stay visible
+ */
+const MIN_FILL_OPACITY = 0.15;
+
+/**
+ * Parses a hex color into RGB components.
+ */
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/**
+ * Picks the color for an intensity from the heatmap gradient.
+ *
+ * @param intensity - Value from 0 to 1
+ * @returns Hex color
+ */
+export function getHeatmapColor(intensity: number): string {
+  const stops = HEATMAP_CONFIG.GRADIENT;
+  const position = Math.min(Math.max(intensity, 0), 1) * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  const fraction = position - index;
+
+  const from = hexToRgb(stops[index]);
+  const to = hexToRgb(stops[index + 1]);
+  const mixed = from.map((channel, i) => Math.round(channel + (to[i] - channel) * fraction));
+  return `#${mixed.map((channel) => channel.toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+}
+
+/**
+ * Gets how stale a location is, from 0 (visited today) to 1 (never visited,
+ * or not for MAX_STALE_DAYS or more).
+ */
+function getStaleness(lastVisit: string | undefined, today: string): number {
+  if (!lastVisit) {
+    return 1;
+  }
+  const days = Math.max(daysBetween(lastVisit, today), 0);
+  return Math.min(days / HEATMAP_CONFIG.MAX_STALE_DAYS, 1);
+}
+
+/**
+ * Builds the shaded cells of a heatmap layer.
+ * Cells without any contributing location are left out.
+ *
+ * @param locations - Locations to bin (usually the filtered map locations)
+ * @param layer - Layer to compute
+ * @param lastVisits - Latest visit date per location ID (see getLastVisitDates)
+ * @param today - Reference date (YYYY-MM-DD)
+ * @returns Cells to draw
+ *
+ * @example
+ * ```typescript
+ * const cells = buildHeatmapCells(
+ *   locations,
+ *   { kind: 'coverage-gaps', days: 60 },
+ *   getLastVisitDates(visits),
+ *   '2025-10-13'
+ * );
+ * ```
+ */
+export function buildHeatmapCells(
+  locations: Location[],
+  layer: HeatmapLayer,
+  lastVisits: Map<number, string>,
+  today: string
+): HeatmapCell[] {
+  // Weight of each location in the layer (0 leaves it out)
+  const weighted = locations
+    .filter((location) => location.lat && location.lng)
+    .map((location) => {
+      const lastVisit = lastVisits.get(location.id);
+      switch (layer.kind) {
+        case 'status':
+          return { location, weight: location.status === layer.status ? 1 : 0 };
+        case 'last-visit':
+          return { location, weight: getStaleness(lastVisit, today) };
+        case 'coverage-gaps': {
+          const isGap =
+            location.status === STATUS_TYPES.PROSPECT &&
+            (!lastVisit || daysBetween(lastVisit, today) >= layer.days);
+          return { location, weight: isGap ? 1 : 0 };
+        }
+      }
+    })
+    .filter(({ weight }) => weight > 0);
+
+  if (weighted.length === 0) {
+    return [];
+  }
+
+  // Cells are CELL_SIZE_KM tall; their width is stretched at the middle
+  // latitude so they stay roughly square
+  const meanLat = weighted.reduce((sum, { location }) => sum + location.lat, 0) / weighted.length;
+  const latStep = HEATMAP_CONFIG.CELL_SIZE_KM / KM_PER_DEGREE;
+  const lngStep = latStep / Math.max(Math.cos((meanLat * Math.PI) / 180), 0.01);
+
+  const bins = new Map<string, { row: number; col: number; count: number; total: number }>();
+  for (const { location, weight } of weighted) {
+    const row = Math.floor(location.lat / latStep);
+    const col = Math.floor(location.lng / lngStep);
+    const key = `${row}:${col}`;
+    const bin = bins.get(key) ?? { row, col, count: 0, total: 0 };
+    bin.count++;
+    bin.total += weight;
+    bins.set(key, bin);
+  }
+
+  const binList = Array.from(bins.values());
+  const maxTotal = Math.max(...binList.map((bin) => bin.total));
+
+  return binList.map(({ row, col, count, total }) => {
+    // Staleness is averaged per cell; densities are relative to the busiest cell
+    const intensity = layer.kind === 'last-visit' ? total / count : total / maxTotal;
+    return {
+      bounds: {
+        south: row * latStep,
+        north: (row + 1) * latStep,
+        west: col * lngStep,
+        east: (col + 1) * lngStep,
+      },
+      count,
+      intensity,
+      color: layer.kind === 'coverage-gaps' ? HEATMAP_CONFIG.GAP_COLOR : getHeatmapColor(intensity),
+      opacity: MIN_FILL_OPACITY + intensity * (HEATMAP_CONFIG.MAX_FILL_OPACITY - MIN_FILL_OPACITY),
+    };
+  });
+}
+
+/**
+ * Tells whether a layer needs the visit log.
+ *
+ * @param layer - Heatmap layer
+ * @returns True for the time since last visit and coverage gaps layers
+ */
+export function needsVisitHistory(layer: HeatmapLayer): boolean {
+  return layer.kind !== 'status';
+}
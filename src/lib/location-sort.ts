@@ -0,0 +1,88 @@
+/**
+ * Location Sorting
+ *
+ * Orders locations for the list panel by name, status, follow-up date or
+ * distance from the rep. Ties are broken by company name so the order is
+ * stable as the list refreshes.
+ *
+ * @module location-sort
+ */
+
+import type { Location } from '@/types/location';
+import type { Coordinates } from '@/types/google';
+import { calculateDistance } from '@/types/google';
+import { ALL_STATUSES } from '@/lib/constants';
+
+/**
+ * Orders the list panel offers.
+ * - name → A to Z
+ * - status → in the legend's status order
+ * - followUpDate → soonest first, locations without a date last
+ * - distance → closest to the rep first
+ */
+export type LocationSortKey = 'name' | 'status' | 'followUpDate' | 'distance';
+
+/**
+ * Compares company names, ignoring case and accents.
+ */
+function compareNames(a: Location, b: Location): number {
+  return a.companyName.localeCompare(b.companyName, undefined, { sensitivity: 'base' });
+}
+
+/**
+ * Sorts locations for the list panel.
+ * Without an origin, sorting by distance falls back to name.
+ *
+ * @param locations - Locations to sort (not modified)
+ * @param sortKey - Order to apply
+ * @param origin - Rep's position, for sorting by distance
+ * @returns Sorted copy of the locations
+ *
+ * @example
+ * ```typescript
+ * const rows = sortLocations(filteredLocations, 'distance', userLocation);
+ * ```
+ */
+export function sortLocations(
+  locations: Location[],
+  sortKey: LocationSortKey,
+  origin: Coordinates | null
+): Location[] {
+  switch (sortKey) {
+    case 'status':
+      return [...locations].sort(
+        (a, b) => ALL_STATUSES.indexOf(a.status) - ALL_STATUSES.indexOf(b.status) || compareNames(a, b)
+      );
+
+    case 'followUpDate':
+      return [...locations].sort((a, b) => {
+        if (a.followUpDate !== b.followUpDate) {
+          if (!a.followUpDate || !b.followUpDate) {
+            return a.followUpDate ? -1 : 1;
+          }
+          return a.followUpDate < b.followUpDate ? -1 : 1;
+        }
+        return compareNames(a, b);
+      });
+
+    case 'distance': {
+      if (!origin) {
+        return [...locations].sort(compareNames);
+      }
+      // Locations without coordinates go last
+      const distances = new Map(
+        locations.map((location) => [
+          location.id,
+          location.lat && location.lng ? calculateDistance(origin, location) : Infinity,
+        ])
+      );
+      return [...locations].sort(
+        (a, b) => (distances.get(a.id) ?? Infinity) - (distances.get(b.id) ?? Infinity) || compareNames(a, b)
+      );
+    }
+
+    case 'name':
+    default:
+      return [...locations].sort(compareNames);
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Location Update Validation
+ *
+ * Validates request bodies for POST /api/locations (new location),
+ * PATCH /api/locations/[id] (one location) and PATCH /api/locations
+ * (many locations in one sheet write).
+ *
+ * @module location-validation
+ */
+
+import type { CreateLocationRequest, UpdateLocationRequest, UpdateLocationsRequest } from '@/types/api';
+import { isValidStatus } from '@/types/location';
+import { VALIDATION } from '@/lib/constants';
+
+/**
+ * Validates the editable fields (status, notes, follow-up date) that are present.
+ *
+ * @param body - Fields to validate
+ * @returns Validation error message or null if valid
+ */
+function validateEditableFields(body: UpdateLocationRequest): string | null {
+  // Validate status if provided
+  if (body.status !== undefined) {
+    if (typeof body.status !== 'string') {
+      return 'Status must be a string';
+    }
+
+    if (!isValidStatus(body.status)) {
+      return `Invalid status value. Must be one of: Prospect, Customer, Follow-up, Not interested, Revisit, Not applicable, Location not found`;
+    }
+  }
+
+  // Validate notes if provided
+  if (body.notes !== undefined) {
+    if (typeof body.notes !== 'string') {
+      return 'Notes must be a string';
+    }
+
+    if (body.notes.length > VALIDATION.MAX_NOTES_LENGTH) {
+      return `Notes must be ${VALIDATION.MAX_NOTES_LENGTH} characters or less`;
+    }
+  }
+
+  // Validate followUpDate if provided
+  if (body.followUpDate !== undefined) {
+    // Allow empty string or valid date in YYYY-MM-DD format
+    if (body.followUpDate !== '' && typeof body.followUpDate !== 'string') {
+      return 'Follow-up date must be a string in YYYY-MM-DD format';
+    }
+
+    // Validate date format if not empty
+    if (body.followUpDate !== '') {
+      const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+      if (!dateRegex.test(body.followUpDate)) {
+        return 'Follow-up date must be in YYYY-MM-DD format';
+      }
+
+      // Validate that it's a valid date
+      const date = new Date(body.followUpDate);
+      if (isNaN(date.getTime())) {
+        return 'Follow-up date must be a valid date';
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validates the fields of a location update.
+ *
+ * @param body - Request body (or bulk item) to validate
+ * @returns Validation error message or null if valid
+ *
+ * @example
+ * ```typescript
+ * const error = validateUpdateLocationRequest({ status: 'Customer' });
+ * if (error) {
+ *   // respond with 400
+ * }
+ * ```
+ */
+export function validateUpdateLocationRequest(body: UpdateLocationRequest): string | null {
+  // At least one field must be provided
+  if (body.status === undefined && body.notes === undefined && body.followUpDate === undefined) {
+    return 'At least one field (status, notes, or followUpDate) must be provided';
+  }
+
+  return validateEditableFields(body);
+}
+
+/**
+ * Validates a new location request body.
+ * Company name and address are required; status, notes and follow-up
+ * date are optional.
+ *
+ * @param body - Request body to validate
+ * @returns Validation error message or null if valid
+ *
+ * @example
+ * ```typescript
+ * const error = validateCreateLocationRequest(body);
+ * if (error) {
+ *   // respond with 400
+ * }
+ * ```
+ */
+export function validateCreateLocationRequest(body: CreateLocationRequest): string | null {
+  if (typeof body !== 'object' || body === null) {
+    return 'Request body must be an object';
+  }
+
+  if (typeof body.companyName !== 'string' || !body.companyName.trim()) {
+    return 'Company name is required';
+  }
+  if (body.companyName.trim().length > VALIDATION.MAX_COMPANY_NAME_LENGTH) {
+    return `Company name must be ${VALIDATION.MAX_COMPANY_NAME_LENGTH} characters or less`;
+  }
+
+  if (typeof body.address !== 'string' || !body.address.trim()) {
+    return 'Address is required';
+  }
+  if (body.address.trim().length > VALIDATION.MAX_ADDRESS_LENGTH) {
+    return `Address must be ${VALIDATION.MAX_ADDRESS_LENGTH} characters or less`;
+  }
+
+  return validateEditableFields(body);
+}
+
+/**
+ * Validates the shape of a bulk update request: a non-empty array of
+ * objects with distinct location IDs. The fields of each item are checked
+ * separately with {@link validateUpdateLocationRequest}, so one bad item
+ * does not reject the others.
+ *
+ * @param body - Request body to validate
+ * @returns Validation error message or null if valid
+ *
+ * @example
+ * ```typescript
+ * const error = validateUpdateLocationsRequest(body);
+ * if (error) {
+ *   // respond with 400
+ * }
+ * ```
+ */
+export function validateUpdateLocationsRequest(body: UpdateLocationsRequest): string | null {
+  if (!Array.isArray(body)) {
+    return 'Request body must be an array of location updates';
+  }
+
+  if (body.length === 0) {
+    return 'Request body must not be empty';
+  }
+
+  if (body.length > VALIDATION.MAX_BATCH_UPDATES) {
+    return `At most ${VALIDATION.MAX_BATCH_UPDATES} locations can be updated at once`;
+  }
+
+  const seenIds = new Set<number>();
+
+  for (const item of body) {
+    if (typeof item !== 'object' || item === null) {
+      return 'Each update must be an object with an id';
+    }
+
+    const { id } = item;
+
+    if (typeof id !== 'number' || !Number.isInteger(id) || id < 2) {
+      return `Invalid location ID: ${String(id)}. Must be an integer of at least 2.`;
+    }
+    if (seenIds.has(id)) {
+      return `Location ${id} is updated more than once`;
+    }
+    seenIds.add(id);
+  }
+
+  return null;
+}
@@ -0,0 +1,115 @@
+/**
+ * Client-side Locations API
+ *
+ * Wrappers around the /api/locations endpoints for adding locations from
+ * the map and for updates made outside the location popup (e.g.,
+ * completing a stop while driving a route, accepting a territory
+ * balancing split, or a bulk action on a map selection).
+ *
+ * @module locations.client
+ */
+
+import type {
+  AssignLocationsResponse,
+  CreateLocationRequest,
+  CreateLocationResponse,
+  UpdateLocationRequest,
+  UpdateLocationResponse,
+  UpdateLocationsResponse,
+} from '@/types/api';
+import type {
+  Location,
+  LocationAssignment,
+  LocationBatchResult,
+  LocationBatchUpdate,
+} from '@/types/location';
+import { API_ENDPOINTS, HTTP_METHODS } from '@/lib/constants';
+import { requestJson } from '@/lib/api.client';
+
+/**
+ * Adds a new location. The server geocodes the address before adding
+ * the row, so the returned location has coordinates.
+ *
+ * @param input - Company name, address and optional initial fields
+ * @returns The new location
+ * @throws {Error} If the request fails or the address can't be found
+ *
+ * @example
+ * ```typescript
+ * const location = await createLocation({ companyName: 'Acme Corp', address: '123 Main St' });
+ * ```
+ */
+export async function createLocation(input: CreateLocationRequest): Promise<Location> {
+  const data = await requestJson<CreateLocationResponse>(
+    API_ENDPOINTS.CREATE_LOCATION,
+    HTTP_METHODS.POST,
+    input
+  );
+  return data.location;
+}
+
+/**
+ * Updates a location's status, notes or follow-up date.
+ *
+ * @param id - Location ID (sheet row number)
+ * @param updates - Fields to update
+ * @returns The updated location
+ * @throws {Error} If the request fails
+ *
+ * @example
+ * ```typescript
+ * const location = await updateLocation(5, { status: 'Customer' });
+ * ```
+ */
+export async function updateLocation(id: number, updates: UpdateLocationRequest): Promise<Location> {
+  const data = await requestJson<UpdateLocationResponse>(
+    API_ENDPOINTS.UPDATE_LOCATION(id),
+    HTTP_METHODS.PATCH,
+    updates
+  );
+  return data.location;
+}
+
+/**
+ * Updates many locations in one sheet write.
+ * Individual updates can fail (e.g., a row deleted in the sheet) without
+ * failing the others.
+ *
+ * @param updates - Fields to update per location (distinct IDs)
+ * @returns Outcome per update, in the order given
+ * @throws {Error} If the request as a whole fails
+ *
+ * @example
+ * ```typescript
+ * const results = await updateLocations([{ id: 2, status: 'Revisit' }, { id: 3, status: 'Revisit' }]);
+ * ```
+ */
+export async function updateLocations(updates: LocationBatchUpdate[]): Promise<LocationBatchResult[]> {
+  const data = await requestJson<UpdateLocationsResponse>(
+    API_ENDPOINTS.UPDATE_LOCATIONS,
+    HTTP_METHODS.PATCH,
+    updates
+  );
+  return data.results;
+}
+
+/**
+ * Assigns many locations to reps in one sheet write.
+ *
+ * @param assignments - Rep assignment per location
+ * @returns IDs skipped because the location was not found in the sheet
+ * @throws {Error} If the request fails
+ *
+ * @example
+ * ```typescript
+ * const notFound = await assignLocations([{ id: 2, assignedTo: 'Alex' }, { id: 3, assignedTo: 'Sam' }]);
+ * ```
+ */
+export async function assignLocations(assignments: LocationAssignment[]): Promise<number[]> {
+  const data = await requestJson<AssignLocationsResponse>(
+    API_ENDPOINTS.LOCATION_ASSIGNMENTS,
+    HTTP_METHODS.POST,
+    { assignments }
+  );
+  return data.notFound;
+}
@@ -0,0 +1,117 @@
+/**
+ * Map Selection
+ *
+ * Turns the pointer path of a lasso or rectangle drawn over the map into
+ * a selection outline, and finds the locations inside the outline once it
+ * has been converted to map coordinates. Outlines are built in screen
+ * pixels, relative to the map container's top-left corner.
+ *
+ * @module map-selection
+ */
+
+import type { Coordinates } from '@/types/google';
+import type { Location } from '@/types/location';
+import { isPointInPolygon } from '@/lib/geometry';
+import { SELECTION_CONFIG } from '@/lib/constants';
+
+/**
+ * Shape drawn to select locations.
+ * - lasso → freehand outline following the pointer
+ * - rectangle → box between the press and release points
+ */
+export type SelectionShape = 'lasso' | 'rectangle';
+
+/**
+ * Point on the map container in pixels.
+ */
+export interface ScreenPoint {
+  /** Pixels from the left edge */
+  x: number;
+  /** Pixels from the top edge */
+  y: number;
+}
+
+/**
+ * Adds a pointer position to a lasso path, skipping positions too close to
+ * the last recorded one so long drags stay cheap to draw and test.
+ *
+ * @param path - Recorded path
+ * @param point - New pointer position
+ * @returns The path with the point added, or the same path if it was skipped
+ *
+ * @example
+ * ```typescript
+ * path = addPathPoint(path, { x: event.clientX - left, y: event.clientY - top });
+ * ```
+ */
+export function addPathPoint(path: ScreenPoint[], point: ScreenPoint): ScreenPoint[] {
+  const last = path[path.length - 1];
+  if (last && Math.hypot(point.x - last.x, point.y - last.y) < SELECTION_CONFIG.MIN_POINT_SPACING_PX) {
+    return path;
+  }
+  return [...path, point];
+}
+
+/**
+ * Builds the outline of a selection from the recorded pointer path.
+ *
+ * @param shape - Shape being drawn
+ * @param path - Pointer positions from press to release
+ * @returns Outline corners in order (the rectangle's four corners, or the lasso path)
+ */
+export function buildSelectionOutline(shape: SelectionShape, path: ScreenPoint[]): ScreenPoint[] {
+  if (shape === 'lasso' || path.length < 2) {
+    return path;
+  }
+
+  const start = path[0];
+  const end = path[path.length - 1];
+  return [
+    start,
+    { x: end.x, y: start.y },
+    end,
+    { x: start.x, y: end.y },
+  ];
+}
+
+/**
+ * Checks whether an outline encloses an area worth selecting from.
+ * Taps and tiny wiggles are ignored so they don't clear the selection.
+ *
+ * @param outline - Outline corners in pixels
+ * @returns True if the outline has at least three corners and spans the minimum size
+ */
+export function isUsableOutline(outline: ScreenPoint[]): boolean {
+  if (outline.length < 3) {
+    return false;
+  }
+
+  const xs = outline.map((point) => point.x);
+  const ys = outline.map((point) => point.y);
+  const width = Math.max(...xs) - Math.min(...xs);
+  const height = Math.max(...ys) - Math.min(...ys);
+  return width >= SELECTION_CONFIG.MIN_SIZE_PX || height >= SELECTION_CONFIG.MIN_SIZE_PX;
+}
+
+/**
+ * Finds the locations inside a selection polygon.
+ * Locations without coordinates are never selected.
+ *
+ * @param locations - Locations to test (typically the ones shown on the map)
+ * @param polygon - Selection outline in map coordinates
+ * @returns Locations inside the polygon, in input order
+ *
+ * @example
+ * ```typescript
+ * const selected = findLocationsInPolygon(filteredLocations, polygon);
+ * setBulkSelectedIds(new Set(selected.map((location) => location.id)));
+ * ```
+ */
+export function findLocationsInPolygon(locations: Location[], polygon: Coordinates[]): Location[] {
+  if (polygon.length < 3) {
+    return [];
+  }
+  return locations.filter(
+    (location) => !!location.lat && !!location.lng && isPointInPolygon(location, polygon)
+  );
+}
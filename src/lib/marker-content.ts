@@ -0,0 +1,190 @@
+/**
+ * Marker Content
+ *
+ * Builds the DOM content of the map's advanced markers. Location markers
+ * are pins in the status color (or the follow-up highlight color), with
+ * the route stop number in the pin head and a row of badges above it for
+ * an overdue follow-up, a location pushed by a manager, an edit that
+ * the server has not confirmed yet, and a location picked by a lasso or
+ * rectangle selection.
+ *
+ * @module marker-content
+ */
+
+import { MARKER_CONFIG, MARKER_ICON_PATH } from '@/lib/constants';
+
+/**
+ * Badges shown on a location marker.
+ */
+export interface MarkerBadges {
+  /** Position on the planned route (1-based) */
+  stopNumber?: number;
+  /** Follow-up date has passed */
+  isOverdue?: boolean;
+  /** Location was just pushed to the rep */
+  isPushed?: boolean;
+  /** An edit is saved locally but not confirmed by the server */
+  hasPendingEdit?: boolean;
+  /** Location is part of the map selection for bulk actions */
+  isBulkSelected?: boolean;
+}
+
+/**
+ * Everything that decides how a location marker looks.
+ */
+export interface MarkerAppearance {
+  /** Pin fill color */
+  color: string;
+  /** Whether the marker is the selected location */
+  isSelected: boolean;
+  /** Badges to show */
+  badges: MarkerBadges;
+}
+
+/**
+ * White glyphs drawn on the badge circles (14px viewBox)
+ */
+const BADGE_GLYPHS = {
+  OVERDUE:
+    '<path d="M7 3.5v4.5" stroke="#FFFFFF" stroke-width="2" stroke-linecap="round"/>' +
+    '<circle cx="7" cy="10.5" r="1.1" fill="#FFFFFF"/>',
+  PUSHED:
+    '<path d="M4.5 9.5l5-5M5.5 4.5h4v4" stroke="#FFFFFF" stroke-width="1.6" ' +
+    'stroke-linecap="round" stroke-linejoin="round" fill="none"/>',
+  PENDING_EDIT:
+    '<circle cx="7" cy="7" r="3.8" stroke="#FFFFFF" stroke-width="1.4" fill="none"/>' +
+    '<path d="M7 5v2.2l1.5 1" stroke="#FFFFFF" stroke-width="1.4" stroke-linecap="round" fill="none"/>',
+  BULK_SELECTED:
+    '<path d="M4 7.2l2 2 4-4.2" stroke="#FFFFFF" stroke-width="1.8" ' +
+    'stroke-linecap="round" stroke-linejoin="round" fill="none"/>',
+} as const;
+
+/**
+ * Builds the SVG for one badge.
+ */
+function buildBadgeSvg(color: string, glyph: string): string {
+  const size = MARKER_CONFIG.BADGE_SIZE;
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 14 14" aria-hidden="true">` +
+    `<circle cx="7" cy="7" r="6.5" fill="${color}" stroke="#FFFFFF" stroke-width="1"/>` +
+    glyph +
+    '</svg>'
+  );
+}
+
+/**
+ * Builds the markup of a location marker.
+ * The pin's tip sits at the bottom center, where advanced markers anchor
+ * their content.
+ *
+ * @param appearance - Pin color, selection and badges
+ * @returns HTML markup
+ *
+ * @example
+ * ```typescript
+ * content.innerHTML = buildMarkerHtml({
+ *   color: getStatusColor(location.status),
+ *   isSelected: false,
+ *   badges: { stopNumber: 3, isOverdue: true },
+ * });
+ * ```
+ */
+export function buildMarkerHtml({ color, isSelected, badges }: MarkerAppearance): string {
+  const { SCALE, SELECTED_SCALE, FILL_OPACITY, BADGE_COLORS } = MARKER_CONFIG;
+  const width = 20 * SCALE;
+  const height = 22 * SCALE;
+
+  // Keeps the stroke 2px wide at any scale
+  const strokeWidth = (2 / SCALE).toFixed(2);
+
+  const stopLabel = badges.stopNumber
+    ? `<text x="12" y="9" text-anchor="middle" dominant-baseline="central" font-family="Arial, sans-serif" ` +
+      `font-size="${(11 / SCALE).toFixed(2)}" font-weight="bold" fill="#FFFFFF">${badges.stopNumber}</text>`
+    : '';
+
+  const badgeSvgs = [
+    badges.isOverdue ? buildBadgeSvg(BADGE_COLORS.OVERDUE, BADGE_GLYPHS.OVERDUE) : '',
+    badges.isPushed ? buildBadgeSvg(BADGE_COLORS.PUSHED, BADGE_GLYPHS.PUSHED) : '',
+    badges.hasPendingEdit ? buildBadgeSvg(BADGE_COLORS.PENDING_EDIT, BADGE_GLYPHS.PENDING_EDIT) : '',
+    badges.isBulkSelected ? buildBadgeSvg(BADGE_COLORS.BULK_SELECTED, BADGE_GLYPHS.BULK_SELECTED) : '',
+  ].join('');
+
+  const transform = isSelected ? `transform:scale(${SELECTED_SCALE});transform-origin:50% 100%;` : '';
+
+  return (
+    `<div style="position:relative;${transform}">` +
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="2 1 20 22" ` +
+    'style="display:block" aria-hidden="true">' +
+    `<path d="${MARKER_ICON_PATH}" fill="${color}" fill-opacity="${FILL_OPACITY}" stroke="#FFFFFF" stroke-width="${strokeWidth}"/>` +
+    stopLabel +
+    '</svg>' +
+    (badgeSvgs
+      ? `<div style="position:absolute;top:-6px;left:${width - 8}px;display:flex;gap:1px">${badgeSvgs}</div>`
+      : '') +
+    '</div>'
+  );
+}
+
+/**
+ * Builds a marker's title, which is also its accessible name when the
+ * marker has keyboard focus.
+ *
+ * @param companyName - Location name
+ * @param badges - Badges shown on the marker
+ * @returns Title (e.g., "Acme Co - Stop 3, follow-up overdue")
+ */
+export function describeMarker(companyName: string, badges: MarkerBadges): string {
+  const details = [
+    badges.stopNumber ? `Stop ${badges.stopNumber}` : '',
+    badges.isOverdue ? 'follow-up overdue' : '',
+    badges.isPushed ? 'pushed to you' : '',
+    badges.hasPendingEdit ? 'changes not saved yet' : '',
+    badges.isBulkSelected ? 'selected' : '',
+  ].filter(Boolean);
+
+  if (details.length === 0) {
+    return companyName;
+  }
+
+  const text = details.join(', ');
+  return `${companyName} - ${text.charAt(0).toUpperCase()}${text.slice(1)}`;
+}
+
+/**
+ * Builds the markup of a round dot marker (user location, drawing vertices).
+ *
+ * @param fillColor - Dot color
+ * @param strokeColor - Border color
+ * @param diameter - Dot diameter in pixels, including the border
+ * @param strokeWidth - Border width in pixels
+ * @returns HTML markup
+ */
+export function buildDotHtml(
+  fillColor: string,
+  strokeColor: string,
+  diameter: number,
+  strokeWidth: number
+): string {
+  return (
+    `<div style="width:${diameter}px;height:${diameter}px;box-sizing:border-box;border-radius:50%;` +
+    `background:${fillColor};border:${strokeWidth}px solid ${strokeColor}"></div>`
+  );
+}
+
+/**
+ * Creates the content element of an advanced marker.
+ * Advanced markers anchor their content at the bottom center; centered
+ * content (dots, cluster icons) is shifted down by half its height.
+ *
+ * @param html - Marker markup
+ * @param anchor - Which point of the content sits on the marker position
+ * @returns Content element
+ */
+export function createMarkerContent(html: string, anchor: 'bottom' | 'center'): HTMLDivElement {
+  const content = document.createElement('div');
+  content.innerHTML = html;
+  if (anchor === 'center') {
+    content.style.transform = 'translateY(50%)';
+  }
+  return content;
+}
@@ -0,0 +1,159 @@
+/**
+ * Mileage Report
+ *
+ * Builds per-rep mileage totals from the visit log. Each rep's visits on a
+ * day are ordered by time, and the distance driven that day is the sum of
+ * the legs between consecutive visit positions. Only verified visits
+ * (logged within the check-in radius of the location) count, so a
+ * position typed in by hand can't add distance. Legs come from a
+ * TravelEstimator, so the same report can use the offline straight-line
+ * estimate or a driving directions adapter.
+ *
+ * @module mileage
+ */
+
+import type { MileageDay, MileageReport, RepMileage, Visit } from '@/types/visit';
+import type { TravelEstimator } from '@/types/route';
+
+/**
+ * Options for building a mileage report.
+ */
+export interface MileageReportOptions {
+  /** First date of the period (YYYY-MM-DD, inclusive) */
+  from: string;
+  /** Last date of the period (YYYY-MM-DD, inclusive) */
+  to: string;
+  /** Source of leg distances */
+  estimator: TravelEstimator;
+  /** Reimbursement per kilometer (null to leave amounts out) */
+  ratePerKm: number | null;
+}
+
+/**
+ * Rounds to two decimal places (distances in km, amounts in currency).
+ */
+function roundTo2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Computes the reimbursement for a distance, or null without a rate.
+ */
+function reimbursementFor(distanceKm: number, ratePerKm: number | null): number | null {
+  return ratePerKm === null ? null : roundTo2(distanceKm * ratePerKm);
+}
+
+/**
+ * Builds the mileage report for a date range.
+ * Visits outside the range and unverified visits are ignored. Reps are
+ * matched case-insensitively.
+ *
+ * @param visits - Recorded visits (any order)
+ * @param options - Period, distance source and reimbursement rate
+ * @returns Per-rep totals with a per-day breakdown
+ *
+ * @example
+ * ```typescript
+ * const report = await buildMileageReport(visits, {
+ *   from: '2025-10-01',
+ *   to: '2025-10-31',
+ *   estimator: createHaversineEstimator(),
+ *   ratePerKm: 0.3,
+ * });
+ * ```
+ */
+export async function buildMileageReport(
+  visits: Visit[],
+  options: MileageReportOptions
+): Promise<MileageReport> {
+  const { from, to, estimator, ratePerKm } = options;
+
+  // Group visits by rep, then by date
+  const byRep = new Map<string, { rep: string; byDate: Map<string, Visit[]> }>();
+  for (const visit of visits) {
+    const rep = visit.rep.trim();
+    if (!rep || !visit.verified || visit.date < from || visit.date > to) {
+      continue;
+    }
+
+    const repKey = rep.toLowerCase();
+    const repGroup = byRep.get(repKey) ?? { rep, byDate: new Map<string, Visit[]>() };
+    byRep.set(repKey, repGroup);
+
+    const dayVisits = repGroup.byDate.get(visit.date) ?? [];
+    dayVisits.push(visit);
+    repGroup.byDate.set(visit.date, dayVisits);
+  }
+
+  const reps: RepMileage[] = [];
+  for (const { rep, byDate } of Array.from(byRep.values())) {
+    const days: MileageDay[] = [];
+
+    for (const date of Array.from(byDate.keys()).sort()) {
+      const dayVisits = (byDate.get(date) ?? []).sort(
+        (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+      );
+      const legs = await estimator.estimateLegs(dayVisits.map(({ lat, lng }) => ({ lat, lng })));
+      const distanceKm = roundTo2(legs.reduce((sum, leg) => sum + leg.distanceKm, 0));
+
+      days.push({
+        date,
+        visitCount: dayVisits.length,
+        distanceKm,
+        reimbursement: reimbursementFor(distanceKm, ratePerKm),
+      });
+    }
+
+    const totalKm = roundTo2(days.reduce((sum, day) => sum + day.distanceKm, 0));
+    reps.push({
+      rep,
+      visitCount: days.reduce((sum, day) => sum + day.visitCount, 0),
+      totalKm,
+      reimbursement: reimbursementFor(totalKm, ratePerKm),
+      days,
+    });
+  }
+
+  reps.sort((a, b) => a.rep.localeCompare(b.rep));
+
+  return { from, to, method: estimator.name, ratePerKm, reps };
+}
+
+/**
+ * Quotes a CSV field if it contains a delimiter, quote or newline.
+ * Text starting with a formula character (e.g., a rep name typed as
+ * "=SUM(...)") is prefixed with an apostrophe so spreadsheets show it as
+ * text instead of running it.
+ */
+function escapeCsv(value: string | number): string {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats a mileage report as CSV for finance: one row per rep per day,
+ * followed by a "Total" row for each rep.
+ *
+ * @param report - Mileage report
+ * @returns CSV text with a header row
+ *
+ * @example
+ * ```typescript
+ * const csv = mileageReportToCsv(report);
+ * // Rep,Date,Visits,Distance (km),Reimbursement
+ * // Alex,2025-10-13,6,42.5,12.75
+ * // Alex,Total,6,42.5,12.75
+ * ```
+ */
+export function mileageReportToCsv(report: MileageReport): string {
+  const rows: (string | number)[][] = [['Rep', 'Date', 'Visits', 'Distance (km)', 'Reimbursement']];
+
+  for (const rep of report.reps) {
+    for (const day of rep.days) {
+      rows.push([rep.rep, day.date, day.visitCount, day.distanceKm, day.reimbursement ?? '']);
+    }
+    rows.push([rep.rep, 'Total', rep.visitCount, rep.totalKm, rep.reimbursement ?? '']);
+  }
+
+  return rows.map((row) => row.map(escapeCsv).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,360 @@
+/**
+ * Opening Hours
+ *
+ * Works out when each location can be visited on a given date. Hours come
+ * from the sheet's "Opening Hours" column, or from Google Places when the
+ * location has a place ID and Places lookups are enabled.
+ *
+ * Sheet format: segments separated by ";", each with an optional day or day
+ * range followed by comma-separated time ranges (24-hour), or "closed".
+ * A segment without days applies to every day; day-specific segments win.
+ * A range that ends at or before its start runs past midnight, and its
+ * early-morning part opens the next day.
+ *
+ * - "09:00-17:00"
+ * - "Mon-Fri 09:00-12:00, 13:00-17:00; Sat 10:00-14:00; Sun closed"
+ * - "Fri-Sat 18:00-02:00" (also open 00:00-02:00 on Saturday and Sunday)
+ *
+ * @module opening-hours
+ */
+
+import { importLibrary } from '@googlemaps/js-api-loader';
+
+import type { Location } from '@/types/location';
+import type { TimeWindow } from '@/types/route';
+
+/**
+ * Day name prefixes, indexed like Date.getDay() (0 = Sunday).
+ */
+const DAY_PREFIXES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Minutes in a day, used as the end of windows that run past midnight.
+ */
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Minutes in a week, used to place Places periods that wrap past Saturday.
+ */
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+/**
+ * Opening hours segment from the sheet.
+ */
+interface HoursSegment {
+  /** First and last day of the segment, or null for every day */
+  days: { first: number; last: number } | null;
+  /** Time ranges; ranges past midnight end after MINUTES_PER_DAY */
+  ranges: TimeWindow[];
+}
+
+/**
+ * Places opening periods cached by place ID (null if the place lists no hours).
+ */
+const placesHoursCache: Record<string, google.maps.places.OpeningHoursPeriod[] | null> = {};
+
+/**
+ * Parses a clock time into minutes after midnight.
+ *
+ * @param value - Time in H:MM or HH:MM format (24-hour, "24:00" allowed)
+ * @returns Minutes after midnight, or null if invalid
+ *
+ * @example
+ * ```typescript
+ * parseClockTime('09:30') // 570
+ * ```
+ */
+export function parseClockTime(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Gets the day of the week of a date.
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @returns Day of the week (0 = Sunday)
+ */
+function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00`).getDay();
+}
+
+/**
+ * Parses a day name ("Mon", "monday") into a day index.
+ *
+ * @param value - Day name
+ * @returns Day index (0 = Sunday), or -1 if not a day name
+ */
+function parseDay(value: string): number {
+  return DAY_PREFIXES.indexOf(value.trim().slice(0, 3).toLowerCase());
+}
+
+/**
+ * Checks whether a day spec ("Mon", "Mon-Fri", "Fri-Mon") includes a weekday.
+ *
+ * @param first - First day of the spec
+ * @param last - Last day of the spec (same as first for a single day)
+ * @param weekday - Day to check
+ * @returns True if the weekday is in the spec
+ */
+function isDayInSpec(first: number, last: number, weekday: number): boolean {
+  return first <= last
+    ? weekday >= first && weekday <= last
+    : weekday >= first || weekday <= last; // Range wraps past Saturday
+}
+
+/**
+ * Sorts windows by start time and joins overlapping or touching ones.
+ *
+ * @param windows - Windows in any order
+ * @returns Sorted windows without overlaps
+ */
+function mergeWindows(windows: TimeWindow[]): TimeWindow[] {
+  const sorted = [...windows].sort((a, b) => a.startMinutes - b.startMinutes);
+  const merged: TimeWindow[] = [];
+  for (const window of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && window.startMinutes <= last.endMinutes) {
+      last.endMinutes = Math.max(last.endMinutes, window.endMinutes);
+    } else {
+      merged.push({ ...window });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Parses comma-separated time ranges ("09:00-12:00, 13:00-17:00" or "closed").
+ * A range ending at or before its start runs past midnight, so its end is
+ * moved to the next day (e.g., 18:00-02:00 ends at 26:00).
+ *
+ * @param value - Time ranges text
+ * @returns Time ranges (empty if closed), or null if invalid
+ */
+function parseTimeRanges(value: string): TimeWindow[] | null {
+  if (value.trim().toLowerCase() === 'closed') {
+    return [];
+  }
+
+  const windows: TimeWindow[] = [];
+  for (const range of value.split(',')) {
+    const [startText, endText] = range.split('-');
+    if (startText === undefined || endText === undefined) {
+      return null;
+    }
+
+    const startMinutes = parseClockTime(startText);
+    const endMinutes = parseClockTime(endText);
+    if (startMinutes === null || endMinutes === null) {
+      return null;
+    }
+
+    windows.push({
+      startMinutes,
+      endMinutes: endMinutes <= startMinutes ? endMinutes + MINUTES_PER_DAY : endMinutes,
+    });
+  }
+
+  return windows;
+}
+
+/**
+ * Gets the time ranges that open on a weekday: the day-specific segments
+ * that include it, or the every-day segment if none do.
+ *
+ * @param segments - Parsed opening hours segments
+ * @param weekday - Day of the week (0 = Sunday)
+ * @returns Ranges opening that day (empty if closed)
+ */
+function getRangesOpeningOn(segments: HoursSegment[], weekday: number): TimeWindow[] {
+  const daySegments = segments.filter(
+    (segment) => segment.days && isDayInSpec(segment.days.first, segment.days.last, weekday)
+  );
+  if (daySegments.length > 0) {
+    return daySegments.flatMap((segment) => segment.ranges);
+  }
+
+  // Days not mentioned by any day-specific segment fall back to the every-day hours,
+  // and are closed if the text only lists specific days
+  const everyDaySegment = [...segments].reverse().find((segment) => segment.days === null);
+  return everyDaySegment?.ranges ?? [];
+}
+
+/**
+ * Parses sheet opening hours text into the windows for one date.
+ *
+ * @param text - Opening hours text from the sheet
+ * @param date - Date in YYYY-MM-DD format
+ * @returns Windows on that date (empty if closed), or null if the hours are unknown or unreadable
+ *
+ * Ranges opening on the date are cut at midnight; ranges that opened the
+ * day before and run past midnight add an early-morning window.
+ *
+ * @example
+ * ```typescript
+ * parseOpeningHours('Mon-Fri 09:00-17:00; Sat closed', '2025-10-13');
+ * // [{ startMinutes: 540, endMinutes: 1020 }] (a Monday)
+ * parseOpeningHours('Fri 18:00-02:00', '2025-10-18');
+ * // [{ startMinutes: 0, endMinutes: 120 }] (a Saturday)
+ * ```
+ */
+export function parseOpeningHours(text: string | undefined, date: string): TimeWindow[] | null {
+  if (!text || !text.trim()) {
+    return null;
+  }
+
+  const segments: HoursSegment[] = [];
+
+  for (const segment of text.split(';')) {
+    const trimmed = segment.trim();
+    if (!trimmed) {
+      continue;
+    }
+
+    const daySpec = trimmed.match(/^([A-Za-z]+)(?:\s*-\s*([A-Za-z]+))?\s+(.+)$/);
+    const firstDay = daySpec ? parseDay(daySpec[1]) : -1;
+
+    if (daySpec && firstDay !== -1) {
+      const lastDay = daySpec[2] ? parseDay(daySpec[2]) : firstDay;
+      const windows = parseTimeRanges(daySpec[3]);
+      if (lastDay === -1 || windows === null) {
+        console.warn(`[OpeningHours] Unable to read opening hours: "${text}"`);
+        return null;
+      }
+      segments.push({ days: { first: firstDay, last: lastDay }, ranges: windows });
+    } else {
+      const windows = parseTimeRanges(trimmed);
+      if (windows === null) {
+        console.warn(`[OpeningHours] Unable to read opening hours: "${text}"`);
+        return null;
+      }
+      segments.push({ days: null, ranges: windows });
+    }
+  }
+
+  const weekday = getWeekday(date);
+  const todayWindows = getRangesOpeningOn(segments, weekday).map((range) => ({
+    startMinutes: range.startMinutes,
+    endMinutes: Math.min(range.endMinutes, MINUTES_PER_DAY),
+  }));
+  const carryOverWindows = getRangesOpeningOn(segments, (weekday + 6) % 7)
+    .filter((range) => range.endMinutes > MINUTES_PER_DAY)
+    .map((range) => ({ startMinutes: 0, endMinutes: range.endMinutes - MINUTES_PER_DAY }));
+
+  return mergeWindows([...carryOverWindows, ...todayWindows]);
+}
+
+/**
+ * Converts Places opening periods into the windows for one weekday.
+ * Each period is placed on the week (minutes after Sunday 00:00) and cut to
+ * the day, so periods that opened the day before and close after midnight
+ * add an early-morning window. A period without a close time is how Places
+ * describes a place open 24/7, so it covers every day.
+ *
+ * @param periods - Opening periods from Places
+ * @param weekday - Day of the week (0 = Sunday)
+ * @returns Windows on that day (empty if closed)
+ */
+function periodsToWindows(
+  periods: google.maps.places.OpeningHoursPeriod[],
+  weekday: number
+): TimeWindow[] {
+  const windows = periods.flatMap((period): TimeWindow[] => {
+    if (!period.close) {
+      return [{ startMinutes: 0, endMinutes: MINUTES_PER_DAY }];
+    }
+
+    const opensAt = period.open.day * MINUTES_PER_DAY + period.open.hour * 60 + period.open.minute;
+    let closesAt = period.close.day * MINUTES_PER_DAY + period.close.hour * 60 + period.close.minute;
+    if (closesAt <= opensAt) {
+      closesAt += MINUTES_PER_WEEK; // Closes in the following week (e.g., Saturday night to Sunday)
+    }
+
+    // Check this week's day and next week's, for periods that wrap past Saturday
+    return [0, MINUTES_PER_WEEK].flatMap((weekOffset): TimeWindow[] => {
+      const dayStart = weekday * MINUTES_PER_DAY + weekOffset;
+      const start = Math.max(opensAt, dayStart);
+      const end = Math.min(closesAt, dayStart + MINUTES_PER_DAY);
+      return end > start ? [{ startMinutes: start - dayStart, endMinutes: end - dayStart }] : [];
+    });
+  });
+
+  return mergeWindows(windows);
+}
+
+/**
+ * Looks up a place's opening windows for one date from Google Places.
+ * Results are cached per place for the rest of the session.
+ *
+ * Requires the Maps JavaScript API to be loaded and Places API (New) enabled.
+ *
+ * @param placeId - Google Places identifier
+ * @param date - Date in YYYY-MM-DD format
+ * @returns Windows on that date, or null if the place lists no hours or the lookup fails
+ */
+export async function fetchPlaceOpeningWindows(
+  placeId: string,
+  date: string
+): Promise<TimeWindow[] | null> {
+  if (!(placeId in placesHoursCache)) {
+    try {
+      const { Place } = await importLibrary('places');
+      const place = new Place({ id: placeId });
+      await place.fetchFields({ fields: ['regularOpeningHours'] });
+      placesHoursCache[placeId] = place.regularOpeningHours?.periods ?? null;
+    } catch (error) {
+      console.warn(`[OpeningHours] Places lookup failed for ${placeId}:`, error);
+      return null;
+    }
+  }
+
+  const periods = placesHoursCache[placeId];
+  return periods ? periodsToWindows(periods, getWeekday(date)) : null;
+}
+
+/**
+ * Resolves the opening windows of each location on a date.
+ * Sheet hours take priority; Places is only asked when enabled and the sheet
+ * has no hours. Locations with unknown hours are left out (always open).
+ *
+ * @param locations - Locations to resolve
+ * @param date - Date in YYYY-MM-DD format
+ * @param usePlaces - Whether to look up missing hours from Google Places
+ * @returns Opening windows keyed by location ID
+ *
+ * @example
+ * ```typescript
+ * const windows = await resolveOpeningWindows(candidates, '2025-10-13', true);
+ * ```
+ */
+export async function resolveOpeningWindows(
+  locations: Location[],
+  date: string,
+  usePlaces: boolean
+): Promise<Record<number, TimeWindow[]>> {
+  const windowsById: Record<number, TimeWindow[]> = {};
+
+  await Promise.all(
+    locations.map(async (location) => {
+      let windows = parseOpeningHours(location.openingHours, date);
+      if (windows === null && usePlaces && location.placeId) {
+        windows = await fetchPlaceOpeningWindows(location.placeId, date);
+      }
+      if (windows !== null) {
+        windowsById[location.id] = windows;
+      }
+    })
+  );
+
+  return windowsById;
+}
@@ -0,0 +1,150 @@
+/**
+ * Proximity Search
+ *
+ * Finds locations within a radius of a point, closest first, and groups
+ * locations that share (nearly) the same coordinates.
+ * Straight-line (Haversine) distance is used, so results are quick to
+ * compute on every position update but ignore the road network.
+ *
+ * @module proximity
+ */
+
+import type { Coordinates } from '@/types/google';
+import type { Location } from '@/types/location';
+import { calculateDistance } from '@/types/google';
+
+/**
+ * A location with its distance from the search origin.
+ */
+export interface NearbyLocation {
+  /** The matching location */
+  location: Location;
+  /** Straight-line distance from the origin in kilometers */
+  distanceKm: number;
+}
+
+/**
+ * Finds the locations within a radius of a point, sorted by distance.
+ * Locations without coordinates are ignored.
+ *
+ * @param origin - Search origin (e.g., the rep's position)
+ * @param locations - Locations to search
+ * @param radiusKm - Search radius in kilometers
+ * @returns Matching locations, closest first
+ *
+ * @example
+ * ```typescript
+ * const nearby = findNearbyLocations(userLocation, locations, 2);
+ * // [{ location, distanceKm: 0.4 }, ...]
+ * ```
+ */
+export function findNearbyLocations(
+  origin: Coordinates,
+  locations: Location[],
+  radiusKm: number
+): NearbyLocation[] {
+  return locations
+    .filter((location) => location.lat && location.lng)
+    .map((location) => ({
+      location,
+      distanceKm: calculateDistance(origin, location),
+    }))
+    .filter(({ distanceKm }) => distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+/**
+ * Finds the closest locations to a point, regardless of distance.
+ *
+ * @param origin - Search origin
+ * @param locations - Locations to search
+ * @param limit - Maximum number of locations to return
+ * @returns Up to `limit` locations, closest first
+ *
+ * @example
+ * ```typescript
+ * const [closest] = findClosestLocations(savedLocation, prospects, 3);
+ * ```
+ */
+export function findClosestLocations(
+  origin: Coordinates,
+  locations: Location[],
+  limit: number
+): NearbyLocation[] {
+  return findNearbyLocations(origin, locations, Infinity).slice(0, limit);
+}
+
+/**
+ * Groups locations that sit at (nearly) the same point, such as several
+ * businesses in one strip mall or office building geocoded to one address.
+ * Locations are grouped transitively: if A is close to B and B to C, all
+ * three share a group. Locations without coordinates are ignored.
+ *
+ * @param locations - Locations to group
+ * @param radiusMeters - Maximum distance between neighbors in a group
+ * @returns Group for each location that shares its point with others,
+ *   keyed by location ID (the same array for every member)
+ *
+ * @example
+ * ```typescript
+ * const groups = groupCoLocatedLocations(locations, 15);
+ * const stack = groups.get(location.id); // undefined if the marker stands alone
+ * ```
+ */
+export function groupCoLocatedLocations(
+  locations: Location[],
+  radiusMeters: number
+): Map<number, Location[]> {
+  const placed = locations.filter((location) => location.lat && location.lng);
+
+  // Bucket locations into grid cells about one radius tall
+  const cellDegrees = radiusMeters / 111320;
+  const cellKey = (row: number, col: number): string => `${row}:${col}`;
+  const cells = new Map<string, number[]>();
+  placed.forEach((location, index) => {
+    const key = cellKey(Math.floor(location.lat / cellDegrees), Math.floor(location.lng / cellDegrees));
+    cells.set(key, [...(cells.get(key) ?? []), index]);
+  });
+
+  // Union-find over neighbors within the radius
+  const parents = placed.map((_, index) => index);
+  const findRoot = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+
+  placed.forEach((location, index) => {
+    const row = Math.floor(location.lat / cellDegrees);
+    const col = Math.floor(location.lng / cellDegrees);
+    // A degree of longitude shrinks away from the equator, so look further east and west
+    const colReach = Math.ceil(1 / Math.max(Math.cos((location.lat * Math.PI) / 180), 0.01));
+
+    for (let dRow = -1; dRow <= 1; dRow++) {
+      for (let dCol = -colReach; dCol <= colReach; dCol++) {
+        for (const other of cells.get(cellKey(row + dRow, col + dCol)) ?? []) {
+          if (other > index && calculateDistance(location, placed[other]) * 1000 <= radiusMeters) {
+            parents[findRoot(other)] = findRoot(index);
+          }
+        }
+      }
+    }
+  });
+
+  const members = new Map<number, Location[]>();
+  placed.forEach((location, index) => {
+    const root = findRoot(index);
+    members.set(root, [...(members.get(root) ?? []), location]);
+  });
+
+  const groups = new Map<number, Location[]>();
+  members.forEach((group) => {
+    if (group.length > 1) {
+      group.forEach((location) => groups.set(location.id, group));
+    }
+  });
+
+  return groups;
+}
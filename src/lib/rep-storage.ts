@@ -0,0 +1,44 @@
+/**
+ * Rep Name Storage
+ *
+ * The app has no sign-in, so the rep's name is entered once and kept in
+ * localStorage. Saved routes are stored and looked up under this name.
+ *
+ * @module rep-storage
+ */
+
+/**
+ * localStorage key for the rep name.
+ */
+const REP_NAME_STORAGE_KEY = 'map-route:rep-name';
+
+/**
+ * Gets the stored rep name.
+ *
+ * @returns Rep name, or an empty string if none is stored (or storage is unavailable)
+ *
+ * @example
+ * ```typescript
+ * const rep = getStoredRepName();
+ * ```
+ */
+export function getStoredRepName(): string {
+  try {
+    return window.localStorage.getItem(REP_NAME_STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Stores the rep name for future sessions.
+ *
+ * @param name - Rep name
+ */
+export function storeRepName(name: string): void {
+  try {
+    window.localStorage.setItem(REP_NAME_STORAGE_KEY, name.trim());
+  } catch (error) {
+    console.warn('[RepStorage] Unable to store rep name:', error);
+  }
+}
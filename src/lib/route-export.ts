@@ -0,0 +1,225 @@
+/**
+ * Route Export
+ *
+ * Turns a planned route into formats reps can use outside the app:
+ * - Multi-stop Google Maps links (split so each stays under the waypoint cap)
+ * - Multi-stop Apple Maps links (split the same way)
+ * - GPX 1.1 route file for in-car navigation units
+ *
+ * @module route-export
+ */
+
+import type { Location } from '@/types/location';
+import type { RouteStartPoint } from '@/types/route';
+import { DIRECTIONS_CONFIG } from '@/lib/constants';
+
+/**
+ * One navigation link covering part of a route.
+ */
+export interface RouteLink {
+  /** 1-based part number */
+  part: number;
+  /** Total number of parts the route was split into */
+  totalParts: number;
+  /** Stop numbers (1-based) covered by this link, inclusive */
+  firstStop: number;
+  lastStop: number;
+  /** Link URL */
+  url: string;
+}
+
+/**
+ * A point in a route leg chain: either the start point or a stop.
+ */
+type RoutePoint = RouteStartPoint | Location;
+
+/**
+ * Formats coordinates as a "lat,lng" URL value.
+ *
+ * @param point - Point to format
+ * @returns Coordinate string
+ */
+function toLatLngValue(point: { lat: number; lng: number }): string {
+  return `${point.lat},${point.lng}`;
+}
+
+/**
+ * Gets the text value used for a stop in a Google Maps link.
+ * Stops with a place ID use their address (required fallback for place IDs),
+ * others use coordinates so the pin lands exactly on the marker.
+ *
+ * @param stop - Route stop
+ * @returns Text value for the URL
+ */
+function toGoogleMapsValue(stop: Location): string {
+  return stop.placeId ? stop.address : toLatLngValue(stop);
+}
+
+/**
+ * Splits the stops into consecutive chunks that fit in one link each.
+ * Each link covers its waypoints plus a destination.
+ *
+ * @param stops - Stops in visiting order
+ * @param maxWaypoints - Maximum waypoints per link
+ * @returns Chunks with the origin of each chunk
+ */
+function chunkRoute(
+  start: RouteStartPoint,
+  stops: Location[],
+  maxWaypoints: number
+): Array<{ origin: RoutePoint; stops: Location[]; firstIndex: number }> {
+  const stopsPerLink = maxWaypoints + 1;
+  const chunks: Array<{ origin: RoutePoint; stops: Location[]; firstIndex: number }> = [];
+
+  for (let i = 0; i < stops.length; i += stopsPerLink) {
+    chunks.push({
+      // Each part starts where the previous part ended
+      origin: i === 0 ? start : stops[i - 1],
+      stops: stops.slice(i, i + stopsPerLink),
+      firstIndex: i,
+    });
+  }
+
+  return chunks;
+}
+
+/**
+ * Builds Google Maps directions links for a planned route.
+ * Long routes are split into several links, each under the waypoint cap.
+ *
+ * @param start - Route start point
+ * @param stops - Stops in visiting order
+ * @returns One link per route part (empty if there are no stops)
+ *
+ * @example
+ * ```typescript
+ * const links = buildGoogleMapsRouteLinks(route.start, route.stops);
+ * window.open(links[0].url, '_blank');
+ * ```
+ */
+export function buildGoogleMapsRouteLinks(
+  start: RouteStartPoint,
+  stops: Location[]
+): RouteLink[] {
+  const chunks = chunkRoute(start, stops, DIRECTIONS_CONFIG.GOOGLE_MAPS_MAX_WAYPOINTS);
+
+  return chunks.map((chunk, index) => {
+    const destination = chunk.stops[chunk.stops.length - 1];
+    const waypoints = chunk.stops.slice(0, -1);
+    const origin = 'companyName' in chunk.origin
+      ? toGoogleMapsValue(chunk.origin)
+      : toLatLngValue(chunk.origin);
+
+    const waypointPlaceIds = waypoints.every((stop) => stop.placeId)
+      ? waypoints.map((stop) => stop.placeId as string)
+      : undefined;
+
+    return {
+      part: index + 1,
+      totalParts: chunks.length,
+      firstStop: chunk.firstIndex + 1,
+      lastStop: chunk.firstIndex + chunk.stops.length,
+      url: DIRECTIONS_CONFIG.GOOGLE_MAPS_ROUTE(
+        origin,
+        toGoogleMapsValue(destination),
+        waypoints.map(toGoogleMapsValue),
+        destination.placeId,
+        waypointPlaceIds
+      ),
+    };
+  });
+}
+
+/**
+ * Builds Apple Maps directions links for a planned route.
+ * Uses the same split as Google Maps so both apps show the same parts.
+ *
+ * @param start - Route start point
+ * @param stops - Stops in visiting order
+ * @returns One link per route part (empty if there are no stops)
+ */
+export function buildAppleMapsRouteLinks(
+  start: RouteStartPoint,
+  stops: Location[]
+): RouteLink[] {
+  const chunks = chunkRoute(start, stops, DIRECTIONS_CONFIG.GOOGLE_MAPS_MAX_WAYPOINTS);
+
+  return chunks.map((chunk, index) => {
+    const destination = chunk.stops[chunk.stops.length - 1];
+    const waypoints = chunk.stops.slice(0, -1);
+
+    return {
+      part: index + 1,
+      totalParts: chunks.length,
+      firstStop: chunk.firstIndex + 1,
+      lastStop: chunk.firstIndex + chunk.stops.length,
+      url: DIRECTIONS_CONFIG.APPLE_MAPS_ROUTE(
+        toLatLngValue(chunk.origin),
+        toLatLngValue(destination),
+        waypoints.map(toLatLngValue)
+      ),
+    };
+  });
+}
+
+/**
+ * Escapes text for use inside XML elements and attributes.
+ *
+ * @param value - Raw text
+ * @returns XML-safe text
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Builds a GPX 1.1 document containing the route as a <rte>.
+ * The start point is the first route point, followed by each stop.
+ *
+ * @param start - Route start point
+ * @param stops - Stops in visiting order
+ * @param name - Route name (e.g., "Follow-ups 2025-10-13")
+ * @returns GPX XML string
+ *
+ * @example
+ * ```typescript
+ * const gpx = buildRouteGpx(route.start, route.stops, 'Follow-ups 2025-10-13');
+ * const blob = new Blob([gpx], { type: 'application/gpx+xml' });
+ * ```
+ */
+export function buildRouteGpx(
+  start: RouteStartPoint,
+  stops: Location[],
+  name: string
+): string {
+  const routePoints = [
+    `    <rtept lat="${start.lat}" lon="${start.lng}">\n      <name>${escapeXml(start.label)}</name>\n    </rtept>`,
+    ...stops.map(
+      (stop, index) =>
+        `    <rtept lat="${stop.lat}" lon="${stop.lng}">\n` +
+        `      <name>${escapeXml(`${index + 1}. ${stop.companyName}`)}</name>\n` +
+        `      <desc>${escapeXml(stop.address)}</desc>\n` +
+        `    </rtept>`
+    ),
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Map Route" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    <name>${escapeXml(name)}</name>`,
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>',
+    '  <rte>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...routePoints,
+    '  </rte>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,167 @@
+/**
+ * Route Optimizer
+ *
+ * Builds a visit order for a set of locations starting from a given point.
+ * The order is seeded with a nearest-neighbour tour and then improved with
+ * 2-opt edge swaps. Straight-line (Haversine) distance is used as the cost.
+ *
+ * The route is open: it ends at the last stop instead of returning to the start.
+ *
+ * @module route-optimizer
+ */
+
+import type { Coordinates } from '@/types/google';
+import type { Location } from '@/types/location';
+import type { OptimizedRoute, RouteStartPoint } from '@/types/route';
+import { calculateDistance } from '@/types/google';
+
+/**
+ * Safety cap on 2-opt passes so very large inputs always terminate quickly.
+ */
+const MAX_TWO_OPT_PASSES = 50;
+
+/**
+ * Minimum improvement (km) for a 2-opt swap to be accepted.
+ * Avoids endless swaps caused by floating point noise.
+ */
+const TWO_OPT_EPSILON_KM = 1e-9;
+
+/**
+ * Calculates the total length of an open path through the given points.
+ *
+ * @param points - Points in visiting order
+ * @returns Path length in kilometers
+ *
+ * @example
+ * ```typescript
+ * const km = calculatePathDistance([start, stopA, stopB]);
+ * ```
+ */
+export function calculatePathDistance(points: Coordinates[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += calculateDistance(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+/**
+ * Orders locations by repeatedly visiting the closest unvisited one.
+ *
+ * @param start - Starting coordinates
+ * @param locations - Locations to order
+ * @returns Locations in nearest-neighbour order
+ */
+function buildNearestNeighbourOrder(
+  start: Coordinates,
+  locations: Location[]
+): Location[] {
+  const remaining = [...locations];
+  const ordered: Location[] = [];
+  let current: Coordinates = start;
+
+  while (remaining.length > 0) {
+    let nearestIndex = 0;
+    let nearestDistance = Infinity;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const distance = calculateDistance(current, remaining[i]);
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearestIndex = i;
+      }
+    }
+
+    const [nearest] = remaining.splice(nearestIndex, 1);
+    ordered.push(nearest);
+    current = nearest;
+  }
+
+  return ordered;
+}
+
+/**
+ * Improves an open tour with 2-opt: reverses any segment whose reversal
+ * shortens the path, until no improving swap remains.
+ *
+ * The start point is fixed at index 0 and never moved. Because the route is
+ * open, reversing a segment that reaches the end only replaces one edge.
+ *
+ * @param start - Starting coordinates (fixed)
+ * @param stops - Stops in their initial order
+ * @returns Stops in improved order
+ */
+function improveWithTwoOpt(start: Coordinates, stops: Location[]): Location[] {
+  const tour: Coordinates[] = [start, ...stops];
+  const order = stops.map((_, index) => index + 1);
+  const point = (position: number): Coordinates => tour[position === 0 ? 0 : order[position - 1]];
+  const length = order.length + 1;
+
+  let improved = true;
+  let passes = 0;
+
+  while (improved && passes < MAX_TWO_OPT_PASSES) {
+    improved = false;
+    passes++;
+
+    for (let i = 1; i < length - 1; i++) {
+      for (let k = i + 1; k < length; k++) {
+        const before = point(i - 1);
+        const first = point(i);
+        const last = point(k);
+        const after = k + 1 < length ? point(k + 1) : null;
+
+        const currentCost =
+          calculateDistance(before, first) +
+          (after ? calculateDistance(last, after) : 0);
+        const swappedCost =
+          calculateDistance(before, last) +
+          (after ? calculateDistance(first, after) : 0);
+
+        if (swappedCost < currentCost - TWO_OPT_EPSILON_KM) {
+          // Reverse order[i-1 .. k-1] (tour positions i .. k)
+          const segment = order.slice(i - 1, k).reverse();
+          order.splice(i - 1, segment.length, ...segment);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order.map((tourIndex) => stops[tourIndex - 1]);
+}
+
+/**
+ * Builds an optimized visit order for the given locations.
+ *
+ * Locations without valid coordinates (lat/lng of 0) are skipped, since they
+ * cannot be placed on a route until geocoding has filled them in.
+ *
+ * @param start - Where the route begins
+ * @param locations - Locations to visit
+ * @returns Optimized route with stops in visiting order
+ *
+ * @example
+ * ```typescript
+ * const route = optimizeRoute(
+ *   { type: 'home-base', label: 'Home Base', lat: 40.71, lng: -74.0 },
+ *   todaysFollowUps
+ * );
+ * route.stops.forEach((stop, i) => console.log(`${i + 1}. ${stop.companyName}`));
+ * ```
+ */
+export function optimizeRoute(
+  start: RouteStartPoint,
+  locations: Location[]
+): OptimizedRoute {
+  const routable = locations.filter((loc) => loc.lat !== 0 && loc.lng !== 0);
+
+  const seeded = buildNearestNeighbourOrder(start, routable);
+  const stops = improveWithTwoOpt(start, seeded);
+
+  return {
+    start,
+    stops,
+    totalDistanceKm: calculatePathDistance([start, ...stops]),
+  };
+}
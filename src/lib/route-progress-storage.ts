@@ -0,0 +1,74 @@
+/**
+ * Route Progress Storage
+ *
+ * Keeps the route the rep is driving in localStorage, so reloading the page
+ * (or the phone dropping the tab) resumes at the same stop.
+ *
+ * @module route-progress-storage
+ */
+
+import type { RouteProgress } from '@/types/route';
+
+/**
+ * localStorage key for the route in progress.
+ */
+const ROUTE_PROGRESS_STORAGE_KEY = 'map-route:route-progress';
+
+/**
+ * Gets the stored route in progress.
+ *
+ * @returns Route progress, or null if none is stored (or it cannot be read)
+ *
+ * @example
+ * ```typescript
+ * const progress = getStoredRouteProgress();
+ * if (progress) {
+ *   setRoutePlan(progress.plan);
+ * }
+ * ```
+ */
+export function getStoredRouteProgress(): RouteProgress | null {
+  try {
+    const stored = window.localStorage.getItem(ROUTE_PROGRESS_STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    const progress = JSON.parse(stored) as RouteProgress;
+    if (!progress.plan || !Array.isArray(progress.plan.stopIds) || !progress.stops) {
+      console.warn('[RouteProgressStorage] Ignoring unreadable route progress');
+      return null;
+    }
+
+    return {
+      ...progress,
+      plan: { ...progress.plan, unschedulable: progress.plan.unschedulable ?? [] },
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores the route in progress.
+ *
+ * @param progress - Route progress to keep
+ */
+export function storeRouteProgress(progress: RouteProgress): void {
+  try {
+    window.localStorage.setItem(ROUTE_PROGRESS_STORAGE_KEY, JSON.stringify(progress));
+  } catch (error) {
+    console.warn('[RouteProgressStorage] Unable to store route progress:', error);
+  }
+}
+
+/**
+ * Removes the stored route in progress.
+ */
+export function clearStoredRouteProgress(): void {
+  try {
+    window.localStorage.removeItem(ROUTE_PROGRESS_STORAGE_KEY);
+  } catch (error) {
+    console.warn('[RouteProgressStorage] Unable to clear route progress:', error);
+  }
+}
@@ -0,0 +1,426 @@
+/**
+ * Route Scheduler
+ *
+ * Time-window aware route planning. Builds on the distance optimizer but
+ * also respects each location's opening hours, a visit duration per stop and
+ * the working day's start and end time.
+ *
+ * 1. Stops that can never be visited (no coordinates, closed, or only open
+ *    outside the working day) are reported up front.
+ * 2. If the shortest route already meets every window, it is used as is.
+ * 3. Otherwise the route is built greedily by earliest finish time, left-over
+ *    stops are inserted wherever they still fit, and the result is shortened
+ *    with 2-opt swaps that keep every window.
+ *
+ * Stops that still cannot be fitted are reported as unschedulable instead of
+ * being silently added to the route.
+ *
+ * @module route-scheduler
+ */
+
+import type { Coordinates } from '@/types/google';
+import type { Location } from '@/types/location';
+import type {
+  RouteScheduleSettings,
+  RouteStartPoint,
+  ScheduledRoute,
+  TimeWindow,
+  UnschedulableStop,
+} from '@/types/route';
+import { calculateDistance } from '@/types/google';
+import { calculatePathDistance, optimizeRoute } from '@/lib/route-optimizer';
+import { parseClockTime } from '@/lib/opening-hours';
+import { formatLocalIsoDate } from '@/lib/format';
+import { ROUTING_CONFIG } from '@/lib/constants';
+
+/**
+ * Safety cap on 2-opt passes so very large inputs always terminate quickly.
+ */
+const MAX_TWO_OPT_PASSES = 20;
+
+/**
+ * Timing of one stop on a route.
+ */
+export interface StopTiming {
+  /** Arrival time in minutes after midnight */
+  arrivalMinutes: number;
+  /** Visit start time (after waiting for the stop to open) */
+  visitStartMinutes: number;
+  /** True if the visit does not fit in any opening window */
+  isOutsideHours: boolean;
+  /** True if the visit ends after the working day */
+  isAfterDayEnd: boolean;
+}
+
+/**
+ * Gets the working day bounds from the schedule settings.
+ *
+ * @param settings - Schedule settings
+ * @returns Day start and end in minutes after midnight
+ */
+function getDayBounds(settings: RouteScheduleSettings): { dayStart: number; dayEnd: number } {
+  return {
+    dayStart: parseClockTime(settings.dayStart) ?? (parseClockTime(ROUTING_CONFIG.DEFAULT_DAY_START) as number),
+    dayEnd: parseClockTime(settings.dayEnd) ?? (parseClockTime(ROUTING_CONFIG.DEFAULT_DAY_END) as number),
+  };
+}
+
+/**
+ * Gets the time the route departs: the day start, or now if the route is for
+ * today and the day has already started.
+ *
+ * @param date - Route date in YYYY-MM-DD format
+ * @param settings - Schedule settings
+ * @param now - Current time
+ * @returns Departure time in minutes after midnight
+ *
+ * @example
+ * ```typescript
+ * const departure = getDepartureMinutes('2025-10-13', settings, new Date());
+ * ```
+ */
+export function getDepartureMinutes(
+  date: string,
+  settings: RouteScheduleSettings,
+  now: Date
+): number {
+  const { dayStart } = getDayBounds(settings);
+  if (date !== formatLocalIsoDate(now)) {
+    return dayStart;
+  }
+  return Math.max(dayStart, now.getHours() * 60 + now.getMinutes());
+}
+
+/**
+ * Works out the arrival and visit times along a route.
+ *
+ * Each stop is visited in the first opening window it can be finished in,
+ * waiting for the stop to open if the rep arrives early. Stops without
+ * windows are treated as always open.
+ *
+ * @param departureMinutes - Departure time in minutes after midnight
+ * @param travelMinutes - Travel time of each leg; travelMinutes[i] leads to stop i
+ * @param windows - Opening windows of each stop (undefined if always open)
+ * @param settings - Schedule settings (visit duration and day end)
+ * @returns Timing of each stop
+ *
+ * @example
+ * ```typescript
+ * const timeline = buildStopTimeline(540, legs.map((leg) => leg.durationMinutes), windows, settings);
+ * ```
+ */
+export function buildStopTimeline(
+  departureMinutes: number,
+  travelMinutes: number[],
+  windows: Array<TimeWindow[] | undefined>,
+  settings: RouteScheduleSettings
+): StopTiming[] {
+  const { dayEnd } = getDayBounds(settings);
+  const timeline: StopTiming[] = [];
+  let time = departureMinutes;
+
+  for (let i = 0; i < travelMinutes.length; i++) {
+    const arrivalMinutes = time + travelMinutes[i];
+    let visitStartMinutes = arrivalMinutes;
+    let isOutsideHours = false;
+
+    const stopWindows = windows[i];
+    if (stopWindows) {
+      const window = stopWindows.find(
+        (w) => Math.max(arrivalMinutes, w.startMinutes) + settings.visitMinutes <= w.endMinutes
+      );
+      if (window) {
+        visitStartMinutes = Math.max(arrivalMinutes, window.startMinutes);
+      } else {
+        isOutsideHours = true;
+      }
+    }
+
+    time = visitStartMinutes + settings.visitMinutes;
+    timeline.push({
+      arrivalMinutes,
+      visitStartMinutes,
+      isOutsideHours,
+      isAfterDayEnd: time > dayEnd,
+    });
+  }
+
+  return timeline;
+}
+
+/**
+ * Estimates straight-line travel time between two points.
+ *
+ * @param from - Start point
+ * @param to - End point
+ * @returns Travel time in minutes
+ */
+function estimateTravelMinutes(from: Coordinates, to: Coordinates): number {
+  return (calculateDistance(from, to) / ROUTING_CONFIG.AVERAGE_SPEED_KMH) * 60;
+}
+
+/**
+ * Simulates a stop order and checks that every stop fits.
+ *
+ * @param start - Route start point
+ * @param stops - Stops in visiting order
+ * @param windowsById - Opening windows keyed by location ID
+ * @param settings - Schedule settings
+ * @param departureMinutes - Departure time in minutes after midnight
+ * @returns Stop timings, and whether every stop fits its windows and the day
+ */
+function simulate(
+  start: Coordinates,
+  stops: Location[],
+  windowsById: Record<number, TimeWindow[]>,
+  settings: RouteScheduleSettings,
+  departureMinutes: number
+): { timeline: StopTiming[]; isFeasible: boolean } {
+  const points: Coordinates[] = [start, ...stops];
+  const travelMinutes = stops.map((_, i) => estimateTravelMinutes(points[i], points[i + 1]));
+  const timeline = buildStopTimeline(
+    departureMinutes,
+    travelMinutes,
+    stops.map((stop) => windowsById[stop.id]),
+    settings
+  );
+
+  return {
+    timeline,
+    isFeasible: timeline.every((timing) => !timing.isOutsideHours && !timing.isAfterDayEnd),
+  };
+}
+
+/**
+ * Builds a route greedily: from the current point, always visit the stop
+ * that can be finished soonest.
+ *
+ * @param start - Route start point
+ * @param stops - Stops to order
+ * @param windowsById - Opening windows keyed by location ID
+ * @param settings - Schedule settings
+ * @param departureMinutes - Departure time in minutes after midnight
+ * @returns Stops that fit, in visiting order, and the stops left over
+ */
+function buildEarliestFinishOrder(
+  start: Coordinates,
+  stops: Location[],
+  windowsById: Record<number, TimeWindow[]>,
+  settings: RouteScheduleSettings,
+  departureMinutes: number
+): { ordered: Location[]; leftOver: Location[] } {
+  const remaining = [...stops];
+  const ordered: Location[] = [];
+  let current: Coordinates = start;
+  let time = departureMinutes;
+
+  while (remaining.length > 0) {
+    let bestIndex = -1;
+    let bestFinish = Infinity;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const [timing] = buildStopTimeline(
+        time,
+        [estimateTravelMinutes(current, remaining[i])],
+        [windowsById[remaining[i].id]],
+        settings
+      );
+      const finish = timing.visitStartMinutes + settings.visitMinutes;
+      if (!timing.isOutsideHours && !timing.isAfterDayEnd && finish < bestFinish) {
+        bestFinish = finish;
+        bestIndex = i;
+      }
+    }
+
+    if (bestIndex === -1) {
+      break;
+    }
+
+    const [next] = remaining.splice(bestIndex, 1);
+    ordered.push(next);
+    current = next;
+    time = bestFinish;
+  }
+
+  return { ordered, leftOver: remaining };
+}
+
+/**
+ * Tries to insert each left-over stop at the position that keeps the route
+ * feasible with the shortest distance.
+ *
+ * @param start - Route start point
+ * @param ordered - Feasible stops in visiting order
+ * @param leftOver - Stops to insert
+ * @param windowsById - Opening windows keyed by location ID
+ * @param settings - Schedule settings
+ * @param departureMinutes - Departure time in minutes after midnight
+ * @returns Route with inserted stops, and the stops that still do not fit
+ */
+function insertLeftOverStops(
+  start: Coordinates,
+  ordered: Location[],
+  leftOver: Location[],
+  windowsById: Record<number, TimeWindow[]>,
+  settings: RouteScheduleSettings,
+  departureMinutes: number
+): { ordered: Location[]; leftOver: Location[] } {
+  let route = ordered;
+  const stillLeftOver: Location[] = [];
+
+  for (const stop of leftOver) {
+    let bestRoute: Location[] | null = null;
+    let bestDistance = Infinity;
+
+    for (let position = 0; position <= route.length; position++) {
+      const candidate = [...route.slice(0, position), stop, ...route.slice(position)];
+      if (!simulate(start, candidate, windowsById, settings, departureMinutes).isFeasible) {
+        continue;
+      }
+      const distance = calculatePathDistance([start, ...candidate]);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestRoute = candidate;
+      }
+    }
+
+    if (bestRoute) {
+      route = bestRoute;
+    } else {
+      stillLeftOver.push(stop);
+    }
+  }
+
+  return { ordered: route, leftOver: stillLeftOver };
+}
+
+/**
+ * Shortens a feasible route with 2-opt segment reversals, accepting only
+ * reversals that keep every stop within its windows.
+ *
+ * @param start - Route start point
+ * @param stops - Feasible stops in visiting order
+ * @param windowsById - Opening windows keyed by location ID
+ * @param settings - Schedule settings
+ * @param departureMinutes - Departure time in minutes after midnight
+ * @returns Stops in improved order
+ */
+function improveFeasibleRoute(
+  start: Coordinates,
+  stops: Location[],
+  windowsById: Record<number, TimeWindow[]>,
+  settings: RouteScheduleSettings,
+  departureMinutes: number
+): Location[] {
+  let route = stops;
+  let bestDistance = calculatePathDistance([start, ...route]);
+  let improved = true;
+  let passes = 0;
+
+  while (improved && passes < MAX_TWO_OPT_PASSES) {
+    improved = false;
+    passes++;
+
+    for (let i = 0; i < route.length - 1; i++) {
+      for (let k = i + 1; k < route.length; k++) {
+        const candidate = [
+          ...route.slice(0, i),
+          ...route.slice(i, k + 1).reverse(),
+          ...route.slice(k + 1),
+        ];
+        const distance = calculatePathDistance([start, ...candidate]);
+        if (
+          distance < bestDistance &&
+          simulate(start, candidate, windowsById, settings, departureMinutes).isFeasible
+        ) {
+          route = candidate;
+          bestDistance = distance;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return route;
+}
+
+/**
+ * Plans a route that respects opening hours, visit duration and the working day.
+ *
+ * @param start - Where the route begins
+ * @param locations - Locations to visit
+ * @param windowsById - Opening windows keyed by location ID (missing = always open)
+ * @param settings - Schedule settings
+ * @param departureMinutes - Departure time in minutes after midnight
+ * @returns Scheduled route with visit times and the stops that do not fit
+ *
+ * @example
+ * ```typescript
+ * const windows = await resolveOpeningWindows(candidates, date, false);
+ * const route = scheduleRoute(start, candidates, windows, settings, getDepartureMinutes(date, settings, new Date()));
+ * route.unschedulable.forEach(({ locationId, reason }) => console.log(locationId, reason));
+ * ```
+ */
+export function scheduleRoute(
+  start: RouteStartPoint,
+  locations: Location[],
+  windowsById: Record<number, TimeWindow[]>,
+  settings: RouteScheduleSettings,
+  departureMinutes: number
+): ScheduledRoute {
+  const { dayStart, dayEnd } = getDayBounds(settings);
+  const unschedulable: UnschedulableStop[] = [];
+  const candidates: Location[] = [];
+
+  // Report stops that can never be visited today
+  for (const location of locations) {
+    const windows = windowsById[location.id];
+
+    if (location.lat === 0 || location.lng === 0) {
+      unschedulable.push({ locationId: location.id, reason: 'no-coordinates' });
+    } else if (windows && windows.length === 0) {
+      unschedulable.push({ locationId: location.id, reason: 'closed' });
+    } else if (
+      windows &&
+      !windows.some(
+        (w) =>
+          Math.min(w.endMinutes, dayEnd) - Math.max(w.startMinutes, dayStart, departureMinutes) >=
+          settings.visitMinutes
+      )
+    ) {
+      unschedulable.push({ locationId: location.id, reason: 'outside-day' });
+    } else {
+      candidates.push(location);
+    }
+  }
+
+  // The shortest route is used whenever it already meets every window
+  let stops = optimizeRoute(start, candidates).stops;
+
+  if (!simulate(start, stops, windowsById, settings, departureMinutes).isFeasible) {
+    const greedy = buildEarliestFinishOrder(start, candidates, windowsById, settings, departureMinutes);
+    const inserted = insertLeftOverStops(
+      start,
+      greedy.ordered,
+      greedy.leftOver,
+      windowsById,
+      settings,
+      departureMinutes
+    );
+
+    stops = improveFeasibleRoute(start, inserted.ordered, windowsById, settings, departureMinutes);
+    inserted.leftOver.forEach((location) =>
+      unschedulable.push({ locationId: location.id, reason: 'does-not-fit' })
+    );
+  }
+
+  const { timeline } = simulate(start, stops, windowsById, settings, departureMinutes);
+
+  return {
+    start,
+    stops,
+    totalDistanceKm: calculatePathDistance([start, ...stops]),
+    visitStartMinutes: timeline.map((timing) => timing.visitStartMinutes),
+    unschedulable,
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Route Request Validation
+ *
+ * Validates request bodies for the saved routes API. Shared by
+ * POST /api/routes (all fields required) and PATCH /api/routes/[id]
+ * (any subset of fields).
+ *
+ * @module route-validation
+ */
+
+import type { UpdateRouteRequest } from '@/types/api';
+import { ROUTE_STATUSES, isValidRouteStartType, isValidRouteStatus } from '@/types/route';
+import { VALIDATION, isValidCoordinates } from '@/lib/constants';
+
+/**
+ * Checks that a string is a real date in YYYY-MM-DD format.
+ *
+ * @param value - Date string to check
+ * @returns True if the string is a valid YYYY-MM-DD date
+ */
+export function isValidIsoDate(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return false;
+  }
+
+  // Date.UTC rolls impossible days over (2025-02-31 → March 3), so check nothing moved
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+}
+
+/**
+ * Validates a saved route request body.
+ *
+ * @param body - Request body to validate
+ * @param requireAll - True for creates (date, rep, locationIds and start are required)
+ * @returns Validation error message or null if valid
+ *
+ * @example
+ * ```typescript
+ * const error = validateRouteRequest(body, true);
+ * if (error) {
+ *   // respond with 400
+ * }
+ * ```
+ */
+export function validateRouteRequest(
+  body: UpdateRouteRequest,
+  requireAll: boolean
+): string | null {
+  if (typeof body !== 'object' || body === null) {
+    return 'Request body must be an object';
+  }
+
+  if (requireAll) {
+    if (body.date === undefined || body.rep === undefined ||
+        body.locationIds === undefined || body.start === undefined) {
+      return 'date, rep, locationIds and start are required';
+    }
+  } else if (
+    body.date === undefined && body.rep === undefined && body.locationIds === undefined &&
+    body.start === undefined && body.status === undefined
+  ) {
+    return 'At least one field (date, rep, locationIds, start, or status) must be provided';
+  }
+
+  // Validate date if provided
+  if (body.date !== undefined) {
+    if (typeof body.date !== 'string' || !isValidIsoDate(body.date)) {
+      return 'Date must be a valid date in YYYY-MM-DD format';
+    }
+  }
+
+  // Validate rep if provided
+  if (body.rep !== undefined) {
+    if (typeof body.rep !== 'string' || !body.rep.trim()) {
+      return 'Rep must be a non-empty string';
+    }
+    if (body.rep.length > VALIDATION.MAX_REP_LENGTH) {
+      return `Rep must be ${VALIDATION.MAX_REP_LENGTH} characters or less`;
+    }
+  }
+
+  // Validate location IDs if provided
+  if (body.locationIds !== undefined) {
+    if (!Array.isArray(body.locationIds) ||
+        !body.locationIds.every((id) => Number.isInteger(id) && id > 0)) {
+      return 'locationIds must be an array of positive integers';
+    }
+  }
+
+  // Validate start point if provided
+  if (body.start !== undefined) {
+    const start = body.start;
+    if (typeof start !== 'object' || start === null) {
+      return 'Start must be an object with type, label, lat and lng';
+    }
+    if (typeof start.type !== 'string' || !isValidRouteStartType(start.type)) {
+      return 'Start type must be "my-location" or "home-base"';
+    }
+    if (typeof start.label !== 'string') {
+      return 'Start label must be a string';
+    }
+    if (typeof start.lat !== 'number' || typeof start.lng !== 'number' ||
+        !isValidCoordinates(start.lat, start.lng)) {
+      return 'Start must have valid lat and lng coordinates';
+    }
+  }
+
+  // Validate status if provided
+  if (body.status !== undefined) {
+    if (typeof body.status !== 'string' || !isValidRouteStatus(body.status)) {
+      return `Invalid status value. Must be one of: ${ROUTE_STATUSES.join(', ')}`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,76 @@
+/**
+ * Client-side Saved Routes API
+ *
+ * Thin wrappers around the /api/routes endpoints, used by the page to
+ * list, save, update and delete day plans stored in the "Routes" sheet tab.
+ *
+ * @module routes.client
+ */
+
+import type {
+  CreateRouteRequest,
+  DeleteRouteResponse,
+  GetRoutesResponse,
+  RouteResponse,
+  UpdateRouteRequest,
+} from '@/types/api';
+import type { Route } from '@/types/route';
+import { API_ENDPOINTS, HTTP_METHODS } from '@/lib/constants';
+import { requestJson } from '@/lib/api.client';
+
+/**
+ * Lists the saved routes for a date and rep.
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param rep - Rep name
+ * @returns Saved routes for that date and rep
+ * @throws {Error} If the request fails
+ *
+ * @example
+ * ```typescript
+ * const routes = await fetchSavedRoutes('2025-10-13', 'Alex');
+ * ```
+ */
+export async function fetchSavedRoutes(date: string, rep: string): Promise<Route[]> {
+  const params = new URLSearchParams({ date, rep });
+  const data = await requestJson<GetRoutesResponse>(
+    `${API_ENDPOINTS.ROUTES}?${params.toString()}`,
+    HTTP_METHODS.GET
+  );
+  return data.routes;
+}
+
+/**
+ * Saves a new route.
+ *
+ * @param route - Route to save
+ * @returns The saved route with its ID
+ * @throws {Error} If the request fails
+ */
+export async function createSavedRoute(route: CreateRouteRequest): Promise<Route> {
+  const data = await requestJson<RouteResponse>(API_ENDPOINTS.ROUTES, HTTP_METHODS.POST, route);
+  return data.route;
+}
+
+/**
+ * Updates a saved route.
+ *
+ * @param id - Route ID
+ * @param updates - Fields to update
+ * @returns The updated route
+ * @throws {Error} If the request fails
+ */
+export async function updateSavedRoute(id: number, updates: UpdateRouteRequest): Promise<Route> {
+  const data = await requestJson<RouteResponse>(API_ENDPOINTS.ROUTE(id), HTTP_METHODS.PATCH, updates);
+  return data.route;
+}
+
+/**
+ * Deletes a saved route.
+ *
+ * @param id - Route ID
+ * @throws {Error} If the request fails
+ */
+export async function deleteSavedRoute(id: number): Promise<void> {
+  await requestJson<DeleteRouteResponse>(API_ENDPOINTS.ROUTE(id), HTTP_METHODS.DELETE);
+}
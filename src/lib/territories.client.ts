@@ -0,0 +1,71 @@
+/**
+ * Client-side Territories API
+ *
+ * Thin wrappers around the /api/territories endpoints, used by the page to
+ * list, save, update and delete territory polygons stored in the
+ * "Territories" sheet tab.
+ *
+ * @module territories.client
+ */
+
+import type {
+  CreateTerritoryRequest,
+  DeleteTerritoryResponse,
+  GetTerritoriesResponse,
+  TerritoryResponse,
+  UpdateTerritoryRequest,
+} from '@/types/api';
+import type { Territory } from '@/types/territory';
+import { API_ENDPOINTS, HTTP_METHODS } from '@/lib/constants';
+import { requestJson } from '@/lib/api.client';
+
+/**
+ * Lists all territories.
+ *
+ * @returns Territories in sheet order
+ * @throws {Error} If the request fails
+ *
+ * @example
+ * ```typescript
+ * const territories = await fetchTerritories();
+ * ```
+ */
+export async function fetchTerritories(): Promise<Territory[]> {
+  const data = await requestJson<GetTerritoriesResponse>(API_ENDPOINTS.TERRITORIES, HTTP_METHODS.GET);
+  return data.territories;
+}
+
+/**
+ * Saves a new territory.
+ *
+ * @param territory - Territory to save
+ * @returns The saved territory with its ID
+ * @throws {Error} If the request fails (e.g., the name is already taken)
+ */
+export async function createTerritory(territory: CreateTerritoryRequest): Promise<Territory> {
+  const data = await requestJson<TerritoryResponse>(API_ENDPOINTS.TERRITORIES, HTTP_METHODS.POST, territory);
+  return data.territory;
+}
+
+/**
+ * Updates a territory.
+ *
+ * @param id - Territory ID
+ * @param updates - Fields to update
+ * @returns The updated territory
+ * @throws {Error} If the request fails
+ */
+export async function updateTerritory(id: number, updates: UpdateTerritoryRequest): Promise<Territory> {
+  const data = await requestJson<TerritoryResponse>(API_ENDPOINTS.TERRITORY(id), HTTP_METHODS.PATCH, updates);
+  return data.territory;
+}
+
+/**
+ * Deletes a territory.
+ *
+ * @param id - Territory ID
+ * @throws {Error} If the request fails
+ */
+export async function deleteTerritory(id: number): Promise<void> {
+  await requestJson<DeleteTerritoryResponse>(API_ENDPOINTS.TERRITORY(id), HTTP_METHODS.DELETE);
+}
@@ -0,0 +1,95 @@
+/**
+ * Territory Request Validation
+ *
+ * Validates request bodies for the territories API. Shared by
+ * POST /api/territories (name and polygon required) and
+ * PATCH /api/territories/[id] (any subset of fields).
+ *
+ * @module territory-validation
+ */
+
+import type { UpdateTerritoryRequest } from '@/types/api';
+import { TERRITORY_CONFIG, VALIDATION, isValidCoordinates } from '@/lib/constants';
+
+/**
+ * Validates a territory request body.
+ *
+ * @param body - Request body to validate
+ * @param requireAll - True for creates (name and polygon are required)
+ * @returns Validation error message or null if valid
+ *
+ * @example
+ * ```typescript
+ * const error = validateTerritoryRequest(body, true);
+ * if (error) {
+ *   // respond with 400
+ * }
+ * ```
+ */
+export function validateTerritoryRequest(
+  body: UpdateTerritoryRequest,
+  requireAll: boolean
+): string | null {
+  if (typeof body !== 'object' || body === null) {
+    return 'Request body must be an object';
+  }
+
+  if (requireAll) {
+    if (body.name === undefined || body.polygon === undefined) {
+      return 'name and polygon are required';
+    }
+  } else if (
+    body.name === undefined && body.rep === undefined &&
+    body.color === undefined && body.polygon === undefined
+  ) {
+    return 'At least one field (name, rep, color, or polygon) must be provided';
+  }
+
+  // Validate name if provided
+  if (body.name !== undefined) {
+    if (typeof body.name !== 'string' || !body.name.trim()) {
+      return 'Name must be a non-empty string';
+    }
+    if (body.name.length > TERRITORY_CONFIG.MAX_NAME_LENGTH) {
+      return `Name must be ${TERRITORY_CONFIG.MAX_NAME_LENGTH} characters or less`;
+    }
+    if (body.name.trim().toLowerCase() === TERRITORY_CONFIG.UNASSIGNED) {
+      return `"${TERRITORY_CONFIG.UNASSIGNED}" is reserved and cannot be used as a territory name`;
+    }
+  }
+
+  // Validate rep if provided (empty string unassigns the territory)
+  if (body.rep !== undefined) {
+    if (typeof body.rep !== 'string') {
+      return 'Rep must be a string';
+    }
+    if (body.rep.length > VALIDATION.MAX_REP_LENGTH) {
+      return `Rep must be ${VALIDATION.MAX_REP_LENGTH} characters or less`;
+    }
+  }
+
+  // Validate color if provided
+  if (body.color !== undefined) {
+    if (typeof body.color !== 'string' || !/^#[0-9A-Fa-f]{6}$/.test(body.color)) {
+      return 'Color must be a hex color such as #4285F4';
+    }
+  }
+
+  // Validate polygon if provided
+  if (body.polygon !== undefined) {
+    if (!Array.isArray(body.polygon) || body.polygon.length < TERRITORY_CONFIG.MIN_POINTS) {
+      return `Polygon must be an array of at least ${TERRITORY_CONFIG.MIN_POINTS} points`;
+    }
+    const hasInvalidPoint = body.polygon.some(
+      (point) =>
+        typeof point !== 'object' || point === null ||
+        typeof point.lat !== 'number' || typeof point.lng !== 'number' ||
+        !isValidCoordinates(point.lat, point.lng)
+    );
+    if (hasInvalidPoint) {
+      return 'Every polygon point must have valid lat and lng coordinates';
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,153 @@
+/**
+ * Travel Estimators
+ *
+ * Pluggable sources of route distances and travel times:
+ * - Haversine estimator: offline straight-line distance at an average speed
+ * - Directions estimator: driving distance, time and road geometry from the
+ *   Google Directions service (falls back to Haversine on failure)
+ *
+ * Both implement the TravelEstimator interface from types/route.ts, so the
+ * rest of the app does not need to know where an estimate came from.
+ *
+ * @module travel-estimators
+ */
+
+import { importLibrary } from '@googlemaps/js-api-loader';
+
+import type { Coordinates } from '@/types/google';
+import type { RouteLeg, TravelEstimator } from '@/types/route';
+import { calculateDistance } from '@/types/google';
+import { clientConfig } from '@/lib/client-config';
+import { ROUTING_CONFIG } from '@/lib/constants';
+
+/**
+ * Creates an estimator that uses straight-line (Haversine) distance
+ * and a constant average speed. Works offline and never fails.
+ *
+ * @param averageSpeedKmh - Average travel speed in km/h
+ * @returns Haversine travel estimator
+ *
+ * @example
+ * ```typescript
+ * const estimator = createHaversineEstimator(30);
+ * const legs = await estimator.estimateLegs([start, stopA, stopB]);
+ * ```
+ */
+export function createHaversineEstimator(
+  averageSpeedKmh: number = ROUTING_CONFIG.AVERAGE_SPEED_KMH
+): TravelEstimator {
+  return {
+    name: 'Straight-line estimate',
+    estimateLegs: async (points: Coordinates[]): Promise<RouteLeg[]> => {
+      const legs: RouteLeg[] = [];
+      for (let i = 1; i < points.length; i++) {
+        const distanceKm = calculateDistance(points[i - 1], points[i]);
+        legs.push({
+          distanceKm,
+          durationMinutes: (distanceKm / averageSpeedKmh) * 60,
+          path: [points[i - 1], points[i]],
+        });
+      }
+      return legs;
+    },
+  };
+}
+
+/**
+ * Splits points into overlapping chunks that fit in one Directions request.
+ * The last point of each chunk is the first point of the next one.
+ *
+ * @param points - Points in visiting order
+ * @param maxPoints - Maximum points per chunk
+ * @returns Array of point chunks
+ */
+function chunkPoints(points: Coordinates[], maxPoints: number): Coordinates[][] {
+  const chunks: Coordinates[][] = [];
+  for (let i = 0; i < points.length - 1; i += maxPoints - 1) {
+    chunks.push(points.slice(i, i + maxPoints));
+  }
+  return chunks;
+}
+
+/**
+ * Requests driving legs for one chunk of points from the Directions service.
+ *
+ * @param service - Directions service instance
+ * @param points - Points in visiting order (at most DIRECTIONS_MAX_POINTS)
+ * @returns Legs between consecutive points
+ * @throws {Error} If the Directions request fails
+ */
+async function requestDirectionsLegs(
+  service: google.maps.DirectionsService,
+  points: Coordinates[]
+): Promise<RouteLeg[]> {
+  const result = await service.route({
+    origin: points[0],
+    destination: points[points.length - 1],
+    waypoints: points.slice(1, -1).map((location) => ({ location, stopover: true })),
+    optimizeWaypoints: false,
+    travelMode: google.maps.TravelMode.DRIVING,
+  });
+
+  const route = result.routes[0];
+  if (!route || route.legs.length !== points.length - 1) {
+    throw new Error('Directions response does not match the requested stops');
+  }
+
+  return route.legs.map((leg) => ({
+    distanceKm: (leg.distance?.value ?? 0) / 1000,
+    durationMinutes: (leg.duration?.value ?? 0) / 60,
+    path: leg.steps.flatMap((step) => step.path.map((latLng) => latLng.toJSON())),
+  }));
+}
+
+/**
+ * Creates an estimator backed by the Google Directions service.
+ * Long routes are split into several requests to stay under the waypoint cap.
+ * If any request fails, the whole estimate falls back to the given estimator.
+ *
+ * Requires the Maps JavaScript API to be loaded (the Map component does this)
+ * and the Directions API to be enabled for the API key.
+ *
+ * @param fallback - Estimator used when the Directions service is unavailable
+ * @returns Directions travel estimator
+ */
+export function createDirectionsEstimator(
+  fallback: TravelEstimator = createHaversineEstimator()
+): TravelEstimator {
+  return {
+    name: 'Driving directions',
+    estimateLegs: async (points: Coordinates[]): Promise<RouteLeg[]> => {
+      if (points.length < 2) {
+        return [];
+      }
+
+      try {
+        const { DirectionsService } = await importLibrary('routes');
+        const service = new DirectionsService();
+
+        const legs: RouteLeg[] = [];
+        for (const chunk of chunkPoints(points, ROUTING_CONFIG.DIRECTIONS_MAX_POINTS)) {
+          legs.push(...(await requestDirectionsLegs(service, chunk)));
+        }
+        return legs;
+      } catch (error) {
+        console.warn('[TravelEstimator] Directions request failed, using fallback estimate:', error);
+        return fallback.estimateLegs(points);
+      }
+    },
+  };
+}
+
+/**
+ * Gets the travel estimator selected by configuration.
+ * Uses the Directions service when NEXT_PUBLIC_USE_DIRECTIONS_SERVICE is
+ * enabled, otherwise the offline Haversine estimate.
+ *
+ * @returns Configured travel estimator
+ */
+export function getDefaultTravelEstimator(): TravelEstimator {
+  return clientConfig.routing.useDirectionsService
+    ? createDirectionsEstimator()
+    : createHaversineEstimator();
+}
@@ -0,0 +1,174 @@
+/**
+ * Shareable View URLs
+ *
+ * Encodes what the rep is looking at (selected location, status filter,
+ * follow-up filter, map camera and map type) in the page's query string,
+ * so a link restores the same view and browser back/forward steps through
+ * earlier views. Only the parts that differ from the defaults are written,
+ * which keeps links short.
+ *
+ * Query parameters:
+ * - `location` → selected location ID
+ * - `status` → comma-separated statuses (present but empty for none)
+ * - `followUp` → follow-up preset, with `from` and `to` for a custom range
+ * - `center` → map center as "lat,lng", with `zoom`
+ * - `mapType` → "satellite" (roadmap is the default)
+ *
+ * @module url-state
+ */
+
+import type { Coordinates } from '@/types/google';
+import type { FollowUpFilter } from '@/types/filter-preset';
+import { isValidFollowUpPreset } from '@/types/filter-preset';
+
+/**
+ * Map camera position.
+ */
+export interface MapCamera {
+  /** Map center */
+  center: Coordinates;
+  /** Zoom level */
+  zoom: number;
+}
+
+/**
+ * Map base layer.
+ */
+export type MapType = 'roadmap' | 'satellite';
+
+/**
+ * View encoded in a link. Missing fields mean "use the default".
+ */
+export interface ShareableView {
+  /** Selected location ID */
+  locationId?: number;
+  /** Statuses shown on the map */
+  statuses?: string[];
+  /** Follow-up filter */
+  followUpFilter?: FollowUpFilter;
+  /** Map camera */
+  camera?: MapCamera;
+  /** Map base layer */
+  mapType?: MapType;
+}
+
+/**
+ * Query parameter names
+ */
+const PARAMS = {
+  LOCATION: 'location',
+  STATUS: 'status',
+  FOLLOW_UP: 'followUp',
+  FROM: 'from',
+  TO: 'to',
+  CENTER: 'center',
+  ZOOM: 'zoom',
+  MAP_TYPE: 'mapType',
+} as const;
+
+/**
+ * Decimal places kept for the map center (about 1 m)
+ */
+const CENTER_PRECISION = 5;
+
+/**
+ * Matches a YYYY-MM-DD date
+ */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reads a view from a query string. Invalid parameters are ignored.
+ *
+ * @param search - Query string (e.g., window.location.search)
+ * @returns View with the parameters that were present and valid
+ *
+ * @example
+ * ```typescript
+ * parseViewState('?location=12&status=Prospect,Revisit&center=45.5,-73.56&zoom=14');
+ * // { locationId: 12, statuses: ['Prospect', 'Revisit'], camera: { center: { lat: 45.5, lng: -73.56 }, zoom: 14 } }
+ * ```
+ */
+export function parseViewState(search: string): ShareableView {
+  const params = new URLSearchParams(search);
+  const view: ShareableView = {};
+
+  const locationId = Number(params.get(PARAMS.LOCATION));
+  if (Number.isInteger(locationId) && locationId > 0) {
+    view.locationId = locationId;
+  }
+
+  const statuses = params.get(PARAMS.STATUS);
+  if (statuses !== null) {
+    view.statuses = statuses.split(',').filter(Boolean);
+  }
+
+  const preset = params.get(PARAMS.FOLLOW_UP) ?? '';
+  if (isValidFollowUpPreset(preset)) {
+    const from = params.get(PARAMS.FROM) ?? '';
+    const to = params.get(PARAMS.TO) ?? '';
+    view.followUpFilter = {
+      preset,
+      customStart: ISO_DATE_PATTERN.test(from) ? from : '',
+      customEnd: ISO_DATE_PATTERN.test(to) ? to : '',
+    };
+  }
+
+  const [lat, lng] = (params.get(PARAMS.CENTER) ?? '').split(',').map(Number);
+  const zoom = Number(params.get(PARAMS.ZOOM));
+  if (
+    Number.isFinite(lat) && Math.abs(lat) <= 90 &&
+    Number.isFinite(lng) && Math.abs(lng) <= 180 &&
+    params.has(PARAMS.ZOOM) && Number.isFinite(zoom) && zoom >= 0
+  ) {
+    view.camera = { center: { lat, lng }, zoom };
+  }
+
+  const mapType = params.get(PARAMS.MAP_TYPE);
+  if (mapType === 'roadmap' || mapType === 'satellite') {
+    view.mapType = mapType;
+  }
+
+  return view;
+}
+
+/**
+ * Writes a view as a query string.
+ *
+ * @param view - View to encode (missing fields are left out)
+ * @returns Query string starting with "?", or "" for the default view
+ */
+export function serializeViewState(view: ShareableView): string {
+  const params = new URLSearchParams();
+
+  if (view.locationId !== undefined) {
+    params.set(PARAMS.LOCATION, String(view.locationId));
+  }
+
+  if (view.statuses) {
+    params.set(PARAMS.STATUS, view.statuses.join(','));
+  }
+
+  if (view.followUpFilter) {
+    params.set(PARAMS.FOLLOW_UP, view.followUpFilter.preset);
+    if (view.followUpFilter.preset === 'custom') {
+      params.set(PARAMS.FROM, view.followUpFilter.customStart);
+      params.set(PARAMS.TO, view.followUpFilter.customEnd);
+    }
+  }
+
+  if (view.camera) {
+    const { center, zoom } = view.camera;
+    params.set(
+      PARAMS.CENTER,
+      `${center.lat.toFixed(CENTER_PRECISION)},${center.lng.toFixed(CENTER_PRECISION)}`
+    );
+    params.set(PARAMS.ZOOM, String(Math.round(zoom * 10) / 10));
+  }
+
+  if (view.mapType && view.mapType !== 'roadmap') {
+    params.set(PARAMS.MAP_TYPE, view.mapType);
+  }
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
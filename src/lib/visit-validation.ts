@@ -0,0 +1,75 @@
+/**
+ * Visit Request Validation
+ *
+ * Validates request bodies for POST /api/visits.
+ *
+ * @module visit-validation
+ */
+
+import type { CreateVisitRequest } from '@/types/api';
+import { VISIT_SOURCES, isValidVisitSource } from '@/types/visit';
+import { VALIDATION, isValidCoordinates } from '@/lib/constants';
+import { isValidIsoDate } from '@/lib/route-validation';
+
+/**
+ * Validates a visit request body.
+ *
+ * @param body - Request body to validate
+ * @returns Validation error message or null if valid
+ *
+ * @example
+ * ```typescript
+ * const error = validateVisitRequest(body);
+ * if (error) {
+ *   // respond with 400
+ * }
+ * ```
+ */
+export function validateVisitRequest(body: CreateVisitRequest): string | null {
+  if (typeof body !== 'object' || body === null) {
+    return 'Request body must be an object';
+  }
+
+  if (
+    body.timestamp === undefined || body.date === undefined || body.rep === undefined ||
+    body.locationId === undefined || body.lat === undefined || body.lng === undefined ||
+    body.source === undefined
+  ) {
+    return 'timestamp, date, rep, locationId, lat, lng and source are required';
+  }
+
+  if (typeof body.timestamp !== 'string' || isNaN(new Date(body.timestamp).getTime())) {
+    return 'Timestamp must be an ISO 8601 date and time';
+  }
+
+  if (typeof body.date !== 'string' || !isValidIsoDate(body.date)) {
+    return 'Date must be a valid date in YYYY-MM-DD format';
+  }
+
+  if (typeof body.rep !== 'string' || !body.rep.trim()) {
+    return 'Rep must be a non-empty string';
+  }
+  if (body.rep.length > VALIDATION.MAX_REP_LENGTH) {
+    return `Rep must be ${VALIDATION.MAX_REP_LENGTH} characters or less`;
+  }
+
+  if (typeof body.locationId !== 'number' || !Number.isInteger(body.locationId) || body.locationId < 2) {
+    return 'locationId must be a location ID (an integer of at least 2)';
+  }
+
+  if (typeof body.lat !== 'number' || typeof body.lng !== 'number' || !isValidCoordinates(body.lat, body.lng)) {
+    return 'lat and lng must be valid coordinates';
+  }
+
+  if (typeof body.source !== 'string' || !isValidVisitSource(body.source)) {
+    return `Source must be one of: ${VISIT_SOURCES.join(', ')}`;
+  }
+
+  if (body.routeId !== undefined) {
+    if (typeof body.routeId !== 'number' || !Number.isInteger(body.routeId) || body.routeId < 2) {
+      return 'routeId must be a saved route ID (an integer of at least 2)';
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,50 @@
+/**
+ * Client-side Visits API
+ *
+ * Thin wrapper around the /api/visits endpoint, used to log completed
+ * route stops and check-ins for the mileage report, and to load the visit
+ * log for the heatmap's activity layers.
+ *
+ * @module visits.client
+ */
+
+import type { CreateVisitRequest, GetVisitsResponse, VisitResponse } from '@/types/api';
+import type { Visit } from '@/types/visit';
+import { API_ENDPOINTS, HTTP_METHODS } from '@/lib/constants';
+import { requestJson } from '@/lib/api.client';
+
+/**
+ * Records a completed visit.
+ *
+ * @param visit - Visit to record
+ * @returns The recorded visit with its ID
+ * @throws {Error} If the request fails
+ *
+ * @example
+ * ```typescript
+ * await recordVisit({
+ *   timestamp: new Date().toISOString(),
+ *   date: '2025-10-13',
+ *   rep: 'Alex',
+ *   locationId: 5,
+ *   lat: 40.71,
+ *   lng: -74.0,
+ *   source: 'route',
+ * });
+ * ```
+ */
+export async function recordVisit(visit: CreateVisitRequest): Promise<Visit> {
+  const data = await requestJson<VisitResponse>(API_ENDPOINTS.VISITS, HTTP_METHODS.POST, visit);
+  return data.visit;
+}
+
+/**
+ * Lists all recorded visits.
+ *
+ * @returns Visits, in sheet order
+ * @throws {Error} If the request fails
+ */
+export async function fetchVisits(): Promise<Visit[]> {
+  const data = await requestJson<GetVisitsResponse>(API_ENDPOINTS.VISITS, HTTP_METHODS.GET);
+  return data.visits;
+}
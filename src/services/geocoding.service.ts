@@ -25,6 +25,14 @@ import type {
 import { GeocodingStatus } from '@/types/google';
 import { isValidCoordinates } from '@/lib/constants';
 
+/**
+ * Why a geocoding attempt failed:
+ * - address → no match for the address, or it is malformed (retrying won't help)
+ * - unavailable → geocoding can't be used right now (missing API key, quota or request denied)
+ * - upstream → the Geocoding API request failed or returned an unusable response
+ */
+export type GeocodingFailure = 'address' | 'unavailable' | 'upstream';
+
 /**
  * Result of a geocoding operation
  */
@@ -37,6 +45,8 @@ export interface GeocodingResult {
   formattedAddress?: string;
   /** Error message if unsuccessful */
   error?: string;
+  /** Kind of failure if unsuccessful */
+  failure?: GeocodingFailure;
   /** Original address that was geocoded */
   originalAddress: string;
 }
@@ -134,12 +144,18 @@ function getFromCache(
 }
 
 /**
- * Stores a geocoding result in cache
+ * Stores a geocoding result in cache.
+ * Only successes and address failures are kept; outages and upstream
+ * errors are retried on the next call so the address works once they end.
  *
  * @param address - Address that was geocoded
  * @param result - Geocoding result to cache
  */
 function storeInCache(address: string, result: GeocodingResult): void {
+  if (!result.success && result.failure !== 'address') {
+    return;
+  }
+
   const cacheKey = normalizeAddress(address);
   geocodingCache.set(cacheKey, {
     result,
@@ -210,28 +226,35 @@ function processGeocodingResponse(
   // Handle error statuses
   if (response.status !== GeocodingStatus.OK) {
     let error: string;
+    let failure: GeocodingFailure;
 
     switch (response.status) {
       case GeocodingStatus.ZERO_RESULTS:
         error = 'Address not found. Please check the address format.';
+        failure = 'address';
         break;
       case GeocodingStatus.OVER_QUERY_LIMIT:
         error = 'Geocoding quota exceeded. Please try again later.';
+        failure = 'unavailable';
         break;
       case GeocodingStatus.REQUEST_DENIED:
         error = 'Geocoding request denied. Please check API key configuration.';
+        failure = 'unavailable';
         break;
       case GeocodingStatus.INVALID_REQUEST:
         error = 'Invalid geocoding request. Address may be malformed.';
+        failure = 'address';
         break;
       default:
         error = response.error_message || 'Unknown geocoding error occurred.';
+        failure = 'upstream';
     }
 
     return {
       success: false,
       coordinates: null,
       error,
+      failure,
       originalAddress: address,
     };
   }
@@ -243,6 +266,7 @@ function processGeocodingResponse(
       success: false,
       coordinates: null,
       error: 'Invalid response structure from Geocoding API.',
+      failure: 'upstream',
       originalAddress: address,
     };
   }
@@ -255,6 +279,7 @@ function processGeocodingResponse(
       success: false,
       coordinates: null,
       error: `Invalid coordinates received: lat=${lat}, lng=${lng}`,
+      failure: 'upstream',
       originalAddress: address,
     };
   }
@@ -275,7 +300,7 @@ function processGeocodingResponse(
  * - Checks cache before making API request
  * - Validates coordinates
  * - Handles all API error cases
- * - Stores successful results in cache
+ * - Caches successful results and addresses that can't be found
  *
  * @param address - Full address string to geocode
  * @param config - Optional configuration override
@@ -322,7 +347,7 @@ export async function geocodeAddress(
     // Process response
     const result = processGeocodingResponse(response, address);
 
-    // Store in cache (even failures, to avoid repeated failed requests)
+    // Store in cache (address failures too, to avoid repeated failed requests)
     storeInCache(address, result);
 
     // Log failures
@@ -335,16 +360,7 @@ export async function geocodeAddress(
     // Network or other errors
     console.error(`geocodeAddress: Exception for "${address}":`, error);
 
-    // Store failure in cache to avoid immediate retry
-    const failureResult: GeocodingResult = {
-      success: false,
-      coordinates: null,
-      error:
-        error instanceof Error ? error.message : 'Unknown error during geocoding',
-      originalAddress: address,
-    };
-    storeInCache(address, failureResult);
-
+    // Not cached, so the next call retries
     return null;
   }
 }
@@ -377,6 +393,7 @@ export async function geocodeAddressDetailed(
       success: false,
       coordinates: null,
       error: 'Empty address provided',
+      failure: 'address',
       originalAddress: address,
     };
   }
@@ -389,6 +406,7 @@ export async function geocodeAddressDetailed(
       success: false,
       coordinates: null,
       error: 'Missing NEXT_PUBLIC_MAPS_API_KEY environment variable',
+      failure: 'unavailable',
       originalAddress: address,
     };
   }
@@ -426,12 +444,10 @@ export async function geocodeAddressDetailed(
       coordinates: null,
       error:
         error instanceof Error ? error.message : 'Unknown error during geocoding',
+      failure: 'upstream',
       originalAddress: address,
     };
 
-    // Store failure in cache
-    storeInCache(address, failureResult);
-
     return failureResult;
   }
 }
@@ -3,8 +3,14 @@
  *
  * Handles all interactions with the Google Sheets API, including:
  * - Reading location data from the configured sheet
- * - Writing updates back to the sheet (status, notes, coordinates)
+ * - Appending new locations added from the app
+ * - Writing updates back to the sheet (status, notes, coordinates, rep assignments),
+ *   one location at a time or many in a single batch
  * - Parsing sheet rows into Location objects
+ * - Reading and writing saved day plans in the routes tab
+ * - Reading and writing territory polygons in the territories tab
+ * - Reading and recording completed visits in the visits tab
+ * - Reading and writing reps' saved filter presets in the filter presets tab
  * - Data validation and error handling
  *
  * This service uses Google Service Account authentication for secure API access.
@@ -13,6 +19,10 @@
  * - GOOGLE_PRIVATE_KEY
  * - SHEET_ID
  * - SHEET_NAME
+ * - ROUTES_SHEET_NAME (optional, defaults to "Routes")
+ * - TERRITORIES_SHEET_NAME (optional, defaults to "Territories")
+ * - VISITS_SHEET_NAME (optional, defaults to "Visits")
+ * - FILTER_PRESETS_SHEET_NAME (optional, defaults to "Filter Presets")
  *
  * @module sheets.service
  */
@@ -20,10 +30,38 @@
 import { google } from 'googleapis';
 import { JWT } from 'google-auth-library';
 
-import type { Location, LocationUpdate } from '@/types/location';
+import type {
+  Location,
+  LocationAssignment,
+  LocationBatchResult,
+  LocationBatchUpdate,
+  LocationInput,
+  LocationUpdate,
+} from '@/types/location';
+import type { Route, RouteInput, RouteUpdate } from '@/types/route';
+import type { Territory, TerritoryInput, TerritoryUpdate } from '@/types/territory';
+import type { Visit, VisitInput } from '@/types/visit';
+import type { FilterPreset, FilterPresetInput, FilterPresetUpdate, FollowUpPreset } from '@/types/filter-preset';
+import type { Coordinates } from '@/types/google';
 import { isValidStatus, getDefaultStatus } from '@/types/location';
+import { ROUTE_START_LABELS, isValidRouteStartType, isValidRouteStatus } from '@/types/route';
+import { isValidVisitSource } from '@/types/visit';
+import { isValidFollowUpPreset } from '@/types/filter-preset';
 import { config } from '@/lib/config';
-import { SHEET_COLUMNS, isValidCoordinates } from '@/lib/constants';
+import {
+  SHEET_COLUMNS,
+  SHEET_HEADERS,
+  ROUTE_SHEET_COLUMNS,
+  ROUTE_SHEET_HEADERS,
+  TERRITORY_SHEET_COLUMNS,
+  TERRITORY_SHEET_HEADERS,
+  VISIT_SHEET_COLUMNS,
+  VISIT_SHEET_HEADERS,
+  FILTER_PRESET_SHEET_COLUMNS,
+  FILTER_PRESET_SHEET_HEADERS,
+  TERRITORY_CONFIG,
+  isValidCoordinates,
+} from '@/lib/constants';
 
 /**
  * Google Sheets API client singleton.
@@ -81,14 +119,23 @@ async function initializeSheetsClient(): Promise<void> {
   }
 }
 
+/**
+ * Gets the last column letter of the locations sheet (e.g., "J").
+ *
+ * @returns Column letter of the last location column
+ */
+function getLastColumn(): string {
+  return columnIndexToLetter(SHEET_HEADERS.length - 1);
+}
+
 /**
  * Gets the range string for reading all data rows from the sheet.
  * Assumes first row is headers, starts reading from row 2.
  *
- * @returns Range string in A1 notation (e.g., "Sheet1!A2:I")
+ * @returns Range string in A1 notation (e.g., "Sheet1!A2:J")
  */
 function getDataRange(): string {
-  return `${config.googleSheets.sheetName}!A2:I`;
+  return `${config.googleSheets.sheetName}!A2:${getLastColumn()}`;
 }
 
 /**
@@ -96,10 +143,11 @@ function getDataRange(): string {
  * Row numbers are 1-indexed (row 1 = headers, row 2 = first data row).
  *
  * @param rowNumber - Row number (1-indexed, matching Google Sheets)
- * @returns Range string in A1 notation (e.g., "Sheet1!A5:I5")
+ * @returns Range string in A1 notation (e.g., "Sheet1!A5:J5")
  */
 function getRowRange(rowNumber: number): string {
-  return `${config.googleSheets.sheetName}!A${rowNumber}:I${rowNumber}`;
+  const lastColumn = getLastColumn();
+  return `${config.googleSheets.sheetName}!A${rowNumber}:${lastColumn}${rowNumber}`;
 }
 
 /**
@@ -207,6 +255,8 @@ function parseSheetRow(row: unknown[], rowIndex: number): Location | null {
     const followUpDate = values[SHEET_COLUMNS.FOLLOW_UP_DATE] || '';
     const placeId = values[SHEET_COLUMNS.PLACE_ID] || '';
     const photo = values[SHEET_COLUMNS.PHOTO] || '';
+    const openingHours = values[SHEET_COLUMNS.OPENING_HOURS] || '';
+    const assignedTo = values[SHEET_COLUMNS.ASSIGNED_TO] || '';
 
     // Validate required fields
     if (!companyName.trim() || !address.trim()) {
@@ -260,6 +310,8 @@ function parseSheetRow(row: unknown[], rowIndex: number): Location | null {
       followUpDate: convertedFollowUpDate,
       placeId: placeId.trim() || undefined, // Only include if present
       photo: photo.trim() || undefined, // Only include if present
+      openingHours: openingHours.trim() || undefined, // Only include if present
+      assignedTo: assignedTo.trim() || undefined, // Only include if present
     };
   } catch (error) {
     console.error(`Error parsing row ${rowIndex + 2}:`, error);
@@ -267,6 +319,33 @@ function parseSheetRow(row: unknown[], rowIndex: number): Location | null {
   }
 }
 
+/**
+ * Converts a new location into a sheet row, in column order.
+ * Coordinates of 0 (not geocoded) are written as empty cells so the
+ * background geocoder picks the row up.
+ *
+ * @param location - Location to convert
+ * @returns Row values
+ */
+function locationToRow(location: LocationInput): (string | number)[] {
+  const row: (string | number)[] = [];
+  const hasCoordinates = location.lat !== 0 || location.lng !== 0;
+
+  row[SHEET_COLUMNS.COMPANY_NAME] = location.companyName;
+  row[SHEET_COLUMNS.ADDRESS] = location.address;
+  row[SHEET_COLUMNS.STATUS] = location.status;
+  row[SHEET_COLUMNS.NOTES] = location.notes;
+  row[SHEET_COLUMNS.LATITUDE] = hasCoordinates ? location.lat : '';
+  row[SHEET_COLUMNS.LONGITUDE] = hasCoordinates ? location.lng : '';
+  row[SHEET_COLUMNS.FOLLOW_UP_DATE] = location.followUpDate ?? '';
+  row[SHEET_COLUMNS.PLACE_ID] = location.placeId ?? '';
+  row[SHEET_COLUMNS.PHOTO] = location.photo ?? '';
+  row[SHEET_COLUMNS.OPENING_HOURS] = location.openingHours ?? '';
+  row[SHEET_COLUMNS.ASSIGNED_TO] = location.assignedTo ?? '';
+
+  return row;
+}
+
 /**
  * Fetches all locations from Google Sheets.
  * Reads all data rows, parses them into Location objects, and filters out invalid rows.
@@ -337,6 +416,113 @@ export async function getAllLocations(): Promise<Location[]> {
   }
 }
 
+/**
+ * Fetches a single location by its row number.
+ *
+ * @param id - Row number (1-indexed) of the location
+ * @returns Promise that resolves to the Location object
+ * @throws {Error} If the location is not found or the request fails
+ *
+ * @example
+ * ```typescript
+ * const location = await getLocationById(5);
+ * console.log(`${location.companyName} is at ${location.lat}, ${location.lng}`);
+ * ```
+ */
+export async function getLocationById(id: number): Promise<Location> {
+  try {
+    await initializeSheetsClient();
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    const response = await sheetsClient.spreadsheets.values.get({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getRowRange(id),
+    });
+
+    const row = response.data.values?.[0];
+    const location = row ? parseSheetRow(row, id - 2) : null;
+    if (!location) {
+      throw new Error(`Location with ID ${id} not found`);
+    }
+
+    return location;
+  } catch (error) {
+    console.error(`Failed to fetch location ${id}:`, error);
+    if (error instanceof Error && error.message.includes('not found')) {
+      throw error;
+    }
+    throw new Error('Unable to load location. Please try again.');
+  }
+}
+
+/**
+ * Appends a new location to the sheet.
+ *
+ * @param location - Location to add
+ * @returns Promise that resolves to the new Location, with its row number as ID
+ * @throws {Error} If the append fails
+ *
+ * @example
+ * ```typescript
+ * const location = await createLocation({
+ *   companyName: 'Acme Corp',
+ *   address: '123 Main St, Springfield',
+ *   status: 'Prospect',
+ *   notes: '',
+ *   lat: 39.7817,
+ *   lng: -89.6501,
+ * });
+ * console.log(`Added row ${location.id}`);
+ * ```
+ */
+export async function createLocation(location: LocationInput): Promise<Location> {
+  try {
+    // Ensure client is initialized
+    await initializeSheetsClient();
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    const response = await sheetsClient.spreadsheets.values.append({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getDataRange(),
+      valueInputOption: 'RAW',
+      insertDataOption: 'INSERT_ROWS',
+      requestBody: {
+        values: [locationToRow(location)],
+      },
+    });
+
+    // Updated range looks like "Sheet1!A42:K42"; the row number is the location ID
+    const updatedRange = response.data.updates?.updatedRange || '';
+    const rowMatch = updatedRange.match(/![A-Z]+(\d+)/);
+    if (!rowMatch) {
+      throw new Error('Unable to determine the row of the new location');
+    }
+
+    const id = parseInt(rowMatch[1], 10);
+    console.log(`Successfully added location ${id}`);
+    return { id, ...location };
+  } catch (error) {
+    console.error('Failed to add location:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('403')) {
+        throw new Error('Permission denied. Unable to add location.');
+      }
+      if (error.message.includes('Quota exceeded') || error.message.includes('429')) {
+        throw new Error('Google Sheets rate limit reached. Please wait a minute and try again.');
+      }
+    }
+
+    throw new Error('Unable to add location. Please try again.');
+  }
+}
+
 /**
  * Updates a single location in Google Sheets.
  * Only updates the fields provided in the update object (status and/or notes).
@@ -471,6 +657,107 @@ export async function updateLocation(
   }
 }
 
+/**
+ * Updates many locations in one batch write.
+ * The data rows are read once to check each location exists and to build
+ * the returned locations, instead of reading every row before and after
+ * its write. Updates for missing rows or with an invalid status are
+ * reported as failed and not written. An empty follow-up date clears it.
+ *
+ * @param updates - Fields to update per location (distinct IDs)
+ * @returns Outcome per update, in input order
+ * @throws {Error} If the sheet can't be read or the batch write fails
+ *
+ * @example
+ * ```typescript
+ * const results = await updateLocations([
+ *   { id: 2, status: 'Revisit' },
+ *   { id: 3, followUpDate: '2025-11-03' },
+ * ]);
+ * const failed = results.filter((result) => !result.success);
+ * ```
+ */
+export async function updateLocations(updates: LocationBatchUpdate[]): Promise<LocationBatchResult[]> {
+  if (updates.length === 0) {
+    return [];
+  }
+
+  try {
+    // Ensure client is initialized
+    await initializeSheetsClient();
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    const response = await sheetsClient.spreadsheets.values.get({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getDataRange(),
+    });
+    const rows = response.data.values || [];
+
+    const statusColumn = columnIndexToLetter(SHEET_COLUMNS.STATUS);
+    const notesColumn = columnIndexToLetter(SHEET_COLUMNS.NOTES);
+    const followUpDateColumn = columnIndexToLetter(SHEET_COLUMNS.FOLLOW_UP_DATE);
+    const data: Array<{ range: string; values: string[][] }> = [];
+
+    const results = updates.map(({ id, status, notes, followUpDate }): LocationBatchResult => {
+      const row = rows[id - 2];
+      const current = row ? parseSheetRow(row, id - 2) : null;
+      if (!current) {
+        return { id, success: false, error: `Location with ID ${id} not found` };
+      }
+
+      if (status !== undefined && !isValidStatus(status)) {
+        return { id, success: false, error: `Invalid status value: ${status}` };
+      }
+
+      const location: Location = { ...current };
+      if (status !== undefined) {
+        data.push({ range: getCellRange(id, statusColumn), values: [[status]] });
+        location.status = status;
+      }
+      if (notes !== undefined) {
+        data.push({ range: getCellRange(id, notesColumn), values: [[notes]] });
+        location.notes = notes.trim();
+      }
+      if (followUpDate !== undefined) {
+        data.push({ range: getCellRange(id, followUpDateColumn), values: [[followUpDate]] });
+        location.followUpDate = followUpDate || undefined;
+      }
+
+      return { id, success: true, location };
+    });
+
+    if (data.length > 0) {
+      await sheetsClient.spreadsheets.values.batchUpdate({
+        spreadsheetId: config.googleSheets.sheetId,
+        requestBody: {
+          data,
+          valueInputOption: 'RAW',
+        },
+      });
+    }
+
+    const updatedCount = results.filter((result) => result.success).length;
+    console.log(`Successfully updated ${updatedCount} of ${updates.length} locations`);
+    return results;
+  } catch (error) {
+    console.error('Failed to update locations:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('403')) {
+        throw new Error('Permission denied. Unable to update locations.');
+      }
+      if (error.message.includes('Quota exceeded') || error.message.includes('429')) {
+        throw new Error('Google Sheets rate limit reached. Please wait a minute and try again.');
+      }
+    }
+
+    throw new Error('Unable to update locations. Please try again.');
+  }
+}
+
 /**
  * Sleep utility for retry delays.
  *
@@ -595,6 +882,84 @@ export async function updateLocationCoordinates(
   }
 }
 
+/**
+ * Writes the "Assigned To" column for many locations in one batch request.
+ * Used when a manager accepts a territory balancing split.
+ * The sheet is read first so IDs without a location (e.g., a row deleted
+ * in the sheet) are skipped rather than written as stray cells.
+ *
+ * @param assignments - Rep assignment per location (empty rep clears it)
+ * @returns IDs of the assignments skipped because the location was not found
+ * @throws {Error} If the update fails
+ *
+ * @example
+ * ```typescript
+ * const notFound = await updateLocationAssignments([
+ *   { id: 2, assignedTo: 'Alex' },
+ *   { id: 3, assignedTo: 'Sam' },
+ * ]);
+ * ```
+ */
+export async function updateLocationAssignments(assignments: LocationAssignment[]): Promise<number[]> {
+  if (assignments.length === 0) {
+    return [];
+  }
+
+  try {
+    // Ensure client is initialized
+    await initializeSheetsClient();
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    const response = await sheetsClient.spreadsheets.values.get({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getDataRange(),
+    });
+    const rows = response.data.values || [];
+
+    const found = assignments.filter(({ id }) => {
+      const row = rows[id - 2];
+      return !!row && parseSheetRow(row, id - 2) !== null;
+    });
+    const notFound = assignments
+      .filter((assignment) => !found.includes(assignment))
+      .map(({ id }) => id);
+
+    const assignedToColumn = columnIndexToLetter(SHEET_COLUMNS.ASSIGNED_TO);
+
+    if (found.length > 0) {
+      await sheetsClient.spreadsheets.values.batchUpdate({
+        spreadsheetId: config.googleSheets.sheetId,
+        requestBody: {
+          data: found.map(({ id, assignedTo }) => ({
+            range: getCellRange(id, assignedToColumn),
+            values: [[assignedTo]],
+          })),
+          valueInputOption: 'RAW',
+        },
+      });
+    }
+
+    console.log(`Successfully assigned ${found.length} of ${assignments.length} locations`);
+    return notFound;
+  } catch (error) {
+    console.error('Failed to update location assignments:', error);
+
+    if (error instanceof Error) {
+      if (error.message.includes('403')) {
+        throw new Error('Permission denied. Unable to update assignments.');
+      }
+      if (error.message.includes('Quota exceeded') || error.message.includes('429')) {
+        throw new Error('Google Sheets rate limit reached. Please wait a minute and try again.');
+      }
+    }
+
+    throw new Error('Unable to update location assignments. Please try again.');
+  }
+}
+
 /**
  * Validates that the Google Sheets client is properly configured.
  * This function can be called during app initialization to verify setup.
@@ -668,3 +1033,1243 @@ export async function getLocationCount(): Promise<number> {
     throw new Error('Unable to count locations. Please try again.');
   }
 }
+
+
+/**
+ * Gets the last column letter of the routes tab (e.g., "H").
+ *
+ * @returns Column letter of the last route column
+ */
+function getRoutesLastColumn(): string {
+  return columnIndexToLetter(ROUTE_SHEET_HEADERS.length - 1);
+}
+
+/**
+ * Gets the range string for reading all data rows from the routes tab.
+ * Assumes first row is headers, starts reading from row 2.
+ *
+ * @returns Range string in A1 notation (e.g., "Routes!A2:H")
+ */
+function getRoutesDataRange(): string {
+  return `${config.googleSheets.routesSheetName}!A2:${getRoutesLastColumn()}`;
+}
+
+/**
+ * Gets the range string for a specific row in the routes tab.
+ *
+ * @param rowNumber - Row number (1-indexed, matching Google Sheets)
+ * @returns Range string in A1 notation (e.g., "Routes!A5:H5")
+ */
+function getRoutesRowRange(rowNumber: number): string {
+  const lastColumn = getRoutesLastColumn();
+  return `${config.googleSheets.routesSheetName}!A${rowNumber}:${lastColumn}${rowNumber}`;
+}
+
+/**
+ * Parses a raw routes tab row into a Route object.
+ * Cleared rows (deleted routes) and rows without a date are skipped.
+ *
+ * @param row - Array of cell values from a single routes tab row
+ * @param rowIndex - Index of the row (0-based, from data rows only)
+ * @returns Route object or null if row is empty or invalid
+ *
+ * @example
+ * ```typescript
+ * const row = ['2025-10-13', 'Alex', '5,12,9', 'home-base', 'Home Base', '40.71', '-74.00', 'planned'];
+ * const route = parseRouteRow(row, 0);
+ * // route.id will be 2 (row 1 is headers, row 2 is first data row)
+ * ```
+ */
+function parseRouteRow(row: unknown[], rowIndex: number): Route | null {
+  const values = row.map((val) => String(val ?? '').trim());
+  const rowNumber = rowIndex + 2;
+
+  const date = convertDateToISO(values[ROUTE_SHEET_COLUMNS.DATE] || '');
+  if (!date) {
+    return null;
+  }
+
+  const startType = values[ROUTE_SHEET_COLUMNS.START_TYPE] || '';
+  const lat = parseFloat(values[ROUTE_SHEET_COLUMNS.START_LATITUDE] || '');
+  const lng = parseFloat(values[ROUTE_SHEET_COLUMNS.START_LONGITUDE] || '');
+
+  if (!isValidRouteStartType(startType) || isNaN(lat) || isNaN(lng) || !isValidCoordinates(lat, lng)) {
+    console.warn(`Skipping route row ${rowNumber}: Invalid start point`);
+    return null;
+  }
+
+  let status = values[ROUTE_SHEET_COLUMNS.STATUS] || '';
+  if (!isValidRouteStatus(status)) {
+    console.warn(`Route row ${rowNumber}: Invalid status "${status}". Using "planned".`);
+    status = 'planned';
+  }
+
+  const locationIds = (values[ROUTE_SHEET_COLUMNS.LOCATION_IDS] || '')
+    .split(',')
+    .map((id) => parseInt(id.trim(), 10))
+    .filter((id) => !isNaN(id) && id > 0);
+
+  return {
+    id: rowNumber,
+    date,
+    rep: values[ROUTE_SHEET_COLUMNS.REP] || '',
+    locationIds,
+    start: {
+      type: startType,
+      label: values[ROUTE_SHEET_COLUMNS.START_LABEL] || ROUTE_START_LABELS[startType],
+      lat,
+      lng,
+    },
+    status: status as Route['status'],
+  };
+}
+
+/**
+ * Converts a route into a row of cell values for the routes tab.
+ *
+ * @param route - Route fields to write
+ * @returns Array of cell values in column order
+ */
+function routeToRow(route: RouteInput): (string | number)[] {
+  const row: (string | number)[] = [];
+
+  row[ROUTE_SHEET_COLUMNS.DATE] = route.date;
+  row[ROUTE_SHEET_COLUMNS.REP] = route.rep;
+  row[ROUTE_SHEET_COLUMNS.LOCATION_IDS] = route.locationIds.join(',');
+  row[ROUTE_SHEET_COLUMNS.START_TYPE] = route.start.type;
+  row[ROUTE_SHEET_COLUMNS.START_LABEL] = route.start.label;
+  row[ROUTE_SHEET_COLUMNS.START_LATITUDE] = route.start.lat;
+  row[ROUTE_SHEET_COLUMNS.START_LONGITUDE] = route.start.lng;
+  row[ROUTE_SHEET_COLUMNS.STATUS] = route.status;
+
+  return row;
+}
+
+/**
+ * Maps Google Sheets API errors for the routes tab to user-friendly errors.
+ * Known errors (not found, validation) are returned unchanged.
+ *
+ * @param error - Error thrown by the Sheets API or this service
+ * @param fallbackMessage - Message used when the error is not recognized
+ * @returns Error to throw
+ */
+function toRoutesError(error: unknown, fallbackMessage: string): Error {
+  if (error instanceof Error) {
+    if (error.message.includes('not found')) {
+      return error;
+    }
+
+    // The Sheets API reports a missing tab as an unparseable range
+    if (error.message.includes('Unable to parse range')) {
+      return new Error(
+        `Routes tab "${config.googleSheets.routesSheetName}" does not exist. ` +
+        `Add a tab with the headers: ${ROUTE_SHEET_HEADERS.join(', ')}.`
+      );
+    }
+    if (error.message.includes('403')) {
+      return new Error(
+        'Permission denied. Please ensure the service account has access to the Google Sheet.'
+      );
+    }
+  }
+
+  return new Error(fallbackMessage);
+}
+
+/**
+ * Fetches all saved routes from the routes tab.
+ *
+ * @returns Promise that resolves to an array of Route objects
+ * @throws {Error} If the API request fails or the routes tab is missing
+ *
+ * @example
+ * ```typescript
+ * const routes = await getAllRoutes();
+ * const todays = routes.filter((route) => route.date === '2025-10-13');
+ * ```
+ */
+export async function getAllRoutes(): Promise<Route[]> {
+  try {
+    await initializeSheetsClient();
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    const response = await sheetsClient.spreadsheets.values.get({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getRoutesDataRange(),
+    });
+
+    const rows = response.data.values || [];
+
+    const routes: Route[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      const route = parseRouteRow(rows[i], i);
+      if (route !== null) {
+        routes.push(route);
+      }
+    }
+
+    console.log(`Successfully loaded ${routes.length} routes from Google Sheets`);
+    return routes;
+  } catch (error) {
+    console.error('Failed to fetch routes from Google Sheets:', error);
+    throw toRoutesError(error, 'Unable to load routes from Google Sheets. Please try again later.');
+  }
+}
+
+/**
+ * Fetches a single saved route by its row number.
+ *
+ * @param id - Row number (1-indexed) of the route in the routes tab
+ * @returns Promise that resolves to the Route object
+ * @throws {Error} If the route is not found or the request fails
+ *
+ * @example
+ * ```typescript
+ * const route = await getRouteById(4);
+ * console.log(`${route.rep} has ${route.locationIds.length} stops on ${route.date}`);
+ * ```
+ */
+export async function getRouteById(id: number): Promise<Route> {
+  try {
+    await initializeSheetsClient();
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    const response = await sheetsClient.spreadsheets.values.get({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getRoutesRowRange(id),
+    });
+
+    const row = response.data.values?.[0];
+    const route = row ? parseRouteRow(row, id - 2) : null;
+    if (!route) {
+      throw new Error(`Route with ID ${id} not found`);
+    }
+
+    return route;
+  } catch (error) {
+    console.error(`Failed to fetch route ${id}:`, error);
+    throw toRoutesError(error, 'Unable to load route. Please try again.');
+  }
+}
+
+/**
+ * Saves a new route as a row at the end of the routes tab.
+ *
+ * @param route - Route fields to save
+ * @returns Promise that resolves to the saved Route (with its row number as ID)
+ * @throws {Error} If the write fails or the routes tab is missing
+ *
+ * @example
+ * ```typescript
+ * const saved = await createRoute({
+ *   date: '2025-10-13',
+ *   rep: 'Alex',
+ *   locationIds: [5, 12, 9],
+ *   start: { type: 'home-base', label: 'Home Base', lat: 40.71, lng: -74.0 },
+ *   status: 'planned',
+ * });
+ * console.log(`Saved route ${saved.id}`);
+ * ```
+ */
+export async function createRoute(route: RouteInput): Promise<Route> {
+  try {
+    await initializeSheetsClient();
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    const response = await sheetsClient.spreadsheets.values.append({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getRoutesDataRange(),
+      valueInputOption: 'RAW',
+      insertDataOption: 'INSERT_ROWS',
+      requestBody: {
+        values: [routeToRow(route)],
+      },
+    });
+
+    // Updated range looks like "Routes!A7:H7"; the row number is the route ID
+    const updatedRange = response.data.updates?.updatedRange || '';
+    const rowMatch = updatedRange.match(/![A-Z]+(\d+)/);
+    if (!rowMatch) {
+      throw new Error('Unable to determine the row of the saved route');
+    }
+
+    const id = parseInt(rowMatch[1], 10);
+    console.log(`Successfully saved route ${id}`);
+    return { id, ...route };
+  } catch (error) {
+    console.error('Failed to save route:', error);
+    throw toRoutesError(error, 'Unable to save route. Please try again.');
+  }
+}
+
+/**
+ * Updates a saved route.
+ * Only the fields provided in the update object are changed.
+ *
+ * @param id - Row number (1-indexed) of the route to update
+ * @param updates - Object containing fields to update
+ * @returns Promise that resolves to the updated Route object
+ * @throws {Error} If the route is not found or update fails
+ *
+ * @example
+ * ```typescript
+ * const updated = await updateRoute(4, { status: 'in progress' });
+ * ```
+ */
+export async function updateRoute(id: number, updates: RouteUpdate): Promise<Route> {
+  try {
+    const current = await getRouteById(id);
+    const updated: RouteInput = {
+      date: updates.date ?? current.date,
+      rep: updates.rep ?? current.rep,
+      locationIds: updates.locationIds ?? current.locationIds,
+      start: updates.start ?? current.start,
+      status: updates.status ?? current.status,
+    };
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    await sheetsClient.spreadsheets.values.update({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getRoutesRowRange(id),
+      valueInputOption: 'RAW',
+      requestBody: {
+        values: [routeToRow(updated)],
+      },
+    });
+
+    console.log(`Successfully updated route ${id}`);
+    return { id, ...updated };
+  } catch (error) {
+    console.error(`Failed to update route ${id}:`, error);
+    throw toRoutesError(error, 'Unable to update route. Please try again.');
+  }
+}
+
+/**
+ * Deletes a saved route by clearing its row.
+ * The row is cleared rather than removed so other route IDs stay valid.
+ *
+ * @param id - Row number (1-indexed) of the route to delete
+ * @returns Promise that resolves when the route is deleted
+ * @throws {Error} If the route is not found or the delete fails
+ *
+ * @example
+ * ```typescript
+ * await deleteRoute(4);
+ * ```
+ */
+export async function deleteRoute(id: number): Promise<void> {
+  try {
+    // Validate route exists before clearing its row
+    await getRouteById(id);
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    await sheetsClient.spreadsheets.values.clear({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getRoutesRowRange(id),
+    });
+
+    console.log(`Successfully deleted route ${id}`);
+  } catch (error) {
+    console.error(`Failed to delete route ${id}:`, error);
+    throw toRoutesError(error, 'Unable to delete route. Please try again.');
+  }
+}
+
+/**
+ * Gets the range string for reading all data rows from the territories tab.
+ * Assumes first row is headers, starts reading from row 2.
+ *
+ * @returns Range string in A1 notation (e.g., "Territories!A2:D")
+ */
+function getTerritoriesDataRange(): string {
+  const lastColumn = columnIndexToLetter(TERRITORY_SHEET_HEADERS.length - 1);
+  return `${config.googleSheets.territoriesSheetName}!A2:${lastColumn}`;
+}
+
+/**
+ * Gets the range string for a specific row in the territories tab.
+ *
+ * @param rowNumber - Row number (1-indexed, matching Google Sheets)
+ * @returns Range string in A1 notation (e.g., "Territories!A5:D5")
+ */
+function getTerritoriesRowRange(rowNumber: number): string {
+  const lastColumn = columnIndexToLetter(TERRITORY_SHEET_HEADERS.length - 1);
+  return `${config.googleSheets.territoriesSheetName}!A${rowNumber}:${lastColumn}${rowNumber}`;
+}
+
+/**
+ * Parses a polygon cell ("lat,lng; lat,lng; ...") into coordinates.
+ *
+ * @param value - Polygon cell text
+ * @returns Polygon corners, or null if any corner is invalid
+ */
+function parsePolygon(value: string): Coordinates[] | null {
+  const polygon: Coordinates[] = [];
+
+  for (const pair of value.split(';')) {
+    if (!pair.trim()) {
+      continue;
+    }
+    const [lat, lng] = pair.split(',').map((part) => parseFloat(part.trim()));
+    if (isNaN(lat) || isNaN(lng) || !isValidCoordinates(lat, lng)) {
+      return null;
+    }
+    polygon.push({ lat, lng });
+  }
+
+  return polygon;
+}
+
+/**
+ * Parses a raw territories tab row into a Territory object.
+ * Cleared rows (deleted territories) and rows without a valid polygon are skipped.
+ *
+ * @param row - Array of cell values from a single territories tab row
+ * @param rowIndex - Index of the row (0-based, from data rows only)
+ * @returns Territory object or null if row is empty or invalid
+ *
+ * @example
+ * ```typescript
+ * const row = ['North', 'Alex', '#4285F4', '40.80,-74.00; 40.80,-73.90; 40.75,-73.95'];
+ * const territory = parseTerritoryRow(row, 0);
+ * // territory.id will be 2 (row 1 is headers, row 2 is first data row)
+ * ```
+ */
+function parseTerritoryRow(row: unknown[], rowIndex: number): Territory | null {
+  const values = row.map((val) => String(val ?? '').trim());
+  const rowNumber = rowIndex + 2;
+
+  const name = values[TERRITORY_SHEET_COLUMNS.NAME] || '';
+  if (!name) {
+    return null;
+  }
+
+  const polygon = parsePolygon(values[TERRITORY_SHEET_COLUMNS.POLYGON] || '');
+  if (!polygon || polygon.length < TERRITORY_CONFIG.MIN_POINTS) {
+    console.warn(`Skipping territory row ${rowNumber}: Invalid polygon`);
+    return null;
+  }
+
+  return {
+    id: rowNumber,
+    name,
+    rep: values[TERRITORY_SHEET_COLUMNS.REP] || '',
+    color: values[TERRITORY_SHEET_COLUMNS.COLOR] || TERRITORY_CONFIG.COLORS[0],
+    polygon,
+  };
+}
+
+/**
+ * Converts a territory into a row of cell values for the territories tab.
+ *
+ * @param territory - Territory fields to write
+ * @returns Array of cell values in column order
+ */
+function territoryToRow(territory: TerritoryInput): string[] {
+  const row: string[] = [];
+
+  row[TERRITORY_SHEET_COLUMNS.NAME] = territory.name;
+  row[TERRITORY_SHEET_COLUMNS.REP] = territory.rep;
+  row[TERRITORY_SHEET_COLUMNS.COLOR] = territory.color;
+  row[TERRITORY_SHEET_COLUMNS.POLYGON] = territory.polygon
+    .map(({ lat, lng }) => `${lat},${lng}`)
+    .join('; ');
+
+  return row;
+}
+
+/**
+ * Maps Google Sheets API errors for the territories tab to user-friendly errors.
+ * Known errors (not found, validation) are returned unchanged.
+ *
+ * @param error - Error thrown by the Sheets API or this service
+ * @param fallbackMessage - Message used when the error is not recognized
+ * @returns Error to throw
+ */
+function toTerritoriesError(error: unknown, fallbackMessage: string): Error {
+  if (error instanceof Error) {
+    if (error.message.includes('not found')) {
+      return error;
+    }
+
+    // The Sheets API reports a missing tab as an unparseable range
+    if (error.message.includes('Unable to parse range')) {
+      return new Error(
+        `Territories tab "${config.googleSheets.territoriesSheetName}" does not exist. ` +
+        `Add a tab with the headers: ${TERRITORY_SHEET_HEADERS.join(', ')}.`
+      );
+    }
+    if (error.message.includes('403')) {
+      return new Error(
+        'Permission denied. Please ensure the service account has access to the Google Sheet.'
+      );
+    }
+  }
+
+  return new Error(fallbackMessage);
+}
+
+/**
+ * Fetches all territories from the territories tab.
+ *
+ * @returns Promise that resolves to an array of Territory objects
+ * @throws {Error} If the API request fails or the territories tab is missing
+ *
+ * @example
+ * ```typescript
+ * const territories = await getAllTerritories();
+ * ```
+ */
+export async function getAllTerritories(): Promise<Territory[]> {
+  try {
+    await initializeSheetsClient();
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    const response = await sheetsClient.spreadsheets.values.get({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getTerritoriesDataRange(),
+    });
+
+    const rows = response.data.values || [];
+
+    const territories: Territory[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      const territory = parseTerritoryRow(rows[i], i);
+      if (territory !== null) {
+        territories.push(territory);
+      }
+    }
+
+    console.log(`Successfully loaded ${territories.length} territories from Google Sheets`);
+    return territories;
+  } catch (error) {
+    console.error('Failed to fetch territories from Google Sheets:', error);
+    throw toTerritoriesError(error, 'Unable to load territories from Google Sheets. Please try again later.');
+  }
+}
+
+/**
+ * Fetches a single territory by its row number.
+ *
+ * @param id - Row number (1-indexed) of the territory in the territories tab
+ * @returns Promise that resolves to the Territory object
+ * @throws {Error} If the territory is not found or the request fails
+ */
+export async function getTerritoryById(id: number): Promise<Territory> {
+  try {
+    await initializeSheetsClient();
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    const response = await sheetsClient.spreadsheets.values.get({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getTerritoriesRowRange(id),
+    });
+
+    const row = response.data.values?.[0];
+    const territory = row ? parseTerritoryRow(row, id - 2) : null;
+    if (!territory) {
+      throw new Error(`Territory with ID ${id} not found`);
+    }
+
+    return territory;
+  } catch (error) {
+    console.error(`Failed to fetch territory ${id}:`, error);
+    throw toTerritoriesError(error, 'Unable to load territory. Please try again.');
+  }
+}
+
+/**
+ * Saves a new territory as a row at the end of the territories tab.
+ *
+ * @param territory - Territory fields to save
+ * @returns Promise that resolves to the saved Territory (with its row number as ID)
+ * @throws {Error} If the write fails or the territories tab is missing
+ *
+ * @example
+ * ```typescript
+ * const saved = await createTerritory({
+ *   name: 'North',
+ *   rep: 'Alex',
+ *   color: '#4285F4',
+ *   polygon: [{ lat: 40.8, lng: -74.0 }, { lat: 40.8, lng: -73.9 }, { lat: 40.75, lng: -73.95 }],
+ * });
+ * ```
+ */
+export async function createTerritory(territory: TerritoryInput): Promise<Territory> {
+  try {
+    await initializeSheetsClient();
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    const response = await sheetsClient.spreadsheets.values.append({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getTerritoriesDataRange(),
+      valueInputOption: 'RAW',
+      insertDataOption: 'INSERT_ROWS',
+      requestBody: {
+        values: [territoryToRow(territory)],
+      },
+    });
+
+    // Updated range looks like "Territories!A4:D4"; the row number is the territory ID
+    const updatedRange = response.data.updates?.updatedRange || '';
+    const rowMatch = updatedRange.match(/![A-Z]+(\d+)/);
+    if (!rowMatch) {
+      throw new Error('Unable to determine the row of the saved territory');
+    }
+
+    const id = parseInt(rowMatch[1], 10);
+    console.log(`Successfully saved territory ${id}`);
+    return { id, ...territory };
+  } catch (error) {
+    console.error('Failed to save territory:', error);
+    throw toTerritoriesError(error, 'Unable to save territory. Please try again.');
+  }
+}
+
+/**
+ * Updates a territory.
+ * Only the fields provided in the update object are changed.
+ *
+ * @param id - Row number (1-indexed) of the territory to update
+ * @param updates - Object containing fields to update
+ * @returns Promise that resolves to the updated Territory object
+ * @throws {Error} If the territory is not found or update fails
+ *
+ * @example
+ * ```typescript
+ * const updated = await updateTerritory(3, { rep: 'Sam' });
+ * ```
+ */
+export async function updateTerritory(id: number, updates: TerritoryUpdate): Promise<Territory> {
+  try {
+    const current = await getTerritoryById(id);
+    const updated: TerritoryInput = {
+      name: updates.name ?? current.name,
+      rep: updates.rep ?? current.rep,
+      color: updates.color ?? current.color,
+      polygon: updates.polygon ?? current.polygon,
+    };
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    await sheetsClient.spreadsheets.values.update({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getTerritoriesRowRange(id),
+      valueInputOption: 'RAW',
+      requestBody: {
+        values: [territoryToRow(updated)],
+      },
+    });
+
+    console.log(`Successfully updated territory ${id}`);
+    return { id, ...updated };
+  } catch (error) {
+    console.error(`Failed to update territory ${id}:`, error);
+    throw toTerritoriesError(error, 'Unable to update territory. Please try again.');
+  }
+}
+
+/**
+ * Deletes a territory by clearing its row.
+ * The row is cleared rather than removed so other territory IDs stay valid.
+ *
+ * @param id - Row number (1-indexed) of the territory to delete
+ * @returns Promise that resolves when the territory is deleted
+ * @throws {Error} If the territory is not found or the delete fails
+ */
+export async function deleteTerritory(id: number): Promise<void> {
+  try {
+    // Validate territory exists before clearing its row
+    await getTerritoryById(id);
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    await sheetsClient.spreadsheets.values.clear({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getTerritoriesRowRange(id),
+    });
+
+    console.log(`Successfully deleted territory ${id}`);
+  } catch (error) {
+    console.error(`Failed to delete territory ${id}:`, error);
+    throw toTerritoriesError(error, 'Unable to delete territory. Please try again.');
+  }
+}
+
+/**
+ * Gets the range string for reading all data rows from the visits tab.
+ * Assumes first row is headers, starts reading from row 2.
+ *
+ * @returns Range string in A1 notation (e.g., "Visits!A2:J")
+ */
+function getVisitsDataRange(): string {
+  const lastColumn = columnIndexToLetter(VISIT_SHEET_HEADERS.length - 1);
+  return `${config.googleSheets.visitsSheetName}!A2:${lastColumn}`;
+}
+
+/**
+ * Parses a raw visits tab row into a Visit object.
+ * Rows without a valid timestamp, location or position are skipped.
+ *
+ * @param row - Array of cell values from a single visits tab row
+ * @param rowIndex - Index of the row (0-based, from data rows only)
+ * @returns Visit object or null if row is empty or invalid
+ *
+ * @example
+ * ```typescript
+ * const row = ['2025-10-13T14:05:00.000Z', '2025-10-13', 'Alex', '5', '40.71', '-74.00', 'route', '4', '12', 'TRUE'];
+ * const visit = parseVisitRow(row, 0);
+ * // visit.id will be 2 (row 1 is headers, row 2 is first data row)
+ * ```
+ */
+function parseVisitRow(row: unknown[], rowIndex: number): Visit | null {
+  const values = row.map((val) => String(val ?? '').trim());
+  const rowNumber = rowIndex + 2;
+
+  const timestamp = values[VISIT_SHEET_COLUMNS.TIMESTAMP] || '';
+  const date = convertDateToISO(values[VISIT_SHEET_COLUMNS.DATE] || '');
+  if (!timestamp || isNaN(new Date(timestamp).getTime()) || !date) {
+    return null;
+  }
+
+  const locationId = parseInt(values[VISIT_SHEET_COLUMNS.LOCATION_ID] || '', 10);
+  const lat = parseFloat(values[VISIT_SHEET_COLUMNS.LATITUDE] || '');
+  const lng = parseFloat(values[VISIT_SHEET_COLUMNS.LONGITUDE] || '');
+
+  if (isNaN(locationId) || isNaN(lat) || isNaN(lng) || !isValidCoordinates(lat, lng)) {
+    console.warn(`Skipping visit row ${rowNumber}: Invalid location or position`);
+    return null;
+  }
+
+  let source = values[VISIT_SHEET_COLUMNS.SOURCE] || '';
+  if (!isValidVisitSource(source)) {
+    console.warn(`Visit row ${rowNumber}: Invalid source "${source}". Using "route".`);
+    source = 'route';
+  }
+
+  const routeId = parseInt(values[VISIT_SHEET_COLUMNS.ROUTE_ID] || '', 10);
+  const distanceMeters = parseFloat(values[VISIT_SHEET_COLUMNS.DISTANCE] || '');
+
+  return {
+    id: rowNumber,
+    timestamp,
+    date,
+    rep: values[VISIT_SHEET_COLUMNS.REP] || '',
+    locationId,
+    lat,
+    lng,
+    source: source as Visit['source'],
+    routeId: isNaN(routeId) ? undefined : routeId,
+    distanceMeters: isNaN(distanceMeters) ? undefined : distanceMeters,
+    // Rows logged before the column existed are left blank and count as verified
+    verified: (values[VISIT_SHEET_COLUMNS.VERIFIED] || '').toUpperCase() !== 'FALSE',
+  };
+}
+
+/**
+ * Converts a visit into a row of cell values for the visits tab.
+ *
+ * @param visit - Visit fields to write
+ * @returns Array of cell values in column order
+ */
+function visitToRow(visit: VisitInput): (string | number)[] {
+  const row: (string | number)[] = [];
+
+  row[VISIT_SHEET_COLUMNS.TIMESTAMP] = visit.timestamp;
+  row[VISIT_SHEET_COLUMNS.DATE] = visit.date;
+  row[VISIT_SHEET_COLUMNS.REP] = visit.rep;
+  row[VISIT_SHEET_COLUMNS.LOCATION_ID] = visit.locationId;
+  row[VISIT_SHEET_COLUMNS.LATITUDE] = visit.lat;
+  row[VISIT_SHEET_COLUMNS.LONGITUDE] = visit.lng;
+  row[VISIT_SHEET_COLUMNS.SOURCE] = visit.source;
+  row[VISIT_SHEET_COLUMNS.ROUTE_ID] = visit.routeId ?? '';
+  row[VISIT_SHEET_COLUMNS.DISTANCE] = visit.distanceMeters ?? '';
+  row[VISIT_SHEET_COLUMNS.VERIFIED] = visit.verified ? 'TRUE' : 'FALSE';
+
+  return row;
+}
+
+/**
+ * Maps Google Sheets API errors for the visits tab to user-friendly errors.
+ *
+ * @param error - Error thrown by the Sheets API or this service
+ * @param fallbackMessage - Message used when the error is not recognized
+ * @returns Error to throw
+ */
+function toVisitsError(error: unknown, fallbackMessage: string): Error {
+  if (error instanceof Error) {
+    // The Sheets API reports a missing tab as an unparseable range
+    if (error.message.includes('Unable to parse range')) {
+      return new Error(
+        `Visits tab "${config.googleSheets.visitsSheetName}" does not exist. ` +
+        `Add a tab with the headers: ${VISIT_SHEET_HEADERS.join(', ')}.`
+      );
+    }
+    if (error.message.includes('403')) {
+      return new Error(
+        'Permission denied. Please ensure the service account has access to the Google Sheet.'
+      );
+    }
+  }
+
+  return new Error(fallbackMessage);
+}
+
+/**
+ * Fetches all recorded visits from the visits tab.
+ *
+ * @returns Promise that resolves to an array of Visit objects
+ * @throws {Error} If the API request fails or the visits tab is missing
+ *
+ * @example
+ * ```typescript
+ * const visits = await getAllVisits();
+ * const todays = visits.filter((visit) => visit.date === '2025-10-13');
+ * ```
+ */
+export async function getAllVisits(): Promise<Visit[]> {
+  try {
+    await initializeSheetsClient();
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    const response = await sheetsClient.spreadsheets.values.get({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getVisitsDataRange(),
+    });
+
+    const rows = response.data.values || [];
+
+    const visits: Visit[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      const visit = parseVisitRow(rows[i], i);
+      if (visit !== null) {
+        visits.push(visit);
+      }
+    }
+
+    console.log(`Successfully loaded ${visits.length} visits from Google Sheets`);
+    return visits;
+  } catch (error) {
+    console.error('Failed to fetch visits from Google Sheets:', error);
+    throw toVisitsError(error, 'Unable to load visits from Google Sheets. Please try again later.');
+  }
+}
+
+/**
+ * Records a visit as a row at the end of the visits tab.
+ *
+ * @param visit - Visit fields to record
+ * @returns Promise that resolves to the recorded Visit (with its row number as ID)
+ * @throws {Error} If the write fails or the visits tab is missing
+ *
+ * @example
+ * ```typescript
+ * const visit = await createVisit({
+ *   timestamp: new Date().toISOString(),
+ *   date: '2025-10-13',
+ *   rep: 'Alex',
+ *   locationId: 5,
+ *   lat: 40.71,
+ *   lng: -74.0,
+ *   source: 'route',
+ *   routeId: 4,
+ *   distanceMeters: 12,
+ *   verified: true,
+ * });
+ * ```
+ */
+export async function createVisit(visit: VisitInput): Promise<Visit> {
+  try {
+    await initializeSheetsClient();
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    const response = await sheetsClient.spreadsheets.values.append({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getVisitsDataRange(),
+      valueInputOption: 'RAW',
+      insertDataOption: 'INSERT_ROWS',
+      requestBody: {
+        values: [visitToRow(visit)],
+      },
+    });
+
+    // Updated range looks like "Visits!A7:J7"; the row number is the visit ID
+    const updatedRange = response.data.updates?.updatedRange || '';
+    const rowMatch = updatedRange.match(/![A-Z]+(\d+)/);
+    if (!rowMatch) {
+      throw new Error('Unable to determine the row of the recorded visit');
+    }
+
+    const id = parseInt(rowMatch[1], 10);
+    console.log(`Successfully recorded visit ${id}`);
+    return { id, ...visit };
+  } catch (error) {
+    console.error('Failed to record visit:', error);
+    throw toVisitsError(error, 'Unable to record visit. Please try again.');
+  }
+}
+
+/**
+ * Gets the range string for reading all data rows from the filter presets tab.
+ * Assumes first row is headers, starts reading from row 2.
+ * The tab name is quoted because the default name contains a space.
+ *
+ * @returns Range string in A1 notation (e.g., "'Filter Presets'!A2:H")
+ */
+function getFilterPresetsDataRange(): string {
+  const lastColumn = columnIndexToLetter(FILTER_PRESET_SHEET_HEADERS.length - 1);
+  return `'${config.googleSheets.filterPresetsSheetName}'!A2:${lastColumn}`;
+}
+
+/**
+ * Gets the range string for a specific row in the filter presets tab.
+ *
+ * @param rowNumber - Row number (1-indexed, matching Google Sheets)
+ * @returns Range string in A1 notation (e.g., "'Filter Presets'!A5:H5")
+ */
+function getFilterPresetsRowRange(rowNumber: number): string {
+  const lastColumn = columnIndexToLetter(FILTER_PRESET_SHEET_HEADERS.length - 1);
+  return `'${config.googleSheets.filterPresetsSheetName}'!A${rowNumber}:${lastColumn}${rowNumber}`;
+}
+
+/**
+ * Parses a raw filter presets tab row into a FilterPreset object.
+ * Cleared rows (deleted presets) and rows without a rep or name are skipped.
+ *
+ * @param row - Array of cell values from a single filter presets tab row
+ * @param rowIndex - Index of the row (0-based, from data rows only)
+ * @returns FilterPreset object or null if row is empty or invalid
+ *
+ * @example
+ * ```typescript
+ * const row = ['Alex', 'My hot leads', 'Follow-up, Revisit', 'this-week', '', '', 'North', ''];
+ * const preset = parseFilterPresetRow(row, 0);
+ * // preset.id will be 2 (row 1 is headers, row 2 is first data row)
+ * ```
+ */
+function parseFilterPresetRow(row: unknown[], rowIndex: number): FilterPreset | null {
+  const values = row.map((val) => String(val ?? '').trim());
+  const rowNumber = rowIndex + 2;
+
+  const rep = values[FILTER_PRESET_SHEET_COLUMNS.REP] || '';
+  const name = values[FILTER_PRESET_SHEET_COLUMNS.NAME] || '';
+  if (!rep || !name) {
+    return null;
+  }
+
+  let preset = values[FILTER_PRESET_SHEET_COLUMNS.FOLLOW_UP_PRESET] || '';
+  if (!isValidFollowUpPreset(preset)) {
+    console.warn(`Filter preset row ${rowNumber}: Invalid follow-up preset "${preset}". Using "today".`);
+    preset = 'today';
+  }
+
+  const statuses = (values[FILTER_PRESET_SHEET_COLUMNS.STATUSES] || '')
+    .split(',')
+    .map((status) => status.trim())
+    .filter((status) => isValidStatus(status));
+
+  return {
+    id: rowNumber,
+    rep,
+    name,
+    statuses,
+    followUpFilter: {
+      preset: preset as FollowUpPreset,
+      customStart: convertDateToISO(values[FILTER_PRESET_SHEET_COLUMNS.FOLLOW_UP_FROM] || '') ?? '',
+      customEnd: convertDateToISO(values[FILTER_PRESET_SHEET_COLUMNS.FOLLOW_UP_TO] || '') ?? '',
+    },
+    territory: values[FILTER_PRESET_SHEET_COLUMNS.TERRITORY] || '',
+    searchText: values[FILTER_PRESET_SHEET_COLUMNS.SEARCH_TEXT] || '',
+  };
+}
+
+/**
+ * Converts a filter preset into a row of cell values for the filter presets tab.
+ *
+ * @param preset - Filter preset fields to write
+ * @returns Array of cell values in column order
+ */
+function filterPresetToRow(preset: FilterPresetInput): string[] {
+  const row: string[] = [];
+
+  row[FILTER_PRESET_SHEET_COLUMNS.REP] = preset.rep;
+  row[FILTER_PRESET_SHEET_COLUMNS.NAME] = preset.name;
+  row[FILTER_PRESET_SHEET_COLUMNS.STATUSES] = preset.statuses.join(', ');
+  row[FILTER_PRESET_SHEET_COLUMNS.FOLLOW_UP_PRESET] = preset.followUpFilter.preset;
+  row[FILTER_PRESET_SHEET_COLUMNS.FOLLOW_UP_FROM] = preset.followUpFilter.customStart;
+  row[FILTER_PRESET_SHEET_COLUMNS.FOLLOW_UP_TO] = preset.followUpFilter.customEnd;
+  row[FILTER_PRESET_SHEET_COLUMNS.TERRITORY] = preset.territory;
+  row[FILTER_PRESET_SHEET_COLUMNS.SEARCH_TEXT] = preset.searchText;
+
+  return row;
+}
+
+/**
+ * Maps Google Sheets API errors for the filter presets tab to user-friendly errors.
+ * Known errors (not found, validation) are returned unchanged.
+ *
+ * @param error - Error thrown by the Sheets API or this service
+ * @param fallbackMessage - Message used when the error is not recognized
+ * @returns Error to throw
+ */
+function toFilterPresetsError(error: unknown, fallbackMessage: string): Error {
+  if (error instanceof Error) {
+    if (error.message.includes('not found')) {
+      return error;
+    }
+
+    // The Sheets API reports a missing tab as an unparseable range
+    if (error.message.includes('Unable to parse range')) {
+      return new Error(
+        `Filter presets tab "${config.googleSheets.filterPresetsSheetName}" does not exist. ` +
+        `Add a tab with the headers: ${FILTER_PRESET_SHEET_HEADERS.join(', ')}.`
+      );
+    }
+    if (error.message.includes('403')) {
+      return new Error(
+        'Permission denied. Please ensure the service account has access to the Google Sheet.'
+      );
+    }
+  }
+
+  return new Error(fallbackMessage);
+}
+
+/**
+ * Fetches all filter presets from the filter presets tab.
+ *
+ * @returns Promise that resolves to an array of FilterPreset objects
+ * @throws {Error} If the API request fails or the filter presets tab is missing
+ *
+ * @example
+ * ```typescript
+ * const presets = await getAllFilterPresets();
+ * ```
+ */
+export async function getAllFilterPresets(): Promise<FilterPreset[]> {
+  try {
+    await initializeSheetsClient();
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    const response = await sheetsClient.spreadsheets.values.get({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getFilterPresetsDataRange(),
+    });
+
+    const rows = response.data.values || [];
+
+    const presets: FilterPreset[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      const preset = parseFilterPresetRow(rows[i], i);
+      if (preset !== null) {
+        presets.push(preset);
+      }
+    }
+
+    console.log(`Successfully loaded ${presets.length} filter presets from Google Sheets`);
+    return presets;
+  } catch (error) {
+    console.error('Failed to fetch filter presets from Google Sheets:', error);
+    throw toFilterPresetsError(error, 'Unable to load filter presets from Google Sheets. Please try again later.');
+  }
+}
+
+/**
+ * Fetches a single filter preset by its row number.
+ *
+ * @param id - Row number (1-indexed) of the preset in the filter presets tab
+ * @returns Promise that resolves to the FilterPreset object
+ * @throws {Error} If the preset is not found or the request fails
+ */
+export async function getFilterPresetById(id: number): Promise<FilterPreset> {
+  try {
+    await initializeSheetsClient();
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    const response = await sheetsClient.spreadsheets.values.get({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getFilterPresetsRowRange(id),
+    });
+
+    const row = response.data.values?.[0];
+    const preset = row ? parseFilterPresetRow(row, id - 2) : null;
+    if (!preset) {
+      throw new Error(`Filter preset with ID ${id} not found`);
+    }
+
+    return preset;
+  } catch (error) {
+    console.error(`Failed to fetch filter preset ${id}:`, error);
+    throw toFilterPresetsError(error, 'Unable to load filter preset. Please try again.');
+  }
+}
+
+/**
+ * Saves a new filter preset as a row at the end of the filter presets tab.
+ *
+ * @param preset - Filter preset fields to save
+ * @returns Promise that resolves to the saved FilterPreset (with its row number as ID)
+ * @throws {Error} If the write fails or the filter presets tab is missing
+ *
+ * @example
+ * ```typescript
+ * const saved = await createFilterPreset({
+ *   rep: 'Alex',
+ *   name: 'My hot leads',
+ *   statuses: ['Follow-up', 'Revisit'],
+ *   followUpFilter: { preset: 'this-week', customStart: '', customEnd: '' },
+ *   territory: 'North',
+ *   searchText: '',
+ * });
+ * ```
+ */
+export async function createFilterPreset(preset: FilterPresetInput): Promise<FilterPreset> {
+  try {
+    await initializeSheetsClient();
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    const response = await sheetsClient.spreadsheets.values.append({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getFilterPresetsDataRange(),
+      valueInputOption: 'RAW',
+      insertDataOption: 'INSERT_ROWS',
+      requestBody: {
+        values: [filterPresetToRow(preset)],
+      },
+    });
+
+    // Updated range looks like "'Filter Presets'!A4:H4"; the row number is the preset ID
+    const updatedRange = response.data.updates?.updatedRange || '';
+    const rowMatch = updatedRange.match(/![A-Z]+(\d+)/);
+    if (!rowMatch) {
+      throw new Error('Unable to determine the row of the saved filter preset');
+    }
+
+    const id = parseInt(rowMatch[1], 10);
+    console.log(`Successfully saved filter preset ${id}`);
+    return { id, ...preset };
+  } catch (error) {
+    console.error('Failed to save filter preset:', error);
+    throw toFilterPresetsError(error, 'Unable to save filter preset. Please try again.');
+  }
+}
+
+/**
+ * Updates a filter preset.
+ * Only the fields provided in the update object are changed.
+ *
+ * @param id - Row number (1-indexed) of the preset to update
+ * @param updates - Object containing fields to update
+ * @returns Promise that resolves to the updated FilterPreset object
+ * @throws {Error} If the preset is not found or update fails
+ *
+ * @example
+ * ```typescript
+ * const updated = await updateFilterPreset(3, { territory: 'South' });
+ * ```
+ */
+export async function updateFilterPreset(id: number, updates: FilterPresetUpdate): Promise<FilterPreset> {
+  try {
+    const current = await getFilterPresetById(id);
+    const updated: FilterPresetInput = {
+      rep: updates.rep ?? current.rep,
+      name: updates.name ?? current.name,
+      statuses: updates.statuses ?? current.statuses,
+      followUpFilter: updates.followUpFilter ?? current.followUpFilter,
+      territory: updates.territory ?? current.territory,
+      searchText: updates.searchText ?? current.searchText,
+    };
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    await sheetsClient.spreadsheets.values.update({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getFilterPresetsRowRange(id),
+      valueInputOption: 'RAW',
+      requestBody: {
+        values: [filterPresetToRow(updated)],
+      },
+    });
+
+    console.log(`Successfully updated filter preset ${id}`);
+    return { id, ...updated };
+  } catch (error) {
+    console.error(`Failed to update filter preset ${id}:`, error);
+    throw toFilterPresetsError(error, 'Unable to update filter preset. Please try again.');
+  }
+}
+
+/**
+ * Deletes a filter preset by clearing its row.
+ * The row is cleared rather than removed so other preset IDs stay valid.
+ *
+ * @param id - Row number (1-indexed) of the preset to delete
+ * @returns Promise that resolves when the preset is deleted
+ * @throws {Error} If the preset is not found or the delete fails
+ */
+export async function deleteFilterPreset(id: number): Promise<void> {
+  try {
+    // Validate preset exists before clearing its row
+    await getFilterPresetById(id);
+
+    if (!sheetsClient) {
+      throw new Error('Google Sheets client not initialized');
+    }
+
+    await sheetsClient.spreadsheets.values.clear({
+      spreadsheetId: config.googleSheets.sheetId,
+      range: getFilterPresetsRowRange(id),
+    });
+
+    console.log(`Successfully deleted filter preset ${id}`);
+  } catch (error) {
+    console.error(`Failed to delete filter preset ${id}:`, error);
+    throw toFilterPresetsError(error, 'Unable to delete filter preset. Please try again.');
+  }
+}
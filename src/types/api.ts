@@ -5,7 +5,12 @@
  * These types ensure type safety for client-server communication.
  */
 
-import { Location } from './location';
+import { Location, LocationAssignment, LocationBatchResult, LocationBatchUpdate } from './location';
+import { Route, RouteStartPoint } from './route';
+import { Territory } from './territory';
+import { Coordinates } from './google';
+import { MileageReport, Visit, VisitSource } from './visit';
+import { FilterPreset, FollowUpFilter } from './filter-preset';
 
 /**
  * Generic success response wrapper.
@@ -76,6 +81,278 @@ export interface UpdateLocationRequest {
   followUpDate?: string;
 }
 
+/**
+ * Request body type for POST /api/locations endpoint.
+ * The address is geocoded before the row is added.
+ */
+export interface CreateLocationRequest {
+  /** Business or company name */
+  companyName: string;
+  /** Full street address */
+  address: string;
+  /** Initial status (defaults to Prospect) */
+  status?: string;
+  /** Notes (optional) */
+  notes?: string;
+  /** Follow-up date in YYYY-MM-DD format (optional) */
+  followUpDate?: string;
+}
+
+/**
+ * Response type for POST /api/locations endpoint.
+ * Returns the new location with its coordinates.
+ */
+export interface CreateLocationResponse {
+  /** Indicates the location was added */
+  success: true;
+  /** The new location; its ID is the sheet row number */
+  location: Location;
+}
+
+/**
+ * Request body type for PATCH /api/locations endpoint.
+ * Updates many locations in one sheet write.
+ */
+export type UpdateLocationsRequest = LocationBatchUpdate[];
+
+/**
+ * Response type for PATCH /api/locations endpoint.
+ * Results are in request order; items that failed validation or point at a
+ * missing row are reported individually without failing the others.
+ */
+export interface UpdateLocationsResponse {
+  /** Indicates the request was processed */
+  success: true;
+  /** Outcome per requested update */
+  results: LocationBatchResult[];
+  /** Number of locations written */
+  updated: number;
+  /** Number of updates that failed */
+  failed: number;
+}
+
+/**
+ * Request body type for POST /api/locations/assignments endpoint.
+ * Assigns many locations to reps in one sheet write.
+ */
+export interface AssignLocationsRequest {
+  /** Rep assignment per location */
+  assignments: LocationAssignment[];
+}
+
+/**
+ * Response type for POST /api/locations/assignments endpoint.
+ */
+export interface AssignLocationsResponse {
+  /** Indicates the assignments were written */
+  success: true;
+  /** Number of locations written */
+  updated: number;
+  /** IDs skipped because no location was found in that row */
+  notFound: number[];
+}
+
+/**
+ * Response type for GET /api/routes endpoint.
+ * Returns the saved routes matching the query filters.
+ */
+export interface GetRoutesResponse {
+  /** Saved routes, in sheet order */
+  routes: Route[];
+}
+
+/**
+ * Response type for POST /api/routes and PATCH /api/routes/[id] endpoints.
+ * Returns the route after it was saved.
+ */
+export interface RouteResponse {
+  /** Indicates the save was successful */
+  success: true;
+  /** The saved route */
+  route: Route;
+}
+
+/**
+ * Response type for DELETE /api/routes/[id] endpoint.
+ */
+export interface DeleteRouteResponse {
+  /** Indicates the delete was successful */
+  success: true;
+  /** ID of the deleted route */
+  id: number;
+}
+
+/**
+ * Request body type for POST /api/routes endpoint.
+ */
+export interface CreateRouteRequest {
+  /** Date the route is planned for, in YYYY-MM-DD format */
+  date: string;
+  /** Name of the rep the route belongs to */
+  rep: string;
+  /** Location IDs in visiting order */
+  locationIds: number[];
+  /** Where the route begins */
+  start: RouteStartPoint;
+  /** Route status (optional, defaults to "planned") */
+  status?: string;
+}
+
+/**
+ * Request body type for PATCH /api/routes/[id] endpoint.
+ * Contains the fields to be updated.
+ */
+export type UpdateRouteRequest = Partial<CreateRouteRequest>;
+
+/**
+ * Response type for GET /api/territories endpoint.
+ */
+export interface GetTerritoriesResponse {
+  /** Saved territories, in sheet order */
+  territories: Territory[];
+}
+
+/**
+ * Response type for POST /api/territories and PATCH /api/territories/[id] endpoints.
+ * Returns the territory after it was saved.
+ */
+export interface TerritoryResponse {
+  /** Indicates the save was successful */
+  success: true;
+  /** The saved territory */
+  territory: Territory;
+}
+
+/**
+ * Response type for DELETE /api/territories/[id] endpoint.
+ */
+export interface DeleteTerritoryResponse {
+  /** Indicates the delete was successful */
+  success: true;
+  /** ID of the deleted territory */
+  id: number;
+}
+
+/**
+ * Request body type for POST /api/territories endpoint.
+ */
+export interface CreateTerritoryRequest {
+  /** Territory name */
+  name: string;
+  /** Name of the assigned rep (optional) */
+  rep?: string;
+  /** Fill color in hex (optional, defaults to the next palette color) */
+  color?: string;
+  /** Polygon corners (at least 3) */
+  polygon: Coordinates[];
+}
+
+/**
+ * Request body type for PATCH /api/territories/[id] endpoint.
+ * Contains the fields to be updated.
+ */
+export type UpdateTerritoryRequest = Partial<CreateTerritoryRequest>;
+
+/**
+ * Response type for GET /api/filter-presets endpoint.
+ */
+export interface GetFilterPresetsResponse {
+  /** Saved filter presets, in sheet order */
+  presets: FilterPreset[];
+}
+
+/**
+ * Response type for POST /api/filter-presets and PATCH /api/filter-presets/[id] endpoints.
+ * Returns the preset after it was saved.
+ */
+export interface FilterPresetResponse {
+  /** Indicates the save was successful */
+  success: true;
+  /** The saved filter preset */
+  preset: FilterPreset;
+}
+
+/**
+ * Response type for DELETE /api/filter-presets/[id] endpoint.
+ */
+export interface DeleteFilterPresetResponse {
+  /** Indicates the delete was successful */
+  success: true;
+  /** ID of the deleted filter preset */
+  id: number;
+}
+
+/**
+ * Request body type for POST /api/filter-presets endpoint.
+ */
+export interface CreateFilterPresetRequest {
+  /** Name of the rep the preset belongs to */
+  rep: string;
+  /** Preset name (unique per rep) */
+  name: string;
+  /** Statuses shown on the map */
+  statuses: string[];
+  /** Follow-up date filter */
+  followUpFilter: FollowUpFilter;
+  /** Territory name, "unassigned", or empty for all (optional) */
+  territory?: string;
+  /** Text locations must match (optional) */
+  searchText?: string;
+}
+
+/**
+ * Request body type for PATCH /api/filter-presets/[id] endpoint.
+ * Contains the fields to be updated.
+ */
+export type UpdateFilterPresetRequest = Partial<CreateFilterPresetRequest>;
+
+/**
+ * Response type for GET /api/visits endpoint.
+ * Returns the visits matching the query filters.
+ */
+export interface GetVisitsResponse {
+  /** Visits, in sheet order */
+  visits: Visit[];
+}
+
+/**
+ * Response type for POST /api/visits endpoint.
+ * Returns the visit after it was recorded.
+ */
+export interface VisitResponse {
+  /** Indicates the operation was successful */
+  success: true;
+  /** The recorded visit */
+  visit: Visit;
+}
+
+/**
+ * Request body type for POST /api/visits endpoint.
+ */
+export interface CreateVisitRequest {
+  /** When the visit was completed (ISO 8601 timestamp) */
+  timestamp: string;
+  /** Rep's local date of the visit in YYYY-MM-DD format */
+  date: string;
+  /** Name of the rep who made the visit */
+  rep: string;
+  /** Visited location ID */
+  locationId: number;
+  /** Rep's latitude when the visit was recorded */
+  lat: number;
+  /** Rep's longitude when the visit was recorded */
+  lng: number;
+  /** How the visit was recorded */
+  source: VisitSource;
+  /** Saved route the visit belongs to (optional) */
+  routeId?: number;
+}
+
+/**
+ * Response type for GET /api/reports/mileage endpoint (JSON format).
+ */
+export type MileageReportResponse = MileageReport;
+
 /**
  * Validation error details for request validation failures.
  */
@@ -0,0 +1,91 @@
+/**
+ * Filter Preset Type Definitions
+ *
+ * This file contains type definitions for the follow-up date filter and
+ * for named filter presets: a rep's saved combination of statuses,
+ * follow-up dates, territory and search text, stored in the
+ * "Filter Presets" sheet tab.
+ */
+
+/**
+ * Follow-up filter presets.
+ * - overdue → before today
+ * - today / tomorrow → that day
+ * - this-week → Monday to Sunday of the current week
+ * - next-7-days → today and the 6 days after it
+ * - custom → the chosen start and end dates
+ */
+export const FOLLOW_UP_PRESET_VALUES = [
+  'overdue',
+  'today',
+  'tomorrow',
+  'this-week',
+  'next-7-days',
+  'custom',
+] as const;
+
+/**
+ * Follow-up filter preset type.
+ */
+export type FollowUpPreset = typeof FOLLOW_UP_PRESET_VALUES[number];
+
+/**
+ * Follow-up filter as chosen in the filters panel.
+ */
+export interface FollowUpFilter {
+  /** Active preset */
+  preset: FollowUpPreset;
+  /** First day of the custom range (YYYY-MM-DD) */
+  customStart: string;
+  /** Last day of the custom range (YYYY-MM-DD) */
+  customEnd: string;
+}
+
+/**
+ * A rep's named set of filters (e.g., "My hot leads").
+ *
+ * Data is synced with Google Sheets where each FilterPreset
+ * corresponds to one row in the filter presets tab.
+ */
+export interface FilterPreset {
+  /** Sheet row number in the filter presets tab (1-indexed) */
+  id: number;
+  /** Name of the rep the preset belongs to */
+  rep: string;
+  /** Preset name (unique per rep) */
+  name: string;
+  /** Statuses shown on the map */
+  statuses: string[];
+  /** Follow-up date filter */
+  followUpFilter: FollowUpFilter;
+  /** Territory name, "unassigned", or empty for all territories */
+  territory: string;
+  /** Text locations must match (empty for no text filter) */
+  searchText: string;
+}
+
+/**
+ * Fields needed to save a new filter preset.
+ */
+export type FilterPresetInput = Omit<FilterPreset, 'id'>;
+
+/**
+ * Partial update object for filter presets.
+ * All fields are optional to support partial updates.
+ */
+export type FilterPresetUpdate = Partial<FilterPresetInput>;
+
+/**
+ * Type guard to check if a string is a valid FollowUpPreset value.
+ *
+ * @param value - String to check
+ * @returns True if the string matches a valid FollowUpPreset value
+ *
+ * @example
+ * if (isValidFollowUpPreset('this-week')) {
+ *   // TypeScript knows this is a FollowUpPreset
+ * }
+ */
+export function isValidFollowUpPreset(value: string): value is FollowUpPreset {
+  return FOLLOW_UP_PRESET_VALUES.includes(value as FollowUpPreset);
+}
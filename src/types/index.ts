@@ -17,7 +17,11 @@ export {
   type LocationStatus,
   type MarkerColor,
   type Location,
+  type LocationInput,
   type LocationUpdate,
+  type LocationAssignment,
+  type LocationBatchUpdate,
+  type LocationBatchResult,
   isValidStatus,
   toStatus,
   getMarkerColor,
@@ -32,6 +36,31 @@ export {
   type GetLocationsResponse,
   type UpdateLocationResponse,
   type UpdateLocationRequest,
+  type CreateLocationRequest,
+  type CreateLocationResponse,
+  type UpdateLocationsRequest,
+  type UpdateLocationsResponse,
+  type AssignLocationsRequest,
+  type AssignLocationsResponse,
+  type GetRoutesResponse,
+  type RouteResponse,
+  type DeleteRouteResponse,
+  type CreateRouteRequest,
+  type UpdateRouteRequest,
+  type GetTerritoriesResponse,
+  type TerritoryResponse,
+  type DeleteTerritoryResponse,
+  type CreateTerritoryRequest,
+  type UpdateTerritoryRequest,
+  type GetFilterPresetsResponse,
+  type FilterPresetResponse,
+  type DeleteFilterPresetResponse,
+  type CreateFilterPresetRequest,
+  type UpdateFilterPresetRequest,
+  type GetVisitsResponse,
+  type VisitResponse,
+  type CreateVisitRequest,
+  type MileageReportResponse,
   type ValidationError,
   type ValidationErrorResponse,
   isSuccessResponse,
@@ -79,3 +108,60 @@ export {
   calculateDistance,
   getDirectionsUrl,
 } from './google';
+
+// Route planning types
+export {
+  type RouteStartType,
+  type RouteStartPoint,
+  type OptimizedRoute,
+  type RoutePlan,
+  type TimeWindow,
+  type RouteScheduleSettings,
+  type UnschedulableReason,
+  type UnschedulableStop,
+  type ScheduledRoute,
+  type RouteLeg,
+  type TravelEstimator,
+  type RouteStatus,
+  type Route,
+  type RouteInput,
+  type RouteUpdate,
+  type StopProgressStatus,
+  type StopProgress,
+  type RouteProgress,
+  ROUTE_START_LABELS,
+  ROUTE_STATUSES,
+  UNSCHEDULABLE_REASON_LABELS,
+  isValidRouteStatus,
+  isValidRouteStartType,
+} from './route';
+
+// Territory types
+export {
+  type Territory,
+  type TerritoryInput,
+  type TerritoryUpdate,
+} from './territory';
+
+// Visit log and mileage types
+export {
+  type VisitSource,
+  type Visit,
+  type VisitInput,
+  type MileageDay,
+  type RepMileage,
+  type MileageReport,
+  VISIT_SOURCES,
+  isValidVisitSource,
+} from './visit';
+
+// Filter preset types
+export {
+  type FollowUpPreset,
+  type FollowUpFilter,
+  type FilterPreset,
+  type FilterPresetInput,
+  type FilterPresetUpdate,
+  FOLLOW_UP_PRESET_VALUES,
+  isValidFollowUpPreset,
+} from './filter-preset';
@@ -68,6 +68,9 @@ export const STATUS_COLORS: Record<LocationStatus, MarkerColor> = {
  * @property followUpDate - Optional follow-up date in YYYY-MM-DD format
  * @property placeId - Optional Google Places API identifier for the business
  * @property photo - Optional photo URL for the business
+ * @property openingHours - Optional opening hours text (e.g., "Mon-Fri 09:00-17:00")
+ * @property assignedTo - Optional name of the rep the location is assigned to
+ * @property territory - Optional name of the territory containing the location (computed, not stored)
  */
 export interface Location {
   /** Sheet row number (1-indexed) */
@@ -90,8 +93,20 @@ export interface Location {
   placeId?: string;
   /** Photo URL from Google (e.g., https://lh3.googleusercontent.com/...) */
   photo?: string;
+  /** Opening hours text from the sheet (see lib/opening-hours.ts for the format) */
+  openingHours?: string;
+  /** Rep the location is assigned to (set by territory balancing) */
+  assignedTo?: string;
+  /** Name of the territory polygon containing the location (computed from the Territories tab) */
+  territory?: string;
 }
 
+/**
+ * Fields of a new location appended to the sheet.
+ * The sheet row number becomes its ID; the territory is computed on read.
+ */
+export type LocationInput = Omit<Location, 'id' | 'territory'>;
+
 /**
  * Partial update object for PATCH requests.
  * Only status, notes, and followUpDate can be updated through the API.
@@ -100,6 +115,34 @@ export interface Location {
  */
 export type LocationUpdate = Partial<Pick<Location, 'status' | 'notes' | 'followUpDate'>>;
 
+/**
+ * Rep assignment for one location, written in bulk by territory balancing.
+ * An empty `assignedTo` clears the assignment.
+ */
+export interface LocationAssignment {
+  /** Location ID (sheet row number) */
+  id: number;
+  /** Rep name */
+  assignedTo: string;
+}
+
+/**
+ * Update for one location in a bulk PATCH, identified by its row number.
+ */
+export type LocationBatchUpdate = LocationUpdate & {
+  /** Location ID (sheet row number) */
+  id: number;
+};
+
+/**
+ * Outcome of one update in a bulk PATCH.
+ * Failed updates carry the reason (e.g., the row does not exist) and leave
+ * the row unchanged.
+ */
+export type LocationBatchResult =
+  | { id: number; success: true; location: Location }
+  | { id: number; success: false; error: string };
+
 /**
  * Type guard to check if a string is a valid LocationStatus value.
  * Useful for validating data from external sources like Google Sheets.
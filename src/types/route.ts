@@ -0,0 +1,258 @@
+/**
+ * Route Type Definitions
+ *
+ * This file contains type definitions for route planning, including
+ * start points, optimized visit orders for a day's follow-ups, and
+ * day plans saved to Google Sheets.
+ */
+
+import type { Coordinates } from './google';
+import type { Location } from './location';
+
+/**
+ * Where a planned route begins.
+ * - my-location → the rep's current GPS position
+ * - home-base → the configured home base (NEXT_PUBLIC_HOME_BASE)
+ */
+export type RouteStartType = 'my-location' | 'home-base';
+
+/**
+ * Start point of a planned route.
+ */
+export interface RouteStartPoint {
+  /** Source of the start point */
+  type: RouteStartType;
+  /** Human-readable label (e.g., "My Location") */
+  label: string;
+  /** Latitude coordinate (WGS84 decimal degrees) */
+  lat: number;
+  /** Longitude coordinate (WGS84 decimal degrees) */
+  lng: number;
+}
+
+/**
+ * Result of the route optimizer.
+ * Stops are listed in visiting order, starting after the start point.
+ */
+export interface OptimizedRoute {
+  /** Where the route begins */
+  start: RouteStartPoint;
+  /** Locations in the order they should be visited */
+  stops: Location[];
+  /** Straight-line length of the route in kilometers */
+  totalDistanceKm: number;
+}
+
+/**
+ * A time window within one day, in minutes after midnight.
+ * Example: 09:00-12:30 → { startMinutes: 540, endMinutes: 750 }
+ */
+export interface TimeWindow {
+  /** Window start in minutes after midnight */
+  startMinutes: number;
+  /** Window end in minutes after midnight */
+  endMinutes: number;
+}
+
+/**
+ * Working day settings used to schedule a route.
+ */
+export interface RouteScheduleSettings {
+  /** Day start time in HH:MM format (24-hour) */
+  dayStart: string;
+  /** Day end time in HH:MM format (24-hour) */
+  dayEnd: string;
+  /** Estimated time spent at each stop, in minutes */
+  visitMinutes: number;
+}
+
+/**
+ * Why a stop could not be placed on the route.
+ * - no-coordinates → the location has not been geocoded yet
+ * - closed → the opening hours have no window on the route date
+ * - outside-day → the opening hours do not overlap the working day
+ * - does-not-fit → no visiting order fits it in with the other stops
+ */
+export type UnschedulableReason = 'no-coordinates' | 'closed' | 'outside-day' | 'does-not-fit';
+
+/**
+ * A stop that was left off the route, with the reason.
+ */
+export interface UnschedulableStop {
+  /** ID of the location that was left off */
+  locationId: number;
+  /** Why it was left off */
+  reason: UnschedulableReason;
+}
+
+/**
+ * Result of the time-window aware scheduler.
+ */
+export interface ScheduledRoute extends OptimizedRoute {
+  /** Visit start time of each stop, in minutes after midnight */
+  visitStartMinutes: number[];
+  /** Stops that could not be fitted into the day */
+  unschedulable: UnschedulableStop[];
+}
+
+/**
+ * A route plan held in page state.
+ * Only location IDs are stored so edits to a location never go stale.
+ */
+export interface RoutePlan {
+  /** Where the route begins */
+  start: RouteStartPoint;
+  /** Location IDs in visiting order */
+  stopIds: number[];
+  /** Stops left off the route by the scheduler (empty for saved routes) */
+  unschedulable: UnschedulableStop[];
+}
+
+/**
+ * Travel estimate for one leg of a route (from one point to the next).
+ */
+export interface RouteLeg {
+  /** Travel distance in kilometers */
+  distanceKm: number;
+  /** Estimated travel time in minutes */
+  durationMinutes: number;
+  /** Path to draw for this leg, including both end points */
+  path: Coordinates[];
+}
+
+/**
+ * Pluggable source of route distances and travel times.
+ * Implementations live in lib/travel-estimators.ts.
+ */
+export interface TravelEstimator {
+  /** Human-readable name of the estimate source (shown in the UI) */
+  name: string;
+  /**
+   * Estimates the legs between consecutive points.
+   * Returns one leg per consecutive pair (points.length - 1 legs).
+   */
+  estimateLegs: (points: Coordinates[]) => Promise<RouteLeg[]>;
+}
+
+/**
+ * Progress of one stop while the rep is driving a route.
+ * - pending → not reached yet
+ * - arrived → the rep is at the stop
+ * - done → the visit is finished
+ * - skipped → the rep moved on without visiting
+ */
+export type StopProgressStatus = 'pending' | 'arrived' | 'done' | 'skipped';
+
+/**
+ * Progress record for one stop of a route in progress.
+ */
+export interface StopProgress {
+  /** Current progress of the stop */
+  status: StopProgressStatus;
+  /** When the rep arrived (ISO 8601 timestamp) */
+  arrivedAt?: string;
+  /** When the stop was marked done or skipped (ISO 8601 timestamp) */
+  completedAt?: string;
+}
+
+/**
+ * A route in progress, kept in localStorage so a reload resumes mid-route.
+ */
+export interface RouteProgress {
+  /** Date the route is planned for, in YYYY-MM-DD format */
+  date: string;
+  /** The plan being driven */
+  plan: RoutePlan;
+  /** Saved route the plan belongs to (null if unsaved) */
+  savedRoute: Route | null;
+  /** Progress of each stop keyed by location ID (missing = pending) */
+  stops: Record<number, StopProgress>;
+}
+
+/**
+ * Human-readable labels for route start types.
+ */
+export const ROUTE_START_LABELS: Record<RouteStartType, string> = {
+  'my-location': 'My Location',
+  'home-base': 'Home Base',
+};
+
+/**
+ * Human-readable descriptions of why a stop could not be scheduled.
+ */
+export const UNSCHEDULABLE_REASON_LABELS: Record<UnschedulableReason, string> = {
+  'no-coordinates': 'No map position yet',
+  'closed': 'Closed on this day',
+  'outside-day': 'Open only outside working hours',
+  'does-not-fit': 'Does not fit in the working day',
+};
+
+/**
+ * All possible statuses of a saved route.
+ */
+export const ROUTE_STATUSES = ['planned', 'in progress', 'done'] as const;
+
+/**
+ * Status of a saved route.
+ * - planned → saved but not started
+ * - in progress → the rep is working through the stops
+ * - done → all stops have been handled
+ */
+export type RouteStatus = typeof ROUTE_STATUSES[number];
+
+/**
+ * A day plan saved to the "Routes" sheet tab.
+ *
+ * Data is synced with Google Sheets where each Route
+ * corresponds to one row in the routes tab.
+ */
+export interface Route {
+  /** Sheet row number in the routes tab (1-indexed) */
+  id: number;
+  /** Date the route is planned for, in YYYY-MM-DD format */
+  date: string;
+  /** Name of the rep the route belongs to */
+  rep: string;
+  /** Location IDs in visiting order */
+  locationIds: number[];
+  /** Where the route begins */
+  start: RouteStartPoint;
+  /** Current status of the route */
+  status: RouteStatus;
+}
+
+/**
+ * Fields needed to save a new route.
+ */
+export type RouteInput = Omit<Route, 'id'>;
+
+/**
+ * Partial update object for saved routes.
+ * All fields are optional to support partial updates.
+ */
+export type RouteUpdate = Partial<RouteInput>;
+
+/**
+ * Type guard to check if a string is a valid RouteStatus value.
+ *
+ * @param value - String to check
+ * @returns True if the string matches a valid RouteStatus value
+ *
+ * @example
+ * if (isValidRouteStatus('in progress')) {
+ *   // TypeScript knows this is a RouteStatus
+ * }
+ */
+export function isValidRouteStatus(value: string): value is RouteStatus {
+  return ROUTE_STATUSES.includes(value as RouteStatus);
+}
+
+/**
+ * Type guard to check if a string is a valid RouteStartType value.
+ *
+ * @param value - String to check
+ * @returns True if the string matches a valid RouteStartType value
+ */
+export function isValidRouteStartType(value: string): value is RouteStartType {
+  return value in ROUTE_START_LABELS;
+}
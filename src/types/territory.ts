@@ -0,0 +1,38 @@
+/**
+ * Territory Type Definitions
+ *
+ * This file contains type definitions for sales territories: named map
+ * polygons assigned to a rep and stored in the "Territories" sheet tab.
+ */
+
+import type { Coordinates } from './google';
+
+/**
+ * A named territory drawn on the map.
+ *
+ * Data is synced with Google Sheets where each Territory
+ * corresponds to one row in the territories tab.
+ */
+export interface Territory {
+  /** Sheet row number in the territories tab (1-indexed) */
+  id: number;
+  /** Territory name (unique, used to filter locations) */
+  name: string;
+  /** Name of the rep the territory is assigned to (empty if unassigned) */
+  rep: string;
+  /** Fill color on the map (hex, e.g., "#4285F4") */
+  color: string;
+  /** Polygon corners in drawing order (at least 3, not closed) */
+  polygon: Coordinates[];
+}
+
+/**
+ * Fields needed to save a new territory.
+ */
+export type TerritoryInput = Omit<Territory, 'id'>;
+
+/**
+ * Partial update object for territories.
+ * All fields are optional to support partial updates.
+ */
+export type TerritoryUpdate = Partial<TerritoryInput>;
@@ -0,0 +1,111 @@
+/**
+ * Visit Type Definitions
+ *
+ * This file contains type definitions for the visit log: one record per
+ * completed route stop or check-in, with the time and the rep's position,
+ * stored in the "Visits" sheet tab. Mileage reports are computed from it.
+ */
+
+/**
+ * All ways a visit can be recorded.
+ * - route → a stop marked done while driving a route
+ * - check-in → a check-in at a location
+ */
+export const VISIT_SOURCES = ['route', 'check-in'] as const;
+
+/**
+ * How a visit was recorded.
+ */
+export type VisitSource = typeof VISIT_SOURCES[number];
+
+/**
+ * A completed visit.
+ *
+ * Data is synced with Google Sheets where each Visit
+ * corresponds to one row in the visits tab.
+ */
+export interface Visit {
+  /** Sheet row number in the visits tab (1-indexed) */
+  id: number;
+  /** When the visit was completed (ISO 8601 timestamp) */
+  timestamp: string;
+  /** Rep's local date of the visit in YYYY-MM-DD format */
+  date: string;
+  /** Name of the rep who made the visit */
+  rep: string;
+  /** Visited location ID (sheet row number) */
+  locationId: number;
+  /** Rep's latitude when the visit was recorded */
+  lat: number;
+  /** Rep's longitude when the visit was recorded */
+  lng: number;
+  /** How the visit was recorded */
+  source: VisitSource;
+  /** Saved route the visit belongs to (if any) */
+  routeId?: number;
+  /** Rep's distance from the location in meters (when the location has coordinates) */
+  distanceMeters?: number;
+  /** Whether the rep was within the check-in radius; unverified visits are left out of mileage */
+  verified: boolean;
+}
+
+/**
+ * Fields needed to record a new visit.
+ */
+export type VisitInput = Omit<Visit, 'id'>;
+
+/**
+ * Driven distance for one rep on one day.
+ */
+export interface MileageDay {
+  /** Date in YYYY-MM-DD format */
+  date: string;
+  /** Number of visits that day */
+  visitCount: number;
+  /** Distance between consecutive visits in kilometers */
+  distanceKm: number;
+  /** Reimbursement for the distance (null if no rate is configured) */
+  reimbursement: number | null;
+}
+
+/**
+ * Driven distance for one rep over the report period.
+ */
+export interface RepMileage {
+  /** Rep name */
+  rep: string;
+  /** Number of visits in the period */
+  visitCount: number;
+  /** Total distance in kilometers */
+  totalKm: number;
+  /** Total reimbursement (null if no rate is configured) */
+  reimbursement: number | null;
+  /** Per-day breakdown, oldest first */
+  days: MileageDay[];
+}
+
+/**
+ * Mileage report for a date range.
+ */
+export interface MileageReport {
+  /** First date of the period (YYYY-MM-DD, inclusive) */
+  from: string;
+  /** Last date of the period (YYYY-MM-DD, inclusive) */
+  to: string;
+  /** How distances were estimated (e.g., "Straight-line estimate") */
+  method: string;
+  /** Reimbursement rate per kilometer (null if not configured) */
+  ratePerKm: number | null;
+  /** Per-rep totals, sorted by rep name */
+  reps: RepMileage[];
+}
+
+/**
+ * Type guard to check if a string is a valid VisitSource value.
+ *
+ * @param value - String to check
+ * @returns True if the string is a valid visit source
+ */
+export function isValidVisitSource(value: string): value is VisitSource {
+  return VISIT_SOURCES.includes(value as VisitSource);
+}